@@ -19,6 +19,10 @@ export default [
         IDBVersionChangeEvent: 'readonly',
         IDBOpenDBRequest: 'readonly',
         AbortController: 'readonly',
+        AbortSignal: 'readonly',
+        DOMException: 'readonly',
+        Event: 'readonly',
+        MessageEvent: 'readonly',
         setTimeout: 'readonly',
         clearTimeout: 'readonly',
         WebAssembly: 'readonly',
@@ -6,6 +6,7 @@
  * Secure password and passphrase generation from the command line
  */
 
+import { createInterface } from 'node:readline/promises';
 import { Command } from 'commander';
 import chalk, { ChalkInstance } from 'chalk';
 import clipboardy from 'clipboardy';
@@ -13,10 +14,28 @@ import ora from 'ora';
 import {
   generatePassword,
   generatePassphrase,
+  loadPassphraseWordlist,
+  passphraseFromDiceRolls,
+  getDicePerWord,
+  PASSPHRASE_WORD_COUNT,
   analyzePasswordStrength,
   quickStrengthCheck,
   checkPasswordBreach,
+  isLocaleAvailable,
+  HASH_ALGORITHMS,
+  translate,
+  type GeneratedPassword,
+  type PasswordGeneratorOptions,
   type QuickStrengthResult,
+  type PassphraseOptions,
+  type PassphraseLanguage,
+  type DiceRollOptions,
+  type WordlistName,
+  type ValidationContext,
+  type HashAlgorithm,
+  type CrackTimeEstimate,
+  type MessageId,
+  type MessageParams,
 } from 'password-suite';
 
 const program = new Command();
@@ -42,6 +61,8 @@ program
   .option('--no-numbers', 'Exclude numbers')
   .option('--no-symbols', 'Exclude symbols')
   .option('--no-ambiguous', 'Exclude ambiguous characters (l, 1, O, 0, etc.)')
+  .option('--symbol-set <set>', 'Symbols: default, shell-safe, url-safe, xml-safe, json-safe, or the characters to use')
+  .option('-x, --exclude-chars <chars>', 'Characters that must never appear')
   .option('--no-copy', 'Do not copy to clipboard')
   .option('--json', 'Output as JSON')
   .option('-q, --quiet', 'Minimal output (password only)')
@@ -60,17 +81,25 @@ program
         process.exit(1);
       }
 
+      const generatorOptions: PasswordGeneratorOptions = {
+        length,
+        includeUppercase: options.uppercase !== false,
+        includeLowercase: options.lowercase !== false,
+        includeNumbers: options.numbers !== false,
+        includeSymbols: options.symbols !== false,
+        excludeAmbiguous: options.ambiguous === false,
+      };
+      if (options.symbolSet) {
+        generatorOptions.symbolSet = options.symbolSet;
+      }
+      if (options.excludeChars) {
+        generatorOptions.excludeChars = options.excludeChars;
+      }
+
       const results = [];
 
       for (let i = 0; i < count; i++) {
-        const result = generatePassword({
-          length,
-          includeUppercase: options.uppercase !== false,
-          includeLowercase: options.lowercase !== false,
-          includeNumbers: options.numbers !== false,
-          includeSymbols: options.symbols !== false,
-          excludeAmbiguous: options.ambiguous === false,
-        });
+        const result = generatePassword(generatorOptions);
 
         results.push(result);
 
@@ -131,28 +160,91 @@ program
   .alias('phrase')
   .alias('p')
   .description('Generate a memorable passphrase')
-  .option('-w, --words <number>', 'Number of words (3-10)', '5')
+  .option('-w, --words <number>', `Number of words (${PASSPHRASE_WORD_COUNT.min}-${PASSPHRASE_WORD_COUNT.max})`, '5')
+  .option('-e, --entropy <bits>', 'Target entropy in bits (chooses the number of words)')
   .option('-s, --separator <type>', 'Separator: dash, space, none', 'dash')
   .option('-c, --capitalize <type>', 'Capitalize: none, first, all, random', 'first')
   .option('-n, --number', 'Include a random number')
+  .option('--wordlist <name>', 'Wordlist: basic, eff-large, eff-short-1, eff-short-2 (all but basic work with --dice)')
+  .option('--language <code>', 'Language: en, de, es, fr, it, pt, nl, ja-romaji [default: en]')
+  .option('--dice', 'Enter physical dice rolls instead of using the system RNG')
   .option('--no-copy', 'Do not copy to clipboard')
   .option('--json', 'Output as JSON')
   .option('-q, --quiet', 'Minimal output (passphrase only)')
   .action(async (options) => {
     try {
       const wordCount = parseInt(options.words, 10);
+      const { min, max } = PASSPHRASE_WORD_COUNT;
 
-      if (isNaN(wordCount) || wordCount < 3 || wordCount > 10) {
-        console.error(chalk.red('Error: Word count must be between 3 and 10'));
+      if (isNaN(wordCount) || wordCount < min || wordCount > max) {
+        console.error(chalk.red(`Error: Word count must be between ${min} and ${max}`));
         process.exit(1);
       }
 
-      const result = generatePassphrase({
-        wordCount,
-        separator: options.separator as 'dash' | 'space' | 'symbol' | 'none',
-        capitalize: options.capitalize as 'none' | 'first' | 'all' | 'random',
-        includeNumbers: options.number === true,
-      });
+      const targetEntropyBits = options.entropy === undefined ? undefined : parseFloat(options.entropy);
+      if (targetEntropyBits !== undefined && (isNaN(targetEntropyBits) || targetEntropyBits <= 0)) {
+        console.error(chalk.red('Error: Target entropy must be a positive number of bits'));
+        process.exit(1);
+      }
+
+      if (options.wordlist !== undefined && options.language !== undefined) {
+        console.error(chalk.red('Error: --language and --wordlist cannot be combined; the wordlist sets the language'));
+        process.exit(1);
+      }
+
+      let result: GeneratedPassword;
+      let wordsUsed = wordCount;
+
+      if (options.dice) {
+        if (options.number || options.separator === 'symbol' || options.capitalize === 'random') {
+          console.error(chalk.red('Error: --dice does not support --number, symbol separators or random capitalization'));
+          process.exit(1);
+        }
+        if (targetEntropyBits !== undefined) {
+          console.error(chalk.red('Error: --dice does not support --entropy; choose the number of words with --words'));
+          process.exit(1);
+        }
+
+        const diceOptions: DiceRollOptions = options.wordlist
+          ? { wordlist: options.wordlist as WordlistName }
+          : { language: (options.language ?? 'en') as PassphraseLanguage };
+        await loadPassphraseWordlist(diceOptions);
+
+        // Check the list before prompting: five dice per word for the EFF
+        // large list, four for 1296-word lists, and none fit `basic`
+        let digits: number;
+        try {
+          digits = getDicePerWord(diceOptions);
+        } catch {
+          console.error(chalk.red(
+            'Error: --dice needs a wordlist whose size is a power of 6: eff-large, eff-short-1, eff-short-2 ' +
+            'or a --language list (basic has 440 words)'
+          ));
+          process.exit(1);
+        }
+
+        const rolls = await promptDiceRolls(wordCount, digits);
+        result = passphraseFromDiceRolls(rolls, {
+          ...diceOptions,
+          separator: options.separator as 'dash' | 'space' | 'none',
+          capitalize: options.capitalize as 'none' | 'first' | 'all',
+        });
+      } else {
+        const passphraseOptions: PassphraseOptions = {
+          wordCount,
+          separator: options.separator as 'dash' | 'space' | 'symbol' | 'none',
+          capitalize: options.capitalize as 'none' | 'first' | 'all' | 'random',
+          includeNumbers: options.number === true,
+          ...(options.language ? { language: options.language as PassphraseLanguage } : {}),
+          ...(options.wordlist ? { wordlist: options.wordlist as WordlistName } : {}),
+          ...(targetEntropyBits !== undefined ? { targetEntropyBits } : {}),
+        };
+        await loadPassphraseWordlist(passphraseOptions);
+
+        const passphrase = generatePassphrase(passphraseOptions);
+        wordsUsed = passphrase.slots.filter(({ slot }) => slot !== 'separator' && slot !== 'digits').length;
+        result = passphrase;
+      }
 
       if (!options.quiet && !options.json) {
         console.log();
@@ -163,7 +255,7 @@ program
         const strengthColor = getStrengthColor(result.strength);
         console.log(chalk.gray('Strength:'), strengthColor(result.strength));
         console.log(chalk.gray('Entropy: '), chalk.white(`${result.entropy.toFixed(1)} bits`));
-        console.log(chalk.gray('Words:   '), chalk.white(`${wordCount} words`));
+        console.log(chalk.gray('Words:   '), chalk.white(`${wordsUsed} words`));
       } else if (options.quiet) {
         console.log(result.password);
       }
@@ -209,12 +301,40 @@ program
   .alias('a')
   .description('Analyze password strength')
   .argument('<password>', 'Password to analyze')
+  .option('-u, --user-input <words...>', 'Words an attacker could guess (product name, site, ...)')
+  .option('--username <name>', 'Username to penalize in the password')
+  .option('--email <address>', 'Email address to penalize in the password')
+  .option('--first-name <name>', 'First name to penalize in the password')
+  .option('--last-name <name>', 'Last name to penalize in the password')
+  .option('--hash <algorithm>', `Also estimate an offline attack on this hash: ${HASH_ALGORITHMS.join(', ')}`)
+  .option('-l, --locale <locale>', 'Language of the report: en, de, es, fr, ja (default: from LANG)')
   .option('--json', 'Output as JSON')
   .action(async (password: string, options) => {
     try {
+      if (options.locale && !isLocaleAvailable(options.locale as string)) {
+        throw new Error(`Unknown locale: "${options.locale as string}"`);
+      }
+      if (options.hash && !HASH_ALGORITHMS.includes(options.hash as HashAlgorithm)) {
+        console.error(chalk.red(`Error: Unknown hash algorithm "${options.hash as string}"; choose one of ${HASH_ALGORITHMS.join(', ')}`));
+        process.exit(1);
+      }
+
+      const locale = (options.locale as string | undefined) ?? getEnvironmentLocale();
+      const t = (id: MessageId, params: MessageParams = {}) => translate(id, params, locale);
       const spinner = ora('Analyzing password strength...').start();
-      
-      const result = await analyzePasswordStrength(password);
+
+      const context: ValidationContext = {
+        ...(options.username ? { username: options.username as string } : {}),
+        ...(options.email ? { email: options.email as string } : {}),
+        ...(options.firstName ? { firstName: options.firstName as string } : {}),
+        ...(options.lastName ? { lastName: options.lastName as string } : {}),
+      };
+      const result = await analyzePasswordStrength(password, {
+        ...(options.userInput ? { userInputs: options.userInput as string[] } : {}),
+        ...(options.hash ? { hashAlgorithm: options.hash as HashAlgorithm } : {}),
+        locale,
+        context,
+      });
       
       spinner.stop();
 
@@ -224,23 +344,46 @@ program
       }
 
       console.log();
-      console.log(chalk.bold.cyan('Password Strength Analysis'));
+      console.log(chalk.bold.cyan(t('report.title')));
       console.log();
       
+      // Labels are padded to the longest one, which differs per locale
       const strengthColor = getStrengthColor(result.strength);
-      console.log(chalk.gray('Overall Score:'), strengthColor(`${result.score}/100`));
-      console.log(chalk.gray('Strength:     '), strengthColor(result.strength));
-      console.log(chalk.gray('Entropy:      '), chalk.white(`${result.entropy} bits`));
-      console.log(chalk.gray('Crack Time:   '), chalk.white(result.crackTime));
+      const summary: [string, string][] = [
+        [t('report.score'), strengthColor(`${result.score}/100`)],
+        [t('report.strength'), strengthColor(t(`report.level.${result.strength}`))],
+        [t('report.entropy'), chalk.white(t('report.entropyBits', { bits: result.entropy }))],
+        [t('report.crackTime'), chalk.white(result.crackTime)],
+      ];
+      const summaryWidth = Math.max(...summary.map(([label]) => label.length)) + 1;
+      for (const [label, value] of summary) {
+        console.log(chalk.gray(`${label}:`.padEnd(summaryWidth)), value);
+      }
+
+      console.log();
+      console.log(chalk.cyan(`${t('report.crackTimes')}:`));
+      const scenarios: [string, CrackTimeEstimate | undefined][] = [
+        [t('report.onlineThrottled'), result.crackTimes.onlineThrottled],
+        [t('report.onlineUnthrottled'), result.crackTimes.onlineUnthrottled],
+        [t('report.offlineSlowHash'), result.crackTimes.offlineSlowHash],
+        [t('report.offlineFastHash'), result.crackTimes.offlineFastHash],
+        [t('report.offlineHash', { algorithm: options.hash ?? '' }), result.crackTimes.custom],
+      ];
+      const scenarioWidth = Math.max(...scenarios.map(([label]) => label.length)) + 1;
+      for (const [label, estimate] of scenarios) {
+        if (estimate) {
+          console.log(chalk.gray(`  ${label.padEnd(scenarioWidth)}`), chalk.white(estimate.display));
+        }
+      }
       
       if (result.feedback.warning) {
         console.log();
-        console.log(chalk.yellow('⚠ Warning:'), result.feedback.warning);
+        console.log(chalk.yellow(`⚠ ${t('report.warning')}:`), result.feedback.warning);
       }
 
       if (result.feedback.suggestions.length > 0) {
         console.log();
-        console.log(chalk.cyan('💡 Suggestions:'));
+        console.log(chalk.cyan(`💡 ${t('report.suggestions')}:`));
         result.feedback.suggestions.forEach(suggestion => {
           console.log(chalk.gray('  •'), suggestion);
         });
@@ -248,7 +391,7 @@ program
 
       if (result.weaknesses.length > 0) {
         console.log();
-        console.log(chalk.red('🔍 Weaknesses:'));
+        console.log(chalk.red(`🔍 ${t('report.weaknesses')}:`));
         result.weaknesses.forEach(weakness => {
           console.log(chalk.gray('  •'), weakness);
         });
@@ -364,6 +507,32 @@ program
     console.log(chalk.gray('Use --help to see available commands\n'));
   });
 
+/**
+ * Prompt for one dice roll per word, re-asking until each roll is valid
+ * Prompts go to stderr so --quiet and --json output stays clean.
+ */
+async function promptDiceRolls(count: number, digits: number): Promise<string[]> {
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  const pattern = new RegExp(`^[1-6]{${digits}}$`);
+  const rolls: string[] = [];
+
+  try {
+    console.error(chalk.gray(`Roll ${digits} dice for each word and enter the faces in order (e.g. ${'3'.repeat(digits)}).`));
+    while (rolls.length < count) {
+      const roll = (await rl.question(chalk.cyan(`Roll ${rolls.length + 1}/${count}: `))).trim();
+      if (pattern.test(roll)) {
+        rolls.push(roll);
+      } else {
+        console.error(chalk.yellow(`  Enter exactly ${digits} digits from 1 to 6`));
+      }
+    }
+  } finally {
+    rl.close();
+  }
+
+  return rolls;
+}
+
 /**
  * Helper function to get color for strength level
  */
@@ -382,6 +551,17 @@ function getStrengthColor(strength: string): ChalkInstance {
   }
 }
 
+/**
+ * Locale from the environment (LC_ALL, LC_MESSAGES, LANG), e.g.
+ * "de_DE.UTF-8" → "de-DE"; English if unset or not available
+ */
+function getEnvironmentLocale(): string {
+  const value = process.env.LC_ALL || process.env.LC_MESSAGES || process.env.LANG || '';
+  const locale = value.split('.')[0]?.replace(/_/g, '-') ?? '';
+
+  return locale && locale !== 'C' && locale !== 'POSIX' && isLocaleAvailable(locale) ? locale : 'en';
+}
+
 function getQuickFeedback(result: QuickStrengthResult): string {
   if (result.score < 30) {
     return 'Too short or predictable; add length and variety.';
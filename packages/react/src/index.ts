@@ -33,6 +33,7 @@ export type {
   PasswordGeneratorOptions,
   GeneratedPassword,
   PassphraseOptions,
+  GeneratedPassphrase,
   PasswordStrengthResult,
   BreachResult,
 } from 'password-suite';
@@ -26,8 +26,10 @@
 import { useState, useCallback } from 'react';
 import {
   generatePassphrase,
+  loadPassphraseWordlist,
+  PASSPHRASE_WORD_COUNT,
   type PassphraseOptions,
-  type GeneratedPassword,
+  type GeneratedPassphrase,
 } from 'password-suite';
 
 /**
@@ -38,19 +40,24 @@ export interface UsePassphraseGeneratorResult {
   passphrase: string;
   /** Loading state during generation */
   loading: boolean;
-  /** Full result object from last generation */
-  result: GeneratedPassword | null;
+  /** Full result object from last generation, including per-word entropy */
+  result: GeneratedPassphrase | null;
   /** Generate new passphrase with optional override options */
-  generate: (options?: Partial<PassphraseOptions>) => Promise<GeneratedPassword>;
+  generate: (options?: Partial<PassphraseOptions>) => Promise<GeneratedPassphrase>;
   /** Clear current passphrase */
   clear: () => void;
+  /** Allowed word counts, e.g. for the bounds of a word count slider */
+  wordCountBounds: typeof PASSPHRASE_WORD_COUNT;
 }
 
 /**
  * React hook for passphrase generation
  * 
  * Manages passphrase generation state including loading indicators.
- * Uses Diceware methodology with EFF wordlist.
+ * Uses Diceware methodology; built-in EFF and localized wordlists are
+ * loaded on first use. Pass `structure: 'grammar'` for sentence-like
+ * phrases ("brave-otter-juggles-seven-lanterns"); `result.slots` then
+ * shows the entropy of each word.
  * 
  * @param initialOptions - Default options for passphrase generation
  * @returns Hook state and actions
@@ -61,7 +68,8 @@ export interface UsePassphraseGeneratorResult {
  *   wordCount: 6,
  *   separator: 'space',
  *   capitalize: 'first',
- *   includeNumbers: true
+ *   includeNumbers: true,
+ *   wordlist: 'eff-large'
  * });
  * 
  * // Generate with default options
@@ -69,6 +77,12 @@ export interface UsePassphraseGeneratorResult {
  * 
  * // Override options
  * await generate({ wordCount: 8, separator: 'dash' });
+ *
+ * // Grammar-structured phrases
+ * const memorable = usePassphraseGenerator({ wordCount: 5, structure: 'grammar' });
+ *
+ * // Fewest words for a target entropy
+ * await generate({ targetEntropyBits: 80 });
  * ```
  */
 export function usePassphraseGenerator(
@@ -76,12 +90,12 @@ export function usePassphraseGenerator(
 ): UsePassphraseGeneratorResult {
   const [passphrase, setPassphrase] = useState('');
   const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<GeneratedPassword | null>(null);
+  const [result, setResult] = useState<GeneratedPassphrase | null>(null);
 
   const generate = useCallback(
     async (
       overrideOptions?: Partial<PassphraseOptions>
-    ): Promise<GeneratedPassword> => {
+    ): Promise<GeneratedPassphrase> => {
       setLoading(true);
       try {
         const options: PassphraseOptions = {
@@ -93,6 +107,8 @@ export function usePassphraseGenerator(
           ...overrideOptions,
         };
 
+        await loadPassphraseWordlist(options);
+
         const generatedResult = generatePassphrase(options);
         setPassphrase(generatedResult.password);
         setResult(generatedResult);
@@ -115,5 +131,6 @@ export function usePassphraseGenerator(
     result,
     generate,
     clear,
+    wordCountBounds: PASSPHRASE_WORD_COUNT,
   };
 }
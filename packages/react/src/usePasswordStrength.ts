@@ -1,7 +1,8 @@
 /**
  * React Hook: usePasswordStrength
  * 
- * Provides real-time password strength analysis with debouncing
+ * Provides real-time password strength analysis: a quick estimate on
+ * every keystroke, the full analysis once typing pauses
  * 
  * @example
  * ```tsx
@@ -33,29 +34,53 @@
 
 import { useState, useEffect, useRef } from 'react';
 import {
-  analyzePasswordStrength,
-  preloadZxcvbn,
-  type PasswordStrengthResult
+  createIncrementalAnalyzer,
+  preloadStrengthEstimator,
+  type IncrementalAnalyzer,
+  type PasswordStrengthResult,
+  type QuickStrengthResult,
+  type StrengthAnalysisOptions,
+  type StrengthEstimator,
+  type StrengthWorker,
+  type ValidationContext
 } from 'password-suite';
 
 /**
  * Options for usePasswordStrength hook
  */
 export interface UsePasswordStrengthOptions {
-  /** Debounce delay in milliseconds (default: 300) */
+  /** Delay of the full analysis in milliseconds; the quick estimate is immediate (default: 300) */
   debounce?: number;
   /** Enable analysis (default: true) */
   enabled?: boolean;
-  /** Preload zxcvbn on mount (default: true) */
+  /** Preload the strength estimator on mount (default: true, ignored with a worker) */
   preload?: boolean;
+  /** Words an attacker could guess, e.g. the product or site name */
+  userInputs?: string[];
+  /** User details (username, email, names) to penalize in the password */
+  context?: ValidationContext;
+  /** Locale for feedback and weaknesses, e.g. the app's UI language */
+  locale?: string;
+  /** Analyze in a worker from createStrengthWorker, one per field */
+  worker?: StrengthWorker;
+  /**
+   * Estimator for this field (default: the one set with setStrengthEstimator).
+   * Cannot be combined with `worker`: set the estimator in the worker script.
+   */
+  estimator?: StrengthEstimator;
 }
 
 /**
  * Result from usePasswordStrength hook
  */
 export interface UsePasswordStrengthResult {
-  /** Password strength analysis result */
+  /**
+   * Password strength analysis result. While loading, an earlier result:
+   * the one for the typed prefix when characters were appended.
+   */
   strength: PasswordStrengthResult | null;
+  /** Quick estimate of the current password, available right away */
+  quick: QuickStrengthResult | null;
   /** Loading state during analysis */
   loading: boolean;
   /** Error during analysis if any */
@@ -65,8 +90,11 @@ export interface UsePasswordStrengthResult {
 /**
  * React hook for password strength analysis
  * 
- * Automatically analyzes password strength with configurable debouncing.
- * Lazy-loads zxcvbn library on first use to minimize bundle size.
+ * Automatically analyzes password strength with createIncrementalAnalyzer:
+ * `quick` updates on every keystroke, `strength` after the debounce delay
+ * (at once for passwords analyzed before). Lazy-loads zxcvbn library (or
+ * the strength estimator set with setStrengthEstimator) on first use to
+ * minimize bundle size.
  * 
  * @param password - Password to analyze
  * @param options - Configuration options
@@ -102,6 +130,28 @@ export interface UsePasswordStrengthResult {
  *   preload: false
  * });
  * ```
+ *
+ * @example
+ * ```tsx
+ * // Penalize the user's details and the product name
+ * const { strength } = usePasswordStrength(password, {
+ *   userInputs: ['acme'],
+ *   context: { username, email }
+ * });
+ *
+ * // Feedback in the user's language
+ * const { strength } = usePasswordStrength(password, { locale: i18n.language });
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Keep typing smooth on slow devices by analyzing off the main thread
+ * const strengthWorker = createStrengthWorker({
+ *   worker: () => new Worker(new URL('./strength.worker.ts', import.meta.url), { type: 'module' })
+ * });
+ *
+ * const { strength } = usePasswordStrength(password, { worker: strengthWorker });
+ * ```
  */
 export function usePasswordStrength(
   password: string,
@@ -111,74 +161,96 @@ export function usePasswordStrength(
     debounce = 300,
     enabled = true,
     preload = true,
+    userInputs,
+    context,
+    locale,
+    worker,
+    estimator,
   } = options;
 
+  // An estimator holds functions, which cannot be posted to a worker
+  if (worker && estimator) {
+    throw new Error('usePasswordStrength: estimator cannot be combined with worker; set the estimator in the worker script');
+  }
+
   const [strength, setStrength] = useState<PasswordStrengthResult | null>(null);
+  const [quick, setQuick] = useState<QuickStrengthResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
-  
-  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const cancelledRef = useRef(false);
 
-  // Preload zxcvbn on mount
+  const analyzerRef = useRef<IncrementalAnalyzer | null>(null);
+
+  // Inline arrays and objects are new on every render, so re-analyze only
+  // when their contents change. The estimator is compared by identity.
+  const analysisOptionsRef = useRef<StrengthAnalysisOptions>({});
+  analysisOptionsRef.current = {
+    ...(userInputs ? { userInputs } : {}),
+    ...(context ? { context } : {}),
+    ...(locale ? { locale } : {}),
+    ...(estimator ? { estimator } : {}),
+  };
+  const analysisKey = JSON.stringify([userInputs ?? [], context ?? {}, locale ?? '']);
+
+  // Preload the estimator on mount, unless the worker loads it
   useEffect(() => {
-    if (preload) {
-      preloadZxcvbn().catch((err: unknown) => {
-        console.warn('Failed to preload zxcvbn:', err);
+    if (preload && !worker) {
+      (estimator ? estimator.load() : preloadStrengthEstimator()).catch((err: unknown) => {
+        console.warn('Failed to preload the strength estimator:', err);
       });
     }
-  }, [preload]);
+  }, [preload, worker, estimator]);
 
+  // One analyzer per set of options, so its cache stays valid
   useEffect(() => {
-    // Reset cancelled flag
-    cancelledRef.current = false;
+    const analyzer = createIncrementalAnalyzer({
+      ...analysisOptionsRef.current,
+      delay: debounce,
+      ...(worker ? { worker } : {}),
+    });
+    analyzerRef.current = analyzer;
 
+    analyzer.subscribe((update) => {
+      setQuick(update.quick);
+      if (update.phase === 'quick') {
+        if (update.stale) {
+          setStrength(update.full);
+        }
+        setLoading(true);
+        setError(null);
+      } else if (update.phase === 'full') {
+        setStrength(update.full);
+        setLoading(false);
+        setError(null);
+      } else {
+        setError(update.error);
+        setStrength(null);
+        setLoading(false);
+      }
+    });
+
+    return () => {
+      analyzer.dispose();
+      analyzerRef.current = null;
+    };
+  }, [debounce, analysisKey, worker, estimator]);
+
+  useEffect(() => {
     // Clear strength if password is empty or disabled
     if (!password || !enabled) {
+      analyzerRef.current?.cancel();
       setStrength(null);
+      setQuick(null);
       setLoading(false);
       setError(null);
       return;
     }
 
-    // Clear previous timeout
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-    }
-
-    setLoading(true);
-    setError(null);
-
-    // Debounce analysis
-    timeoutRef.current = setTimeout(() => {
-      analyzePasswordStrength(password)
-        .then((result) => {
-          if (!cancelledRef.current) {
-            setStrength(result);
-            setLoading(false);
-          }
-        })
-        .catch((err: unknown) => {
-          if (!cancelledRef.current) {
-            setError(err instanceof Error ? err : new Error(String(err)));
-            setStrength(null);
-            setLoading(false);
-          }
-        });
-    }, debounce);
-
-    // Cleanup
-    return () => {
-      cancelledRef.current = true;
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-        timeoutRef.current = null;
-      }
-    };
-  }, [password, enabled, debounce]);
+    analyzerRef.current?.update(password);
+  }, [password, enabled, debounce, analysisKey, worker, estimator]);
 
   return {
     strength,
+    quick,
     loading,
     error,
   };
@@ -8,6 +8,8 @@
  * <password-generator 
  *   length="20" 
  *   include-symbols="true"
+ *   symbol-set="url-safe"
+ *   exclude-chars="~"
  *   auto-generate="false">
  * </password-generator>
  * ```
@@ -367,6 +369,8 @@ export class PasswordGeneratorElement extends HTMLElement {
       'include-lowercase',
       'include-numbers',
       'include-symbols',
+      'symbol-set',
+      'exclude-chars',
       'auto-generate',
     ];
   }
@@ -476,7 +480,7 @@ export class PasswordGeneratorElement extends HTMLElement {
   }
 
   private getOptions(): PasswordGeneratorOptions {
-    return {
+    const options: PasswordGeneratorOptions = {
       length: parseInt(this.lengthSlider.value, 10),
       includeUppercase: this.uppercaseCheckbox.checked,
       includeLowercase: this.lowercaseCheckbox.checked,
@@ -484,6 +488,17 @@ export class PasswordGeneratorElement extends HTMLElement {
       includeSymbols: this.symbolsCheckbox.checked,
       excludeAmbiguous: false,
     };
+
+    const symbolSet = this.getAttribute('symbol-set');
+    if (symbolSet) {
+      options.symbolSet = symbolSet;
+    }
+    const excludeChars = this.getAttribute('exclude-chars');
+    if (excludeChars) {
+      options.excludeChars = excludeChars;
+    }
+
+    return options;
   }
 
   private announce(message: string): void {
@@ -0,0 +1,264 @@
+/**
+ * Custom Dictionaries
+ * Company- or region-specific words (product names, office locations,
+ * local sports teams) that zxcvbn's built-in dictionaries do not know.
+ * Registered dictionaries feed both {@link analyzePasswordStrength} and
+ * {@link quickStrengthCheck}.
+ *
+ * Matching is case-insensitive and sees through leetspeak (`4cm3` matches
+ * `acme`). Large lists can be registered as a loader, which is only
+ * called the first time a dictionary is needed.
+ *
+ * @module analyzer/dictionaries
+ */
+
+import { L33T_TABLE } from './patterns';
+
+/**
+ * Words of a dictionary, or a loader that fetches them (e.g. a dynamic
+ * import), called when the dictionary is first needed
+ */
+export type DictionarySource = readonly string[] | (() => Promise<readonly string[]>);
+
+/**
+ * A dictionary word found in a password
+ */
+export interface DictionaryMatch {
+  /** Name the dictionary was registered under */
+  dictionary: string;
+  /** Dictionary word, lowercased */
+  word: string;
+  /** Matched substring of the password */
+  token: string;
+  /** Index of the first character */
+  start: number;
+  /** Index after the last character */
+  end: number;
+  /** Position of the word in its list (1 = first) */
+  rank: number;
+  /** Whether leetspeak substitutions were undone to find the word */
+  l33t: boolean;
+  /** Guesses to find the token: weighted rank, doubled for leetspeak */
+  guesses: number;
+}
+
+/**
+ * A registered dictionary
+ */
+interface DictionaryEntry {
+  rankWeight: number;
+  /** Word to rank, once loaded */
+  ranks: Map<string, number> | null;
+  /** Every prefix of every word (including the words), once loaded */
+  prefixes: Set<string>;
+  loader: (() => Promise<readonly string[]>) | null;
+  pending: Promise<void> | null;
+}
+
+/**
+ * Shortest word worth matching; shorter ones would match almost anything
+ */
+const MIN_WORD_LENGTH = 3;
+
+/**
+ * Registered dictionaries by name
+ */
+const dictionaries = new Map<string, DictionaryEntry>();
+
+/**
+ * Build the word-to-rank table of a list (first occurrence wins)
+ */
+function rankWords(entry: DictionaryEntry, words: readonly string[]): void {
+  const ranks = new Map<string, number>();
+  const prefixes = new Set<string>();
+
+  words.forEach((word, index) => {
+    const normalized = word.trim().toLowerCase();
+    if (normalized.length >= MIN_WORD_LENGTH && !ranks.has(normalized)) {
+      ranks.set(normalized, index + 1);
+      for (let length = 1; length <= normalized.length; length++) {
+        prefixes.add(normalized.slice(0, length));
+      }
+    }
+  });
+
+  entry.ranks = ranks;
+  entry.prefixes = prefixes;
+}
+
+/**
+ * Register a dictionary of words to penalize
+ *
+ * Registering a name again replaces the earlier dictionary.
+ *
+ * @param name - Dictionary name, reported in matches
+ * @param words - The words, most guessable first, or a loader for them
+ * @param rankWeight - Multiplier for each word's rank (its position in
+ *   the list); below 1 treats the words as more guessable, above 1 as less
+ *   (default: 1)
+ * @throws Error if the name is empty or the weight is not positive
+ *
+ * @example
+ * ```typescript
+ * registerDictionary('company', ['acme', 'roadrunner', 'wile'], 0.5);
+ *
+ * // Large list, fetched on first analysis
+ * registerDictionary('teams', () => import('./teams').then(module => module.TEAMS));
+ *
+ * const result = await analyzePasswordStrength('R0adrunner!2024');
+ * result.issues; // [..., { code: 'DICTIONARY_WORD', params: { words: ['roadrunner'], ... } }]
+ * ```
+ */
+export function registerDictionary(name: string, words: DictionarySource, rankWeight = 1): void {
+  if (!name.trim()) {
+    throw new Error('Dictionary name must be a non-empty string');
+  }
+  if (!Number.isFinite(rankWeight) || rankWeight <= 0) {
+    throw new Error('rankWeight must be a positive number');
+  }
+
+  const entry: DictionaryEntry = { rankWeight, ranks: null, prefixes: new Set(), loader: null, pending: null };
+  if (typeof words === 'function') {
+    entry.loader = words;
+  } else {
+    rankWords(entry, words);
+  }
+  dictionaries.set(name, entry);
+}
+
+/**
+ * Remove a registered dictionary
+ *
+ * @param name - Dictionary name
+ * @returns True if a dictionary was removed
+ */
+export function unregisterDictionary(name: string): boolean {
+  return dictionaries.delete(name);
+}
+
+/**
+ * List the registered dictionaries
+ *
+ * @returns Dictionary names, in registration order
+ */
+export function getRegisteredDictionaries(): string[] {
+  return [...dictionaries.keys()];
+}
+
+/**
+ * Load every registered dictionary that has not been loaded yet
+ *
+ * {@link analyzePasswordStrength} calls this itself. Call it before
+ * {@link quickStrengthCheck}, which is synchronous and only sees loaded
+ * dictionaries.
+ *
+ * @throws Error if a loader fails
+ */
+export async function loadDictionaries(): Promise<void> {
+  await Promise.all(
+    [...dictionaries.values()].map(entry => {
+      if (entry.ranks || !entry.loader) {
+        return undefined;
+      }
+
+      if (!entry.pending) {
+        // A failed load is retried on the next call
+        entry.pending = entry.loader().then(
+          words => {
+            rankWords(entry, words);
+            entry.pending = null;
+          },
+          (error: unknown) => {
+            entry.pending = null;
+            throw error;
+          }
+        );
+      }
+      return entry.pending;
+    })
+  );
+}
+
+/**
+ * Find the words of one dictionary that start at a position, reading each
+ * character as typed or as any of its leetspeak substitutions
+ */
+function matchFrom(
+  entry: DictionaryEntry,
+  ranks: Map<string, number>,
+  lower: string,
+  start: number
+): { word: string; end: number; rank: number; l33t: boolean }[] {
+  const found: { word: string; end: number; rank: number; l33t: boolean }[] = [];
+  const stack: { word: string; end: number; l33t: boolean }[] = [{ word: '', end: start, l33t: false }];
+
+  for (let state = stack.pop(); state; state = stack.pop()) {
+    const rank = ranks.get(state.word);
+    if (rank !== undefined) {
+      found.push({ ...state, rank });
+    }
+
+    const char = lower[state.end];
+    if (char === undefined) {
+      continue;
+    }
+    for (const reading of [char, ...(L33T_TABLE[char] ?? [])]) {
+      const word = state.word + reading;
+      if (entry.prefixes.has(word)) {
+        stack.push({ word, end: state.end + 1, l33t: state.l33t || reading !== char });
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Find the words of the loaded dictionaries in a password
+ *
+ * @param password - Password to search
+ * @returns Matches sorted by position, at most one per dictionary and
+ *   span (a literal match wins over a leetspeak one)
+ *
+ * @example
+ * ```typescript
+ * registerDictionary('company', ['acme']);
+ * findDictionaryMatches('4cme-rocks');
+ * // [{ dictionary: 'company', word: 'acme', token: '4cme', start: 0, end: 4, rank: 1, l33t: true, guesses: 2 }]
+ * ```
+ */
+export function findDictionaryMatches(password: string): DictionaryMatch[] {
+  const lower = password.toLowerCase();
+  const matches = new Map<string, DictionaryMatch>();
+
+  for (const [name, entry] of dictionaries) {
+    if (!entry.ranks) {
+      continue;
+    }
+
+    for (let start = 0; start < lower.length; start++) {
+      for (const { word, end, rank, l33t } of matchFrom(entry, entry.ranks, lower, start)) {
+        const key = `${name}:${start}:${end}`;
+        const guesses = Math.max(1, Math.round(rank * entry.rankWeight)) * (l33t ? 2 : 1);
+        const existing = matches.get(key);
+        if (existing && existing.guesses <= guesses) {
+          continue;
+        }
+
+        matches.set(key, {
+          dictionary: name,
+          word,
+          // Lowercasing can change the length of a few characters (e.g. "İ")
+          token: lower.length === password.length ? password.slice(start, end) : lower.slice(start, end),
+          start,
+          end,
+          rank,
+          l33t,
+          guesses,
+        });
+      }
+    }
+  }
+
+  return [...matches.values()].sort((a, b) => a.start - b.start || a.end - b.end);
+}
@@ -0,0 +1,257 @@
+/**
+ * Strength Estimators
+ * The guess-counting backend behind {@link analyzePasswordStrength} and
+ * the policy engine's `minStrengthScore` check. zxcvbn (lazy-loaded) is
+ * the default; {@link setStrengthEstimator} swaps in another one, such
+ * as {@link quickEstimator} or an adapter for zxcvbn-ts, without
+ * touching the analyzer.
+ *
+ * @module analyzer/estimator
+ */
+
+import type { StrengthMatch, StrengthMatchPattern } from './strength';
+
+/**
+ * What an estimator found out about a password
+ */
+export interface StrengthEstimate {
+  /** Estimated guesses to crack the password */
+  guesses: number;
+  /** Score from 0 (too guessable) to 4 (very unguessable), zxcvbn's scale */
+  score: number;
+  /** Weak parts of the password, sorted by position */
+  matches: StrengthMatch[];
+  /**
+   * Feedback in English. zxcvbn's messages are translated to the
+   * requested locale; others are shown as given.
+   */
+  feedback: {
+    warning: string;
+    suggestions: string[];
+  };
+}
+
+/**
+ * Backend that estimates how guessable a password is
+ *
+ * @example
+ * ```typescript
+ * import { zxcvbn, zxcvbnOptions } from '@zxcvbn-ts/core';
+ *
+ * const zxcvbnTsEstimator: StrengthEstimator = {
+ *   name: 'zxcvbn-ts',
+ *   async load() {
+ *     const { dictionary, adjacencyGraphs } = await import('@zxcvbn-ts/language-common');
+ *     zxcvbnOptions.setOptions({ dictionary, graphs: adjacencyGraphs });
+ *   },
+ *   estimate(password, userInputs) {
+ *     const result = zxcvbn(password, userInputs);
+ *     return {
+ *       guesses: result.guesses,
+ *       score: result.score,
+ *       matches: [],
+ *       feedback: { warning: result.feedback.warning ?? '', suggestions: result.feedback.suggestions },
+ *     };
+ *   },
+ * };
+ * ```
+ */
+export interface StrengthEstimator {
+  /** Name for logs and comparisons */
+  name: string;
+  /**
+   * Load whatever the estimator needs. Called before every analysis, so
+   * later calls should return right away.
+   */
+  load(): Promise<void>;
+  /**
+   * Estimate a password, once loaded
+   *
+   * @param password - Password to estimate
+   * @param userInputs - Lowercased words an attacker could guess from the
+   *   surroundings, most guessable first
+   */
+  estimate(password: string, userInputs: string[]): StrengthEstimate;
+}
+
+type ZxcvbnFn = (password: string, userInputs?: string[]) => import('zxcvbn').ZXCVBNResult;
+
+/**
+ * Cached zxcvbn function reference (avoids multiple dynamic imports)
+ */
+let zxcvbnModule: ZxcvbnFn | null = null;
+
+/**
+ * Loading promise for zxcvbn (ensures singleton import)
+ */
+let zxcvbnLoadingPromise: Promise<ZxcvbnFn> | null = null;
+
+/**
+ * Lazy-load zxcvbn module
+ * Uses dynamic import to defer loading until first use
+ * Caches the loaded module for subsequent calls
+ */
+async function loadZxcvbn(): Promise<ZxcvbnFn> {
+  // Return cached module if available
+  if (zxcvbnModule) {
+    return zxcvbnModule;
+  }
+
+  // Return in-flight promise if loading
+  if (zxcvbnLoadingPromise) {
+    return zxcvbnLoadingPromise;
+  }
+
+  // Start loading
+  zxcvbnLoadingPromise = import('zxcvbn').then((module) => {
+    const resolvedModule: ZxcvbnFn =
+      typeof module === 'function' ? module : (module.default as ZxcvbnFn);
+    zxcvbnModule = resolvedModule;
+    zxcvbnLoadingPromise = null;
+    return resolvedModule;
+  });
+
+  return zxcvbnLoadingPromise;
+}
+
+/**
+ * Check if zxcvbn is already loaded
+ * Useful for conditional logic or preloading
+ */
+export function isZxcvbnLoaded(): boolean {
+  return zxcvbnModule !== null;
+}
+
+/**
+ * Preload zxcvbn module
+ * Call this early (e.g., on page load, user focus) to avoid delay on first analysis
+ *
+ * @example
+ * ```typescript
+ * // Preload on password field focus
+ * passwordInput.addEventListener('focus', () => {
+ *   preloadZxcvbn();
+ * });
+ * ```
+ */
+export async function preloadZxcvbn(): Promise<void> {
+  await loadZxcvbn();
+}
+
+/**
+ * Map a zxcvbn match to our pattern kinds; brute-force segments have none
+ */
+function toMatchPattern(match: import('zxcvbn').ZXCVBNSequence): StrengthMatchPattern | null {
+  switch (match.pattern) {
+    case 'dictionary':
+      return match.l33t ? 'l33t' : 'dictionary';
+    case 'spatial':
+    case 'sequence':
+    case 'date':
+    case 'repeat':
+      return match.pattern;
+    case 'regex':
+      // zxcvbn's only regex is `recent_year`
+      return 'date';
+    default:
+      return null;
+  }
+}
+
+/**
+ * The default estimator: zxcvbn, loaded on first use (~370 KB)
+ */
+export const zxcvbnEstimator: StrengthEstimator = {
+  name: 'zxcvbn',
+
+  load: preloadZxcvbn,
+
+  estimate(password, userInputs) {
+    if (!zxcvbnModule) {
+      throw new Error('zxcvbn is not loaded; await zxcvbnEstimator.load() first');
+    }
+
+    const result = zxcvbnModule(password, userInputs);
+    const matches: StrengthMatch[] = [];
+    for (const match of result.sequence) {
+      const pattern = toMatchPattern(match);
+      if (pattern) {
+        matches.push({ token: match.token, start: match.i, end: match.j + 1, pattern, guesses: match.guesses });
+      }
+    }
+
+    return {
+      guesses: result.guesses,
+      score: result.score,
+      matches,
+      feedback: {
+        warning: result.feedback.warning,
+        suggestions: result.feedback.suggestions,
+      },
+    };
+  },
+};
+
+/**
+ * Estimator used when a call does not pass one
+ */
+let activeEstimator: StrengthEstimator = zxcvbnEstimator;
+
+/**
+ * Set the estimator used by {@link analyzePasswordStrength}, the policy
+ * engine and the React hooks
+ *
+ * @param estimator - Estimator to use from now on ({@link zxcvbnEstimator}
+ *   restores the default)
+ *
+ * @example
+ * ```typescript
+ * // No zxcvbn download on a low-end kiosk
+ * setStrengthEstimator(quickEstimator);
+ * ```
+ */
+export function setStrengthEstimator(estimator: StrengthEstimator): void {
+  activeEstimator = estimator;
+}
+
+/**
+ * Get the estimator set with {@link setStrengthEstimator}
+ *
+ * @returns Active estimator (default: {@link zxcvbnEstimator})
+ */
+export function getStrengthEstimator(): StrengthEstimator {
+  return activeEstimator;
+}
+
+/**
+ * Load the active estimator ahead of the first analysis
+ *
+ * @example
+ * ```typescript
+ * passwordInput.addEventListener('focus', () => {
+ *   preloadStrengthEstimator();
+ * });
+ * ```
+ */
+export async function preloadStrengthEstimator(): Promise<void> {
+  await activeEstimator.load();
+}
+
+/**
+ * Convert a guess count to the 0-4 score, with zxcvbn's thresholds
+ */
+export function guessesToScore(guesses: number): number {
+  // Just above each threshold, like zxcvbn, so e.g. 10^6 scores 1
+  const DELTA = 5;
+  if (guesses < 1e3 + DELTA) {
+    return 0;
+  } else if (guesses < 1e6 + DELTA) {
+    return 1;
+  } else if (guesses < 1e8 + DELTA) {
+    return 2;
+  } else if (guesses < 1e10 + DELTA) {
+    return 3;
+  } else {
+    return 4;
+  }
+}
@@ -94,6 +94,17 @@ const HASH_STRENGTH_MULTIPLIERS: Record<HashAlgorithm, number> = {
   'md5': 0.1,           // Fast hash (insecure)
 };
 
+/**
+ * Supported hash algorithms, strongest first
+ */
+export const HASH_ALGORITHMS = Object.keys(HASH_STRENGTH_MULTIPLIERS) as readonly HashAlgorithm[];
+
+/**
+ * Guesses per second of the reference attacker (one cloud GPU instance)
+ * against an unsalted fast hash, before the algorithm multiplier
+ */
+const BASE_GUESSES_PER_SECOND = 1e10;
+
 /**
  * Risk profile rotation period multipliers
  */
@@ -144,6 +155,27 @@ function classifyEntropy(entropy: number): string {
   return 'very-strong';
 }
 
+/**
+ * Guesses per second the reference attacker makes against a hash algorithm
+ *
+ * @param hashAlgorithm - Algorithm protecting the stored password
+ * @returns Guesses per second (10 billion divided by the algorithm's
+ * strength multiplier)
+ * @throws Error if the algorithm is not one of {@link HASH_ALGORITHMS}
+ *
+ * @example
+ * ```typescript
+ * getHashGuessRate('sha256');  // 1e10
+ * getHashGuessRate('argon2id'); // 1e7
+ * ```
+ */
+export function getHashGuessRate(hashAlgorithm: HashAlgorithm): number {
+  if (!Object.hasOwn(HASH_STRENGTH_MULTIPLIERS, hashAlgorithm)) {
+    throw new Error(`Unknown hash algorithm: "${hashAlgorithm}" (use one of ${HASH_ALGORITHMS.join(', ')})`);
+  }
+  return BASE_GUESSES_PER_SECOND / HASH_STRENGTH_MULTIPLIERS[hashAlgorithm];
+}
+
 /**
  * Estimate crack cost in USD based on entropy and hash algorithm
  *
@@ -153,15 +185,13 @@ function classifyEntropy(entropy: number): string {
  * - Hash algorithm affects cost significantly
  */
 function estimateCrackCost(entropy: number, hashAlgorithm: HashAlgorithm): number {
-  const baseHashesPerSecond = 1e10; // 10 GH/s baseline
   const costPerHour = 1.0; // USD per hour for GPU instance
 
   // Calculate search space size
   const searchSpace = Math.pow(2, entropy);
 
   // Adjust for hash algorithm strength
-  const hashMultiplier = HASH_STRENGTH_MULTIPLIERS[hashAlgorithm] || 1;
-  const effectiveHashRate = baseHashesPerSecond / hashMultiplier;
+  const effectiveHashRate = getHashGuessRate(hashAlgorithm);
 
   // Time to crack (50% probability)
   const secondsToCrack = (searchSpace / 2) / effectiveHashRate;
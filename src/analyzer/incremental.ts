@@ -0,0 +1,298 @@
+/**
+ * Incremental Strength Analysis
+ * Keystroke-level feedback without re-running everything on every input.
+ * {@link createIncrementalAnalyzer} keeps state between calls:
+ * - Every input gets a quick estimate right away, then the full analysis
+ *   (zxcvbn by default) once typing pauses
+ * - While only characters are appended, the full result of the typed
+ *   prefix stands in until the new one is ready, so meters do not flicker
+ * - Full results are cached, so deleting back to an earlier password
+ *   skips the analysis
+ * - A new input cancels the full analysis in progress
+ *
+ * Updates arrive through {@link IncrementalAnalyzer.subscribe} or by
+ * iterating the analyzer with `for await`.
+ *
+ * @module analyzer/incremental
+ */
+
+import { analyzePasswordStrength, type PasswordStrengthResult, type StrengthAnalysisOptions } from './strength';
+import { quickStrengthCheck, type QuickStrengthResult } from './quick-check';
+import type { StrengthWorker } from './strength-worker';
+
+/**
+ * Options for {@link createIncrementalAnalyzer}
+ */
+export interface IncrementalAnalyzerOptions extends StrengthAnalysisOptions {
+  /** Milliseconds without input before the full analysis starts (default: 0) */
+  delay?: number;
+  /** Run the full analysis in a worker from {@link createStrengthWorker}, one per analyzer */
+  worker?: StrengthWorker;
+}
+
+/**
+ * What the analyzer knows about the latest password
+ */
+export interface IncrementalStrengthUpdate {
+  /** Password the update is for */
+  password: string;
+  /**
+   * - `quick`: the quick estimate is ready, the full analysis is pending
+   * - `full`: the full analysis is ready
+   * - `error`: the full analysis failed
+   */
+  phase: 'quick' | 'full' | 'error';
+  /**
+   * Quick estimate of the password, from {@link quickStrengthCheck}; it
+   * ignores `userInputs`, `context` and `locale`, which only the full
+   * analysis applies
+   */
+  quick: QuickStrengthResult;
+  /** Full analysis, or the latest one of a prefix while pending (see `stale`) */
+  full: PasswordStrengthResult | null;
+  /** Whether `full` is for a shorter password this one extends */
+  stale: boolean;
+  /** Why the full analysis failed */
+  error: Error | null;
+}
+
+/**
+ * Strength analyzer fed one input at a time
+ */
+export interface IncrementalAnalyzer extends AsyncIterable<IncrementalStrengthUpdate> {
+  /**
+   * Analyze the current input: emits the quick estimate right away and
+   * the full analysis later (at once if cached)
+   */
+  update(password: string): void;
+  /**
+   * Listen to updates
+   *
+   * @returns Function that stops listening
+   */
+  subscribe(listener: (update: IncrementalStrengthUpdate) => void): () => void;
+  /** The latest update, if any */
+  readonly current: IncrementalStrengthUpdate | null;
+  /** Cancel the pending full analysis, if any */
+  cancel(): void;
+  /** Cancel, stop all listeners and end all iterations */
+  dispose(): void;
+}
+
+/**
+ * Full results kept for passwords typed before
+ */
+const MAX_CACHED_RESULTS = 32;
+
+/**
+ * Create an analyzer that keeps state between inputs
+ *
+ * @param options - Analysis options, delay of the full analysis and an
+ *   optional worker
+ * @returns Analyzer to feed with every input
+ *
+ * @example
+ * ```typescript
+ * const analyzer = createIncrementalAnalyzer({ delay: 150, userInputs: ['acme'] });
+ *
+ * analyzer.subscribe(({ quick, full, phase }) => {
+ *   meter.value = full?.score ?? quick.score;
+ *   meter.classList.toggle('pending', phase === 'quick');
+ * });
+ *
+ * input.addEventListener('input', () => analyzer.update(input.value));
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Or consume the updates as a stream
+ * for await (const update of analyzer) {
+ *   if (update.phase === 'full') render(update.full);
+ * }
+ * ```
+ */
+export function createIncrementalAnalyzer(options: IncrementalAnalyzerOptions = {}): IncrementalAnalyzer {
+  const { delay = 0, worker, ...analysisOptions } = options;
+  const listeners = new Set<(update: IncrementalStrengthUpdate) => void>();
+  const closers = new Set<() => void>();
+  // Full results by password, least recently used first
+  const results = new Map<string, PasswordStrengthResult>();
+
+  let current: IncrementalStrengthUpdate | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let controller: AbortController | null = null;
+  let disposed = false;
+
+  const emit = (update: IncrementalStrengthUpdate): void => {
+    current = update;
+    for (const listener of [...listeners]) {
+      listener(update);
+    }
+  };
+
+  const remember = (password: string, result: PasswordStrengthResult): void => {
+    results.delete(password);
+    results.set(password, result);
+    const oldest = results.keys().next();
+    if (results.size > MAX_CACHED_RESULTS && !oldest.done) {
+      results.delete(oldest.value);
+    }
+  };
+
+  // The longest earlier password this one extends, e.g. "hunter" for "hunter2"
+  const findPrefixResult = (password: string): PasswordStrengthResult | null => {
+    let best: [string, PasswordStrengthResult] | null = null;
+    for (const entry of results) {
+      if (password.startsWith(entry[0]) && (!best || entry[0].length > best[0].length)) {
+        best = entry;
+      }
+    }
+    return best ? best[1] : null;
+  };
+
+  const cancel = (): void => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    controller?.abort();
+    controller = null;
+  };
+
+  const runFullAnalysis = (password: string, quick: QuickStrengthResult, request: AbortController): void => {
+    const analysis = worker
+      ? worker.analyze(password, analysisOptions, request.signal)
+      : analyzePasswordStrength(password, analysisOptions);
+
+    analysis.then(
+      (result) => {
+        // Superseded by a newer input
+        if (request.signal.aborted) {
+          return;
+        }
+        controller = null;
+        remember(password, result);
+        emit({ password, phase: 'full', quick, full: result, stale: false, error: null });
+      },
+      (error: unknown) => {
+        if (request.signal.aborted) {
+          return;
+        }
+        controller = null;
+        emit({
+          password,
+          phase: 'error',
+          quick,
+          full: null,
+          stale: false,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    );
+  };
+
+  return {
+    get current() {
+      return current;
+    },
+
+    update(password) {
+      if (disposed) {
+        throw new Error('Incremental analyzer has been disposed');
+      }
+      // Already on its way
+      if (password === current?.password && controller) {
+        return;
+      }
+
+      cancel();
+      const quick = quickStrengthCheck(password);
+
+      const cached = results.get(password);
+      if (cached) {
+        remember(password, cached);
+        emit({ password, phase: 'full', quick, full: cached, stale: false, error: null });
+        return;
+      }
+
+      const prefixResult = findPrefixResult(password);
+      emit({ password, phase: 'quick', quick, full: prefixResult, stale: prefixResult !== null, error: null });
+
+      const request = new AbortController();
+      controller = request;
+      timer = setTimeout(() => {
+        timer = null;
+        runFullAnalysis(password, quick, request);
+      }, delay);
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    cancel,
+
+    dispose() {
+      cancel();
+      disposed = true;
+      listeners.clear();
+      for (const close of [...closers]) {
+        close();
+      }
+    },
+
+    [Symbol.asyncIterator]() {
+      // Every iteration sees every update, in order
+      const queue: IncrementalStrengthUpdate[] = [];
+      let waiting: ((result: IteratorResult<IncrementalStrengthUpdate, undefined>) => void) | null = null;
+      let done = disposed;
+
+      const unsubscribe = this.subscribe((update) => {
+        if (waiting) {
+          const resolve = waiting;
+          waiting = null;
+          resolve({ value: update, done: false });
+        } else {
+          queue.push(update);
+        }
+      });
+
+      const close = (): void => {
+        done = true;
+        unsubscribe();
+        closers.delete(close);
+        waiting?.({ value: undefined, done: true });
+        waiting = null;
+      };
+      closers.add(close);
+      if (done) {
+        close();
+      }
+
+      return {
+        next() {
+          const update = queue.shift();
+          if (update) {
+            return Promise.resolve({ value: update, done: false });
+          }
+          if (done) {
+            return Promise.resolve({ value: undefined, done: true });
+          }
+          return new Promise((resolve) => {
+            waiting = resolve;
+          });
+        },
+        return() {
+          close();
+          return Promise.resolve({ value: undefined, done: true });
+        },
+        [Symbol.asyncIterator]() {
+          return this;
+        },
+      };
+    },
+  };
+}
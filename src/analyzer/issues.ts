@@ -0,0 +1,103 @@
+/**
+ * Analysis Issue Codes
+ * Stable, machine-readable codes for every weakness found by
+ * {@link analyzePasswordStrength}, every unmet requirement of
+ * {@link meetsMinimumRequirements} and every violation of
+ * {@link validatePassword}. Codes and parameters never change with the
+ * locale, so backends can aggregate and translate them without matching
+ * message text.
+ *
+ * @module analyzer/issues
+ */
+
+import { translate, type MessageId, type MessageParams } from '../i18n';
+
+/**
+ * Every issue code
+ */
+export const ISSUE_CODES = [
+  'EMPTY',
+  'TOO_SHORT',
+  'TOO_LONG',
+  'LOW_DIVERSITY',
+  'MISSING_LOWERCASE',
+  'MISSING_UPPERCASE',
+  'MISSING_LETTER',
+  'MISSING_NUMBER',
+  'MISSING_SYMBOL',
+  'DISALLOWED_CHARACTERS',
+  'COMMON_PASSWORD',
+  'COMMON_PATTERN',
+  'KEYBOARD_PATTERN',
+  'REPEATED_PATTERN',
+  'SEQUENTIAL_PATTERN',
+  'DATE_PATTERN',
+  'CONTEXT_WORD',
+  'DICTIONARY_WORD',
+  'BANNED_PATTERN',
+  'TOO_GUESSABLE',
+  'CUSTOM_RULE',
+] as const;
+
+/**
+ * Machine-readable issue code
+ * - `EMPTY`: no password given
+ * - `TOO_SHORT` / `TOO_LONG`: `{ minLength }` / `{ maxLength }`, plus
+ *   `{ length }` from the policy engine
+ * - `LOW_DIVERSITY`: fewer than three character classes
+ * - `MISSING_LOWERCASE`, `MISSING_UPPERCASE`, `MISSING_LETTER`,
+ *   `MISSING_NUMBER`, `MISSING_SYMBOL`: unmet character class requirement
+ * - `DISALLOWED_CHARACTERS`: characters outside `allowedChars`
+ * - `COMMON_PASSWORD`: on the common password blocklist
+ * - `COMMON_PATTERN`: `{ token }`, a common word or pattern
+ * - `KEYBOARD_PATTERN`: `{ pattern }`, e.g. `qwerty`
+ * - `REPEATED_PATTERN`: `{ pattern }`, e.g. `aaa` or `abab`
+ * - `SEQUENTIAL_PATTERN`: `{ pattern, reversed }`, e.g. `abc`
+ * - `DATE_PATTERN`: `{ year }`
+ * - `CONTEXT_WORD`: `{ words }`, the user inputs or context fields found
+ * - `DICTIONARY_WORD`: `{ words, dictionaries }`, words of registered
+ *   custom dictionaries
+ * - `BANNED_PATTERN`: `{ patterns }`, banned patterns of a requirements
+ *   profile found in the password
+ * - `TOO_GUESSABLE`: `{ score, minScore }`, strength estimator score
+ *   below the policy's `minStrengthScore`
+ * - `CUSTOM_RULE`: `{ rule }`, the name of a failed custom rule or
+ *   requirement
+ */
+export type IssueCode = (typeof ISSUE_CODES)[number];
+
+/**
+ * Structured parameters of an issue
+ */
+export type IssueParams = Record<string, string | number | boolean | string[]>;
+
+/**
+ * One weakness, unmet requirement or violation
+ */
+export interface AnalysisIssue {
+  /** Stable code */
+  code: IssueCode;
+  /** Localized message */
+  message: string;
+  /** Values the message was built from (lengths, matched patterns) */
+  params: IssueParams;
+}
+
+/**
+ * Build an issue, rendering its message in the given locale
+ *
+ * List parameters are joined with commas for the message text.
+ */
+export function createIssue(
+  code: IssueCode,
+  messageId: MessageId,
+  params: IssueParams = {},
+  locale?: string
+): AnalysisIssue {
+  const messageParams: MessageParams = {};
+  for (const [name, value] of Object.entries(params)) {
+    messageParams[name] = Array.isArray(value) ? value.join(', ') : typeof value === 'boolean' ? String(value) : value;
+  }
+
+  return { code, message: translate(messageId, messageParams, locale), params };
+}
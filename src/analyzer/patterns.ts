@@ -0,0 +1,399 @@
+/**
+ * Pattern Normalization
+ * Fast readings of a password that undo the usual disguises, so literal
+ * pattern lists still catch them:
+ * - Leetspeak: `P@55w0rd` reads as `password`
+ * - Reversal: `drowssap` reads as `password`
+ * - Keyboard walks on QWERTY, AZERTY, QWERTZ and Dvorak, with or without
+ *   Shift: `!QAZ2wsx` is two walks down the left of a QWERTY keyboard
+ *
+ * Shared by the quick check and the policy engine. Everything here is a
+ * handful of string passes, so the quick check stays well under a
+ * millisecond.
+ *
+ * @module analyzer/patterns
+ */
+
+/**
+ * Leetspeak substitutions, as in zxcvbn. Ambiguous characters list their
+ * most common reading first.
+ */
+export const L33T_TABLE: Record<string, string[]> = {
+  '4': ['a'],
+  '@': ['a'],
+  '8': ['b'],
+  '(': ['c'],
+  '{': ['c'],
+  '[': ['c'],
+  '<': ['c'],
+  '3': ['e'],
+  '6': ['g'],
+  '9': ['g'],
+  '1': ['i', 'l'],
+  '!': ['i'],
+  '|': ['i', 'l'],
+  '0': ['o'],
+  '$': ['s'],
+  '5': ['s'],
+  '7': ['t'],
+  '+': ['t'],
+  '%': ['x'],
+  '2': ['z'],
+};
+
+/**
+ * Keyboard layouts known to {@link findKeyboardWalks}
+ */
+export type KeyboardLayout = 'qwerty' | 'azerty' | 'qwertz' | 'dvorak';
+
+/**
+ * One way of reading a password
+ */
+export interface PatternView {
+  /** The password as read: lowercased, de-leeted and/or reversed */
+  text: string;
+  /** Whether leetspeak substitutions were undone */
+  l33t: boolean;
+  /** Whether the text is reversed */
+  reversed: boolean;
+}
+
+/**
+ * Pattern found in one of the readings of a password
+ */
+export interface PatternViewMatch {
+  /** Matched substring of the password, as typed */
+  token: string;
+  /** Index of the first character in the password */
+  start: number;
+  /** Index after the last character in the password */
+  end: number;
+  /** The regex match against the reading, e.g. `match[0] === 'password'` */
+  match: RegExpExecArray;
+  /** Whether leetspeak substitutions were undone to find it */
+  l33t: boolean;
+  /** Whether it was found reversed */
+  reversed: boolean;
+}
+
+/**
+ * Run of adjacent keys in a password
+ */
+export interface KeyboardWalk {
+  /** Matched substring of the password */
+  token: string;
+  /** Index of the first character */
+  start: number;
+  /** Index after the last character */
+  end: number;
+  /** Layout the keys are adjacent on */
+  layout: KeyboardLayout;
+}
+
+/**
+ * Shortest run of adjacent keys that counts as a walk
+ */
+const MIN_WALK_LENGTH = 4;
+
+/**
+ * Shortest run that counts as a walk even when it turns; shorter runs must
+ * go in a straight line, or words like "fred" would match
+ */
+const MIN_TURNING_WALK_LENGTH = 5;
+
+/**
+ * Extra keys needed by a run of letters inside a longer word, so that
+ * "erty" in "property" or "azer" in "blazer" is not a walk
+ */
+const EMBEDDED_WALK_EXTRA_LENGTH = 1;
+
+/**
+ * A letter in any script
+ */
+const LETTER = /\p{L}/u;
+
+/**
+ * Keyboard rows, unshifted and shifted. Each row is shifted half a key
+ * right of the row above, so the key at column `c` touches columns `c`
+ * and `c + 1` above it and `c - 1` and `c` below it. A space marks a gap.
+ */
+const KEYBOARD_ROWS: Record<KeyboardLayout, [string, string][]> = {
+  qwerty: [
+    ['`1234567890-=', '~!@#$%^&*()_+'],
+    [' qwertyuiop[]\\', ' QWERTYUIOP{}|'],
+    [" asdfghjkl;'", ' ASDFGHJKL:"'],
+    [' zxcvbnm,./', ' ZXCVBNM<>?'],
+  ],
+  azerty: [
+    ['²&é"\'(-è_çà)=', ' 1234567890°+'],
+    [' azertyuiop^$', ' AZERTYUIOP¨£'],
+    [' qsdfghjklmù*', ' QSDFGHJKLM%µ'],
+    ['<wxcvbn,;:!', '>WXCVBN?./§'],
+  ],
+  qwertz: [
+    ['^1234567890ß´', '°!"§$%&/()=?`'],
+    [' qwertzuiopü+', ' QWERTZUIOPÜ*'],
+    [' asdfghjklöä#', " ASDFGHJKLÖÄ'"],
+    ['<yxcvbnm,.-', '>YXCVBNM;:_'],
+  ],
+  dvorak: [
+    ['`1234567890[]', '~!@#$%^&*(){}'],
+    [" ',.pyfgcrl/=\\", ' "<>PYFGCRL?+|'],
+    [' aoeuidhtns-', ' AOEUIDHTNS_'],
+    [' ;qjkxbmwvz', ' :QJKXBMWVZ'],
+  ],
+};
+
+/**
+ * Key position (row, column) of every character, per layout
+ */
+const KEY_POSITIONS = Object.fromEntries(
+  Object.entries(KEYBOARD_ROWS).map(([layout, rows]) => {
+    const positions = new Map<string, [number, number]>();
+    rows.forEach((shiftLevels, row) => {
+      for (const keys of shiftLevels) {
+        [...keys].forEach((key, column) => {
+          if (key !== ' ' && !positions.has(key)) {
+            positions.set(key, [row, column]);
+          }
+        });
+      }
+    });
+    return [layout, positions];
+  })
+) as Record<KeyboardLayout, Map<string, [number, number]>>;
+
+/**
+ * Whether two keys touch (the same key does not)
+ */
+function areAdjacent(a: [number, number], b: [number, number]): boolean {
+  const rowStep = b[0] - a[0];
+  const columnStep = b[1] - a[1];
+  if (rowStep === 0) {
+    return Math.abs(columnStep) === 1;
+  }
+  if (rowStep === -1) {
+    return columnStep === 0 || columnStep === 1;
+  }
+  if (rowStep === 1) {
+    return columnStep === -1 || columnStep === 0;
+  }
+  return false;
+}
+
+/**
+ * Whether every step between the keys goes the same way
+ */
+function isStraight(keys: [number, number][]): boolean {
+  const steps = new Set<string>();
+  for (let i = 1; i < keys.length; i++) {
+    const [row, column] = keys[i] ?? [0, 0];
+    const [previousRow, previousColumn] = keys[i - 1] ?? [0, 0];
+    steps.add(`${row - previousRow},${column - previousColumn}`);
+  }
+  return steps.size === 1;
+}
+
+/**
+ * Whether a run of letters continues a word on either side, as "ertz"
+ * does in "hertz"
+ */
+function isInsideWord(password: string, start: number, end: number): boolean {
+  if ([...password.slice(start, end)].some(char => !LETTER.test(char))) {
+    return false;
+  }
+  return LETTER.test(password.charAt(start - 1)) || LETTER.test(password.charAt(end));
+}
+
+/**
+ * Lowercase a password, unless that would move character positions
+ * (a few characters, e.g. "İ", lowercase to two)
+ */
+function toLowerCase(password: string): string {
+  const lower = password.toLowerCase();
+  return lower.length === password.length ? lower : password;
+}
+
+/**
+ * Undo leetspeak, reading each ambiguous character the same way
+ *
+ * @param text - Lowercased password
+ * @param reading - Which reading of ambiguous characters to use
+ */
+function unleet(text: string, reading: 'first' | 'last'): string {
+  let result = '';
+  for (const char of text) {
+    const readings = L33T_TABLE[char];
+    result += readings ? readings[reading === 'first' ? 0 : readings.length - 1] : char;
+  }
+  return result;
+}
+
+/**
+ * Read a password the ways {@link matchPatternViews} checks it: as typed
+ * (lowercased), de-leeted, and each of those reversed
+ *
+ * @param password - Password to read
+ * @returns Distinct readings, the literal one first
+ *
+ * @example
+ * ```typescript
+ * getPatternViews('P@55').map(view => view.text);
+ * // ["p@55", "pass", "55@p", "ssap"]
+ * ```
+ */
+export function getPatternViews(password: string): PatternView[] {
+  const lower = toLowerCase(password);
+  const forward: PatternView[] = [{ text: lower, l33t: false, reversed: false }];
+
+  for (const text of new Set([unleet(lower, 'first'), unleet(lower, 'last')])) {
+    if (text !== lower) {
+      forward.push({ text, l33t: true, reversed: false });
+    }
+  }
+
+  const views = [...forward];
+  const seen = new Set(forward.map(view => view.text));
+  for (const view of forward) {
+    // Each character separately, so surrogate pairs stay valid
+    const text = [...view.text].reverse().join('');
+    if (!seen.has(text)) {
+      seen.add(text);
+      views.push({ text, l33t: view.l33t, reversed: true });
+    }
+  }
+
+  return views;
+}
+
+/**
+ * Find a pattern in any reading of a password
+ *
+ * @param password - Password to search
+ * @param regex - Pattern, matched against lowercased readings
+ * @param views - Readings from {@link getPatternViews}, to reuse them
+ *   across patterns
+ * @returns The first match, preferring the literal reading, or null
+ *
+ * @example
+ * ```typescript
+ * matchPatternViews('Drowss@p!', /password/);
+ * // { token: 'Drowss@p', start: 0, end: 8, l33t: true, reversed: true, match: [...] }
+ * ```
+ */
+export function matchPatternViews(
+  password: string,
+  regex: RegExp,
+  views: PatternView[] = getPatternViews(password)
+): PatternViewMatch | null {
+  for (const view of views) {
+    const match = regex.exec(view.text);
+    if (!match) {
+      continue;
+    }
+
+    // Readings have one character per character of the password
+    let start = [...view.text.slice(0, match.index)].length;
+    let end = start + [...match[0]].length;
+    const chars = [...password];
+    if (view.reversed) {
+      [start, end] = [chars.length - end, chars.length - start];
+    }
+    const offset = chars.slice(0, start).join('').length;
+    const token = chars.slice(start, end).join('');
+
+    return {
+      token,
+      start: offset,
+      end: offset + token.length,
+      match,
+      l33t: view.l33t,
+      reversed: view.reversed,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Find runs of adjacent keys, typed with or without Shift
+ *
+ * A walk never steps straight back to the key it came from, so words like
+ * "were" are not walks. Runs of five or more keys may turn freely; runs of
+ * four must go in a straight line (`asdf`, `1qaz`), and shorter runs are
+ * ignored. Letters that continue a longer word need one key more (five in
+ * a straight line, six with turns), so "ertz" in "hertz" and "rewas" in
+ * "rewash" are not walks.
+ *
+ * @param password - Password to search
+ * @param layouts - Layouts to check (default: all)
+ * @returns Walks sorted by position, without overlaps: from the left,
+ *   the longest walk starting at each position wins
+ *
+ * @example
+ * ```typescript
+ * findKeyboardWalks('!QAZ2wsx').map(walk => walk.token);
+ * // ["!QAZ", "2wsx"]
+ * ```
+ */
+export function findKeyboardWalks(
+  password: string,
+  layouts: readonly KeyboardLayout[] = ['qwerty', 'azerty', 'qwertz', 'dvorak']
+): KeyboardWalk[] {
+  const chars = [...password];
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const char of chars) {
+    offsets.push(offset);
+    offset += char.length;
+  }
+  offsets.push(offset);
+
+  const walks: KeyboardWalk[] = [];
+
+  for (const layout of layouts) {
+    const positions = KEY_POSITIONS[layout];
+    let start = 0;
+
+    for (let index = 1; index <= chars.length; index++) {
+      const previous = positions.get(chars[index - 1] ?? '');
+      const current = index < chars.length ? positions.get(chars[index] ?? '') : undefined;
+      const beforePrevious = index - start >= 2 ? positions.get(chars[index - 2] ?? '') : undefined;
+      const backtracks = beforePrevious !== undefined && current !== undefined &&
+        beforePrevious[0] === current[0] && beforePrevious[1] === current[1];
+      const continues = previous !== undefined && current !== undefined && areAdjacent(previous, current) && !backtracks;
+
+      if (continues) {
+        continue;
+      }
+
+      if (index - start >= MIN_WALK_LENGTH) {
+        const walkStart = offsets[start] ?? 0;
+        const walkEnd = offsets[index] ?? 0;
+        const token = password.slice(walkStart, walkEnd);
+        const keys = chars.slice(start, index).map((char): [number, number] => positions.get(char) ?? [0, 0]);
+
+        const extra = isInsideWord(password, walkStart, walkEnd) ? EMBEDDED_WALK_EXTRA_LENGTH : 0;
+        const minimum = (isStraight(keys) ? MIN_WALK_LENGTH : MIN_TURNING_WALK_LENGTH) + extra;
+
+        if (index - start >= minimum) {
+          walks.push({ token, start: walkStart, end: walkEnd, layout });
+        }
+      }
+      // A backtrack still leaves the last two keys adjacent
+      start = backtracks ? index - 1 : index;
+    }
+  }
+
+  // The same keys often form walks on several layouts
+  const kept: KeyboardWalk[] = [];
+  let cursor = 0;
+  for (const walk of walks.sort((a, b) => a.start - b.start || b.end - a.end)) {
+    if (walk.start >= cursor) {
+      kept.push(walk);
+      cursor = walk.end;
+    }
+  }
+
+  return kept;
+}
@@ -13,6 +13,12 @@
  * @module policy
  */
 
+import { normalizePassword, DEFAULT_NORMALIZATION, type NormalizationForm } from '../utils/normalize';
+import { translate, type MessageId, type MessageParams } from '../i18n';
+import { createIssue, type IssueCode, type IssueParams } from './issues';
+import { getStrengthEstimator } from './estimator';
+import { findKeyboardWalks, getPatternViews } from './patterns';
+
 /**
  * Password policy configuration following NIST 800-63B Rev 4
  */
@@ -30,11 +36,22 @@ export interface PolicyConfig {
   /** Allowed characters (null = all printable) */
   allowedChars?: string | null;
   /** Unicode normalization form (default: NFKC) */
-  normalization?: 'NFC' | 'NFD' | 'NFKC' | 'NFKD';
+  normalization?: NormalizationForm;
   /** Enable common pattern detection (default: true) */
   detectPatterns?: boolean;
   /** Custom validation rules */
   customRules?: ValidationRule[];
+  /**
+   * Minimum score (0-4) from the strength estimator (see
+   * {@link setStrengthEstimator}); off by default. The estimator may be
+   * loaded on first use, e.g. zxcvbn (~370 KB).
+   */
+  minStrengthScore?: number;
+  /**
+   * Locale for violation messages (default: {@link getDefaultLocale}).
+   * Custom rule messages are used as given.
+   */
+  locale?: string;
 }
 
 /**
@@ -71,13 +88,17 @@ export interface ValidationContext {
  * Policy violation details
  */
 export interface PolicyViolation {
+  /** Stable machine-readable code */
+  code: IssueCode;
+  /** Structured values behind the message (lengths, matched patterns) */
+  params: IssueParams;
   /** Field that failed validation */
   field: string;
-  /** User-friendly error message */
+  /** User-friendly error message, in the policy's locale */
   message: string;
   /** Severity level */
   severity: 'error' | 'warning';
-  /** Technical details (optional) */
+  /** Technical details (optional), in the policy's locale */
   details?: string;
 }
 
@@ -103,7 +124,7 @@ const DEFAULT_POLICY: PolicyConfig = {
   blocklists: ['common-passwords'], // Built-in list
   contextWords: [],
   allowedChars: null, // All printable characters allowed
-  normalization: 'NFKC',
+  normalization: DEFAULT_NORMALIZATION,
   detectPatterns: true,
   customRules: [],
 };
@@ -152,22 +173,6 @@ const SEQUENTIAL_PATTERNS = [
   'abcde', '12345',
 ];
 
-/**
- * Normalize password using specified Unicode normalization form
- */
-function normalizePassword(password: string, form: 'NFC' | 'NFD' | 'NFKC' | 'NFKD' = 'NFKC'): string {
-  if (typeof password !== 'string') {
-    return '';
-  }
-
-  try {
-    return password.normalize(form);
-  } catch (error) {
-    // Fallback if normalization fails
-    return password;
-  }
-}
-
 /**
  * Check if password contains only allowed characters
  */
@@ -188,44 +193,49 @@ function checkAllowedCharacters(password: string, allowed: string | null): boole
 }
 
 /**
- * Check if password is in common passwords blocklist
+ * Check if password is in common passwords blocklist, also in leetspeak
+ * (`p@ssw0rd`) or reversed (`drowssap`)
  */
 function checkCommonPassword(password: string): boolean {
-  const normalized = password.toLowerCase();
-  return COMMON_PASSWORDS.has(normalized);
+  return getPatternViews(password).some(view => COMMON_PASSWORDS.has(view.text));
 }
 
 /**
- * Check for keyboard patterns
+ * Check for keyboard patterns, including walks on QWERTY, AZERTY, QWERTZ
+ * and Dvorak keyboards (`!QAZ2wsx`)
+ *
+ * @returns The pattern found, or null
  */
 function checkKeyboardPatterns(password: string): string | null {
   const lower = password.toLowerCase();
 
   for (const pattern of KEYBOARD_PATTERNS) {
     if (lower.includes(pattern)) {
-      return `keyboard pattern "${pattern}"`;
+      return pattern;
     }
   }
 
-  return null;
+  return findKeyboardWalks(password)[0]?.token ?? null;
 }
 
 /**
  * Check for repetitive characters
+ *
+ * @returns The pattern found and how to describe it, or null
  */
-function checkRepetitivePatterns(password: string): string | null {
+function checkRepetitivePatterns(password: string): { pattern: string; character: string | null } | null {
   const lower = password.toLowerCase();
 
   for (const pattern of REPETITIVE_PATTERNS) {
     if (lower.includes(pattern)) {
-      return `repetitive pattern "${pattern}"`;
+      return { pattern, character: null };
     }
   }
 
   // Check for repeated characters (3+ in a row)
   const repeatMatch = lower.match(/(.)\1{2,}/);
   if (repeatMatch) {
-    return `repeated character "${repeatMatch[1]}"`;
+    return { pattern: repeatMatch[0], character: repeatMatch[1] ?? '' };
   }
 
   return null;
@@ -234,16 +244,16 @@ function checkRepetitivePatterns(password: string): string | null {
 /**
  * Check for sequential patterns
  */
-function checkSequentialPatterns(password: string): string | null {
+function checkSequentialPatterns(password: string): { pattern: string; reversed: boolean } | null {
   const lower = password.toLowerCase();
 
   for (const pattern of SEQUENTIAL_PATTERNS) {
     if (lower.includes(pattern)) {
-      return `sequential pattern "${pattern}"`;
+      return { pattern, reversed: false };
     }
     // Check reverse
     if (lower.includes(pattern.split('').reverse().join(''))) {
-      return `sequential pattern "${pattern}" (reversed)`;
+      return { pattern, reversed: true };
     }
   }
 
@@ -294,12 +304,14 @@ function checkContextWords(password: string, contextWords: string[], context?: V
 
 /**
  * Check for common date patterns (years)
+ *
+ * @returns The year found, or null
  */
 function checkDatePatterns(password: string): string | null {
   // Check for year patterns (1900-2099)
   const yearMatch = password.match(/19\d{2}|20\d{2}/);
   if (yearMatch) {
-    return `year pattern "${yearMatch[0]}"`;
+    return yearMatch[0];
   }
 
   return null;
@@ -345,6 +357,22 @@ function checkDatePatterns(password: string): string | null {
  *
  * @example
  * ```typescript
+ * // Messages in Spanish
+ * const result = await validatePassword('short', { locale: 'es' });
+ * console.log(result.violations[0].message);
+ * // "La contraseña debe tener al menos 15 caracteres"
+ * console.log(result.violations[0].code, result.violations[0].params);
+ * // "TOO_SHORT" { minLength: 15, length: 5 }
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Also require zxcvbn (the default strength estimator) to score 3 or more
+ * const result = await validatePassword('Tr0ub4dour&3xyz', { minStrengthScore: 3 });
+ * ```
+ *
+ * @example
+ * ```typescript
  * // Custom configuration
  * const result = await validatePassword('password', {
  *   minLength: 20,
@@ -368,25 +396,30 @@ export async function validatePassword(
   const policy: PolicyConfig = { ...DEFAULT_POLICY, ...config };
   const violations: PolicyViolation[] = [];
 
+  const issue = (code: IssueCode, messageId: MessageId, params: IssueParams = {}) =>
+    createIssue(code, messageId, params, policy.locale);
+  const detail = (messageId: MessageId, params: MessageParams = {}) =>
+    translate(messageId, params, policy.locale);
+
   // Apply Unicode normalization
   const normalized = normalizePassword(password, policy.normalization);
 
   // 1. Length checks (NIST requirement)
   if (normalized.length < policy.minLength) {
     violations.push({
+      ...issue('TOO_SHORT', 'policy.tooShort', { minLength: policy.minLength, length: normalized.length }),
       field: 'length',
-      message: `Password must be at least ${policy.minLength} characters long`,
       severity: 'error',
-      details: `Current length: ${normalized.length}`,
+      details: detail('policy.detail.currentLength', { length: normalized.length }),
     });
   }
 
   if (normalized.length > policy.maxLength) {
     violations.push({
+      ...issue('TOO_LONG', 'policy.tooLong', { maxLength: policy.maxLength, length: normalized.length }),
       field: 'length',
-      message: `Password must not exceed ${policy.maxLength} characters`,
       severity: 'error',
-      details: `Current length: ${normalized.length}`,
+      details: detail('policy.detail.currentLength', { length: normalized.length }),
     });
   }
 
@@ -394,8 +427,8 @@ export async function validatePassword(
   if (policy.allowedChars !== null && policy.allowedChars !== undefined) {
     if (!checkAllowedCharacters(normalized, policy.allowedChars)) {
       violations.push({
+        ...issue('DISALLOWED_CHARACTERS', 'policy.disallowedCharacters'),
         field: 'characters',
-        message: 'Password contains disallowed characters',
         severity: 'error',
       });
     }
@@ -405,10 +438,10 @@ export async function validatePassword(
   if (policy.blocklists && policy.blocklists.length > 0) {
     if (checkCommonPassword(normalized)) {
       violations.push({
+        ...issue('COMMON_PASSWORD', 'policy.commonPassword'),
         field: 'blocklist',
-        message: 'This password has been found in data breaches and is too common',
         severity: 'error',
-        details: 'Password appears in common password list',
+        details: detail('policy.detail.commonPassword'),
       });
     }
   }
@@ -419,10 +452,10 @@ export async function validatePassword(
     const keyboardPattern = checkKeyboardPatterns(normalized);
     if (keyboardPattern) {
       violations.push({
+        ...issue('KEYBOARD_PATTERN', 'policy.keyboardPattern', { pattern: keyboardPattern }),
         field: 'pattern',
-        message: 'Password contains common keyboard pattern',
         severity: 'warning',
-        details: `Found ${keyboardPattern}`,
+        details: detail('policy.detail.keyboardPattern', { pattern: keyboardPattern }),
       });
     }
 
@@ -430,10 +463,12 @@ export async function validatePassword(
     const repetitivePattern = checkRepetitivePatterns(normalized);
     if (repetitivePattern) {
       violations.push({
+        ...issue('REPEATED_PATTERN', 'policy.repetitivePattern', { pattern: repetitivePattern.pattern }),
         field: 'pattern',
-        message: 'Password contains repetitive pattern',
         severity: 'warning',
-        details: `Found ${repetitivePattern}`,
+        details: repetitivePattern.character === null
+          ? detail('policy.detail.repetitivePattern', { pattern: repetitivePattern.pattern })
+          : detail('policy.detail.repeatedCharacter', { character: repetitivePattern.character }),
       });
     }
 
@@ -441,10 +476,13 @@ export async function validatePassword(
     const sequentialPattern = checkSequentialPatterns(normalized);
     if (sequentialPattern) {
       violations.push({
+        ...issue('SEQUENTIAL_PATTERN', 'policy.sequentialPattern', sequentialPattern),
         field: 'pattern',
-        message: 'Password contains sequential pattern',
         severity: 'warning',
-        details: `Found ${sequentialPattern}`,
+        details: detail(
+          sequentialPattern.reversed ? 'policy.detail.reversedSequentialPattern' : 'policy.detail.sequentialPattern',
+          { pattern: sequentialPattern.pattern }
+        ),
       });
     }
 
@@ -452,10 +490,10 @@ export async function validatePassword(
     const datePattern = checkDatePatterns(normalized);
     if (datePattern) {
       violations.push({
+        ...issue('DATE_PATTERN', 'policy.datePattern', { year: datePattern }),
         field: 'pattern',
-        message: 'Password contains date pattern',
         severity: 'warning',
-        details: `Found ${datePattern}`,
+        details: detail('policy.detail.datePattern', { year: datePattern }),
       });
     }
   }
@@ -469,10 +507,10 @@ export async function validatePassword(
     );
     if (foundWords.length > 0) {
       violations.push({
+        ...issue('CONTEXT_WORD', 'policy.contextWords', { words: foundWords }),
         field: 'context',
-        message: 'Password contains personal or service-related information',
         severity: 'error',
-        details: `Found: ${foundWords.join(', ')}`,
+        details: detail('policy.detail.contextWords', { words: foundWords.join(', ') }),
       });
     }
   }
@@ -482,15 +520,35 @@ export async function validatePassword(
     for (const rule of policy.customRules) {
       if (!rule.validate(normalized, context)) {
         violations.push({
+          code: 'CUSTOM_RULE',
+          params: { rule: rule.name },
           field: 'custom',
           message: rule.message,
           severity: rule.severity,
-          details: `Rule: ${rule.name}`,
+          details: detail('policy.detail.customRule', { rule: rule.name }),
         });
       }
     }
   }
 
+  // 7. Strength estimate, with the context words as user inputs
+  if (policy.minStrengthScore !== undefined) {
+    const estimator = getStrengthEstimator();
+    await estimator.load();
+    const userInputs = [...(policy.contextWords ?? []), ...Object.values(context ?? {})]
+      .filter((input): input is string => !!input)
+      .map(input => input.toLowerCase());
+    const { score: estimatedScore } = estimator.estimate(normalized, userInputs);
+    if (estimatedScore < policy.minStrengthScore) {
+      violations.push({
+        ...issue('TOO_GUESSABLE', 'policy.tooGuessable', { score: estimatedScore, minScore: policy.minStrengthScore }),
+        field: 'strength',
+        severity: 'error',
+        details: detail('policy.detail.estimatorScore', { estimator: estimator.name, score: estimatedScore }),
+      });
+    }
+  }
+
   // Calculate score based on violations
   let score = 100;
   for (const violation of violations) {
@@ -4,6 +4,14 @@
  * Ideal for use during password input
  */
 
+import { createIssue, type AnalysisIssue, type IssueCode, type IssueParams } from './issues';
+import { findDictionaryMatches } from './dictionaries';
+import { findKeyboardWalks, getPatternViews, matchPatternViews } from './patterns';
+import { guessesToScore, type StrengthEstimator } from './estimator';
+import type { StrengthMatch, StrengthMatchPattern } from './strength';
+import { EN_MESSAGES } from '../i18n/locales/en';
+import type { MessageId } from '../i18n';
+
 /**
  * Quick strength check result
  */
@@ -14,6 +22,76 @@ export interface QuickStrengthResult {
   strength: 'weak' | 'medium' | 'strong' | 'very-strong';
 }
 
+/**
+ * Requirement checked by a function, for a {@link RequirementsProfile}
+ */
+export interface CustomRequirement {
+  /** Requirement identifier, reported as the status `id` */
+  name: string;
+  /** Whether the password meets the requirement */
+  validate: (password: string) => boolean;
+  /** Checklist label, used as given */
+  message: string;
+}
+
+/**
+ * Requirements a password must meet, for {@link meetsMinimumRequirements}
+ * Only the requirements that are set are checked.
+ */
+export interface RequirementsProfile {
+  /** Minimum length */
+  minLength?: number;
+  /** Maximum length */
+  maxLength?: number;
+  /** Require a lowercase letter (a-z) */
+  lowercase?: boolean;
+  /** Require an uppercase letter (A-Z) */
+  uppercase?: boolean;
+  /** Require a letter of either case */
+  letter?: boolean;
+  /** Require a digit */
+  number?: boolean;
+  /** Require a character other than a-z, A-Z and 0-9 */
+  symbol?: boolean;
+  /**
+   * Words and patterns the password must not contain. Words match in
+   * any case, in leetspeak and reversed; regexes match the password as
+   * typed.
+   */
+  bannedPatterns?: (string | RegExp)[];
+  /** Further requirements, checked in order after the others */
+  custom?: CustomRequirement[];
+}
+
+/**
+ * Names of the built-in requirements profiles
+ * - `default`: 8+ characters with lowercase, uppercase and a number
+ * - `nist`: 15 to 128 characters, no composition rules (NIST 800-63B)
+ * - `pci`: 12+ characters with letters and numbers (PCI DSS 4.0)
+ * - `strict`: 12+ characters with all four character classes and no
+ *   common words
+ */
+export type RequirementsPresetName = 'default' | 'nist' | 'pci' | 'strict';
+
+/**
+ * Pass/fail status of one requirement, e.g. a line of a live checklist
+ */
+export interface RequirementStatus {
+  /**
+   * `minLength`, `maxLength`, `lowercase`, `uppercase`, `letter`,
+   * `number`, `symbol`, `bannedPatterns`, or a custom requirement's name
+   */
+  id: string;
+  /** Whether the password meets the requirement */
+  met: boolean;
+  /** Localized label */
+  message: string;
+  /** Issue code reported while the requirement is unmet */
+  code: IssueCode;
+  /** Values the label was built from */
+  params: IssueParams;
+}
+
 /**
  * Minimum password requirements result
  */
@@ -22,25 +100,84 @@ export interface MinimumRequirementsResult {
   meets: boolean;
   /** List of unmet requirements */
   missing: string[];
+  /** The unmet requirements with their codes and parameters, in the same order */
+  issues: AnalysisIssue[];
+  /** Every requirement of the profile, met or not, in checking order */
+  requirements: RequirementStatus[];
+}
+
+/**
+ * Options for {@link meetsMinimumRequirements}
+ */
+export interface MinimumRequirementsOptions {
+  /** Locale for the missing requirements (default: {@link getDefaultLocale}) */
+  locale?: string;
+  /** Requirements to check, or the name of a preset (default: `'default'`) */
+  profile?: RequirementsProfile | RequirementsPresetName;
 }
 
 /**
  * Common password patterns to check
  */
-const COMMON_PATTERNS = [
-  /^123+/,
-  /^abc+/i,
-  /qwerty/i,
-  /password/i,
-  /admin/i,
-  /letmein/i,
-  /welcome/i,
-  /monkey/i,
-  /dragon/i,
-  /master/i,
-  /^(.)\1+$/, // Repeated characters
+const COMMON_PATTERNS: { regex: RegExp; pattern: StrengthMatchPattern }[] = [
+  { regex: /^123+/, pattern: 'sequence' },
+  { regex: /^abc+/i, pattern: 'sequence' },
+  { regex: /qwerty/i, pattern: 'spatial' },
+  { regex: /password/i, pattern: 'dictionary' },
+  { regex: /admin/i, pattern: 'dictionary' },
+  { regex: /letmein/i, pattern: 'dictionary' },
+  { regex: /welcome/i, pattern: 'dictionary' },
+  { regex: /monkey/i, pattern: 'dictionary' },
+  { regex: /dragon/i, pattern: 'dictionary' },
+  { regex: /master/i, pattern: 'dictionary' },
+  { regex: /^(.)\1+$/, pattern: 'repeat' }, // Repeated characters
+];
+
+/**
+ * Built-in requirements profiles
+ */
+const REQUIREMENTS_PRESETS: Record<RequirementsPresetName, RequirementsProfile> = {
+  default: { minLength: 8, lowercase: true, uppercase: true, number: true },
+  nist: { minLength: 15, maxLength: 128 },
+  pci: { minLength: 12, letter: true, number: true },
+  strict: {
+    minLength: 12,
+    lowercase: true,
+    uppercase: true,
+    number: true,
+    symbol: true,
+    bannedPatterns: ['password', 'qwerty', 'admin', 'letmein', 'welcome', 'monkey', 'dragon', 'master'],
+  },
+};
+
+/**
+ * Character class requirements, in checking order
+ */
+const CHARACTER_CLASS_REQUIREMENTS: {
+  id: 'lowercase' | 'uppercase' | 'letter' | 'number' | 'symbol';
+  regex: RegExp;
+  code: IssueCode;
+  messageId: MessageId;
+}[] = [
+  { id: 'lowercase', regex: /[a-z]/, code: 'MISSING_LOWERCASE', messageId: 'requirement.lowercase' },
+  { id: 'uppercase', regex: /[A-Z]/, code: 'MISSING_UPPERCASE', messageId: 'requirement.uppercase' },
+  { id: 'letter', regex: /[a-zA-Z]/, code: 'MISSING_LETTER', messageId: 'requirement.letter' },
+  { id: 'number', regex: /[0-9]/, code: 'MISSING_NUMBER', messageId: 'requirement.number' },
+  { id: 'symbol', regex: /[^a-zA-Z0-9]/, code: 'MISSING_SYMBOL', messageId: 'requirement.symbol' },
 ];
 
+/**
+ * Guesses {@link quickEstimator} charges for a common pattern, doubled
+ * when found de-leeted and again when found reversed
+ */
+const COMMON_PATTERN_GUESSES = 100;
+
+/**
+ * Keys a keyboard walk can start from; each further key is charged as
+ * one of four directions
+ */
+const KEYBOARD_KEYS = 47;
+
 /**
  * Determine strength level from score
  */
@@ -61,6 +198,11 @@ function determineStrength(score: number): 'weak' | 'medium' | 'strong' | 'very-
  * 
  * This is much faster than full analysis and suitable for
  * providing instant feedback as users type their password.
+ * Common patterns are also caught in leetspeak (`P@55w0rd`) and reversed
+ * (`drowssap`), and keyboard walks (`!QAZ2wsx`) count as common patterns.
+ * Words from registered custom dictionaries count as common patterns;
+ * dictionaries registered with a loader are only seen once
+ * {@link loadDictionaries} has run.
  * 
  * @param password - Password to check
  * @returns Quick strength assessment
@@ -94,29 +236,202 @@ export function quickStrengthCheck(password: string): QuickStrengthResult {
   if (/[0-9]/.test(password)) score += 10;
   if (/[^a-zA-Z0-9]/.test(password)) score += 10;
 
-  // No common patterns (max 20 points)
-  let hasCommonPattern = false;
-  for (const pattern of COMMON_PATTERNS) {
-    if (pattern.test(password)) {
-      hasCommonPattern = true;
-      break;
-    }
+  // No common patterns (also in leetspeak or reversed), keyboard walks or
+  // custom dictionary words (max 20 points)
+  const views = getPatternViews(password);
+  const hasCommonPattern = COMMON_PATTERNS.some(({ regex }) => matchPatternViews(password, regex, views) !== null);
+  if (!hasCommonPattern && findKeyboardWalks(password).length === 0 && findDictionaryMatches(password).length === 0) {
+    score += 20;
   }
-  if (!hasCommonPattern) score += 20;
 
   const strength = determineStrength(score);
 
   return { score, strength };
 }
 
+/**
+ * Size of the character set a password draws from (as in the entropy
+ * estimate of the full analysis)
+ */
+function charsetSize(password: string): number {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/[0-9]/.test(password)) size += 10;
+  if (/[^a-zA-Z0-9]/.test(password)) size += 32; // Approximate
+  return size;
+}
+
+/**
+ * Find the common patterns, keyboard walks, custom dictionary words and
+ * user inputs in a password, with the guesses each one costs
+ */
+function findWeakParts(password: string, userInputs: string[]): StrengthMatch[] {
+  const lower = password.toLowerCase();
+  const views = getPatternViews(password);
+  const parts: StrengthMatch[] = [];
+
+  for (const { regex, pattern } of COMMON_PATTERNS) {
+    const found = matchPatternViews(password, regex, views);
+    if (found) {
+      const { token, start, end, l33t, reversed } = found;
+      parts.push({
+        token,
+        start,
+        end,
+        pattern: l33t && pattern === 'dictionary' ? 'l33t' : pattern,
+        guesses: COMMON_PATTERN_GUESSES * (l33t ? 2 : 1) * (reversed ? 2 : 1),
+      });
+    }
+  }
+
+  for (const { token, start, end } of findKeyboardWalks(password)) {
+    parts.push({ token, start, end, pattern: 'spatial', guesses: KEYBOARD_KEYS * Math.pow(4, token.length - 1) });
+  }
+
+  for (const { token, start, end, l33t, guesses } of findDictionaryMatches(password)) {
+    parts.push({ token, start, end, pattern: l33t ? 'l33t' : 'dictionary', guesses });
+  }
+
+  // Like zxcvbn, an input's rank is its position in the list
+  userInputs.forEach((input, index) => {
+    let start = input ? lower.indexOf(input) : -1;
+    while (start !== -1) {
+      const end = start + input.length;
+      parts.push({ token: password.slice(start, end), start, end, pattern: 'dictionary', guesses: index + 1 });
+      start = lower.indexOf(input, end);
+    }
+  });
+
+  return parts;
+}
+
+/**
+ * Lightweight estimator built on the quick check: no download, and fast
+ * enough to run on every keystroke
+ *
+ * Common patterns (also in leetspeak or reversed), keyboard walks, custom
+ * dictionary words and user inputs cost a fixed number of guesses each;
+ * every other character is brute-forced over the character classes the
+ * password uses. Overlapping parts are resolved left to right, keeping
+ * the cheapest. Much less thorough than zxcvbn: ordinary words and names
+ * are not recognized.
+ *
+ * @example
+ * ```typescript
+ * setStrengthEstimator(quickEstimator);
+ * const { crackTime } = await analyzePasswordStrength('monkey-2024');
+ * ```
+ */
+export const quickEstimator: StrengthEstimator = {
+  name: 'quick',
+
+  load: () => Promise.resolve(),
+
+  estimate(password, userInputs) {
+    const parts = findWeakParts(password, userInputs)
+      .sort((a, b) => a.start - b.start || a.guesses - b.guesses);
+
+    const matches: StrengthMatch[] = [];
+    let guesses = 1;
+    let bruteForceLength = 0;
+    let cursor = 0;
+    for (const part of parts) {
+      if (part.start < cursor) {
+        continue;
+      }
+      matches.push(part);
+      guesses *= part.guesses;
+      bruteForceLength += part.start - cursor;
+      cursor = part.end;
+    }
+    bruteForceLength += password.length - cursor;
+    guesses *= Math.pow(charsetSize(password), bruteForceLength);
+
+    const score = guessesToScore(guesses);
+
+    return {
+      guesses,
+      score,
+      matches,
+      feedback: {
+        warning: matches.length > 0 ? EN_MESSAGES['zxcvbn.similarToCommon'] : '',
+        suggestions: score < 3 ? [EN_MESSAGES['zxcvbn.addAnotherWord']] : [],
+      },
+    };
+  },
+};
+
+/**
+ * Get a built-in requirements profile
+ *
+ * @param name - Preset name
+ * @returns A copy of the preset, safe to extend
+ * @throws If there is no preset with that name
+ *
+ * @example
+ * ```typescript
+ * meetsMinimumRequirements(password, {
+ *   profile: { ...getRequirementsPreset('pci'), symbol: true },
+ * });
+ * ```
+ */
+export function getRequirementsPreset(name: RequirementsPresetName): RequirementsProfile {
+  const preset = Object.hasOwn(REQUIREMENTS_PRESETS, name) ? REQUIREMENTS_PRESETS[name] : undefined;
+  if (!preset) {
+    throw new Error(`Unknown requirements preset: "${name}"`);
+  }
+
+  return {
+    ...preset,
+    ...(preset.bannedPatterns && { bannedPatterns: [...preset.bannedPatterns] }),
+    ...(preset.custom && { custom: [...preset.custom] }),
+  };
+}
+
+/**
+ * Escape a word for use in a regex
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find the banned patterns a password contains
+ *
+ * @returns The patterns found, words as given and regexes by their source
+ */
+function findBannedPatterns(password: string, bannedPatterns: (string | RegExp)[]): string[] {
+  const views = getPatternViews(password);
+  const found: string[] = [];
+
+  for (const banned of bannedPatterns) {
+    if (typeof banned === 'string') {
+      const word = banned.toLowerCase();
+      if (word && matchPatternViews(password, new RegExp(escapeRegExp(word)), views)) {
+        found.push(banned);
+      }
+    } else if (password.search(banned) !== -1) {
+      // search() ignores the global flag and lastIndex
+      found.push(banned.source);
+    }
+  }
+
+  return found;
+}
+
 /**
  * Check if password meets minimum security requirements
  * 
  * Useful for form validation to ensure basic password requirements
- * are met before submission.
+ * are met before submission. Checks the `default` preset unless given
+ * another profile; `requirements` lists every requirement with its
+ * status, ready to render as a checklist while the user types.
  * 
  * @param password - Password to validate
+ * @param options - Locale for the messages and the requirements profile
  * @returns Validation result with list of missing requirements
+ * @throws If the preset is unknown or `minLength` exceeds `maxLength`
  * 
  * @example
  * ```typescript
@@ -125,29 +440,72 @@ export function quickStrengthCheck(password: string): QuickStrengthResult {
  *   console.log('Password must have:', missing.join(', '));
  *   // "Password must have: At least 8 characters, One uppercase letter"
  * }
+ *
+ * meetsMinimumRequirements('abc123', { locale: 'fr' }).missing;
+ * // ["Au moins 8 caractères", "Une lettre majuscule"]
+ *
+ * // Live checklist
+ * const { requirements } = meetsMinimumRequirements(value, {
+ *   profile: { minLength: 10, symbol: true, bannedPatterns: ['acme'] },
+ * });
+ * requirements.map(({ met, message }) => `${met ? '✓' : '✗'} ${message}`);
+ * // ["✓ At least 10 characters", "✗ One symbol", "✓ No common words or patterns"]
  * ```
  */
-export function meetsMinimumRequirements(password: string): MinimumRequirementsResult {
-  const missing: string[] = [];
+export function meetsMinimumRequirements(
+  password: string,
+  options: MinimumRequirementsOptions = {}
+): MinimumRequirementsResult {
+  const { locale, profile: profileOption = 'default' } = options;
+  const profile = typeof profileOption === 'string' ? getRequirementsPreset(profileOption) : profileOption;
+  const { minLength, maxLength } = profile;
 
-  if (password.length < 8) {
-    missing.push('At least 8 characters');
+  if (minLength !== undefined && maxLength !== undefined && minLength > maxLength) {
+    throw new Error(`minLength (${minLength}) must not exceed maxLength (${maxLength})`);
   }
 
-  if (!/[a-z]/.test(password)) {
-    missing.push('One lowercase letter');
+  const requirements: RequirementStatus[] = [];
+  const check = (id: string, met: boolean, code: IssueCode, messageId: MessageId, params: IssueParams = {}): void => {
+    requirements.push({ id, met, ...createIssue(code, messageId, params, locale) });
+  };
+
+  if (minLength !== undefined) {
+    check('minLength', password.length >= minLength, 'TOO_SHORT', 'requirement.minLength', { minLength });
   }
 
-  if (!/[A-Z]/.test(password)) {
-    missing.push('One uppercase letter');
+  if (maxLength !== undefined) {
+    check('maxLength', password.length <= maxLength, 'TOO_LONG', 'requirement.maxLength', { maxLength });
   }
 
-  if (!/[0-9]/.test(password)) {
-    missing.push('One number');
+  for (const { id, regex, code, messageId } of CHARACTER_CLASS_REQUIREMENTS) {
+    if (profile[id]) {
+      check(id, regex.test(password), code, messageId);
+    }
   }
 
+  if (profile.bannedPatterns && profile.bannedPatterns.length > 0) {
+    const patterns = findBannedPatterns(password, profile.bannedPatterns);
+    check('bannedPatterns', patterns.length === 0, 'BANNED_PATTERN', 'requirement.noBannedPatterns', { patterns });
+  }
+
+  for (const requirement of profile.custom ?? []) {
+    requirements.push({
+      id: requirement.name,
+      met: requirement.validate(password),
+      message: requirement.message,
+      code: 'CUSTOM_RULE',
+      params: { rule: requirement.name },
+    });
+  }
+
+  const issues: AnalysisIssue[] = requirements
+    .filter(requirement => !requirement.met)
+    .map(({ code, message, params }) => ({ code, message, params }));
+
   return {
-    meets: missing.length === 0,
-    missing,
+    meets: issues.length === 0,
+    missing: issues.map(issue => issue.message),
+    issues,
+    requirements,
   };
 }
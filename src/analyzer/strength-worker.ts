@@ -0,0 +1,330 @@
+/**
+ * Strength Analysis in a Web Worker
+ *
+ * zxcvbn can take tens of milliseconds on a long passphrase, which makes
+ * typing janky on low-end devices. {@link createStrengthWorker} runs
+ * {@link analyzePasswordStrength} in a worker instead:
+ * - Only the latest request matters: starting an analysis cancels the
+ *   previous one, and its result is dropped
+ * - Requests can be cancelled with an `AbortSignal` or `cancel()`
+ * - Falls back to the main thread when workers are unavailable or the
+ *   worker fails to start
+ *
+ * The worker script calls {@link exposeStrengthAnalyzer}:
+ *
+ * ```typescript
+ * // strength.worker.ts
+ * import { exposeStrengthAnalyzer } from 'password-suite';
+ * exposeStrengthAnalyzer(self);
+ * ```
+ *
+ * Custom dictionaries, locales and the strength estimator live in the
+ * module that sets them, so set them in the worker script too.
+ *
+ * @module analyzer/strength-worker
+ */
+
+import { analyzePasswordStrength, type PasswordStrengthResult, type StrengthAnalysisOptions } from './strength';
+import { preloadStrengthEstimator } from './estimator';
+
+/**
+ * The page's handle on a worker, e.g. a `Worker`
+ */
+export interface StrengthWorkerPort {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message' | 'error', listener: (event: Event) => void): void;
+  removeEventListener(type: 'message' | 'error', listener: (event: Event) => void): void;
+  terminate?(): void;
+}
+
+/**
+ * The side of a worker that talks to the page, e.g. the worker's `self`
+ */
+export interface StrengthWorkerScope {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message', listener: (event: Event) => void): void;
+}
+
+/**
+ * Options for {@link createStrengthWorker}
+ */
+export interface StrengthWorkerOptions {
+  /**
+   * Worker running {@link exposeStrengthAnalyzer}, or a function that
+   * creates it. The function is not called where `Worker` is unavailable.
+   * Without a worker, analysis runs on the main thread.
+   */
+  worker?: StrengthWorkerPort | (() => StrengthWorkerPort);
+}
+
+/**
+ * Strength analyzer backed by a worker
+ */
+export interface StrengthWorker {
+  /**
+   * Analyze a password, cancelling the analysis in progress
+   *
+   * Rejects with an `AbortError` if the request is cancelled or
+   * superseded by a newer one.
+   */
+  analyze(password: string, options?: StrengthAnalysisOptions, signal?: AbortSignal): Promise<PasswordStrengthResult>;
+  /** Cancel the analysis in progress, if any */
+  cancel(): void;
+  /** Cancel the analysis in progress and stop the worker */
+  terminate(): void;
+  /** Whether analysis runs in a worker (false after a fallback) */
+  readonly offloaded: boolean;
+}
+
+type StrengthWorkerRequest =
+  | { type: 'analyze'; id: number; password: string; options: StrengthAnalysisOptions }
+  | { type: 'cancel'; id: number };
+
+type StrengthWorkerResponse =
+  | { type: 'result'; id: number; result: PasswordStrengthResult }
+  | { type: 'error'; id: number; message: string };
+
+interface PendingRequest {
+  id: number;
+  password: string;
+  options: StrengthAnalysisOptions;
+  resolve: (result: PasswordStrengthResult) => void;
+  reject: (error: unknown) => void;
+  /** Stop listening to the request's abort signal */
+  detach: () => void;
+}
+
+/**
+ * Check if Web Workers are available
+ */
+function hasWebWorkerSupport(): boolean {
+  return typeof Worker !== 'undefined';
+}
+
+/**
+ * Error for cancelled and superseded requests, named like fetch's
+ */
+function createAbortError(): Error {
+  return new DOMException('Strength analysis was cancelled', 'AbortError');
+}
+
+/**
+ * Start the worker, or return null to analyze on the main thread
+ */
+function connect(worker: StrengthWorkerOptions['worker']): StrengthWorkerPort | null {
+  if (!worker) {
+    return null;
+  }
+  if (typeof worker !== 'function') {
+    return worker;
+  }
+  if (!hasWebWorkerSupport()) {
+    return null;
+  }
+
+  try {
+    return worker();
+  } catch (error) {
+    console.warn('Failed to start strength worker, analyzing on the main thread:', error);
+    return null;
+  }
+}
+
+/**
+ * Create a strength analyzer that runs off the main thread
+ *
+ * @param options - The worker to use
+ * @returns Analyzer handling one request at a time
+ *
+ * @example
+ * ```typescript
+ * const strengthWorker = createStrengthWorker({
+ *   worker: () => new Worker(new URL('./strength.worker.ts', import.meta.url), { type: 'module' }),
+ * });
+ *
+ * input.addEventListener('input', async () => {
+ *   try {
+ *     render(await strengthWorker.analyze(input.value));
+ *   } catch (error) {
+ *     if (error instanceof Error && error.name !== 'AbortError') throw error;
+ *   }
+ * });
+ * ```
+ */
+export function createStrengthWorker(options: StrengthWorkerOptions = {}): StrengthWorker {
+  let port = connect(options.worker);
+  let nextId = 1;
+  let current: PendingRequest | null = null;
+  let terminated = false;
+
+  const settle = (id: number, outcome: (request: PendingRequest) => void): void => {
+    // Results of cancelled and superseded requests are dropped
+    if (current?.id !== id) {
+      return;
+    }
+    const request = current;
+    current = null;
+    request.detach();
+    outcome(request);
+  };
+
+  const runOnMainThread = (request: PendingRequest): void => {
+    analyzePasswordStrength(request.password, request.options).then(
+      (result) => settle(request.id, ({ resolve }) => resolve(result)),
+      (error: unknown) => settle(request.id, ({ reject }) => reject(error))
+    );
+  };
+
+  const onMessage = (event: Event): void => {
+    const response = (event as MessageEvent<StrengthWorkerResponse>).data;
+    if (response.type === 'result') {
+      settle(response.id, ({ resolve }) => resolve(response.result));
+    } else {
+      settle(response.id, ({ reject }) => reject(new Error(response.message)));
+    }
+  };
+
+  const disconnect = (): void => {
+    if (port) {
+      port.removeEventListener('message', onMessage);
+      port.removeEventListener('error', onError);
+      port.terminate?.();
+      port = null;
+    }
+  };
+
+  // The worker script failed to load or crashed: finish on the main thread
+  function onError(): void {
+    console.warn('Strength worker failed, analyzing on the main thread');
+    disconnect();
+    if (current) {
+      runOnMainThread(current);
+    }
+  }
+
+  const post = (request: StrengthWorkerRequest): void => {
+    port?.postMessage(request);
+  };
+
+  const cancel = (): void => {
+    if (!current) {
+      return;
+    }
+    const request = current;
+    current = null;
+    request.detach();
+    post({ type: 'cancel', id: request.id });
+    request.reject(createAbortError());
+  };
+
+  port?.addEventListener('message', onMessage);
+  port?.addEventListener('error', onError);
+
+  return {
+    get offloaded() {
+      return port !== null;
+    },
+
+    analyze(password, analysisOptions = {}, signal) {
+      cancel();
+
+      if (terminated) {
+        return Promise.reject(new Error('Strength worker has been terminated'));
+      }
+      if (signal?.aborted) {
+        return Promise.reject(createAbortError());
+      }
+
+      return new Promise<PasswordStrengthResult>((resolve, reject) => {
+        const id = nextId++;
+        const onAbort = (): void => {
+          if (current?.id === id) {
+            cancel();
+          }
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        current = {
+          id,
+          password,
+          options: analysisOptions,
+          resolve,
+          reject,
+          detach: () => signal?.removeEventListener('abort', onAbort),
+        };
+
+        if (port) {
+          post({ type: 'analyze', id, password, options: analysisOptions });
+        } else {
+          runOnMainThread(current);
+        }
+      });
+    },
+
+    cancel,
+
+    terminate() {
+      cancel();
+      disconnect();
+      terminated = true;
+    },
+  };
+}
+
+/**
+ * Answer {@link createStrengthWorker} requests inside a worker
+ *
+ * Starts loading the strength estimator (zxcvbn by default) right away,
+ * so the first analysis is fast. Set a different estimator before. Each
+ * request waits one task before running, so a cancellation posted right
+ * behind it skips the work.
+ *
+ * @param scope - The worker's global scope (`self`)
+ *
+ * @example
+ * ```typescript
+ * // strength.worker.ts
+ * import { exposeStrengthAnalyzer, registerDictionary } from 'password-suite';
+ *
+ * registerDictionary('company', ['acme', 'roadrunner']);
+ * exposeStrengthAnalyzer(self);
+ * ```
+ */
+export function exposeStrengthAnalyzer(scope: StrengthWorkerScope): void {
+  const active = new Set<number>();
+
+  const respond = (response: StrengthWorkerResponse): void => {
+    // Requests cancelled while running get no response
+    if (active.delete(response.id)) {
+      scope.postMessage(response);
+    }
+  };
+
+  scope.addEventListener('message', (event) => {
+    const request = (event as MessageEvent<StrengthWorkerRequest>).data;
+
+    if (request.type === 'cancel') {
+      active.delete(request.id);
+      return;
+    }
+
+    active.add(request.id);
+    setTimeout(() => {
+      if (!active.has(request.id)) {
+        return;
+      }
+      analyzePasswordStrength(request.password, request.options).then(
+        (result) => respond({ type: 'result', id: request.id, result }),
+        (error: unknown) => respond({
+          type: 'error',
+          id: request.id,
+          message: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }, 0);
+  });
+
+  preloadStrengthEstimator().catch((error: unknown) => {
+    console.warn('Failed to preload the strength estimator:', error);
+  });
+}
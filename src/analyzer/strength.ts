@@ -6,7 +6,83 @@
  * - zxcvbn is dynamically imported only when needed
  * - Reduces initial bundle size by ~370 KB
  * - First call triggers async load, subsequent calls use cached module
+ *
+ * zxcvbn is the default strength estimator; see {@link setStrengthEstimator}
+ * to use another one.
+ */
+
+import type { ValidationContext } from './policy';
+import { getHashGuessRate, type HashAlgorithm } from './expiry';
+import { translate, type MessageId } from '../i18n';
+import { createIssue, type AnalysisIssue } from './issues';
+import { findDictionaryMatches, loadDictionaries, type DictionaryMatch } from './dictionaries';
+import { EN_MESSAGES } from '../i18n/locales/en';
+import { getStrengthEstimator, type StrengthEstimator } from './estimator';
+
+/**
+ * Attack scenarios for crack time estimates (the zxcvbn scenarios)
+ * - `onlineThrottled`: online attack against a rate-limited login (100 guesses/hour)
+ * - `onlineUnthrottled`: online attack without rate limiting (10 guesses/second)
+ * - `offlineSlowHash`: stolen hashes protected by a slow hash (10^4 guesses/second)
+ * - `offlineFastHash`: stolen hashes protected by a fast hash (10^10 guesses/second)
+ */
+export type CrackScenario = 'onlineThrottled' | 'onlineUnthrottled' | 'offlineSlowHash' | 'offlineFastHash';
+
+/**
+ * Time to crack a password in one attack scenario
+ */
+export interface CrackTimeEstimate {
+  /** Attacker speed assumed by the scenario */
+  guessesPerSecond: number;
+  /** Time to crack in seconds */
+  seconds: number;
+  /** Human-readable time to crack, in the analysis locale */
+  display: string;
+}
+
+/**
+ * Crack time estimates for every attack scenario
  */
+export type CrackTimes = Record<CrackScenario, CrackTimeEstimate> & {
+  /**
+   * Offline attack against `options.hashAlgorithm`, at the rate used by
+   * the expiry estimator (present only when a hash algorithm is given)
+   */
+  custom?: CrackTimeEstimate & { hashAlgorithm: HashAlgorithm };
+};
+
+/**
+ * Kind of pattern found in a password
+ * - `dictionary`: common password, word or name (also user inputs)
+ * - `l33t`: dictionary word with substitutions (`p@ssw0rd`)
+ * - `spatial`: keyboard walk (`qwerty`, `zxcv`)
+ * - `sequence`: character run (`abc`, `1234`, `9753`)
+ * - `date`: date or year (`1987`, `13.05.2001`)
+ * - `repeat`: repeated characters or blocks (`aaa`, `abcabc`)
+ */
+export type StrengthMatchPattern =
+  | 'dictionary'
+  | 'l33t'
+  | 'spatial'
+  | 'sequence'
+  | 'date'
+  | 'repeat';
+
+/**
+ * Weak part of a password
+ */
+export interface StrengthMatch {
+  /** Matched substring */
+  token: string;
+  /** Index of the first character */
+  start: number;
+  /** Index after the last character, so `password.slice(start, end) === token` */
+  end: number;
+  /** Kind of pattern */
+  pattern: StrengthMatchPattern;
+  /** Guesses the strength estimator needs for this part alone */
+  guesses: number;
+}
 
 /**
  * Detailed password strength analysis result
@@ -18,11 +94,13 @@ export interface PasswordStrengthResult {
   strength: 'weak' | 'medium' | 'strong' | 'very-strong';
   /** Entropy in bits (measure of randomness) */
   entropy: number;
-  /** Human-readable time to crack estimate */
+  /** Human-readable time to crack estimate, in the analysis locale */
   crackTime: string;
   /** Time to crack in seconds */
   crackTimeSeconds: number;
-  /** Feedback from zxcvbn analysis */
+  /** Time to crack in every attack scenario */
+  crackTimes: CrackTimes;
+  /** Feedback from the strength estimator (zxcvbn by default) */
   feedback: {
     /** Warning message if any */
     warning: string;
@@ -31,122 +109,225 @@ export interface PasswordStrengthResult {
   };
   /** List of identified weaknesses */
   weaknesses: string[];
+  /** The weaknesses with their codes and parameters, in the same order */
+  issues: AnalysisIssue[];
+  /**
+   * Weak parts of the password, sorted by position: the estimator's
+   * matches (zxcvbn's match sequence without brute-force segments) plus
+   * the custom pattern checks
+   */
+  matches: StrengthMatch[];
+}
+
+/**
+ * Options for {@link analyzePasswordStrength}
+ */
+export interface StrengthAnalysisOptions {
+  /**
+   * Words an attacker could guess from the surroundings (product or site
+   * name, the user's pet), passed to the estimator as an extra dictionary
+   * (zxcvbn's `userInputs`)
+   */
+  userInputs?: string[];
+  /**
+   * User details, the same shape the policy engine takes. Every value is
+   * added to the user inputs; for emails, the local part is added too.
+   */
+  context?: ValidationContext;
+  /** Hash algorithm for the `custom` crack time scenario */
+  hashAlgorithm?: HashAlgorithm;
+  /** Locale for feedback, weaknesses and crack times (default: {@link getDefaultLocale}) */
+  locale?: string;
+  /**
+   * Estimator for this call only (default: {@link getStrengthEstimator}).
+   * Not supported with {@link createStrengthWorker}, which cannot send
+   * functions to the worker: set the estimator in the worker script.
+   */
+  estimator?: StrengthEstimator;
 }
 
 /**
  * Common password patterns to check
  */
-const COMMON_PATTERNS = [
-  /^123+/,
-  /^abc+/i,
-  /qwerty/i,
-  /password/i,
-  /admin/i,
-  /letmein/i,
-  /welcome/i,
-  /monkey/i,
-  /dragon/i,
-  /master/i,
-  /^(.)\1+$/, // Repeated characters
+const COMMON_PATTERNS: { regex: RegExp; pattern: StrengthMatchPattern }[] = [
+  { regex: /^123+/, pattern: 'sequence' },
+  { regex: /^abc+/i, pattern: 'sequence' },
+  { regex: /qwerty/i, pattern: 'spatial' },
+  { regex: /password/i, pattern: 'dictionary' },
+  { regex: /admin/i, pattern: 'dictionary' },
+  { regex: /letmein/i, pattern: 'dictionary' },
+  { regex: /welcome/i, pattern: 'dictionary' },
+  { regex: /monkey/i, pattern: 'dictionary' },
+  { regex: /dragon/i, pattern: 'dictionary' },
+  { regex: /master/i, pattern: 'dictionary' },
+  { regex: /^(.)\1+$/, pattern: 'repeat' }, // Repeated characters
 ];
 
-type ZxcvbnFn = (password: string, userInputs?: string[]) => import('zxcvbn').ZXCVBNResult;
+/**
+ * Message IDs of zxcvbn's English feedback, for translating it
+ */
+const ZXCVBN_FEEDBACK_IDS = new Map(
+  (Object.keys(EN_MESSAGES) as MessageId[])
+    .filter(id => id.startsWith('zxcvbn.'))
+    .map(id => [EN_MESSAGES[id], id])
+);
 
 /**
- * Cached zxcvbn function reference (avoids multiple dynamic imports)
+ * Keyboard patterns to check
  */
-let zxcvbnModule: ZxcvbnFn | null = null;
+const KEYBOARD_PATTERNS = ['qwert', 'asdf', 'zxcv', '12345', '09876'];
 
 /**
- * Loading promise for zxcvbn (ensures singleton import)
+ * Year and repeated sequence patterns to check
  */
-let zxcvbnLoadingPromise: Promise<ZxcvbnFn> | null = null;
+const YEAR_PATTERN = /19\d{2}|20\d{2}/;
+const REPEATED_SEQUENCE_PATTERN = /(.{2,})\1{2,}/;
 
 /**
- * Lazy-load zxcvbn module
- * Uses dynamic import to defer loading until first use
- * Caches the loaded module for subsequent calls
+ * Check for common weak patterns
  */
-async function loadZxcvbn(): Promise<ZxcvbnFn> {
-  // Return cached module if available
-  if (zxcvbnModule) {
-    return zxcvbnModule;
+function detectCommonPatterns(password: string, locale?: string): AnalysisIssue[] {
+  const issues: AnalysisIssue[] = [];
+
+  for (const { regex } of COMMON_PATTERNS) {
+    const match = regex.exec(password);
+    if (match) {
+      issues.push(createIssue('COMMON_PATTERN', 'strength.commonPattern', { token: match[0] }, locale));
+      break;
+    }
   }
 
-  // Return in-flight promise if loading
-  if (zxcvbnLoadingPromise) {
-    return zxcvbnLoadingPromise;
+  // Check for keyboard patterns
+  for (const pattern of KEYBOARD_PATTERNS) {
+    if (password.toLowerCase().includes(pattern)) {
+      issues.push(createIssue('KEYBOARD_PATTERN', 'strength.keyboardPattern', { pattern }, locale));
+      break;
+    }
+  }
+
+  // Check for date patterns (YYYY, MMDD, etc.)
+  const year = YEAR_PATTERN.exec(password);
+  if (year) {
+    issues.push(createIssue('DATE_PATTERN', 'strength.datePattern', { year: year[0] }, locale));
   }
 
-  // Start loading
-  zxcvbnLoadingPromise = import('zxcvbn').then((module) => {
-    const resolvedModule: ZxcvbnFn =
-      typeof module === 'function' ? module : (module.default as ZxcvbnFn);
-    zxcvbnModule = resolvedModule;
-    zxcvbnLoadingPromise = null;
-    return resolvedModule;
-  });
+  // Check for repeated sequences
+  const repeated = REPEATED_SEQUENCE_PATTERN.exec(password);
+  if (repeated) {
+    issues.push(createIssue('REPEATED_PATTERN', 'strength.repeatedSequence', { pattern: repeated[0] }, locale));
+  }
 
-  return zxcvbnLoadingPromise;
+  return issues;
 }
 
 /**
- * Check if zxcvbn is already loaded
- * Useful for conditional logic or preloading
+ * Translate a zxcvbn feedback message; unknown messages are kept as-is
  */
-export function isZxcvbnLoaded(): boolean {
-  return zxcvbnModule !== null;
+function translateFeedback(message: string, locale?: string): string {
+  const id = ZXCVBN_FEEDBACK_IDS.get(message);
+  return id ? translate(id, {}, locale) : message;
 }
 
 /**
- * Preload zxcvbn module
- * Call this early (e.g., on page load, user focus) to avoid delay on first analysis
- *
- * @example
- * ```typescript
- * // Preload on password field focus
- * passwordInput.addEventListener('focus', () => {
- *   preloadZxcvbn();
- * });
- * ```
+ * Find every occurrence of a pattern as a match span
  */
-export async function preloadZxcvbn(): Promise<void> {
-  await loadZxcvbn();
+function findSpans(
+  password: string,
+  regex: RegExp,
+  pattern: StrengthMatchPattern
+): Omit<StrengthMatch, 'guesses'>[] {
+  const global = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : `${regex.flags}g`);
+  return [...password.matchAll(global)].map(match => ({
+    token: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    pattern,
+  }));
 }
 
 /**
- * Check for common weak patterns
+ * Locate the custom pattern checks of {@link detectCommonPatterns}
  */
-function detectCommonPatterns(password: string): string[] {
-  const weaknesses: string[] = [];
-
-  for (const pattern of COMMON_PATTERNS) {
-    if (pattern.test(password)) {
-      weaknesses.push('Contains common pattern or dictionary word');
-      break;
+function findCustomSpans(password: string): Omit<StrengthMatch, 'guesses'>[] {
+  const lower = password.toLowerCase();
+  const spans = COMMON_PATTERNS.flatMap(({ regex, pattern }) => findSpans(password, regex, pattern));
+
+  for (const keyboardPattern of KEYBOARD_PATTERNS) {
+    let start = lower.indexOf(keyboardPattern);
+    while (start !== -1) {
+      const end = start + keyboardPattern.length;
+      spans.push({ token: password.slice(start, end), start, end, pattern: 'spatial' });
+      start = lower.indexOf(keyboardPattern, start + 1);
     }
   }
 
-  // Check for keyboard patterns
-  const keyboardPatterns = ['qwert', 'asdf', 'zxcv', '12345', '09876'];
-  for (const pattern of keyboardPatterns) {
-    if (password.toLowerCase().includes(pattern)) {
-      weaknesses.push('Contains keyboard pattern');
-      break;
+  spans.push(
+    ...findSpans(password, YEAR_PATTERN, 'date'),
+    ...findSpans(password, REPEATED_SEQUENCE_PATTERN, 'repeat')
+  );
+
+  return spans;
+}
+
+/**
+ * Merge the estimator's matches with the custom dictionary matches and
+ * the custom pattern checks
+ *
+ * Matches that the estimator already reported with the same span and
+ * kind are dropped. Dictionary matches keep their rank-based guesses; the
+ * pattern checks are priced by estimating their token alone.
+ */
+function buildMatches(
+  password: string,
+  estimatorMatches: StrengthMatch[],
+  dictionaryMatches: DictionaryMatch[],
+  estimator: StrengthEstimator,
+  userInputs: string[]
+): StrengthMatch[] {
+  const matches = [...estimatorMatches];
+
+  const seen = new Set(matches.map(match => `${match.start}:${match.end}:${match.pattern}`));
+  for (const { token, start, end, l33t, guesses } of dictionaryMatches) {
+    const pattern = l33t ? 'l33t' : 'dictionary';
+    const key = `${start}:${end}:${pattern}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      matches.push({ token, start, end, pattern, guesses });
     }
   }
 
-  // Check for date patterns (YYYY, MMDD, etc.)
-  if (/19\d{2}|20\d{2}/.test(password)) {
-    weaknesses.push('Contains year or date pattern');
+  for (const span of findCustomSpans(password)) {
+    const key = `${span.start}:${span.end}:${span.pattern}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      matches.push({ ...span, guesses: estimator.estimate(span.token, userInputs).guesses });
+    }
   }
 
-  // Check for repeated sequences
-  if (/(.{2,})\1{2,}/.test(password)) {
-    weaknesses.push('Contains repeated sequences');
+  return matches.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * Collect the user inputs and context values into one dictionary for the
+ * estimator (lowercased, without duplicates or blanks)
+ */
+function collectUserInputs(options: StrengthAnalysisOptions): string[] {
+  const inputs = [...(options.userInputs ?? [])];
+
+  for (const [key, value] of Object.entries(options.context ?? {})) {
+    if (!value) {
+      continue;
+    }
+    inputs.push(value);
+    if (key === 'email') {
+      inputs.push(value.split('@')[0] ?? '');
+    }
+    if (key === 'username') {
+      inputs.push(value.replace(/[^a-zA-Z0-9]/g, ''));
+    }
   }
 
-  return weaknesses;
+  return [...new Set(inputs.map(input => input.trim().toLowerCase()).filter(input => input.length > 0))];
 }
 
 /**
@@ -173,38 +354,73 @@ function calculateActualEntropy(password: string): number {
 }
 
 /**
- * Format crack time in human-readable format
+ * Crack time units, largest first: length in seconds and the message IDs
+ * for one and for several
  */
-function formatCrackTime(seconds: number): string {
-  if (seconds < 1) {
-    return 'instant';
-  } else if (seconds < 60) {
-    const roundedSeconds = Math.round(seconds);
-    return `${roundedSeconds} ${roundedSeconds === 1 ? 'second' : 'seconds'}`;
-  } else if (seconds < 3600) {
-    const minutes = Math.round(seconds / 60);
-    return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
-  } else if (seconds < 86400) {
-    const hours = Math.round(seconds / 3600);
-    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
-  } else if (seconds < 2592000) {
-    const days = Math.round(seconds / 86400);
-    return `${days} ${days === 1 ? 'day' : 'days'}`;
-  } else if (seconds < 31536000) {
-    const months = Math.round(seconds / 2592000);
-    return `${months} ${months === 1 ? 'month' : 'months'}`;
-  } else if (seconds < 3153600000) {
-    const years = Math.round(seconds / 31536000);
-    return `${years} ${years === 1 ? 'year' : 'years'}`;
-  } else {
-    return 'centuries';
+const CRACK_TIME_UNITS: [number, MessageId, MessageId][] = [
+  [31536000, 'crackTime.year', 'crackTime.years'],
+  [2592000, 'crackTime.month', 'crackTime.months'],
+  [86400, 'crackTime.day', 'crackTime.days'],
+  [3600, 'crackTime.hour', 'crackTime.hours'],
+  [60, 'crackTime.minute', 'crackTime.minutes'],
+  [1, 'crackTime.second', 'crackTime.seconds'],
+];
+
+/**
+ * Format crack time in human-readable format, in the given locale
+ */
+function formatCrackTime(seconds: number, locale?: string): string {
+  if (seconds >= 3153600000) {
+    return translate('crackTime.centuries', {}, locale);
+  }
+
+  for (const [unit, one, several] of CRACK_TIME_UNITS) {
+    if (seconds >= unit) {
+      const count = Math.round(seconds / unit);
+      return translate(count === 1 ? one : several, { count }, locale);
+    }
   }
+  return translate('crackTime.instant', {}, locale);
 }
 
 /**
- * Convert zxcvbn score (0-4) to our score (0-100)
+ * Guesses per second in each zxcvbn scenario
  */
-function convertZxcvbnScore(zxcvbnScore: number): number {
+const SCENARIO_GUESS_RATES: Record<CrackScenario, number> = {
+  onlineThrottled: 100 / 3600,
+  onlineUnthrottled: 10,
+  offlineSlowHash: 1e4,
+  offlineFastHash: 1e10,
+};
+
+/**
+ * Estimate crack times in every scenario from a guess count
+ * (seconds = guesses / guesses per second, as zxcvbn computes them)
+ */
+function estimateCrackTimes(guesses: number, hashAlgorithm?: HashAlgorithm, locale?: string): CrackTimes {
+  const estimate = (guessesPerSecond: number): CrackTimeEstimate => {
+    const seconds = guesses / guessesPerSecond;
+    return { guessesPerSecond, seconds, display: formatCrackTime(seconds, locale) };
+  };
+
+  const crackTimes: CrackTimes = {
+    onlineThrottled: estimate(SCENARIO_GUESS_RATES.onlineThrottled),
+    onlineUnthrottled: estimate(SCENARIO_GUESS_RATES.onlineUnthrottled),
+    offlineSlowHash: estimate(SCENARIO_GUESS_RATES.offlineSlowHash),
+    offlineFastHash: estimate(SCENARIO_GUESS_RATES.offlineFastHash),
+  };
+
+  if (hashAlgorithm) {
+    crackTimes.custom = { ...estimate(getHashGuessRate(hashAlgorithm)), hashAlgorithm };
+  }
+
+  return crackTimes;
+}
+
+/**
+ * Convert an estimator score (0-4, zxcvbn's scale) to our score (0-100)
+ */
+function convertEstimatorScore(estimatorScore: number): number {
   // zxcvbn: 0 = weak, 1 = weak, 2 = medium, 3 = strong, 4 = very strong
   const scoreMap: { [key: number]: number } = {
     0: 20,  // weak
@@ -213,7 +429,7 @@ function convertZxcvbnScore(zxcvbnScore: number): number {
     3: 80,  // strong
     4: 95,  // very strong
   };
-  return scoreMap[zxcvbnScore] ?? 20;
+  return scoreMap[estimatorScore] ?? 20;
 }
 
 /**
@@ -238,6 +454,8 @@ function determineStrength(score: number): 'weak' | 'medium' | 'strong' | 'very-
  * Consider calling `preloadZxcvbn()` early to avoid delay.
  *
  * @param password - Password to analyze
+ * @param options - User inputs and context that make a password guessable,
+ *   and the estimator to use
  * @returns Detailed strength analysis
  *
  * @example
@@ -246,7 +464,32 @@ function determineStrength(score: number): 'weak' | 'medium' | 'strong' | 'very-
  * console.log(result.strength);      // "medium"
  * console.log(result.score);         // 55
  * console.log(result.crackTime);     // "3 hours"
+ * console.log(result.crackTimes.offlineFastHash.display); // "instant"
  * console.log(result.feedback.suggestions); // ["Add more words", "Avoid dates"]
+ *
+ * // Underline the weak parts
+ * for (const { start, end, pattern } of result.matches) {
+ *   highlight(start, end, pattern); // e.g. 1-9 "l33t" for "P@ssw0rd"
+ * }
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Penalize the user's own details and the product name
+ * const result = await analyzePasswordStrength('AcmeAlice2024!', {
+ *   userInputs: ['acme'],
+ *   context: { username: 'alice', email: 'alice@example.com' },
+ * });
+ * console.log(result.weaknesses); // [..., "Contains personal or site-specific information"]
+ * console.log(result.issues.at(-1)); // { code: "CONTEXT_WORD", params: { words: ["acme", "alice"] }, ... }
+ *
+ * // Offline attack against our bcrypt hashes
+ * const { crackTimes } = await analyzePasswordStrength(password, { hashAlgorithm: 'bcrypt' });
+ * console.log(crackTimes.custom?.display); // "4 months"
+ *
+ * // Feedback and weaknesses in German
+ * const { feedback } = await analyzePasswordStrength('qwerty', { locale: 'de' });
+ * console.log(feedback.warning); // "Dies ist eines der 10 häufigsten Passwörter"
  * ```
  *
  * @example
@@ -262,36 +505,66 @@ function determineStrength(score: number): 'weak' | 'medium' | 'strong' | 'very-
  * });
  * ```
  */
-export async function analyzePasswordStrength(password: string): Promise<PasswordStrengthResult> {
+export async function analyzePasswordStrength(
+  password: string,
+  options: StrengthAnalysisOptions = {}
+): Promise<PasswordStrengthResult> {
   if (!password || password.length === 0) {
+    const empty = createIssue('EMPTY', 'strength.empty', {}, options.locale);
     return {
       score: 0,
       strength: 'weak',
       entropy: 0,
-      crackTime: 'instant',
+      crackTime: translate('crackTime.instant', {}, options.locale),
       crackTimeSeconds: 0,
+      crackTimes: estimateCrackTimes(0, options.hashAlgorithm, options.locale),
       feedback: {
-        warning: 'Password is empty',
-        suggestions: ['Enter a password'],
+        warning: empty.message,
+        suggestions: [translate('strength.enterPassword', {}, options.locale)],
       },
-      weaknesses: ['Password is empty'],
+      weaknesses: [empty.message],
+      issues: [empty],
+      matches: [],
     };
   }
 
-  // Lazy-load zxcvbn
-  const zxcvbn = await loadZxcvbn();
-
-  // Use zxcvbn for detailed analysis
-  const result = zxcvbn(password);
+  // Lazy-load the estimator (zxcvbn by default) and any custom
+  // dictionaries not loaded yet
+  const estimator = options.estimator ?? getStrengthEstimator();
+  await Promise.all([estimator.load(), loadDictionaries()]);
+
+  // Use the estimator for detailed analysis, with the caller's words as an
+  // extra dictionary. Custom dictionary words found in the password are
+  // added after them, most guessable first, so the score accounts for them too.
+  const userInputs = collectUserInputs(options);
+  const dictionaryMatches = findDictionaryMatches(password);
+  const dictionaryWords = [...dictionaryMatches]
+    .sort((a, b) => a.guesses - b.guesses)
+    .map(match => match.word);
+  const result = estimator.estimate(password, [...new Set([...userInputs, ...dictionaryWords])]);
 
   // Detect custom weaknesses
-  const weaknesses: string[] = [
-    ...detectCommonPatterns(password),
+  const issues: AnalysisIssue[] = [
+    ...detectCommonPatterns(password, options.locale),
   ];
 
+  // Single letters or digits would match almost anything
+  const lower = password.toLowerCase();
+  const foundInputs = userInputs.filter(input => input.length >= 3 && lower.includes(input));
+  if (foundInputs.length > 0) {
+    issues.push(createIssue('CONTEXT_WORD', 'strength.personalInfo', { words: foundInputs }, options.locale));
+  }
+
+  if (dictionaryMatches.length > 0) {
+    issues.push(createIssue('DICTIONARY_WORD', 'strength.dictionaryWord', {
+      words: [...new Set(dictionaryMatches.map(match => match.word))],
+      dictionaries: [...new Set(dictionaryMatches.map(match => match.dictionary))],
+    }, options.locale));
+  }
+
   // Add length-based weaknesses
   if (password.length < 8) {
-    weaknesses.push('Password is too short (minimum 8 characters)');
+    issues.push(createIssue('TOO_SHORT', 'strength.tooShort', { minLength: 8 }, options.locale));
   }
 
   // Check character diversity
@@ -307,20 +580,21 @@ export async function analyzePasswordStrength(password: string): Promise<Passwor
   if (hasSymbols) diversityCount++;
 
   if (diversityCount < 3) {
-    weaknesses.push('Password lacks character diversity');
+    issues.push(createIssue('LOW_DIVERSITY', 'strength.lowDiversity', {}, options.locale));
   }
+  const weaknesses = issues.map(issue => issue.message);
 
   // Calculate actual entropy
   const entropy = calculateActualEntropy(password);
 
-  // Get crack time from zxcvbn (online attack, 10/sec)
-  // zxcvbn can return string | number, so we ensure it's a number
-  const rawCrackTime = result.crack_times_seconds.online_no_throttling_10_per_second;
-  const crackTimeSeconds = typeof rawCrackTime === 'string' ? parseFloat(rawCrackTime) : rawCrackTime;
-  const crackTime = formatCrackTime(crackTimeSeconds);
+  // Crack times for every scenario from the estimator's guesses; the
+  // headline figure stays the unthrottled online attack (10/sec)
+  const crackTimes = estimateCrackTimes(result.guesses, options.hashAlgorithm, options.locale);
+  const crackTimeSeconds = crackTimes.onlineUnthrottled.seconds;
+  const crackTime = crackTimes.onlineUnthrottled.display;
 
   // Calculate final score
-  const baseScore = convertZxcvbnScore(result.score);
+  const baseScore = convertEstimatorScore(result.score);
 
   // Adjust score based on weaknesses
   const weaknessPenalty = Math.min(weaknesses.length * 10, 40);
@@ -328,10 +602,10 @@ export async function analyzePasswordStrength(password: string): Promise<Passwor
 
   // Build feedback
   const feedback = {
-    warning: result.feedback.warning || '',
+    warning: result.feedback.warning ? translateFeedback(result.feedback.warning, options.locale) : '',
     suggestions: [
-      ...result.feedback.suggestions,
-      ...(weaknesses.length > 0 ? ['Avoid common patterns and increase complexity'] : []),
+      ...result.feedback.suggestions.map(suggestion => translateFeedback(suggestion, options.locale)),
+      ...(weaknesses.length > 0 ? [translate('strength.avoidPatterns', {}, options.locale)] : []),
     ],
   };
 
@@ -341,7 +615,10 @@ export async function analyzePasswordStrength(password: string): Promise<Passwor
     entropy: Math.round(entropy * 10) / 10,
     crackTime,
     crackTimeSeconds,
+    crackTimes,
     feedback,
     weaknesses,
+    issues,
+    matches: buildMatches(password, result.matches, dictionaryMatches, estimator, userInputs),
   };
 }
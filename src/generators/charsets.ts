@@ -0,0 +1,19 @@
+/**
+ * Character Sets
+ * Shared ASCII character classes used by the password generators
+ */
+
+/** Uppercase letters (A-Z) */
+export const UPPERCASE = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/** Lowercase letters (a-z) */
+export const LOWERCASE = 'abcdefghijklmnopqrstuvwxyz';
+
+/** Digits (0-9) */
+export const NUMBERS = '0123456789';
+
+/** Default symbol set */
+export const SYMBOLS = '!@#$%^&*()_+-=[]{}|;:,.<>?';
+
+/** Ambiguous characters (0, O, l, 1, I) */
+export const AMBIGUOUS_CHARS = '0Ol1I';
@@ -0,0 +1,327 @@
+/**
+ * Constrained Password Sampler
+ * Uniform sampling over passwords that satisfy character-class minimums,
+ * first/last character restrictions and a limit on runs of identical
+ * characters
+ *
+ * Instead of generating candidates and rejecting the ones that fail, the
+ * sampler counts how many valid completions exist from every intermediate
+ * state (dynamic programming) and then builds the password one position at
+ * a time, taking each branch with probability proportional to the number of
+ * valid passwords beneath it. Every compliant password is equally likely,
+ * generation never retries, and the reported entropy is exactly
+ * log2(size of the constrained space).
+ *
+ * @module generators/constrained
+ */
+
+import { randomBytes, webCryptoRandomSource, type RandomSource } from '../utils/random';
+
+/**
+ * A character class that must appear a minimum number of times
+ */
+export interface CharacterRequirement {
+  /** Characters that satisfy the requirement */
+  chars: string;
+  /** Minimum number of characters drawn from `chars` */
+  min: number;
+}
+
+/**
+ * Description of the constrained password space
+ */
+export interface ConstrainedSpec {
+  /** Exact password length */
+  length: number;
+  /** Characters that may appear anywhere in the password */
+  charset: string;
+  /** Character classes with minimum occurrence counts */
+  requirements: CharacterRequirement[];
+  /** Maximum number of identical consecutive characters (unlimited if omitted) */
+  maxConsecutive?: number;
+  /** Characters allowed in the first position (any if omitted) */
+  firstChars?: string;
+  /** Characters allowed in the last position (any if omitted) */
+  lastChars?: string;
+}
+
+/**
+ * Sampled password with the exact entropy of the space it was drawn from
+ */
+export interface ConstrainedResult {
+  /** The generated password */
+  password: string;
+  /** log2 of the number of passwords satisfying the spec */
+  entropy: number;
+}
+
+/**
+ * Characters sharing the same requirement and position membership
+ */
+interface CharacterGroup {
+  chars: string[];
+  /** Bitmask of requirements the characters satisfy */
+  signature: number;
+  /** Characters may be placed first */
+  allowedFirst: boolean;
+  /** Characters may be placed last */
+  allowedLast: boolean;
+}
+
+/**
+ * Marker for "no previous character" in the counting state
+ */
+const NO_PREVIOUS = -1;
+
+/**
+ * Draw a uniform BigInt in [0, max) using rejection sampling
+ */
+function randomBigIntBelow(max: bigint, random: RandomSource): bigint {
+  if (max <= 1n) {
+    return 0n;
+  }
+
+  const bits = (max - 1n).toString(2).length;
+  const byteLength = Math.ceil(bits / 8);
+  const topMask = 0xff >> (byteLength * 8 - bits);
+
+  let value: bigint;
+  do {
+    const bytes = randomBytes(random, byteLength);
+    bytes[0] = (bytes[0] ?? 0) & topMask;
+    value = 0n;
+    for (const byte of bytes) {
+      value = (value << 8n) | BigInt(byte);
+    }
+  } while (value >= max);
+
+  return value;
+}
+
+/**
+ * log2 of an arbitrarily large BigInt
+ */
+function log2BigInt(value: bigint): number {
+  if (value <= 0n) {
+    return 0;
+  }
+
+  const bits = value.toString(2).length;
+  if (bits <= 53) {
+    return Math.log2(Number(value));
+  }
+
+  const shift = bits - 53;
+  return Math.log2(Number(value >> BigInt(shift))) + shift;
+}
+
+/**
+ * Partition the charset into groups of characters with identical
+ * requirement membership and position restrictions
+ */
+function groupCharacters(charset: string[], spec: ConstrainedSpec): CharacterGroup[] {
+  const groups = new Map<string, CharacterGroup>();
+
+  for (const char of charset) {
+    let signature = 0;
+    spec.requirements.forEach((requirement, index) => {
+      if (requirement.chars.includes(char)) {
+        signature |= 1 << index;
+      }
+    });
+    const allowedFirst = spec.firstChars === undefined || spec.firstChars.includes(char);
+    const allowedLast = spec.lastChars === undefined || spec.lastChars.includes(char);
+
+    const key = `${signature}:${allowedFirst}:${allowedLast}`;
+    const group = groups.get(key);
+    if (group) {
+      group.chars.push(char);
+    } else {
+      groups.set(key, { chars: [char], signature, allowedFirst, allowedLast });
+    }
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Generate a password uniformly at random from the space described by `spec`
+ *
+ * @param spec - Length, charset and constraints
+ * @param random - Random source for the draw
+ * @returns Password and exact entropy of the constrained space
+ * @throws Error if no password satisfies the constraints
+ */
+export function generateConstrained(
+  spec: ConstrainedSpec,
+  random: RandomSource = webCryptoRandomSource
+): ConstrainedResult {
+  const { length, requirements } = spec;
+  const charset = [...new Set(Array.from(spec.charset))];
+
+  if (charset.length === 0) {
+    throw new Error('Character set is empty');
+  }
+  if (requirements.length > 16) {
+    throw new Error('Too many character requirements (maximum 16)');
+  }
+
+  const groups = groupCharacters(charset, spec);
+  const maxRun = spec.maxConsecutive !== undefined && spec.maxConsecutive < length
+    ? spec.maxConsecutive
+    : null;
+
+  if (maxRun !== null && maxRun < 1) {
+    throw new Error('Maximum consecutive characters must be at least 1');
+  }
+
+  // Progress towards each minimum is stored as a mixed-radix number so the
+  // whole requirement state fits into one integer
+  const weights: number[] = [];
+  let progressStates = 1;
+  for (const requirement of requirements) {
+    weights.push(progressStates);
+    progressStates *= requirement.min + 1;
+  }
+  const complete = requirements.reduce(
+    (sum, requirement, index) => sum + requirement.min * (weights[index] ?? 0),
+    0
+  );
+
+  const advance = (progress: number, signature: number): number => {
+    let next = progress;
+    requirements.forEach((requirement, index) => {
+      const weight = weights[index] ?? 1;
+      if (signature & (1 << index) && Math.floor(progress / weight) % (requirement.min + 1) < requirement.min) {
+        next += weight;
+      }
+    });
+    return next;
+  };
+
+  const deficit = (progress: number): number => {
+    let largest = 0;
+    requirements.forEach((requirement, index) => {
+      const weight = weights[index] ?? 1;
+      const have = Math.floor(progress / weight) % (requirement.min + 1);
+      largest = Math.max(largest, requirement.min - have);
+    });
+    return largest;
+  };
+
+  const allowedAt = (group: CharacterGroup, position: number): boolean =>
+    (position !== 0 || group.allowedFirst) && (position !== length - 1 || group.allowedLast);
+
+  const runStates = (maxRun ?? 0) + 1;
+  const memo = new Map<number, bigint>();
+
+  // Number of valid completions given `position` characters already placed
+  const count = (position: number, progress: number, run: number, previous: number): bigint => {
+    if (position === length) {
+      return progress === complete ? 1n : 0n;
+    }
+    if (length - position < deficit(progress)) {
+      return 0n;
+    }
+
+    const key = ((position * progressStates + progress) * runStates + run) * (groups.length + 1) + previous + 1;
+    const cached = memo.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let total = 0n;
+
+    if (maxRun === null) {
+      for (const group of groups) {
+        if (allowedAt(group, position)) {
+          total += BigInt(group.chars.length) * count(position + 1, advance(progress, group.signature), 0, NO_PREVIOUS);
+        }
+      }
+    } else {
+      const previousGroup = groups[previous];
+      if (previousGroup && run < maxRun && allowedAt(previousGroup, position)) {
+        total += count(position + 1, advance(progress, previousGroup.signature), run + 1, previous);
+      }
+      groups.forEach((group, index) => {
+        const ways = group.chars.length - (index === previous ? 1 : 0);
+        if (ways > 0 && allowedAt(group, position)) {
+          total += BigInt(ways) * count(position + 1, advance(progress, group.signature), 1, index);
+        }
+      });
+    }
+
+    memo.set(key, total);
+    return total;
+  };
+
+  const total = count(0, 0, 0, NO_PREVIOUS);
+  if (total === 0n) {
+    throw new Error('No password satisfies the requested constraints');
+  }
+
+  // A single uniform draw over the whole space is decoded position by
+  // position: the branch is chosen by the range the value falls in and the
+  // character within the branch by the remainder.
+  let remaining = randomBigIntBelow(total, random);
+  let password = '';
+  let progress = 0;
+  let run = 0;
+  let previous = NO_PREVIOUS;
+  let previousChar = '';
+
+  for (let position = 0; position < length; position++) {
+    let chosen = false;
+
+    const previousGroup = groups[previous];
+    if (maxRun !== null && previousGroup && run < maxRun && allowedAt(previousGroup, position)) {
+      const nextProgress = advance(progress, previousGroup.signature);
+      const weight = count(position + 1, nextProgress, run + 1, previous);
+      if (remaining < weight) {
+        password += previousChar;
+        progress = nextProgress;
+        run += 1;
+        chosen = true;
+      } else {
+        remaining -= weight;
+      }
+    }
+
+    for (let index = 0; index < groups.length && !chosen; index++) {
+      const group = groups[index]!;
+      if (!allowedAt(group, position)) {
+        continue;
+      }
+      const candidates = maxRun !== null && index === previous
+        ? group.chars.filter(char => char !== previousChar)
+        : group.chars;
+      if (candidates.length === 0) {
+        continue;
+      }
+
+      const nextProgress = advance(progress, group.signature);
+      const nextRun = maxRun === null ? 0 : 1;
+      const nextPrevious = maxRun === null ? NO_PREVIOUS : index;
+      const ways = BigInt(candidates.length);
+      const weight = ways * count(position + 1, nextProgress, nextRun, nextPrevious);
+
+      if (remaining < weight) {
+        const char = candidates[Number(remaining % ways)]!;
+        remaining /= ways;
+        password += char;
+        progress = nextProgress;
+        run = nextRun;
+        previous = nextPrevious;
+        previousChar = char;
+        chosen = true;
+      } else {
+        remaining -= weight;
+      }
+    }
+  }
+
+  return {
+    password,
+    entropy: log2BigInt(total),
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * Stateless Password Derivation
+ * Deterministic site passwords from a master password, in the spirit of
+ * LessPass and Spectre: nothing is stored, the same inputs always produce
+ * the same password, and changing the counter rotates it.
+ *
+ * Derivation (version 1):
+ * 1. `key = scrypt(NFKC(master), salt, N = 2^15, r = 8, p = 1, dkLen = 32)`
+ *    where the salt is `"password-suite/derive/v1"` followed by the site,
+ *    login and counter, each length-prefixed (32-bit big-endian) so that no
+ *    two inputs share a salt.
+ * 2. The key seeds an HMAC-SHA256 counter-mode byte stream
+ *    (`HMAC(key, block index)`), long enough for any number of draws.
+ * 3. The stream drives a constrained sampler: one uniform draw (rejection
+ *    sampling, no modulo bias) over every password the options allow,
+ *    decoded position by position.
+ *
+ * The output depends on every generation option, including ones left at
+ * their defaults. Store the options alongside the site if you change them.
+ *
+ * Versioning contract: a version's output never changes. The data that
+ * shapes a version 1 password (salt prefix, scrypt parameters, default
+ * options and symbol presets) is frozen in this module, so changes to
+ * {@link getDefaultOptions} or the presets leave derived passwords alone;
+ * the sampler and byte stream are shared with {@link generatePassword} and
+ * pinned by the regression vectors in the tests. A change that would alter
+ * any derived password ships as a new version with its own salt prefix,
+ * selected through `version`; older versions stay available for existing
+ * passwords. Generation options added after version 1 are rejected by it.
+ *
+ * @module generators/derive
+ */
+
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { generatePassword, type PasswordGeneratorOptions, type GeneratedPassword } from './password';
+import { createKeyStreamRandomSource } from '../utils/random';
+
+/**
+ * Inputs for deterministic password derivation
+ */
+export interface DerivePasswordInput {
+  /** Master password (normalized to NFKC before use) */
+  master: string;
+  /** Site identifier, e.g. `example.com` (trimmed and lowercased) */
+  site: string;
+  /** Login or username for the site (default: empty) */
+  login?: string;
+  /** Rotation counter, a positive integer (default: 1) */
+  counter?: number;
+  /**
+   * Generation options, merged over the defaults of {@link getDefaultOptions}
+   * as they were in version 1
+   */
+  options?: Partial<PasswordGeneratorOptions>;
+  /** Derivation version (default and only version: 1) */
+  version?: 1;
+}
+
+/**
+ * Domain separation prefix for version 1 of the derivation
+ */
+const SALT_PREFIX = 'password-suite/derive/v1';
+
+/**
+ * scrypt cost parameters (32 MiB of memory per derivation)
+ */
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1, dkLen: 32 } as const;
+
+/**
+ * Highest supported counter value (32-bit unsigned)
+ */
+const MAX_COUNTER = 0xffffffff;
+
+/**
+ * Encode a 32-bit unsigned integer big-endian
+ */
+function uint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+/**
+ * Length-prefix a UTF-8 string so adjacent fields cannot run together
+ */
+function lengthPrefixed(value: string): Uint8Array {
+  const bytes = utf8ToBytes(value);
+  return concatBytes(uint32(bytes.length), bytes);
+}
+
+/**
+ * Build the scrypt salt for a site, login and counter
+ */
+function buildSalt(site: string, login: string, counter: number): Uint8Array {
+  return concatBytes(
+    utf8ToBytes(SALT_PREFIX),
+    lengthPrefixed(site),
+    lengthPrefixed(login),
+    uint32(counter)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Version 1, frozen. Do not change anything below to follow the password
+// generator: existing derived passwords would change with it.
+// ---------------------------------------------------------------------------
+
+/**
+ * Default symbol characters as of version 1
+ */
+const V1_SYMBOLS = '!@#$%^&*()_+-=[]{}|;:,.<>?';
+
+/**
+ * Symbol presets as shipped with version 1 (`json-safe` was still the
+ * default set then)
+ */
+const V1_SYMBOL_SETS: Record<string, string> = {
+  default: V1_SYMBOLS,
+  'shell-safe': '-_.,+=:@%',
+  'url-safe': '-._~',
+  'xml-safe': '!@#$%^*()_+-=[]{}|;:,.?',
+  'json-safe': V1_SYMBOLS,
+};
+
+/**
+ * Generation defaults as of version 1
+ */
+const V1_DEFAULT_OPTIONS: PasswordGeneratorOptions = {
+  length: 16,
+  includeUppercase: true,
+  includeLowercase: true,
+  includeNumbers: true,
+  includeSymbols: true,
+  excludeAmbiguous: false,
+};
+
+/**
+ * Generation options version 1 understands
+ */
+const V1_OPTION_NAMES: ReadonlySet<string> = new Set([
+  'length',
+  'includeUppercase',
+  'includeLowercase',
+  'includeNumbers',
+  'includeSymbols',
+  'excludeAmbiguous',
+  'customCharset',
+  'symbolSet',
+  'excludeChars',
+  'minUppercase',
+  'minLowercase',
+  'minNumbers',
+  'minSymbols',
+  'firstCharClass',
+  'lastCharClass',
+  'maxConsecutiveRepeats',
+]);
+
+/**
+ * Version 1: merge the options over the v1 defaults, pin symbol presets to
+ * their v1 characters, and sample from the key stream
+ */
+function generateV1(overrides: Partial<PasswordGeneratorOptions>, key: Uint8Array): GeneratedPassword {
+  const unsupported = Object.keys(overrides).find(name => !V1_OPTION_NAMES.has(name));
+  if (unsupported !== undefined) {
+    throw new Error(`Option "${unsupported}" is not supported by derivation version 1`);
+  }
+
+  const options: PasswordGeneratorOptions = { ...V1_DEFAULT_OPTIONS, ...overrides };
+  const symbolSet = options.symbolSet ?? 'default';
+  const symbols = Object.hasOwn(V1_SYMBOL_SETS, symbolSet) ? V1_SYMBOL_SETS[symbolSet] : undefined;
+
+  return generatePassword(
+    symbols !== undefined ? { ...options, symbolSet: symbols } : options,
+    createKeyStreamRandomSource(key)
+  );
+}
+
+/**
+ * Derive a site password deterministically from a master password
+ *
+ * The scrypt step is deliberately slow and memory-hard so that a leaked
+ * site password cannot be used to brute-force the master password cheaply.
+ *
+ * @param input - Master password, site, login, counter and options
+ * @returns Derived password with strength metrics
+ * @throws Error if the inputs or generation options are invalid
+ *
+ * @example
+ * ```typescript
+ * const { password } = await derivePassword({
+ *   master: 'correct horse battery staple',
+ *   site: 'example.com',
+ *   login: 'alice@example.com',
+ * });
+ *
+ * // Rotate after a breach by bumping the counter
+ * const rotated = await derivePassword({
+ *   master: 'correct horse battery staple',
+ *   site: 'example.com',
+ *   login: 'alice@example.com',
+ *   counter: 2,
+ * });
+ * ```
+ */
+export async function derivePassword(input: DerivePasswordInput): Promise<GeneratedPassword> {
+  const site = input.site.trim().toLowerCase();
+  const login = input.login ?? '';
+  const counter = input.counter ?? 1;
+
+  if (!input.master) {
+    throw new Error('Master password must not be empty');
+  }
+  if (!site) {
+    throw new Error('Site must not be empty');
+  }
+  if (!Number.isInteger(counter) || counter < 1 || counter > MAX_COUNTER) {
+    throw new Error(`Counter must be an integer between 1 and ${MAX_COUNTER}`);
+  }
+  if ((input.version ?? 1) !== 1) {
+    throw new Error(`Unknown derivation version: ${String(input.version)}`);
+  }
+
+  const key = await scryptAsync(
+    utf8ToBytes(input.master.normalize('NFKC')),
+    buildSalt(site, login, counter),
+    SCRYPT_PARAMS
+  );
+
+  return generateV1(input.options ?? {}, key);
+}
@@ -0,0 +1,330 @@
+/**
+ * BIP39 Mnemonic Generator
+ * Generates and checks BIP39 mnemonic phrases, the word encoding used by
+ * hardware wallets and most cryptocurrency software.
+ *
+ * Encoding:
+ * 1. Entropy of 128-256 bits (in steps of 32) is drawn from the random
+ *    source.
+ * 2. The first `entropy bits / 32` bits of `SHA-256(entropy)` are appended
+ *    as a checksum.
+ * 3. The result is split into 11-bit groups, each an index into a
+ *    2048-word list: 12 words for 128 bits up to 24 words for 256 bits.
+ *
+ * The seed is `PBKDF2-HMAC-SHA512(NFKD(mnemonic), "mnemonic" +
+ * NFKD(passphrase), 2048 iterations, 64 bytes)`.
+ *
+ * All ten official BIP39 lists are built in: pick one by language and load
+ * it with `loadWordlist('bip39-<language>')` first (English by default).
+ * Other lists can be passed as `wordlist`. Words are compared in NFKD, so
+ * accented mnemonics match whichever form they are typed in, and Japanese
+ * mnemonics are joined with the ideographic space (U+3000) as BIP39
+ * requires.
+ *
+ * @module generators/mnemonic
+ */
+
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+import { sha512 } from '@noble/hashes/sha512';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { randomBytes, webCryptoRandomSource, type RandomSource } from '../utils/random';
+import { normalizePassword } from '../utils/normalize';
+import { getLoadedWordlist, isWordlistLoaded, type WordlistName } from './wordlists';
+
+/**
+ * Entropy sizes allowed by BIP39, in bits
+ */
+export type MnemonicStrength = 128 | 160 | 192 | 224 | 256;
+
+/**
+ * Languages of the official BIP39 lists
+ */
+export type MnemonicLanguage =
+  | 'english'
+  | 'japanese'
+  | 'spanish'
+  | 'french'
+  | 'italian'
+  | 'czech'
+  | 'portuguese'
+  | 'korean'
+  | 'chinese-simplified'
+  | 'chinese-traditional';
+
+/**
+ * A BIP39 list: the language of a built-in list, or the 2048 words
+ */
+export type MnemonicWordlist = MnemonicLanguage | readonly string[];
+
+/**
+ * Configuration options for mnemonic generation
+ */
+export interface MnemonicOptions {
+  /** Bits of entropy (default: 128, giving 12 words) */
+  strengthBits?: MnemonicStrength;
+  /**
+   * Language of the built-in list (default: `'english'`), which must be
+   * loaded with `loadWordlist('bip39-<language>')` first
+   */
+  language?: MnemonicLanguage;
+  /** Other 2048-word list to use instead of a built-in language */
+  wordlist?: readonly string[];
+}
+
+/**
+ * Number of words in every BIP39 list (11 bits per word)
+ */
+const WORDLIST_SIZE = 2048;
+
+/**
+ * Built-in list of each language
+ */
+const MNEMONIC_WORDLISTS: Record<MnemonicLanguage, WordlistName> = {
+  english: 'bip39-english',
+  japanese: 'bip39-japanese',
+  spanish: 'bip39-spanish',
+  french: 'bip39-french',
+  italian: 'bip39-italian',
+  czech: 'bip39-czech',
+  portuguese: 'bip39-portuguese',
+  korean: 'bip39-korean',
+  'chinese-simplified': 'bip39-chinese-simplified',
+  'chinese-traditional': 'bip39-chinese-traditional',
+};
+
+/**
+ * Space between the words of a Japanese mnemonic
+ */
+const IDEOGRAPHIC_SPACE = '\u3000';
+
+/**
+ * Lookup tables for the lists seen so far, keyed by list
+ */
+const wordIndexes = new WeakMap<readonly string[], Map<string, number>>();
+
+/**
+ * Resolve a mnemonic wordlist, its NFKD word-to-index table and the space
+ * between its words
+ *
+ * @throws Error if the language is unknown, its list is not loaded, or a
+ * custom list does not have exactly 2048 distinct words
+ */
+function resolveMnemonicWordlist(wordlist: MnemonicWordlist = 'english'): {
+  words: readonly string[];
+  index: Map<string, number>;
+  separator: string;
+} {
+  let words: readonly string[];
+  if (typeof wordlist === 'string') {
+    if (!Object.hasOwn(MNEMONIC_WORDLISTS, wordlist)) {
+      throw new Error(`Unknown mnemonic language: "${wordlist}"`);
+    }
+    words = getLoadedWordlist(MNEMONIC_WORDLISTS[wordlist]);
+  } else {
+    words = wordlist;
+  }
+
+  let index = wordIndexes.get(words);
+  if (!index) {
+    index = new Map(words.map((word, i) => [normalizePassword(word, 'NFKD'), i]));
+    if (words.length !== WORDLIST_SIZE || index.size !== WORDLIST_SIZE) {
+      throw new Error(`Mnemonic wordlist must contain exactly ${WORDLIST_SIZE} distinct words`);
+    }
+    wordIndexes.set(words, index);
+  }
+
+  const japanese = isWordlistLoaded('bip39-japanese') && words === getLoadedWordlist('bip39-japanese');
+  return { words, index, separator: japanese ? IDEOGRAPHIC_SPACE : ' ' };
+}
+
+/**
+ * The list chosen by generation options
+ *
+ * @throws Error if both a language and a wordlist are given
+ */
+function selectMnemonicWordlist(options: MnemonicOptions): MnemonicWordlist {
+  if (options.language !== undefined && options.wordlist !== undefined) {
+    throw new Error('Specify either a language or a wordlist, not both');
+  }
+  return options.wordlist ?? options.language ?? 'english';
+}
+
+/**
+ * Encode entropy as a mnemonic phrase
+ *
+ * @param entropy - 16, 20, 24, 28 or 32 bytes
+ * @param wordlist - Language of a built-in list, or the words (default:
+ * `'english'`)
+ * @returns Space-separated mnemonic (ideographic spaces for Japanese)
+ * @throws Error if the entropy length is not allowed
+ *
+ * @example
+ * ```typescript
+ * await loadWordlist('bip39-english');
+ * entropyToMnemonic(new Uint8Array(16));
+ * // "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about"
+ *
+ * await loadWordlist('bip39-spanish');
+ * entropyToMnemonic(new Uint8Array(16), 'spanish');
+ * // "ábaco ábaco ábaco ábaco ábaco ábaco ábaco ábaco ábaco ábaco ábaco abierto"
+ * ```
+ */
+export function entropyToMnemonic(entropy: Uint8Array, wordlist?: MnemonicWordlist): string {
+  if (entropy.length < 16 || entropy.length > 32 || entropy.length % 4 !== 0) {
+    throw new Error('Entropy must be 16, 20, 24, 28 or 32 bytes');
+  }
+
+  const { words, separator } = resolveMnemonicWordlist(wordlist);
+  const checksumBits = entropy.length / 4;
+  const wordCount = (entropy.length * 8 + checksumBits) / 11;
+  // At most 8 checksum bits, so the first hash byte always covers them
+  const data = [...entropy, sha256(entropy)[0] ?? 0];
+
+  const result: string[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of data) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 11 && result.length < wordCount) {
+      bits -= 11;
+      result.push(words[(buffer >> bits) & 0x7ff] ?? '');
+      buffer &= (1 << bits) - 1;
+    }
+  }
+
+  return result.join(separator);
+}
+
+/**
+ * Decode a mnemonic phrase back to its entropy
+ *
+ * Words are separated by any whitespace (including the ideographic space
+ * used in Japanese mnemonics) and compared in NFKD.
+ *
+ * @param mnemonic - Mnemonic phrase
+ * @param wordlist - Language of a built-in list, or the words (default:
+ * `'english'`)
+ * @returns The entropy bytes
+ * @throws Error if the word count, a word, or the checksum is invalid
+ */
+export function mnemonicToEntropy(mnemonic: string, wordlist?: MnemonicWordlist): Uint8Array {
+  const { index } = resolveMnemonicWordlist(wordlist);
+  const words = normalizePassword(mnemonic, 'NFKD').trim().split(/\s+/);
+
+  if (words.length < 12 || words.length > 24 || words.length % 3 !== 0) {
+    throw new Error('Mnemonic must have 12, 15, 18, 21 or 24 words');
+  }
+
+  const checksumBits = words.length / 3;
+  const entropy = new Uint8Array((words.length * 11 - checksumBits) / 8);
+
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  for (const word of words) {
+    const value = index.get(word);
+    if (value === undefined) {
+      throw new Error(`Unknown mnemonic word: "${word}"`);
+    }
+
+    buffer = (buffer << 11) | value;
+    bits += 11;
+    while (bits >= 8 && offset < entropy.length) {
+      bits -= 8;
+      entropy[offset++] = (buffer >> bits) & 0xff;
+      buffer &= (1 << bits) - 1;
+    }
+  }
+
+  // What remains in the buffer is the checksum
+  const expected = (sha256(entropy)[0] ?? 0) >> (8 - checksumBits);
+  if (buffer !== expected) {
+    throw new Error('Invalid mnemonic checksum');
+  }
+
+  return entropy;
+}
+
+/**
+ * Generate a BIP39 mnemonic phrase
+ *
+ * @param options - Entropy size and language or wordlist
+ * @param random - Random source (default: Web Crypto)
+ * @returns Space-separated mnemonic of 12-24 words
+ * @throws Error if the strength is not allowed, the wordlist is not loaded,
+ * or both a language and a wordlist are given
+ *
+ * @example
+ * ```typescript
+ * await loadWordlist('bip39-english');
+ * const mnemonic = generateMnemonic({ strengthBits: 256 }); // 24 words
+ *
+ * await loadWordlist('bip39-japanese');
+ * generateMnemonic({ language: 'japanese' }); // words joined with U+3000
+ * ```
+ */
+export function generateMnemonic(
+  options: MnemonicOptions = {},
+  random: RandomSource = webCryptoRandomSource
+): string {
+  const strengthBits = options.strengthBits ?? 128;
+  if (!Number.isInteger(strengthBits) || strengthBits < 128 || strengthBits > 256 || strengthBits % 32 !== 0) {
+    throw new Error('Mnemonic strength must be 128, 160, 192, 224 or 256 bits');
+  }
+
+  // Resolve first so a missing list fails before any randomness is drawn
+  const wordlist = selectMnemonicWordlist(options);
+  resolveMnemonicWordlist(wordlist);
+  return entropyToMnemonic(randomBytes(random, strengthBits / 8), wordlist);
+}
+
+/**
+ * Check that a mnemonic has a valid word count, known words and a
+ * matching checksum
+ *
+ * @param mnemonic - Mnemonic phrase
+ * @param wordlist - Language of a built-in list, or the words (default:
+ * `'english'`)
+ * @returns True if the mnemonic is valid
+ * @throws Error only if the wordlist itself is unusable (e.g. not loaded)
+ *
+ * @example
+ * ```typescript
+ * await loadWordlist('bip39-english');
+ * validateMnemonic('legal winner thank year wave sausage worth useful legal winner thank yellow'); // true
+ * validateMnemonic('legal winner thank year wave sausage worth useful legal winner thank year');   // false
+ * ```
+ */
+export function validateMnemonic(mnemonic: string, wordlist?: MnemonicWordlist): boolean {
+  resolveMnemonicWordlist(wordlist);
+
+  try {
+    mnemonicToEntropy(mnemonic, wordlist);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Derive the 64-byte BIP39 seed from a mnemonic
+ *
+ * As in BIP39, the mnemonic is not validated here; call
+ * {@link validateMnemonic} first when the phrase comes from a user.
+ *
+ * @param mnemonic - Mnemonic phrase
+ * @param passphrase - Optional BIP39 passphrase (default: empty)
+ * @returns 64-byte seed
+ *
+ * @example
+ * ```typescript
+ * const seed = mnemonicToSeed(mnemonic, 'TREZOR');
+ * ```
+ */
+export function mnemonicToSeed(mnemonic: string, passphrase = ''): Uint8Array {
+  const password = utf8ToBytes(normalizePassword(mnemonic, 'NFKD'));
+  const salt = utf8ToBytes(`mnemonic${normalizePassword(passphrase, 'NFKD')}`);
+  return pbkdf2(sha512, password, salt, { c: 2048, dkLen: 64 });
+}
@@ -1,65 +1,37 @@
 /**
  * Passphrase Generator
  * Generates memorable passphrases using diceware method
- * Uses subset of EFF long wordlist (7776 words)
+ * Draws words from a built-in wordlist (the basic English list by default,
+ * an EFF list or a localized list) or from a caller-supplied list
+ *
+ * Passphrases are returned in the policy engine's normalization form (NFKC),
+ * so a generated phrase validates exactly like the same phrase typed in.
+ *
+ * The `grammar` structure fills a sentence-like template from English
+ * part-of-speech lists ("brave-otter-juggles-seven-lanterns"). It is easier
+ * to recall but carries less entropy per word than the flat lists, and the
+ * result reports the entropy of every slot.
  */
 
 import type { GeneratedPassword } from './password';
-
-// EFF Long Wordlist subset (384 words - subset for bundle size)
-// In production, you could load full 7776 word list from CDN
-const DICEWARE_WORDS = [
-  'able', 'about', 'account', 'acid', 'across', 'actor', 'actual', 'adapt', 'add', 'address',
-  'adjust', 'admit', 'adopt', 'adult', 'advance', 'advice', 'affair', 'affect', 'afford', 'afraid',
-  'after', 'again', 'against', 'agency', 'agent', 'agree', 'ahead', 'aim', 'alarm', 'album',
-  'alert', 'alien', 'alive', 'allow', 'almost', 'alone', 'along', 'already', 'also', 'alter',
-  'always', 'amateur', 'amazing', 'among', 'amount', 'amused', 'analyst', 'anchor', 'ancient', 'anger',
-  'angle', 'angry', 'animal', 'ankle', 'announce', 'annual', 'another', 'answer', 'antenna', 'antique',
-  'anxiety', 'apart', 'apology', 'appear', 'apple', 'approve', 'april', 'arch', 'arctic', 'area',
-  'arena', 'argue', 'armed', 'armor', 'army', 'around', 'arrange', 'arrest', 'arrival', 'arrive',
-  'arrow', 'artist', 'artwork', 'asking', 'aspect', 'assault', 'asset', 'assist', 'assume', 'asthma',
-  'athlete', 'atom', 'attack', 'attend', 'attract', 'auction', 'audit', 'august', 'aunt', 'author',
-  'auto', 'autumn', 'average', 'avocado', 'avoid', 'awake', 'aware', 'away', 'awesome', 'awful',
-  'awkward', 'axis', 'baby', 'bachelor', 'bacon', 'badge', 'balance', 'balcony', 'ball', 'bamboo',
-  'banana', 'banner', 'bargain', 'barrel', 'basic', 'basket', 'battle', 'beach', 'bean', 'beauty',
-  'because', 'become', 'beef', 'before', 'begin', 'behave', 'behind', 'believe', 'below', 'belt',
-  'bench', 'benefit', 'best', 'betray', 'better', 'between', 'beyond', 'bicycle', 'bind', 'biology',
-  'bird', 'birth', 'bitter', 'black', 'blade', 'blame', 'blanket', 'blast', 'bleak', 'bless',
-  'blind', 'blood', 'blossom', 'blouse', 'blue', 'blur', 'blush', 'board', 'boat', 'body',
-  'boil', 'bomb', 'bone', 'bonus', 'book', 'boost', 'border', 'boring', 'borrow', 'boss',
-  'bottom', 'bounce', 'bowl', 'brain', 'brand', 'brass', 'brave', 'bread', 'breeze', 'brick',
-  'bridge', 'brief', 'bright', 'bring', 'brisk', 'broccoli', 'broken', 'bronze', 'broom', 'brother',
-  'brown', 'brush', 'bubble', 'buddy', 'budget', 'buffalo', 'build', 'bulb', 'bulk', 'bullet',
-  'bundle', 'bunker', 'burden', 'burger', 'burst', 'business', 'busy', 'butter', 'buyer', 'buzz',
-  'cabbage', 'cabin', 'cable', 'cactus', 'cage', 'cake', 'call', 'calm', 'camera', 'camp',
-  'canal', 'cancel', 'candy', 'cannon', 'canoe', 'canvas', 'canyon', 'capable', 'capital', 'captain',
-  'carbon', 'card', 'cargo', 'carpet', 'carry', 'cart', 'case', 'cash', 'casino', 'castle',
-  'casual', 'catalog', 'catch', 'category', 'cattle', 'caught', 'cause', 'caution', 'cave', 'ceiling',
-  'celery', 'cement', 'census', 'century', 'cereal', 'certain', 'chair', 'chalk', 'champion', 'change',
-  'chaos', 'chapter', 'charge', 'chase', 'chat', 'cheap', 'check', 'cheese', 'chef', 'cherry',
-  'chest', 'chicken', 'chief', 'child', 'chimney', 'choice', 'choose', 'chronic', 'chuckle', 'chunk',
-  'churn', 'cigar', 'cinnamon', 'circle', 'citizen', 'city', 'civic', 'civil', 'claim', 'clap',
-  'clarify', 'claw', 'clay', 'clean', 'clerk', 'clever', 'click', 'client', 'cliff', 'climb',
-  'clinic', 'clip', 'clock', 'clog', 'close', 'cloth', 'cloud', 'clown', 'club', 'clump',
-  'cluster', 'clutch', 'coach', 'coast', 'coconut', 'code', 'coffee', 'coil', 'coin', 'collect',
-  'color', 'column', 'combine', 'come', 'comfort', 'comic', 'common', 'company', 'concert', 'conduct',
-  'confirm', 'congress', 'connect', 'consider', 'control', 'convince', 'cook', 'cool', 'copper', 'copy',
-  'coral', 'core', 'corn', 'correct', 'cost', 'cotton', 'couch', 'country', 'couple', 'course',
-  'cousin', 'cover', 'coyote', 'crack', 'cradle', 'craft', 'cram', 'crane', 'crash', 'crater',
-  'crawl', 'crazy', 'cream', 'credit', 'creek', 'crew', 'cricket', 'crime', 'crisp', 'critic',
-  'crop', 'cross', 'crouch', 'crowd', 'crucial', 'cruel', 'cruise', 'crumble', 'crunch', 'crush',
-  'crystal', 'cube', 'culture', 'cupboard', 'curious', 'current', 'curtain', 'curve', 'cushion', 'custom',
-  'cycle', 'dad', 'damage', 'damp', 'dance', 'danger', 'daring', 'dash', 'daughter', 'dawn',
-  'deal', 'debate', 'debris', 'decade', 'december', 'decide', 'decline', 'decorate', 'decrease', 'deer',
-  'defense', 'define', 'defy', 'degree', 'delay', 'deliver', 'demand', 'demise', 'denial', 'dentist',
-  'deny', 'depart', 'depend', 'deposit', 'depth', 'deputy', 'derive', 'describe', 'desert', 'design'
-];
+import { secureRandomInt, webCryptoRandomSource, type RandomSource } from '../utils/random';
+import { normalizePassword } from '../utils/normalize';
+import {
+  getLanguageWordlist,
+  getLoadedWordlist,
+  loadWordlist,
+  type PassphraseLanguage,
+  type WordlistName,
+} from './wordlists';
 
 /**
  * Configuration options for passphrase generation
  */
 export interface PassphraseOptions {
-  /** Number of words in the passphrase (4-8) */
+  /**
+   * Number of words in the passphrase, within {@link PASSPHRASE_WORD_COUNT}
+   * (ignored when `targetEntropyBits` is set)
+   */
   wordCount: number;
   /** Separator between words */
   separator: 'dash' | 'space' | 'symbol' | 'none';
@@ -67,22 +39,489 @@ export interface PassphraseOptions {
   capitalize: 'none' | 'first' | 'all' | 'random';
   /** Include random numbers in the passphrase */
   includeNumbers: boolean;
+  /**
+   * Built-in wordlist name or a custom list of words (default: `'basic'`
+   * when no `language` is given either, so the defaults work without
+   * loading anything). The EFF lists must be loaded with
+   * {@link loadWordlist} first.
+   */
+  wordlist?: WordlistName | readonly string[];
+  /**
+   * Language of the words. Selects the built-in list for the language
+   * (`'en'`: the EFF large list); cannot be combined with `wordlist` other
+   * than for English.
+   */
+  language?: PassphraseLanguage;
+  /**
+   * How words are picked (default: `'random'`). `'grammar'` follows an
+   * adjective/noun/verb/number template for the word count, using the
+   * English part-of-speech lists; it cannot be combined with `wordlist` or
+   * a non-English `language`.
+   */
+  structure?: 'random' | 'grammar';
+  /** Shortest word allowed, in characters (filters the wordlist) */
+  minWordLength?: number;
+  /** Longest word allowed, in characters (filters the wordlist) */
+  maxWordLength?: number;
+  /**
+   * Longest passphrase allowed, in characters. Every word is capped at an
+   * equal share of what is left after separators and inserted digits, so
+   * the limit always holds.
+   */
+  maxTotalLength?: number;
+  /**
+   * Keep only one word per prefix of this many characters (the shortest),
+   * so each word can be typed or autocompleted from its prefix. Shorter
+   * words are dropped.
+   */
+  uniquePrefixLength?: number;
+  /**
+   * Minimum entropy in bits. The generator picks the fewest words that
+   * reach it with the other options; if the word count bound is not
+   * enough, it adds numbers and then a symbol separator.
+   */
+  targetEntropyBits?: number;
+}
+
+/**
+ * Word count bounds shared by the generator, dice rolls, the CLI and the
+ * React hook
+ */
+export const PASSPHRASE_WORD_COUNT = { min: 3, max: 12 } as const;
+
+/**
+ * Source of entropy in a passphrase
+ * `word` is a draw from a flat wordlist; `adjective` to `number` are
+ * grammar slots; `separator` and `digits` come from the separator choice
+ * and `includeNumbers`.
+ */
+export type PassphraseSlot = 'word' | 'adjective' | 'noun' | 'verb' | 'adverb' | 'number' | 'separator' | 'digits';
+
+/**
+ * Entropy contributed by one part of a passphrase
+ */
+export interface PassphraseSlotEntropy {
+  /** Kind of word in this position, or `separator` / `digits` */
+  slot: PassphraseSlot;
+  /** Bits of entropy: log2 of the number of choices for this part */
+  entropy: number;
 }
 
 /**
- * Get cryptographically secure random index
+ * Generated passphrase with an entropy breakdown
+ * The total `entropy` is the sum of the slot entropies. Inserted digits
+ * are counted conservatively (two digits and the insertion point);
+ * random capitalization is not counted.
  */
-function getRandomIndex(max: number): number {
-  const randomBytes = crypto.getRandomValues(new Uint32Array(1));
-  return (randomBytes[0] ?? 0) % max;
+export interface GeneratedPassphrase extends GeneratedPassword {
+  /**
+   * One entry per word, in order, followed by the separator and digits
+   * when they add entropy
+   */
+  slots: PassphraseSlotEntropy[];
 }
 
 /**
- * Get a random word from the diceware list
+ * A template position: the word class and whether the noun is plural
  */
-function getRandomWord(): string {
-  const index = getRandomIndex(DICEWARE_WORDS.length);
-  return DICEWARE_WORDS[index] ?? 'word';
+interface TemplateSlot {
+  slot: Exclude<PassphraseSlot, 'word' | 'separator' | 'digits'>;
+  plural?: boolean;
+}
+
+/**
+ * Grammar templates by word count, e.g. 5 words:
+ * adjective noun verb number noun ("brave otter juggles seven lanterns")
+ */
+const GRAMMAR_TEMPLATES: Record<number, readonly TemplateSlot[]> = {
+  4: [{ slot: 'adjective' }, { slot: 'noun' }, { slot: 'verb' }, { slot: 'noun', plural: true }],
+  5: [{ slot: 'adjective' }, { slot: 'noun' }, { slot: 'verb' }, { slot: 'number' }, { slot: 'noun', plural: true }],
+  6: [
+    { slot: 'adjective' }, { slot: 'noun' }, { slot: 'verb' },
+    { slot: 'number' }, { slot: 'adjective' }, { slot: 'noun', plural: true },
+  ],
+  7: [
+    { slot: 'adjective' }, { slot: 'noun' }, { slot: 'adverb' }, { slot: 'verb' },
+    { slot: 'number' }, { slot: 'adjective' }, { slot: 'noun', plural: true },
+  ],
+  8: [
+    { slot: 'adjective' }, { slot: 'adjective' }, { slot: 'noun' }, { slot: 'adverb' }, { slot: 'verb' },
+    { slot: 'number' }, { slot: 'adjective' }, { slot: 'noun', plural: true },
+  ],
+};
+
+/**
+ * Built-in list for each word class
+ */
+const SLOT_WORDLISTS: Record<'adjective' | 'noun' | 'verb' | 'adverb', WordlistName> = {
+  adjective: 'en-adjectives',
+  noun: 'en-nouns',
+  verb: 'en-verbs',
+  adverb: 'en-adverbs',
+};
+
+/**
+ * Number words for the `number` slot (two to seventeen, 4 bits)
+ */
+const NUMBER_WORDS: readonly string[] = [
+  'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen',
+];
+
+/**
+ * Most digits inserted by `includeNumbers`
+ */
+const MAX_INSERTED_DIGITS = 4;
+
+/**
+ * Entropy credited to `includeNumbers`: the fewest digits inserted (two)
+ * and the insertion point (start, middle or end)
+ */
+const INSERTED_DIGITS_ENTROPY = 2 * Math.log2(10) + Math.log2(3);
+
+/**
+ * Characters a separator setting picks from (one per passphrase)
+ */
+const SEPARATOR_SETS: Record<'dash' | 'space' | 'symbol', readonly string[]> = {
+  dash: ['-', '_'],
+  space: [' '],
+  symbol: ['-', '_', '.', '+', '=', '@', '#'],
+};
+
+/**
+ * Get a random word from a wordlist
+ */
+function getRandomWord(words: readonly string[], random: RandomSource): string {
+  const index = secureRandomInt(words.length, random);
+  return words[index] ?? 'word';
+}
+
+/**
+ * Get the diceware wordlist used for passphrases
+ */
+export function getDicewareWords(): readonly string[] {
+  return getLoadedWordlist('basic');
+}
+
+/**
+ * Check a caller-supplied wordlist
+ *
+ * Words are compared normalized and case-insensitively, the way they end up
+ * in the passphrase. Without a separator, a word that is a prefix of another makes
+ * the joined passphrase ambiguous (`"sun" + "flower"` vs `"sunflower"`) and
+ * the entropy estimate too high, so such lists are rejected.
+ */
+function validateWordlist(words: readonly string[], separator: PassphraseOptions['separator']): void {
+  if (words.length < 2) {
+    throw new Error('Wordlist must contain at least 2 words');
+  }
+
+  const sorted = words.map(word => normalizePassword(word).toLowerCase()).sort();
+
+  for (const [i, word] of sorted.entries()) {
+    if (!word || /\s/.test(word)) {
+      throw new Error('Wordlist words must be non-empty and contain no whitespace');
+    }
+
+    const next = sorted[i + 1];
+    if (next === undefined) {
+      continue;
+    }
+    if (next === word) {
+      throw new Error(`Wordlist contains duplicate word: "${word}"`);
+    }
+    // In sorted order, a word that prefixes any other word prefixes its successor
+    if (separator === 'none' && next.startsWith(word)) {
+      throw new Error(`Wordlist word "${word}" is a prefix of "${next}"; use a separator or a prefix-free list`);
+    }
+  }
+}
+
+/**
+ * Pick the wordlist selected by the `wordlist` and `language` options
+ */
+function selectWordlist(options: Partial<PassphraseOptions>): WordlistName | readonly string[] {
+  const { language } = options;
+
+  if (options.structure === 'grammar' && (options.wordlist !== undefined || (language ?? 'en') !== 'en')) {
+    throw new Error('Grammar-structured passphrases use the built-in English word classes; remove wordlist and language');
+  }
+
+  if (options.wordlist !== undefined) {
+    if ((language ?? 'en') !== 'en') {
+      throw new Error('Specify either a language or a wordlist, not both');
+    }
+    return options.wordlist;
+  }
+
+  // The bundled list keeps the defaults synchronous
+  return language === undefined ? 'basic' : getLanguageWordlist(language);
+}
+
+/**
+ * Resolve the wordlist options to a list of words
+ */
+function resolveWordlist(options: PassphraseOptions): readonly string[] {
+  const wordlist = selectWordlist(options);
+  if (typeof wordlist === 'string') {
+    return getLoadedWordlist(wordlist);
+  }
+
+  validateWordlist(wordlist, options.separator);
+  return wordlist;
+}
+
+/**
+ * Load the built-in wordlist that the given options select
+ * Resolves immediately for the basic list and custom lists. Await this
+ * before {@link generatePassphrase} when the options come from user input.
+ *
+ * @param options - Passphrase options (only `wordlist`, `language` and
+ * `structure` are read)
+ * @throws Error if the options select an unknown list or language
+ *
+ * @example
+ * ```typescript
+ * const options = { ...getDefaultPassphraseOptions(), language: 'de' as const };
+ * await loadPassphraseWordlist(options);
+ * generatePassphrase(options).password; // "Tanne-flug-kessel-wiese-dorn42"
+ * ```
+ */
+export async function loadPassphraseWordlist(options: Partial<PassphraseOptions>): Promise<void> {
+  const wordlist = selectWordlist(options);
+
+  if (options.structure === 'grammar') {
+    await Promise.all(Object.values(SLOT_WORDLISTS).map(name => loadWordlist(name)));
+  } else if (typeof wordlist === 'string') {
+    await loadWordlist(wordlist);
+  }
+}
+
+/**
+ * Plural of a noun from the part-of-speech list
+ * (the list only holds nouns with regular plurals)
+ */
+function pluralize(noun: string): string {
+  if (/(s|x|z|ch|sh)$/.test(noun)) {
+    return `${noun}es`;
+  }
+  if (/[^aeiou]y$/.test(noun)) {
+    return `${noun.slice(0, -1)}ies`;
+  }
+  return `${noun}s`;
+}
+
+/**
+ * Word length range allowed by the length options
+ *
+ * @throws Error if an option is not a positive integer or the limits leave
+ * no room for words
+ */
+function wordLengthLimits(options: PassphraseOptions): { min: number; max: number } {
+  for (const key of ['minWordLength', 'maxWordLength', 'maxTotalLength', 'uniquePrefixLength'] as const) {
+    const value = options[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`${key} must be a positive integer`);
+    }
+  }
+
+  const min = options.minWordLength ?? 1;
+  let max = options.maxWordLength ?? Infinity;
+
+  if (options.maxTotalLength !== undefined) {
+    const separators = options.separator === 'none' ? 0 : options.wordCount - 1;
+    const digits = options.includeNumbers ? MAX_INSERTED_DIGITS : 0;
+    max = Math.min(max, Math.floor((options.maxTotalLength - separators - digits) / options.wordCount));
+  }
+
+  if (min > max) {
+    throw new Error(`Word length limits leave no room for words (${min} to ${max} characters)`);
+  }
+  return { min, max };
+}
+
+/**
+ * Filter a wordlist by the length and prefix options
+ *
+ * Lengths and prefixes are measured on the word as it appears in the
+ * passphrase (normalized, and pluralized for plural slots).
+ *
+ * @throws Error if fewer than 2 words remain
+ */
+function constrainWordlist(
+  words: readonly string[],
+  limits: { min: number; max: number },
+  uniquePrefixLength: number | undefined,
+  plural: boolean
+): readonly string[] {
+  if (limits.min === 1 && limits.max === Infinity && uniquePrefixLength === undefined) {
+    return words;
+  }
+
+  const surface = (word: string) => [...normalizePassword(plural ? pluralize(word) : word).toLowerCase()];
+  let result = words.filter(word => {
+    const length = surface(word).length;
+    return length >= limits.min && length <= limits.max;
+  });
+
+  if (uniquePrefixLength !== undefined) {
+    const byPrefix = new Map<string, string>();
+    for (const word of result) {
+      const chars = surface(word);
+      if (chars.length < uniquePrefixLength) {
+        continue;
+      }
+      const prefix = chars.slice(0, uniquePrefixLength).join('');
+      const kept = byPrefix.get(prefix);
+      if (kept === undefined || surface(kept).length > chars.length) {
+        byPrefix.set(prefix, word);
+      }
+    }
+    const keep = new Set(byPrefix.values());
+    result = result.filter(word => keep.has(word));
+  }
+
+  if (result.length < 2) {
+    throw new Error(`Word constraints leave ${result.length} word(s) in the list; relax them`);
+  }
+  return result;
+}
+
+/**
+ * Word source for one passphrase position
+ */
+interface PlannedSlot {
+  slot: PassphraseSlot;
+  words: readonly string[];
+  plural: boolean;
+}
+
+/**
+ * Resolve the options to one word source per passphrase position
+ */
+function planSlots(options: PassphraseOptions): PlannedSlot[] {
+  const limits = wordLengthLimits(options);
+  const constrain = (words: readonly string[], plural: boolean) =>
+    constrainWordlist(words, limits, options.uniquePrefixLength, plural);
+
+  if (options.structure !== 'grammar') {
+    const wordlist = constrain(resolveWordlist(options), false);
+    return Array.from({ length: options.wordCount }, () => ({ slot: 'word', words: wordlist, plural: false }));
+  }
+
+  // Rejects a custom wordlist or non-English language
+  selectWordlist(options);
+  const template = GRAMMAR_TEMPLATES[options.wordCount];
+  if (!template) {
+    throw new Error('Grammar-structured passphrases need 4 to 8 words');
+  }
+
+  return template.map(({ slot, plural = false }) => ({
+    slot,
+    words: constrain(slot === 'number' ? NUMBER_WORDS : getLoadedWordlist(SLOT_WORDLISTS[slot]), plural),
+    plural,
+  }));
+}
+
+/**
+ * Check a word count against {@link PASSPHRASE_WORD_COUNT}
+ */
+function assertWordCount(wordCount: number): void {
+  const { min, max } = PASSPHRASE_WORD_COUNT;
+  if (!Number.isInteger(wordCount) || wordCount < min || wordCount > max) {
+    throw new Error(`Word count must be between ${min} and ${max}`);
+  }
+}
+
+/**
+ * Entropy of every part of a passphrase: the words, then the separator
+ * choice and inserted digits
+ */
+function measureSlots(options: PassphraseOptions, slots: PlannedSlot[]): { slot: PassphraseSlot; bits: number }[] {
+  const measured: { slot: PassphraseSlot; bits: number }[] = slots.map(({ slot, words }) => ({
+    slot,
+    bits: Math.log2(words.length),
+  }));
+
+  if (options.separator !== 'none' && SEPARATOR_SETS[options.separator].length > 1) {
+    measured.push({ slot: 'separator', bits: Math.log2(SEPARATOR_SETS[options.separator].length) });
+  }
+  if (options.includeNumbers) {
+    measured.push({ slot: 'digits', bits: INSERTED_DIGITS_ENTROPY });
+  }
+
+  return measured;
+}
+
+/**
+ * Pick the options that reach `targetEntropyBits`
+ *
+ * Tries every word count with the caller's settings first, so extra words
+ * are preferred over digits and symbols; then adds numbers, then a symbol
+ * separator. Word counts the options cannot build (grammar counts without a
+ * template) are skipped.
+ *
+ * @throws Error if the target is not a positive number or cannot be reached,
+ * or the options are invalid for every word count
+ */
+function chooseForTargetEntropy(options: PassphraseOptions, target: number): PassphraseOptions {
+  if (!Number.isFinite(target) || target <= 0) {
+    throw new Error('targetEntropyBits must be a positive number');
+  }
+
+  const upgrades: Partial<PassphraseOptions>[] = [
+    {},
+    { includeNumbers: true },
+    { includeNumbers: true, separator: 'symbol' },
+  ];
+  let best = 0;
+  let valid = false;
+  let lastError: unknown;
+
+  for (const upgrade of upgrades) {
+    for (let wordCount = PASSPHRASE_WORD_COUNT.min; wordCount <= PASSPHRASE_WORD_COUNT.max; wordCount++) {
+      const candidate: PassphraseOptions = { ...options, ...upgrade, wordCount };
+      let slots: PlannedSlot[];
+      try {
+        slots = planSlots(candidate);
+      } catch (error) {
+        // Skip counts these options cannot build, such as grammar counts
+        // without a template
+        lastError = error;
+        continue;
+      }
+
+      valid = true;
+      const bits = measureSlots(candidate, slots).reduce((sum, part) => sum + part.bits, 0);
+      if (bits >= target) {
+        return candidate;
+      }
+      best = Math.max(best, bits);
+    }
+  }
+
+  // No count worked at all: the options themselves are invalid
+  if (!valid) {
+    throw lastError;
+  }
+
+  throw new Error(
+    `Target of ${target} bits is out of reach with these options (at most ${Math.round(best * 10) / 10} bits)`
+  );
+}
+
+/**
+ * Determine strength based on entropy
+ */
+function determineStrength(entropy: number): 'weak' | 'medium' | 'strong' | 'very-strong' {
+  if (entropy < 40) {
+    return 'weak';
+  } else if (entropy < 60) {
+    return 'medium';
+  } else if (entropy < 80) {
+    return 'strong';
+  }
+  return 'very-strong';
 }
 
 /**
@@ -95,24 +534,18 @@ function capitalizeWord(word: string): string {
 /**
  * Insert random digits between words
  */
-function insertRandomDigits(): string {
+function insertRandomDigits(random: RandomSource): string {
   const digits = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
-  const index = getRandomIndex(digits.length);
+  const index = secureRandomInt(digits.length, random);
   return digits[index] ?? '0';
 }
 
 /**
  * Get random separator character
  */
-function getRandomSeparator(separatorSet: 'dash' | 'space' | 'symbol'): string {
-  const separators: { [key: string]: string[] } = {
-    dash: ['-', '_'],
-    space: [' '],
-    symbol: ['-', '_', '.', '+', '=', '@', '#'],
-  };
-
-  const chars = separators[separatorSet] ?? ['-'];
-  const index = getRandomIndex(chars.length);
+function getRandomSeparator(separatorSet: 'dash' | 'space' | 'symbol', random: RandomSource): string {
+  const chars = SEPARATOR_SETS[separatorSet];
+  const index = secureRandomInt(chars.length, random);
   return chars[index] ?? '-';
 }
 
@@ -120,31 +553,51 @@ function getRandomSeparator(separatorSet: 'dash' | 'space' | 'symbol'): string {
  * Generate a diceware passphrase
  * 
  * @param options - Passphrase generation options
+ * @param random - Random source (default: Web Crypto)
  * @returns Generated passphrase with strength metrics
+ * @throws Error if the word count is out of range, the wordlist is not
+ * loaded, a language is combined with a custom wordlist, or a custom
+ * wordlist has duplicate or (without a separator) prefix-ambiguous words
  * 
  * @example
  * ```typescript
+ * await loadWordlist('eff-large');
  * const passphrase = generatePassphrase({
  *   wordCount: 5,
  *   separator: 'dash',
  *   capitalize: 'first',
- *   includeNumbers: true
+ *   includeNumbers: true,
+ *   wordlist: 'eff-large'
  * });
- * console.log(passphrase.password); // "Correct-horse-battery-staple-monkey42"
- * console.log(passphrase.strength); // "very-strong"
- * console.log(passphrase.entropy);  // 64.5
+ * console.log(passphrase.password); // "Unclip-gravity-dwelling-sharpness-yodel42"
+ * console.log(passphrase.strength); // "strong"
+ * console.log(passphrase.entropy);  // 73.8 (64.6 from words, 1 from the separator, 8.2 from digits)
+ *
+ * // Fewest words for a target
+ * generatePassphrase({ ...getDefaultPassphraseOptions(), wordlist: 'eff-large', targetEntropyBits: 100 });
+ *
+ * // Custom wordlist
+ * generatePassphrase({ ...getDefaultPassphraseOptions(), wordlist: myWords });
  * ```
  */
-export function generatePassphrase(options: PassphraseOptions): GeneratedPassword {
-  if (options.wordCount < 4 || options.wordCount > 8) {
-    throw new Error('Word count must be between 4 and 8');
+export function generatePassphrase(
+  options: PassphraseOptions,
+  random: RandomSource = webCryptoRandomSource
+): GeneratedPassphrase {
+  if (options.targetEntropyBits !== undefined) {
+    options = chooseForTargetEntropy(options, options.targetEntropyBits);
   }
+  assertWordCount(options.wordCount);
 
+  const slots = planSlots(options);
   const words: string[] = [];
 
   // Generate words
-  for (let i = 0; i < options.wordCount; i++) {
-    let word = getRandomWord();
+  for (const [i, { words: wordlist, plural }] of slots.entries()) {
+    let word = getRandomWord(wordlist, random);
+    if (plural) {
+      word = pluralize(word);
+    }
 
     // Apply capitalization
     if (options.capitalize === 'all') {
@@ -152,7 +605,7 @@ export function generatePassphrase(options: PassphraseOptions): GeneratedPasswor
     } else if (options.capitalize === 'first' && i === 0) {
       word = capitalizeWord(word);
     } else if (options.capitalize === 'random') {
-      if (getRandomIndex(2) === 1) {
+      if (secureRandomInt(2, random) === 1) {
         word = capitalizeWord(word);
       }
     }
@@ -166,20 +619,20 @@ export function generatePassphrase(options: PassphraseOptions): GeneratedPasswor
   if (options.separator === 'none') {
     passphrase = words.join('');
   } else {
-    const separator = getRandomSeparator(options.separator);
+    const separator = getRandomSeparator(options.separator, random);
     passphrase = words.join(separator);
   }
 
   // Add random numbers if requested
   if (options.includeNumbers) {
-    const numDigits = 2 + getRandomIndex(3); // 2-4 digits
+    const numDigits = 2 + secureRandomInt(MAX_INSERTED_DIGITS - 1, random); // 2-4 digits
     let digits = '';
     for (let i = 0; i < numDigits; i++) {
-      digits += insertRandomDigits();
+      digits += insertRandomDigits(random);
     }
 
     // Insert at random position
-    const insertPosition = getRandomIndex(3); // 0=start, 1=middle, 2=end
+    const insertPosition = secureRandomInt(3, random); // 0=start, 1=middle, 2=end
     if (insertPosition === 0) {
       passphrase = digits + passphrase;
     } else if (insertPosition === 1) {
@@ -191,39 +644,177 @@ export function generatePassphrase(options: PassphraseOptions): GeneratedPasswor
   }
 
   // Calculate entropy
-  // For diceware: entropy = log2(7776^word_count)
-  // Using subset of 384 words: log2(384^word_count)
-  const wordlistSize = DICEWARE_WORDS.length;
-  const entropy = options.wordCount * Math.log2(wordlistSize);
+  // For diceware: entropy = log2(list_size^word_count)
+  // e.g. 12.9 bits per word for the EFF large list (7776 words); grammar
+  // slots add up their own list sizes, and length or prefix constraints
+  // count only the words that remain after filtering
+  const parts = measureSlots(options, slots);
+  const entropy = parts.reduce((sum, part) => sum + part.bits, 0);
 
-  // Determine strength based on entropy
-  let strength: 'weak' | 'medium' | 'strong' | 'very-strong';
-  if (entropy < 40) {
-    strength = 'weak';
-  } else if (entropy < 60) {
-    strength = 'medium';
-  } else if (entropy < 80) {
-    strength = 'strong';
-  } else {
-    strength = 'very-strong';
-  }
+  return {
+    password: normalizePassword(passphrase),
+    entropy: Math.round(entropy * 10) / 10,
+    strength: determineStrength(entropy),
+    slots: parts.map(({ slot, bits }) => ({ slot, entropy: Math.round(bits * 10) / 10 })),
+  };
+}
+
+/**
+ * Options for {@link passphraseFromDiceRolls}
+ *
+ * Only settings that need no further randomness are available: the
+ * separator is fixed (`dash` is always `-`) and there is no random
+ * capitalization or number insertion.
+ */
+export interface DiceRollOptions {
+  /**
+   * Built-in wordlist name or a custom list (default: `'eff-large'`).
+   * The list size must be a power of 6.
+   */
+  wordlist?: WordlistName | readonly string[];
+  /** Language of the words; selects the localized 1296-word list */
+  language?: PassphraseLanguage;
+  /** Separator between words (default: `'dash'`) */
+  separator?: 'dash' | 'space' | 'none';
+  /** Capitalization strategy (default: `'none'`) */
+  capitalize?: 'none' | 'first' | 'all';
+}
+
+/**
+ * Build a passphrase from physical dice rolls
+ *
+ * Each roll is a string of dice faces (`1`-`6`), most significant die first,
+ * exactly as printed in diceware tables: five dice per word for the EFF
+ * large list (`"11111"` is the first word), four for the 1296-word lists.
+ * No randomness is drawn from the system, so this is suitable for
+ * air-gapped key ceremonies.
+ *
+ * @param rolls - One roll string per word (3-12 rolls, see
+ * {@link PASSPHRASE_WORD_COUNT})
+ * @param options - Wordlist, language, separator and capitalization
+ * @returns Passphrase with strength metrics
+ * @throws Error if a roll is malformed, the word count is out of range, or
+ * the wordlist is not loaded or its size is not a power of 6
+ *
+ * @example
+ * ```typescript
+ * await loadWordlist('eff-large');
+ * const result = passphraseFromDiceRolls(['16655', '15143', '34631', '42436', '56224']);
+ * console.log(result.password); // "contusion-carwash-issue-omen-starting"
+ * console.log(result.entropy);  // 64.6
+ * ```
+ */
+export function passphraseFromDiceRolls(rolls: string[], options: DiceRollOptions = {}): GeneratedPassword {
+  assertWordCount(rolls.length);
+
+  const separator = options.separator ?? 'dash';
+  const words = resolveDiceWordlist(options, separator);
+  const digits = diceDigitsForSize(words.length);
+
+  const selected = rolls.map((roll, i) => {
+    const trimmed = roll.trim();
+    if (trimmed.length !== digits || !/^[1-6]+$/.test(trimmed)) {
+      throw new Error(`Roll ${i + 1} ("${roll}") must be ${digits} dice faces from 1 to 6`);
+    }
+
+    let index = 0;
+    for (const face of trimmed) {
+      index = index * 6 + (Number(face) - 1);
+    }
+
+    const word = words[index] ?? '';
+    const capitalize = options.capitalize === 'all' || (options.capitalize === 'first' && i === 0);
+    return capitalize ? capitalizeWord(word) : word;
+  });
+
+  const joiners = { dash: '-', space: ' ', none: '' };
+  const entropy = rolls.length * Math.log2(words.length);
 
   return {
-    password: passphrase,
+    password: normalizePassword(selected.join(joiners[separator])),
     entropy: Math.round(entropy * 10) / 10,
-    strength,
+    strength: determineStrength(entropy),
   };
 }
 
+/**
+ * Number of dice rolled per word for the given dice options
+ *
+ * Lets callers check a wordlist before asking for rolls: `eff-large` needs
+ * five dice, the EFF short lists and the localized lists need four, and
+ * `basic` (440 words) cannot be used with dice.
+ *
+ * @param options - Wordlist and language, as for {@link passphraseFromDiceRolls}
+ * @returns Dice per word
+ * @throws Error if the wordlist is not loaded or its size is not a power of 6
+ *
+ * @example
+ * ```typescript
+ * await loadWordlist('eff-large');
+ * getDicePerWord(); // 5
+ * ```
+ */
+export function getDicePerWord(options: Pick<DiceRollOptions, 'wordlist' | 'language'> = {}): number {
+  return diceDigitsForSize(resolveDiceWordlist(options, 'dash').length);
+}
+
+/**
+ * Resolve the wordlist for dice rolls (the EFF large list by default)
+ */
+function resolveDiceWordlist(options: DiceRollOptions, separator: 'dash' | 'space' | 'none'): readonly string[] {
+  const language = options.language ?? 'en';
+
+  if (options.wordlist !== undefined && language !== 'en') {
+    throw new Error('Specify either a language or a wordlist, not both');
+  }
+
+  const wordlist = options.wordlist ?? getLanguageWordlist(language);
+  if (typeof wordlist === 'string') {
+    return getLoadedWordlist(wordlist);
+  }
+
+  validateWordlist(wordlist, separator);
+  return wordlist;
+}
+
+/**
+ * Number of dice per roll for a wordlist of the given size
+ *
+ * @throws Error if the size is not a power of 6
+ */
+function diceDigitsForSize(size: number): number {
+  let digits = 0;
+  let remaining = size;
+  while (remaining > 1 && remaining % 6 === 0) {
+    remaining /= 6;
+    digits++;
+  }
+
+  if (remaining !== 1 || digits === 0) {
+    throw new Error(`Wordlist size must be a power of 6 to map dice rolls (got ${size})`);
+  }
+  return digits;
+}
+
 /**
  * Get default passphrase options
+ *
+ * The defaults select no wordlist, so they draw from the bundled 440-word
+ * `basic` list and work without loading anything. That gives only about
+ * 53 bits; for the EFF large list (about 74 bits with the same options),
+ * load it and set `language: 'en'` or `wordlist: 'eff-large'`.
  * 
- * @returns Default options for secure passphrase generation
+ * @returns Default options for passphrase generation
  * 
  * @example
  * ```typescript
  * const defaultOptions = getDefaultPassphraseOptions();
  * // Returns: { wordCount: 5, separator: 'dash', ... }
+ *
+ * // Stronger: the EFF large list
+ * const options = { ...getDefaultPassphraseOptions(), language: 'en' as const };
+ * await loadPassphraseWordlist(options);
+ * generatePassphrase(options);
  * ```
  */
 export function getDefaultPassphraseOptions(): PassphraseOptions {
@@ -240,6 +831,7 @@ export function getDefaultPassphraseOptions(): PassphraseOptions {
  * Example: "Tiger4Jumps3Over2Moon"
  * 
  * @param length - Passphrase length preset
+ * @param random - Random source (default: Web Crypto)
  * @returns Generated memorable passphrase
  * 
  * @example
@@ -248,7 +840,10 @@ export function getDefaultPassphraseOptions(): PassphraseOptions {
  * console.log(passphrase.password); // "Apple5Dance2River7Light3Moon"
  * ```
  */
-export function generateMemorablePassphrase(length: 'short' | 'medium' | 'long'): GeneratedPassword {
+export function generateMemorablePassphrase(
+  length: 'short' | 'medium' | 'long',
+  random: RandomSource = webCryptoRandomSource
+): GeneratedPassphrase {
   const wordCounts = {
     short: 4,
     medium: 5,
@@ -264,5 +859,5 @@ export function generateMemorablePassphrase(length: 'short' | 'medium' | 'long')
     includeNumbers: true,
   };
 
-  return generatePassphrase(options);
+  return generatePassphrase(options, random);
 }
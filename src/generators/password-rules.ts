@@ -0,0 +1,215 @@
+/**
+ * Password Rules Parser
+ * Parses the `passwordrules` attribute syntax proposed to the WHATWG by Apple
+ *
+ * Supported properties:
+ * - `required: <classes>` - at least one character from the listed classes
+ * - `allowed: <classes>` - additional characters that may appear
+ * - `max-consecutive: <n>` - longest run of identical characters
+ * - `minlength: <n>` / `maxlength: <n>` - length bounds
+ *
+ * Character classes are `upper`, `lower`, `digit`, `special`,
+ * `ascii-printable`, `unicode` or a custom set in brackets such as `[-_!]`.
+ *
+ * @example
+ * ```
+ * minlength: 12; maxlength: 20; required: lower; required: upper;
+ * required: digit; allowed: [-_!]; max-consecutive: 2;
+ * ```
+ *
+ * @module generators/password-rules
+ */
+
+import { UPPERCASE, LOWERCASE, NUMBERS } from './charsets';
+
+/**
+ * Parsed password rules
+ */
+export interface PasswordRules {
+  /** Character sets that must each be represented at least once */
+  required: string[];
+  /** Characters that may appear in addition to the required sets */
+  allowed: string;
+  /** Maximum number of identical consecutive characters */
+  maxConsecutive?: number;
+  /** Minimum password length */
+  minLength?: number;
+  /** Maximum password length */
+  maxLength?: number;
+}
+
+// The grammar's `special` class: all ASCII punctuation
+const SPECIAL = '-~!@#$%^&*_+=`|(){}[:;"\'<>,.?]/\\';
+
+/**
+ * Named character classes
+ *
+ * Space is part of `ascii-printable` in the grammar but is never generated,
+ * since forms routinely trim it. `unicode` is generated from the ASCII
+ * printable range.
+ */
+const CHARACTER_CLASSES: Record<string, string> = {
+  upper: UPPERCASE,
+  lower: LOWERCASE,
+  digit: NUMBERS,
+  special: SPECIAL,
+  'ascii-printable': UPPERCASE + LOWERCASE + NUMBERS + SPECIAL,
+  unicode: UPPERCASE + LOWERCASE + NUMBERS + SPECIAL,
+};
+
+/**
+ * Split on a delimiter, ignoring delimiters inside `[...]` custom classes
+ */
+function splitOutsideBrackets(input: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let inBracket = false;
+  let justOpened = false;
+
+  for (const char of input) {
+    if (inBracket) {
+      // A `]` directly after `[` is a literal bracket, not the terminator
+      if (char === ']' && !justOpened) {
+        inBracket = false;
+      }
+      justOpened = false;
+      current += char;
+    } else if (char === '[') {
+      inBracket = true;
+      justOpened = true;
+      current += char;
+    } else if (char === delimiter) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (inBracket) {
+    throw new Error(`Unterminated character class in "${input.trim()}"`);
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Resolve a comma-separated list of character classes to a charset
+ */
+function parseCharacterClasses(value: string): string {
+  let charset = '';
+
+  for (const item of splitOutsideBrackets(value, ',')) {
+    const token = item.trim();
+    if (!token) {
+      continue;
+    }
+
+    if (token.startsWith('[') && token.endsWith(']')) {
+      charset += token.slice(1, -1).replace(/\s/g, '');
+      continue;
+    }
+
+    const named = CHARACTER_CLASSES[token.toLowerCase()];
+    if (named === undefined) {
+      throw new Error(`Unknown character class "${token}"`);
+    }
+    charset += named;
+  }
+
+  return [...new Set(Array.from(charset))].join('');
+}
+
+/**
+ * Parse a non-negative integer rule value
+ */
+function parseInteger(name: string, value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid value for ${name}: "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Parse a `passwordrules` string
+ *
+ * Repeated length rules combine to the most restrictive value and repeated
+ * `allowed` rules are merged, matching browser behaviour.
+ *
+ * @param input - Rules in `passwordrules` attribute syntax
+ * @returns Parsed rules
+ * @throws Error on unknown properties, unknown classes or malformed values
+ *
+ * @example
+ * ```typescript
+ * const rules = parsePasswordRules('required: upper; required: digit; maxlength: 20');
+ * console.log(rules.required.length); // 2
+ * console.log(rules.maxLength);       // 20
+ * ```
+ */
+export function parsePasswordRules(input: string): PasswordRules {
+  const rules: PasswordRules = { required: [], allowed: '' };
+
+  for (const rawRule of splitOutsideBrackets(input, ';')) {
+    const rule = rawRule.trim();
+    if (!rule) {
+      continue;
+    }
+
+    const colon = rule.indexOf(':');
+    if (colon === -1) {
+      throw new Error(`Invalid password rule "${rule}"`);
+    }
+
+    const name = rule.slice(0, colon).trim().toLowerCase();
+    const value = rule.slice(colon + 1).trim();
+
+    switch (name) {
+      case 'required': {
+        const charset = parseCharacterClasses(value);
+        if (charset.length === 0) {
+          throw new Error('Required rule must name at least one character class');
+        }
+        rules.required.push(charset);
+        break;
+      }
+      case 'allowed':
+        rules.allowed = [...new Set(Array.from(rules.allowed + parseCharacterClasses(value)))].join('');
+        break;
+      case 'max-consecutive': {
+        const maxConsecutive = parseInteger(name, value);
+        rules.maxConsecutive = Math.min(maxConsecutive, rules.maxConsecutive ?? Infinity);
+        break;
+      }
+      case 'minlength': {
+        const minLength = parseInteger(name, value);
+        rules.minLength = Math.max(minLength, rules.minLength ?? 0);
+        break;
+      }
+      case 'maxlength': {
+        const maxLength = parseInteger(name, value);
+        rules.maxLength = Math.min(maxLength, rules.maxLength ?? Infinity);
+        break;
+      }
+      default:
+        throw new Error(`Unknown password rule property "${name}"`);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Characters a password generated for `rules` may contain
+ *
+ * The union of the allowed and required sets; when neither is given the
+ * grammar defaults to `ascii-printable`.
+ */
+export function getRulesCharset(rules: PasswordRules): string {
+  const charset = rules.allowed + rules.required.join('');
+  if (charset.length === 0) {
+    return CHARACTER_CLASSES['ascii-printable'] ?? '';
+  }
+  return [...new Set(Array.from(charset))].join('');
+}
@@ -3,6 +3,17 @@
  * Cryptographically secure password generation using Web Crypto API
  */
 
+import { UPPERCASE, LOWERCASE, NUMBERS, SYMBOLS, AMBIGUOUS_CHARS } from './charsets';
+import {
+  generateConstrained,
+  type CharacterRequirement,
+  type ConstrainedSpec,
+} from './constrained';
+import { parsePasswordRules, getRulesCharset, type PasswordRules } from './password-rules';
+import { parsePattern, type PatternToken } from './pattern';
+import { getDicewareWords } from './passphrase';
+import { secureRandomInt, secureChoice, webCryptoRandomSource, type RandomSource } from '../utils/random';
+
 /**
  * Configuration options for password generation
  */
@@ -15,14 +26,49 @@ export interface PasswordGeneratorOptions {
   includeLowercase: boolean;
   /** Include numbers (0-9) */
   includeNumbers: boolean;
-  /** Include symbols (!@#$%^&*()_+-=[]{}|;:,.<>?) */
+  /** Include symbols (default set: !@#$%^&*()_+-=[]{}|;:,.<>?) */
   includeSymbols: boolean;
   /** Exclude ambiguous characters (0, O, l, 1, I) */
   excludeAmbiguous: boolean;
   /** Custom character set (overrides other options if provided) */
   customCharset?: string;
+  /** Symbols to draw from: a preset name or the symbol characters themselves */
+  symbolSet?: SymbolSetPreset | string;
+  /** Characters that must never appear (applied after every other option) */
+  excludeChars?: string;
+  /** Minimum number of uppercase letters (default: 1 when includeUppercase) */
+  minUppercase?: number;
+  /** Minimum number of lowercase letters (default: 1 when includeLowercase) */
+  minLowercase?: number;
+  /** Minimum number of digits (default: 1 when includeNumbers) */
+  minNumbers?: number;
+  /** Minimum number of symbols (default: 1 when includeSymbols) */
+  minSymbols?: number;
+  /** Character class the first character must belong to */
+  firstCharClass?: CharacterClass;
+  /** Character class the last character must belong to */
+  lastCharClass?: CharacterClass;
+  /** Maximum number of identical consecutive characters */
+  maxConsecutiveRepeats?: number;
 }
 
+/**
+ * Character classes usable in position constraints
+ */
+export type CharacterClass = 'uppercase' | 'lowercase' | 'letter' | 'number' | 'symbol' | 'alphanumeric';
+
+/**
+ * Named symbol sets for systems that reject some punctuation
+ * - `default`: !@#$%^&*()_+-=[]{}|;:,.<>?
+ * - `shell-safe`: no quoting needed in POSIX shells
+ * - `url-safe`: RFC 3986 unreserved punctuation
+ * - `xml-safe`: no markup or entity characters (< > &)
+ * - `json-safe`: alias of `xml-safe`; besides the markup characters it
+ *   has no `"` or `\`, so JSON strings need no escapes, even from
+ *   serializers that escape < > & for HTML embedding
+ */
+export type SymbolSetPreset = 'default' | 'shell-safe' | 'url-safe' | 'xml-safe' | 'json-safe';
+
 /**
  * Result of password generation including password and strength metrics
  */
@@ -35,49 +81,56 @@ export interface GeneratedPassword {
   strength: 'weak' | 'medium' | 'strong' | 'very-strong';
 }
 
-// Character sets
-const UPPERCASE = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-const LOWERCASE = 'abcdefghijklmnopqrstuvwxyz';
-const NUMBERS = '0123456789';
-const SYMBOLS = '!@#$%^&*()_+-=[]{}|;:,.<>?';
-
-// Ambiguous characters to exclude
-const AMBIGUOUS_CHARS = '0Ol1I';
-
-/**
- * Get cryptographically secure random bytes
- */
-function getRandomBytes(length: number): Uint8Array {
-  return crypto.getRandomValues(new Uint8Array(length));
-}
+// Length used for rule-based generation when the caller does not pick one
+const DEFAULT_RULES_LENGTH = 16;
+
+// Default symbols without markup characters; also free of JSON escapes
+const XML_SAFE_SYMBOLS = '!@#$%^*()_+-=[]{}|;:,.?';
+
+// Symbol characters for each preset
+const SYMBOL_SET_PRESETS: Record<SymbolSetPreset, string> = {
+  default: SYMBOLS,
+  'shell-safe': '-_.,+=:@%',
+  'url-safe': '-._~',
+  'xml-safe': XML_SAFE_SYMBOLS,
+  'json-safe': XML_SAFE_SYMBOLS,
+};
+
+// Membership tests for each character class. Symbols are everything that is
+// not a letter or digit, so the class follows the active symbol set.
+const CHARACTER_CLASS_TESTS: Record<CharacterClass, (char: string) => boolean> = {
+  uppercase: char => UPPERCASE.includes(char),
+  lowercase: char => LOWERCASE.includes(char),
+  letter: char => UPPERCASE.includes(char) || LOWERCASE.includes(char),
+  number: char => NUMBERS.includes(char),
+  symbol: char => !/[\p{L}\p{N}]/u.test(char),
+  alphanumeric: char => UPPERCASE.includes(char) || LOWERCASE.includes(char) || NUMBERS.includes(char),
+};
 
 /**
- * Get random integer in range [0, max) using crypto API
- * Uses rejection sampling to avoid modulo bias
+ * Resolve the symbol set option to its characters
  */
-function getRandomInt(max: number): number {
-  if (max <= 0) {
-    throw new Error('Max must be positive');
+function resolveSymbolSet(symbolSet: string | undefined): string {
+  if (symbolSet === undefined) {
+    return SYMBOLS;
   }
-
-  // Calculate the largest multiple of max that fits in 256
-  const limit = Math.floor(256 / max) * max;
-
-  // Keep trying until we get a value in the acceptable range
-  let value: number;
-  do {
-    value = getRandomBytes(1)[0] ?? 0;
-  } while (value >= limit);
-
-  return value % max;
+  if (Object.hasOwn(SYMBOL_SET_PRESETS, symbolSet)) {
+    return SYMBOL_SET_PRESETS[symbolSet as SymbolSetPreset];
+  }
+  if (symbolSet.length === 0 || /[\p{L}\p{N}\s]/u.test(symbolSet)) {
+    throw new Error(`Unknown symbol set "${symbolSet}": use a preset name or a string of symbol characters`);
+  }
+  return [...new Set(Array.from(symbolSet))].join('');
 }
 
 /**
  * Build charset based on options
  */
 function buildCharset(options: PasswordGeneratorOptions): string {
+  const excluded = options.excludeChars ?? '';
+
   if (options.customCharset) {
-    return options.customCharset;
+    return options.customCharset.split('').filter(char => !excluded.includes(char)).join('');
   }
 
   let charset = '';
@@ -92,7 +145,7 @@ function buildCharset(options: PasswordGeneratorOptions): string {
     charset += NUMBERS;
   }
   if (options.includeSymbols) {
-    charset += SYMBOLS;
+    charset += resolveSymbolSet(options.symbolSet);
   }
 
   // Exclude ambiguous characters if requested
@@ -100,6 +153,11 @@ function buildCharset(options: PasswordGeneratorOptions): string {
     charset = charset.split('').filter(char => !AMBIGUOUS_CHARS.includes(char)).join('');
   }
 
+  // Exclude caller-specified characters
+  if (excluded.length > 0) {
+    charset = charset.split('').filter(char => !excluded.includes(char)).join('');
+  }
+
   return charset;
 }
 
@@ -150,34 +208,75 @@ function validateOptions(options: PasswordGeneratorOptions): void {
   if (charset.length < 4 && !options.customCharset) {
     throw new Error('Character set too small. Enable more character types.');
   }
+
+  const minimums = [options.minUppercase, options.minLowercase, options.minNumbers, options.minSymbols];
+  for (const min of minimums) {
+    if (min !== undefined && (!Number.isInteger(min) || min < 0)) {
+      throw new Error('Minimum character counts must be non-negative integers');
+    }
+  }
+  if (minimums.reduce<number>((sum, min) => sum + (min ?? 0), 0) > options.length) {
+    throw new Error('Minimum character counts exceed password length');
+  }
+
+  if (
+    options.maxConsecutiveRepeats !== undefined &&
+    (!Number.isInteger(options.maxConsecutiveRepeats) || options.maxConsecutiveRepeats < 1)
+  ) {
+    throw new Error('maxConsecutiveRepeats must be a positive integer');
+  }
 }
 
 /**
- * Ensure password includes at least one character from each selected set
+ * Build per-class minimum counts for the constrained sampler
+ *
+ * Each enabled class requires at least one character unless its minimum is
+ * set explicitly. With a custom charset only explicit minimums apply.
  */
-function ensureCharacterDiversity(
-  password: string,
-  options: PasswordGeneratorOptions
-): boolean {
-  if (options.includeUppercase && !/[A-Z]/.test(password)) {
-    return false;
-  }
-  if (options.includeLowercase && !/[a-z]/.test(password)) {
-    return false;
-  }
-  if (options.includeNumbers && !/[0-9]/.test(password)) {
-    return false;
+function buildRequirements(options: PasswordGeneratorOptions, charset: string): CharacterRequirement[] {
+  const classes = [
+    { name: 'uppercase', test: CHARACTER_CLASS_TESTS.uppercase, include: options.includeUppercase, min: options.minUppercase },
+    { name: 'lowercase', test: CHARACTER_CLASS_TESTS.lowercase, include: options.includeLowercase, min: options.minLowercase },
+    { name: 'number', test: CHARACTER_CLASS_TESTS.number, include: options.includeNumbers, min: options.minNumbers },
+    { name: 'symbol', test: CHARACTER_CLASS_TESTS.symbol, include: options.includeSymbols, min: options.minSymbols },
+  ];
+
+  const requirements: CharacterRequirement[] = [];
+
+  for (const characterClass of classes) {
+    const defaultMin = characterClass.include && !options.customCharset ? 1 : 0;
+    const min = characterClass.min ?? defaultMin;
+    if (min === 0) {
+      continue;
+    }
+
+    const available = charset.split('').filter(characterClass.test).join('');
+    if (available.length === 0) {
+      throw new Error(`Cannot require ${characterClass.name} characters: none are in the character set`);
+    }
+
+    requirements.push({ chars: available, min });
   }
-  if (options.includeSymbols && !/[!@#$%^&*()_+\-=[\]{}|;:,.<>?]/.test(password)) {
-    return false;
+
+  return requirements;
+}
+
+/**
+ * Restrict a position to a character class within the charset
+ */
+function resolvePositionClass(characterClass: CharacterClass, charset: string, position: string): string {
+  const available = charset.split('').filter(CHARACTER_CLASS_TESTS[characterClass]).join('');
+  if (available.length === 0) {
+    throw new Error(`No ${characterClass} characters available for the ${position} position`);
   }
-  return true;
+  return available;
 }
 
 /**
  * Generate a cryptographically secure random password
  * 
  * @param options - Password generation options
+ * @param random - Random source (default: Web Crypto)
  * @returns Generated password with strength metrics
  * 
  * @example
@@ -194,34 +293,47 @@ function ensureCharacterDiversity(
  * console.log(password.strength); // "very-strong"
  * console.log(password.entropy);  // 95.2
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Legacy policy: 2+ digits, 2+ symbols, starts with a letter, no trailing symbol
+ * const password = generatePassword({
+ *   ...getDefaultOptions(),
+ *   minNumbers: 2,
+ *   minSymbols: 2,
+ *   firstCharClass: 'letter',
+ *   lastCharClass: 'alphanumeric',
+ *   maxConsecutiveRepeats: 2
+ * });
+ * ```
  */
-export function generatePassword(options: PasswordGeneratorOptions): GeneratedPassword {
+export function generatePassword(
+  options: PasswordGeneratorOptions,
+  random: RandomSource = webCryptoRandomSource
+): GeneratedPassword {
   // Validate options
   validateOptions(options);
 
   const charset = buildCharset(options);
-  const charsetSize = charset.length;
 
-  // Generate password
-  let password = '';
-  let attempts = 0;
-  const maxAttempts = 100;
-
-  // Keep generating until we have a password with proper character diversity
-  do {
-    password = '';
-    for (let i = 0; i < options.length; i++) {
-      const randomIndex = getRandomInt(charsetSize);
-      const char = charset[randomIndex];
-      if (char) {
-        password += char;
-      }
-    }
-    attempts++;
-  } while (!ensureCharacterDiversity(password, options) && attempts < maxAttempts);
+  // Class minimums and position rules are satisfied by construction: the
+  // sampler draws uniformly from exactly the passwords that comply
+  const spec: ConstrainedSpec = {
+    length: options.length,
+    charset,
+    requirements: buildRequirements(options, charset),
+  };
+  if (options.maxConsecutiveRepeats !== undefined) {
+    spec.maxConsecutive = options.maxConsecutiveRepeats;
+  }
+  if (options.firstCharClass) {
+    spec.firstChars = resolvePositionClass(options.firstCharClass, charset, 'first');
+  }
+  if (options.lastCharClass) {
+    spec.lastChars = resolvePositionClass(options.lastCharClass, charset, 'last');
+  }
 
-  // Calculate entropy
-  const entropy = calculateEntropy(charsetSize, options.length);
+  const { password, entropy } = generateConstrained(spec, random);
 
   // Determine strength
   const strength = determineStrength(entropy);
@@ -233,11 +345,187 @@ export function generatePassword(options: PasswordGeneratorOptions): GeneratedPa
   };
 }
 
+/**
+ * Options for rule-based password generation
+ */
+export interface PasswordRulesOptions {
+  /** Exact length to generate (default: 16, clamped to the rules' length bounds) */
+  length?: number;
+}
+
+/**
+ * Generate a password that complies with site password rules
+ *
+ * Accepts the `passwordrules` attribute syntax (or already parsed rules)
+ * and samples uniformly from every password the rules allow, so the result
+ * always complies and the reported entropy is that of the constrained space
+ * rather than the unconstrained charset.
+ *
+ * @param rules - Rules in `passwordrules` syntax, or the output of `parsePasswordRules`
+ * @param options - Optional length override
+ * @param random - Random source (default: Web Crypto)
+ * @returns Generated password with strength metrics
+ * @throws Error if the rules are contradictory or cannot be satisfied
+ *
+ * @example
+ * ```typescript
+ * const result = generatePasswordForRules(
+ *   'maxlength: 20; required: upper; required: lower; required: digit; allowed: [-_!]'
+ * );
+ * console.log(result.password); // "k7Gq-mZ2_xw9Tb!eR4a"
+ * ```
+ */
+export function generatePasswordForRules(
+  rules: string | PasswordRules,
+  options: PasswordRulesOptions = {},
+  random: RandomSource = webCryptoRandomSource
+): GeneratedPassword {
+  const parsed = typeof rules === 'string' ? parsePasswordRules(rules) : rules;
+  const minLength = parsed.minLength ?? 1;
+  const maxLength = parsed.maxLength ?? 128;
+
+  if (minLength > maxLength) {
+    throw new Error('Password rules are contradictory: minlength exceeds maxlength');
+  }
+
+  const length = options.length ?? Math.min(Math.max(DEFAULT_RULES_LENGTH, minLength), maxLength);
+
+  if (length < 1 || length > 128) {
+    throw new Error('Password length must be between 1 and 128 characters');
+  }
+  if (length < minLength || length > maxLength) {
+    throw new Error(`Password length must be between ${minLength} and ${maxLength} characters`);
+  }
+
+  const constrained = {
+    length,
+    charset: getRulesCharset(parsed),
+    requirements: parsed.required.map(chars => ({ chars, min: 1 })),
+  };
+  const { password, entropy } = generateConstrained(
+    parsed.maxConsecutive !== undefined
+      ? { ...constrained, maxConsecutive: parsed.maxConsecutive }
+      : constrained,
+    random
+  );
+
+  return {
+    password,
+    entropy: Math.round(entropy * 10) / 10,
+    strength: determineStrength(entropy),
+  };
+}
+
+/**
+ * Number of distinct values a single occurrence of a token can take, in bits
+ */
+function tokenEntropy(token: PatternToken): number {
+  switch (token.kind) {
+    case 'charset':
+      return Math.log2(token.chars.length);
+    case 'literal':
+      return 0;
+    case 'word':
+      return Math.log2(getDicewareWords().length);
+    case 'group':
+      return patternEntropy(token.tokens);
+  }
+}
+
+/**
+ * Entropy of a token sequence, summed position by position
+ *
+ * A variable repetition `{m,n}` contributes log2(n - m + 1) bits for the
+ * choice of count plus the entropy of its `m` mandatory occurrences; the
+ * optional occurrences are not credited because the shortest outcome is
+ * always a possible guess. This is the min-entropy of the pattern.
+ */
+function patternEntropy(tokens: PatternToken[]): number {
+  return tokens.reduce(
+    (sum, token) => sum + Math.log2(token.max - token.min + 1) + token.min * tokenEntropy(token),
+    0
+  );
+}
+
+/**
+ * Expand one occurrence of a pattern token
+ */
+function expandToken(token: PatternToken, random: RandomSource): string {
+  switch (token.kind) {
+    case 'charset':
+      return secureChoice(token.chars, random);
+    case 'literal':
+      return token.text;
+    case 'word': {
+      const words = getDicewareWords();
+      const word = secureChoice(words, random);
+      return token.capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word;
+    }
+    case 'group':
+      return expandPattern(token.tokens, random);
+  }
+}
+
+/**
+ * Expand a token sequence, drawing repetition counts at random
+ */
+function expandPattern(tokens: PatternToken[], random: RandomSource): string {
+  let result = '';
+  for (const token of tokens) {
+    const count = token.min + (token.max > token.min ? secureRandomInt(token.max - token.min + 1, random) : 0);
+    for (let i = 0; i < count; i++) {
+      result += expandToken(token, random);
+    }
+  }
+  return result;
+}
+
+/**
+ * Generate a password from a pattern
+ *
+ * Patterns mix placeholders (`U` uppercase, `l` lowercase, `L` letter,
+ * `9` digit, `s` symbol, `A` alphanumeric, `w`/`W` diceware word, ...),
+ * custom classes (`[a-f0-9]`), quoted literals (`'acme'`), repetition
+ * (`{4}`, `{2,4}`) and optional groups (`(-s)?`).
+ *
+ * Entropy is summed per position from the size of each placeholder's pool
+ * instead of assuming a uniform charset; literals contribute nothing.
+ *
+ * @param pattern - Password pattern
+ * @param random - Random source (default: Web Crypto)
+ * @returns Generated password with strength metrics
+ * @throws Error if the pattern is malformed
+ *
+ * @example
+ * ```typescript
+ * const result = generateFromPattern('LLLL-9999-ssss');
+ * console.log(result.password); // "kQzr-4821-#!%@"
+ * console.log(result.entropy);  // 54.9
+ *
+ * generateFromPattern('W-W-9{4}').password; // "Canyon-Bless-7302"
+ * ```
+ */
+export function generateFromPattern(
+  pattern: string,
+  random: RandomSource = webCryptoRandomSource
+): GeneratedPassword {
+  const tokens = parsePattern(pattern);
+  const password = expandPattern(tokens, random);
+  const entropy = patternEntropy(tokens);
+
+  return {
+    password,
+    entropy: Math.round(entropy * 10) / 10,
+    strength: determineStrength(entropy),
+  };
+}
+
 /**
  * Generate multiple passwords at once
  * 
  * @param count - Number of passwords to generate (1-100)
  * @param options - Password generation options
+ * @param random - Random source (default: Web Crypto)
  * @returns Array of generated passwords
  * 
  * @example
@@ -254,7 +542,8 @@ export function generatePassword(options: PasswordGeneratorOptions): GeneratedPa
  */
 export function generatePasswords(
   count: number,
-  options: PasswordGeneratorOptions
+  options: PasswordGeneratorOptions,
+  random: RandomSource = webCryptoRandomSource
 ): GeneratedPassword[] {
   if (count < 1 || count > 100) {
     throw new Error('Count must be between 1 and 100');
@@ -262,7 +551,7 @@ export function generatePasswords(
 
   const passwords: GeneratedPassword[] = [];
   for (let i = 0; i < count; i++) {
-    passwords.push(generatePassword(options));
+    passwords.push(generatePassword(options, random));
   }
   return passwords;
 }
@@ -294,6 +583,7 @@ export function getDefaultOptions(): PasswordGeneratorOptions {
  * Uses alternating consonants and vowels pattern
  * 
  * @param length - Password length (8-128)
+ * @param random - Random source (default: Web Crypto)
  * @returns Generated pronounceable password
  * 
  * @example
@@ -302,7 +592,10 @@ export function getDefaultOptions(): PasswordGeneratorOptions {
  * console.log(password.password); // "VaTo3MiLe5NaPu"
  * ```
  */
-export function generatePronounceablePassword(length: number): GeneratedPassword {
+export function generatePronounceablePassword(
+  length: number,
+  random: RandomSource = webCryptoRandomSource
+): GeneratedPassword {
   if (length < 8 || length > 128) {
     throw new Error('Length must be between 8 and 128');
   }
@@ -317,16 +610,13 @@ export function generatePronounceablePassword(length: number): GeneratedPassword
   for (let i = 0; i < length; i++) {
     if (i % 4 === 3) {
       // Every 4th character is a number for variety
-      const char = numbers[getRandomInt(numbers.length)];
-      if (char) password += char;
+      password += secureChoice(numbers, random);
     } else if (i % 2 === 0) {
       // Even positions: consonants
-      const char = consonants[getRandomInt(consonants.length)];
-      if (char) password += char;
+      password += secureChoice(consonants, random);
     } else {
       // Odd positions: vowels
-      const char = vowels[getRandomInt(vowels.length)];
-      if (char) password += char;
+      password += secureChoice(vowels, random);
     }
   }
 
@@ -334,7 +624,7 @@ export function generatePronounceablePassword(length: number): GeneratedPassword
   const chars = password.split('');
   const capitalizeCount = Math.floor(length / 4);
   for (let i = 0; i < capitalizeCount; i++) {
-    const pos = getRandomInt(length);
+    const pos = secureRandomInt(length, random);
     const char = chars[pos];
     if (char) {
       chars[pos] = char.toUpperCase();
@@ -0,0 +1,246 @@
+/**
+ * Password Pattern Parser
+ * Mini-language for describing the shape of a generated password
+ *
+ * Placeholders (one random character or word each):
+ * - `U` uppercase letter, `l` lowercase letter, `L` any letter
+ * - `9` or `d` digit, `s` symbol
+ * - `A` letter or digit, `a` lowercase letter or digit
+ * - `h` lowercase hex digit, `H` uppercase hex digit
+ * - `*` any letter, digit or symbol
+ * - `w` lowercase diceware word, `W` capitalized diceware word
+ *
+ * Structure:
+ * - `[abc]`, `[a-f0-9]` - one character from a custom set
+ * - `'text'` or `\x` - literal text (other letters and digits must be quoted)
+ * - punctuation and spaces outside quotes are literal
+ * - `{n}` / `{m,n}` - repeat the preceding element n, or m to n, times
+ * - `(...)` - group, `?` - make the preceding element optional
+ *
+ * @example
+ * ```
+ * LLLL-9999-ssss      four letters, four digits, four symbols
+ * W-w-9{4}            two words plus four digits
+ * 'acme'-A{8}(-s)?    literal prefix with an optional symbol suffix
+ * ```
+ *
+ * @module generators/pattern
+ */
+
+import { UPPERCASE, LOWERCASE, NUMBERS, SYMBOLS } from './charsets';
+
+/**
+ * Parsed pattern element
+ *
+ * `min`/`max` give the repetition range; both are 1 when no quantifier
+ * is present.
+ */
+export type PatternToken =
+  | { kind: 'charset'; chars: string; min: number; max: number }
+  | { kind: 'literal'; text: string; min: number; max: number }
+  | { kind: 'word'; capitalize: boolean; min: number; max: number }
+  | { kind: 'group'; tokens: PatternToken[]; min: number; max: number };
+
+/**
+ * Single-character placeholders
+ */
+const PLACEHOLDERS: Record<string, string> = {
+  U: UPPERCASE,
+  l: LOWERCASE,
+  L: UPPERCASE + LOWERCASE,
+  '9': NUMBERS,
+  d: NUMBERS,
+  s: SYMBOLS,
+  A: UPPERCASE + LOWERCASE + NUMBERS,
+  a: LOWERCASE + NUMBERS,
+  h: '0123456789abcdef',
+  H: '0123456789ABCDEF',
+  '*': UPPERCASE + LOWERCASE + NUMBERS + SYMBOLS,
+};
+
+/**
+ * Maximum repetition count for a single quantifier
+ */
+const MAX_REPEAT = 128;
+
+/**
+ * Expand a bracket class body such as `a-f0-9_` into its characters
+ */
+function expandCharacterClass(body: string): string {
+  const chars = Array.from(body);
+  let result = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i]!;
+    const next = chars[i + 1];
+    const end = chars[i + 2];
+
+    if (next === '-' && end !== undefined) {
+      const from = char.codePointAt(0)!;
+      const to = end.codePointAt(0)!;
+      if (from > to) {
+        throw new Error(`Invalid range "${char}-${end}" in pattern character class`);
+      }
+      for (let code = from; code <= to; code++) {
+        result += String.fromCodePoint(code);
+      }
+      i += 2;
+    } else {
+      result += char;
+    }
+  }
+
+  return [...new Set(Array.from(result))].join('');
+}
+
+/**
+ * Recursive-descent parser over the pattern string
+ */
+class PatternParser {
+  private position = 0;
+  private readonly chars: string[];
+
+  constructor(pattern: string) {
+    this.chars = Array.from(pattern);
+  }
+
+  parse(): PatternToken[] {
+    const tokens = this.parseSequence();
+    if (this.position < this.chars.length) {
+      throw new Error(`Unexpected ")" at position ${this.position} in pattern`);
+    }
+    return tokens;
+  }
+
+  private peek(): string | undefined {
+    return this.chars[this.position];
+  }
+
+  private parseSequence(): PatternToken[] {
+    const tokens: PatternToken[] = [];
+
+    while (this.position < this.chars.length && this.peek() !== ')') {
+      const atom = this.parseAtom();
+      tokens.push(this.parseQuantifier(atom));
+    }
+
+    return tokens;
+  }
+
+  private parseAtom(): PatternToken {
+    const start = this.position;
+    const char = this.chars[this.position++]!;
+
+    switch (char) {
+      case '(': {
+        const tokens = this.parseSequence();
+        if (this.chars[this.position++] !== ')') {
+          throw new Error(`Unterminated group starting at position ${start} in pattern`);
+        }
+        return { kind: 'group', tokens, min: 1, max: 1 };
+      }
+      case '[': {
+        let body = '';
+        // A `]` directly after `[` is part of the class
+        if (this.peek() === ']') {
+          body += ']';
+          this.position++;
+        }
+        while (this.position < this.chars.length && this.peek() !== ']') {
+          body += this.chars[this.position++];
+        }
+        if (this.chars[this.position++] !== ']') {
+          throw new Error(`Unterminated character class starting at position ${start} in pattern`);
+        }
+        const chars = expandCharacterClass(body);
+        if (chars.length === 0) {
+          throw new Error(`Empty character class at position ${start} in pattern`);
+        }
+        return { kind: 'charset', chars, min: 1, max: 1 };
+      }
+      case "'": {
+        let text = '';
+        while (this.position < this.chars.length && this.peek() !== "'") {
+          text += this.chars[this.position++];
+        }
+        if (this.chars[this.position++] !== "'") {
+          throw new Error(`Unterminated quoted literal starting at position ${start} in pattern`);
+        }
+        return { kind: 'literal', text, min: 1, max: 1 };
+      }
+      case '\\': {
+        const escaped = this.chars[this.position++];
+        if (escaped === undefined) {
+          throw new Error('Pattern ends with an incomplete escape');
+        }
+        return { kind: 'literal', text: escaped, min: 1, max: 1 };
+      }
+      case 'w':
+      case 'W':
+        return { kind: 'word', capitalize: char === 'W', min: 1, max: 1 };
+      case '{':
+      case '?':
+        throw new Error(`Quantifier "${char}" at position ${start} has nothing to repeat`);
+      default: {
+        const placeholder = PLACEHOLDERS[char];
+        if (placeholder !== undefined) {
+          return { kind: 'charset', chars: placeholder, min: 1, max: 1 };
+        }
+        if (/[\p{L}\p{N}]/u.test(char)) {
+          throw new Error(`Unknown placeholder "${char}" at position ${start} in pattern (quote literal text with '...')`);
+        }
+        return { kind: 'literal', text: char, min: 1, max: 1 };
+      }
+    }
+  }
+
+  private parseQuantifier(atom: PatternToken): PatternToken {
+    const char = this.peek();
+
+    if (char === '?') {
+      this.position++;
+      return { ...atom, min: 0, max: 1 };
+    }
+
+    if (char !== '{') {
+      return atom;
+    }
+
+    const start = this.position;
+    let body = '';
+    this.position++;
+    while (this.position < this.chars.length && this.peek() !== '}') {
+      body += this.chars[this.position++];
+    }
+    if (this.chars[this.position++] !== '}') {
+      throw new Error(`Unterminated quantifier starting at position ${start} in pattern`);
+    }
+
+    const match = /^\s*(\d+)\s*(?:,\s*(\d+)\s*)?$/.exec(body);
+    if (!match) {
+      throw new Error(`Invalid quantifier "{${body}}" in pattern`);
+    }
+
+    const min = parseInt(match[1]!, 10);
+    const max = match[2] !== undefined ? parseInt(match[2], 10) : min;
+    if (min > max || max > MAX_REPEAT) {
+      throw new Error(`Quantifier "{${body}}" must satisfy 0 <= min <= max <= ${MAX_REPEAT}`);
+    }
+
+    return { ...atom, min, max };
+  }
+}
+
+/**
+ * Parse a password pattern into tokens
+ *
+ * @param pattern - Pattern in the mini-language described above
+ * @returns Parsed tokens
+ * @throws Error on syntax errors or unknown placeholders
+ */
+export function parsePattern(pattern: string): PatternToken[] {
+  if (!pattern) {
+    throw new Error('Pattern must not be empty');
+  }
+  return new PatternParser(pattern).parse();
+}
@@ -18,6 +18,9 @@
  * @module generators/unicode
  */
 
+import { secureRandomInts, webCryptoRandomSource, type RandomSource } from '../utils/random';
+import { normalizePassword, type NormalizationForm } from '../utils/normalize';
+
 /**
  * Character set types available for password generation
  */
@@ -49,14 +52,14 @@ export interface UnicodePasswordOptions {
   /** Apply Unicode normalization (default: true, form: NFC) */
   normalize?: boolean;
   /** Unicode normalization form (default: NFC) */
-  normalizationForm?: 'NFC' | 'NFD' | 'NFKC' | 'NFKD';
+  normalizationForm?: NormalizationForm;
   /** Detect and reject confusable characters (default: true) */
   rejectConfusables?: boolean;
   /** Include numbers (0-9) in the character set */
   includeNumbers?: boolean;
   /** Include symbols in the character set */
   includeSymbols?: boolean;
-  /** Custom character pool (overrides charsetType if provided) */
+  /** Custom character pool (overrides charsetType if provided; must not be empty) */
   customPool?: string;
 }
 
@@ -205,21 +208,6 @@ function detectConfusables(password: string): string[] {
   return warnings;
 }
 
-/**
- * Normalize password using Unicode normalization
- */
-function normalizePassword(
-  password: string,
-  form: 'NFC' | 'NFD' | 'NFKC' | 'NFKD' = 'NFC'
-): string {
-  try {
-    return password.normalize(form);
-  } catch (error) {
-    // Fallback if normalization fails
-    return password;
-  }
-}
-
 /**
  * Calculate entropy for Unicode password
  *
@@ -232,31 +220,6 @@ function calculateEntropy(poolSize: number, length: number): number {
   return Math.log2(poolSize) * length;
 }
 
-/**
- * Cryptographically secure random selection from pool
- * Uses rejection sampling to avoid modulo bias
- */
-function secureRandomChar(pool: string): string {
-  const poolSize = pool.length;
-  if (poolSize === 0) {
-    throw new Error('Character pool is empty');
-  }
-
-  // Calculate the maximum value that's evenly divisible by poolSize
-  const maxValid = Math.floor(256 / poolSize) * poolSize;
-
-  // Keep trying until we get a value in the valid range
-  while (true) {
-    const randomBytes = new Uint8Array(1);
-    crypto.getRandomValues(randomBytes);
-    const randomValue = randomBytes[0]!;
-
-    if (randomValue < maxValid) {
-      return pool[randomValue % poolSize]!;
-    }
-  }
-}
-
 /**
  * Generate password with Unicode character sets
  *
@@ -265,6 +228,7 @@ function secureRandomChar(pool: string): string {
  * and homoglyph detection.
  *
  * @param options - Unicode password generation options
+ * @param random - Random source (default: Web Crypto)
  * @returns Password with metadata and warnings
  *
  * @example
@@ -299,7 +263,8 @@ function secureRandomChar(pool: string): string {
  * ```
  */
 export function generateUnicodePassword(
-  options: UnicodePasswordOptions
+  options: UnicodePasswordOptions,
+  random: RandomSource = webCryptoRandomSource
 ): UnicodePasswordResult {
   const {
     length,
@@ -317,6 +282,11 @@ export function generateUnicodePassword(
     throw new Error('Password length must be between 1 and 256 characters');
   }
 
+  // An empty custom pool is a mistake, not a request for the charset type
+  if (customPool === '') {
+    throw new Error('Character pool is empty: customPool must contain at least one character, or be omitted to use charsetType');
+  }
+
   // Build character pool
   let pool = customPool || getCharsetPool(charsetType);
 
@@ -330,18 +300,17 @@ export function generateUnicodePassword(
     pool += '!@#$%^&*()_+-=[]{}|;:,.<>?';
   }
 
-  // Remove duplicates
-  pool = [...new Set(pool.split(''))].join('');
+  // Remove duplicates (by code point, so astral characters stay intact)
+  const chars = [...new Set(Array.from(pool))];
 
-  if (pool.length === 0) {
+  if (chars.length === 0) {
     throw new Error('Character pool is empty');
   }
 
-  // Generate password
-  let password = '';
-  for (let i = 0; i < length; i++) {
-    password += secureRandomChar(pool);
-  }
+  // Generate password, drawing every index in one batch
+  const password = secureRandomInts(chars.length, length, random)
+    .map((index) => chars[index])
+    .join('');
 
   // Apply normalization
   let normalized: string | undefined;
@@ -350,7 +319,7 @@ export function generateUnicodePassword(
   }
 
   // Calculate entropy
-  const poolSize = pool.length;
+  const poolSize = chars.length;
   const entropy = calculateEntropy(poolSize, length);
 
   // Detect warnings
@@ -484,13 +453,16 @@ export function validateUnicodePassword(password: string): {
  * console.log(result.password); // "🔐Pass🔑word😊123"
  * ```
  */
-export function generateEmojiPassword(length: number = 12): UnicodePasswordResult {
+export function generateEmojiPassword(
+  length: number = 12,
+  random: RandomSource = webCryptoRandomSource
+): UnicodePasswordResult {
   return generateUnicodePassword({
     length,
     charsetType: [CharsetType.Latin, CharsetType.Emoji],
     includeNumbers: true,
     normalize: true,
-  });
+  }, random);
 }
 
 /**
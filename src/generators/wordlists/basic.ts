@@ -0,0 +1,55 @@
+/**
+ * Basic Wordlist
+ * 440 common English words bundled inline so that passphrase generation
+ * works synchronously without loading anything. Prefer one of the EFF
+ * lists for new code: a word from this list carries only 8.8 bits.
+ *
+ * @module generators/wordlists/basic
+ */
+
+export const BASIC_WORDLIST: readonly string[] = [
+  'able', 'about', 'account', 'acid', 'across', 'actor', 'actual', 'adapt', 'add', 'address',
+  'adjust', 'admit', 'adopt', 'adult', 'advance', 'advice', 'affair', 'affect', 'afford', 'afraid',
+  'after', 'again', 'against', 'agency', 'agent', 'agree', 'ahead', 'aim', 'alarm', 'album',
+  'alert', 'alien', 'alive', 'allow', 'almost', 'alone', 'along', 'already', 'also', 'alter',
+  'always', 'amateur', 'amazing', 'among', 'amount', 'amused', 'analyst', 'anchor', 'ancient', 'anger',
+  'angle', 'angry', 'animal', 'ankle', 'announce', 'annual', 'another', 'answer', 'antenna', 'antique',
+  'anxiety', 'apart', 'apology', 'appear', 'apple', 'approve', 'april', 'arch', 'arctic', 'area',
+  'arena', 'argue', 'armed', 'armor', 'army', 'around', 'arrange', 'arrest', 'arrival', 'arrive',
+  'arrow', 'artist', 'artwork', 'asking', 'aspect', 'assault', 'asset', 'assist', 'assume', 'asthma',
+  'athlete', 'atom', 'attack', 'attend', 'attract', 'auction', 'audit', 'august', 'aunt', 'author',
+  'auto', 'autumn', 'average', 'avocado', 'avoid', 'awake', 'aware', 'away', 'awesome', 'awful',
+  'awkward', 'axis', 'baby', 'bachelor', 'bacon', 'badge', 'balance', 'balcony', 'ball', 'bamboo',
+  'banana', 'banner', 'bargain', 'barrel', 'basic', 'basket', 'battle', 'beach', 'bean', 'beauty',
+  'because', 'become', 'beef', 'before', 'begin', 'behave', 'behind', 'believe', 'below', 'belt',
+  'bench', 'benefit', 'best', 'betray', 'better', 'between', 'beyond', 'bicycle', 'bind', 'biology',
+  'bird', 'birth', 'bitter', 'black', 'blade', 'blame', 'blanket', 'blast', 'bleak', 'bless',
+  'blind', 'blood', 'blossom', 'blouse', 'blue', 'blur', 'blush', 'board', 'boat', 'body',
+  'boil', 'bomb', 'bone', 'bonus', 'book', 'boost', 'border', 'boring', 'borrow', 'boss',
+  'bottom', 'bounce', 'bowl', 'brain', 'brand', 'brass', 'brave', 'bread', 'breeze', 'brick',
+  'bridge', 'brief', 'bright', 'bring', 'brisk', 'broccoli', 'broken', 'bronze', 'broom', 'brother',
+  'brown', 'brush', 'bubble', 'buddy', 'budget', 'buffalo', 'build', 'bulb', 'bulk', 'bullet',
+  'bundle', 'bunker', 'burden', 'burger', 'burst', 'business', 'busy', 'butter', 'buyer', 'buzz',
+  'cabbage', 'cabin', 'cable', 'cactus', 'cage', 'cake', 'call', 'calm', 'camera', 'camp',
+  'canal', 'cancel', 'candy', 'cannon', 'canoe', 'canvas', 'canyon', 'capable', 'capital', 'captain',
+  'carbon', 'card', 'cargo', 'carpet', 'carry', 'cart', 'case', 'cash', 'casino', 'castle',
+  'casual', 'catalog', 'catch', 'category', 'cattle', 'caught', 'cause', 'caution', 'cave', 'ceiling',
+  'celery', 'cement', 'census', 'century', 'cereal', 'certain', 'chair', 'chalk', 'champion', 'change',
+  'chaos', 'chapter', 'charge', 'chase', 'chat', 'cheap', 'check', 'cheese', 'chef', 'cherry',
+  'chest', 'chicken', 'chief', 'child', 'chimney', 'choice', 'choose', 'chronic', 'chuckle', 'chunk',
+  'churn', 'cigar', 'cinnamon', 'circle', 'citizen', 'city', 'civic', 'civil', 'claim', 'clap',
+  'clarify', 'claw', 'clay', 'clean', 'clerk', 'clever', 'click', 'client', 'cliff', 'climb',
+  'clinic', 'clip', 'clock', 'clog', 'close', 'cloth', 'cloud', 'clown', 'club', 'clump',
+  'cluster', 'clutch', 'coach', 'coast', 'coconut', 'code', 'coffee', 'coil', 'coin', 'collect',
+  'color', 'column', 'combine', 'come', 'comfort', 'comic', 'common', 'company', 'concert', 'conduct',
+  'confirm', 'congress', 'connect', 'consider', 'control', 'convince', 'cook', 'cool', 'copper', 'copy',
+  'coral', 'core', 'corn', 'correct', 'cost', 'cotton', 'couch', 'country', 'couple', 'course',
+  'cousin', 'cover', 'coyote', 'crack', 'cradle', 'craft', 'cram', 'crane', 'crash', 'crater',
+  'crawl', 'crazy', 'cream', 'credit', 'creek', 'crew', 'cricket', 'crime', 'crisp', 'critic',
+  'crop', 'cross', 'crouch', 'crowd', 'crucial', 'cruel', 'cruise', 'crumble', 'crunch', 'crush',
+  'crystal', 'cube', 'culture', 'cupboard', 'curious', 'current', 'curtain', 'curve', 'cushion', 'custom',
+  'cycle', 'dad', 'damage', 'damp', 'dance', 'danger', 'daring', 'dash', 'daughter', 'dawn',
+  'deal', 'debate', 'debris', 'decade', 'december', 'decide', 'decline', 'decorate', 'decrease', 'deer',
+  'defense', 'define', 'defy', 'degree', 'delay', 'deliver', 'demand', 'demise', 'denial', 'dentist',
+  'deny', 'depart', 'depend', 'deposit', 'depth', 'deputy', 'derive', 'describe', 'desert', 'design'
+];
@@ -0,0 +1,143 @@
+/**
+ * German Diceware Wordlist
+ * 1296 common words, one per roll of four dice (1111-6666), 10.3 bits per
+ * word. Lowercase, 3-8 letters, sorted by code point. Accented
+ * letters are stored precomposed (NFKC).
+ *
+ * Loaded on demand via {@link loadWordlist}; do not import directly.
+ *
+ * @module generators/wordlists/diceware-de
+ */
+
+export const DICEWARE_DE_WORDLIST: readonly string[] = [
+  'aal', 'abend', 'aber', 'abfall', 'abgabe', 'abhang', 'ablauf', 'abteil', 'achse', 'acht',
+  'acker', 'adel', 'ader', 'adler', 'affe', 'ahorn', 'akte', 'aktie', 'alarm', 'albern',
+  'alpen', 'alt', 'alter', 'ameise', 'ampel', 'amsel', 'amt', 'anfang', 'angel', 'angst',
+  'anker', 'anlage', 'anruf', 'anzug', 'apfel', 'april', 'arbeit', 'arche', 'arg', 'arm',
+  'art', 'artig', 'arzt', 'asche', 'ast', 'atem', 'atlas', 'auge', 'august', 'auto',
+  'axt', 'bach', 'backe', 'backen', 'bad', 'baden', 'bagger', 'bahn', 'bald', 'balken',
+  'ball', 'ballon', 'banane', 'band', 'bang', 'bank', 'bar', 'bart', 'bau', 'bauch',
+  'bauen', 'bauer', 'baum', 'beere', 'beet', 'beil', 'bein', 'beißen', 'bellen', 'bequem',
+  'bereit', 'berg', 'beruf', 'besen', 'besuch', 'beten', 'bett', 'beutel', 'biegen', 'biene',
+  'bier', 'bieten', 'bild', 'billig', 'binden', 'birne', 'bitte', 'bitten', 'bitter', 'blank',
+  'blasen', 'blass', 'blatt', 'blau', 'blech', 'blei', 'bleich', 'blick', 'blind', 'blitz',
+  'blond', 'bloß', 'blume', 'bluse', 'blut', 'blühen', 'blüte', 'boden', 'bogen', 'bohne',
+  'bohren', 'boot', 'bord', 'borke', 'braten', 'brav', 'breit', 'brett', 'brief', 'brille',
+  'brot', 'bruder', 'brust', 'brücke', 'buch', 'buche', 'bude', 'bund', 'bunt', 'burg',
+  'busch', 'butter', 'böse', 'bügel', 'bühne', 'bürste', 'chance', 'chef', 'chip', 'chor',
+  'clown', 'creme', 'dach', 'dachs', 'dame', 'damm', 'dampf', 'dank', 'danken', 'darm',
+  'datum', 'dauer', 'daumen', 'decke', 'deckel', 'decken', 'degen', 'deich', 'delfin', 'denken',
+  'dicht', 'dick', 'dieb', 'dienen', 'ding', 'dino', 'docht', 'dock', 'dohle', 'dolch',
+  'dom', 'donner', 'dorf', 'dorn', 'dose', 'drache', 'draht', 'drehen', 'ducken', 'duft',
+  'dumm', 'dunkel', 'dunst', 'durst', 'dusche', 'düne', 'dünn', 'dürfen', 'dürr', 'ebbe',
+  'ebene', 'echo', 'echt', 'ecke', 'edel', 'efeu', 'ehre', 'eiche', 'eichel', 'eid',
+  'eifer', 'eifrig', 'eigen', 'eilen', 'eilig', 'eimer', 'eis', 'eisen', 'elch', 'elf',
+  'elle', 'eltern', 'ende', 'eng', 'engel', 'ente', 'erben', 'erbse', 'erde', 'ernst',
+  'ernte', 'esche', 'esel', 'essen', 'eule', 'euro', 'fabel', 'fabrik', 'fach', 'fade',
+  'faden', 'fahne', 'fahren', 'falke', 'fall', 'fallen', 'falsch', 'falte', 'fangen', 'farbe',
+  'farn', 'fass', 'fassen', 'faul', 'faust', 'feder', 'fee', 'fegen', 'fehlen', 'fehler',
+  'feier', 'feiern', 'feige', 'feile', 'fein', 'feld', 'fell', 'fels', 'ferien', 'fern',
+  'ferse', 'fest', 'fett', 'feucht', 'feuer', 'fichte', 'fieber', 'figur', 'film', 'filz',
+  'finger', 'fink', 'firma', 'fisch', 'fit', 'flach', 'flagge', 'flamme', 'fleck', 'fliege',
+  'flink', 'flocke', 'floh', 'flosse', 'flott', 'flucht', 'flug', 'flur', 'fluss', 'flut',
+  'flöte', 'flügel', 'fohlen', 'folgen', 'folie', 'form', 'forst', 'foto', 'fracht', 'frage',
+  'fragen', 'frau', 'frech', 'frei', 'fremd', 'freund', 'friede', 'froh', 'fromm', 'frosch',
+  'frucht', 'früh', 'fuchs', 'fuge', 'funke', 'furche', 'futter', 'fuß', 'fühlen', 'führen',
+  'füllen', 'gabe', 'gabel', 'gang', 'gans', 'ganz', 'gar', 'garage', 'garten', 'gast',
+  'gatter', 'geben', 'gebet', 'geduld', 'gefahr', 'gehalt', 'gehen', 'geist', 'gelb', 'geld',
+  'gelee', 'gemüse', 'gerade', 'gern', 'gerste', 'geruch', 'gesang', 'giebel', 'gießen', 'gift',
+  'gipfel', 'gips', 'glanz', 'glas', 'glatt', 'glatze', 'gleich', 'glocke', 'glänzen', 'glück',
+  'gnade', 'gold', 'golf', 'gondel', 'gott', 'grab', 'graben', 'gras', 'grat', 'grau',
+  'greifen', 'grell', 'grenze', 'grieß', 'griff', 'grill', 'grippe', 'grob', 'groll', 'groß',
+  'grube', 'gruft', 'grund', 'gruppe', 'gruß', 'grün', 'grüßen', 'gucken', 'gulasch', 'gummi',
+  'gunst', 'gurke', 'gurt', 'guss', 'gut', 'gürtel', 'haar', 'haben', 'hafen', 'hafer',
+  'hagel', 'hager', 'hahn', 'haken', 'halb', 'halle', 'halm', 'hals', 'halten', 'hammer',
+  'hand', 'handeln', 'hang', 'hart', 'hase', 'hassen', 'hauen', 'haus', 'haut', 'hebel',
+  'heben', 'hecht', 'hecke', 'heft', 'heide', 'heilen', 'heimat', 'heiter', 'heizen', 'heiß',
+  'held', 'helfen', 'hell', 'hemd', 'henne', 'herb', 'herbst', 'herd', 'herz', 'heu',
+  'hexe', 'himmel', 'hirsch', 'hirte', 'hitze', 'hobel', 'hoch', 'hof', 'hoffen', 'hohl',
+  'hold', 'holen', 'holz', 'honig', 'horn', 'hose', 'hotel', 'huhn', 'hummel', 'hund',
+  'hunger', 'hupe', 'husten', 'hut', 'hämmern', 'hängen', 'höhle', 'hören', 'hübsch', 'hügel',
+  'hüpfen', 'hütte', 'idee', 'igel', 'imker', 'insel', 'jacke', 'jagd', 'jagen', 'jahr',
+  'jammern', 'januar', 'joghurt', 'jubel', 'jubeln', 'jugend', 'juli', 'jung', 'juni', 'juwel',
+  'kabel', 'kaffee', 'kahl', 'kahn', 'kaiser', 'kakao', 'kalb', 'kalt', 'kamel', 'kamin',
+  'kamm', 'kampf', 'kanal', 'kanne', 'kante', 'kanu', 'kapelle', 'kappe', 'karg', 'karte',
+  'kasse', 'kasten', 'katze', 'kauen', 'kaufen', 'kauz', 'keck', 'kegel', 'keil', 'keim',
+  'keks', 'keller', 'kennen', 'kerze', 'kessel', 'kette', 'keule', 'kiefer', 'kies', 'kind',
+  'kinn', 'kino', 'kirche', 'kirsche', 'kissen', 'kiste', 'kittel', 'klagen', 'klang', 'klasse',
+  'kleben', 'klee', 'kleid', 'klima', 'klinge', 'klingen', 'klippe', 'klopfen', 'klotz', 'knabe',
+  'knall', 'knecht', 'kneten', 'knie', 'knochen', 'knopf', 'knospe', 'knoten', 'koch', 'kochen',
+  'koffer', 'kohl', 'kohle', 'koje', 'komet', 'kommen', 'kompass', 'kopf', 'korb', 'korn',
+  'kosten', 'kraft', 'kragen', 'kran', 'kranz', 'kratzen', 'kraut', 'krebs', 'kreide', 'kreis',
+  'kreuz', 'krieg', 'krone', 'krug', 'kruste', 'krähe', 'kuchen', 'kugel', 'kuh', 'kunst',
+  'kupfer', 'kuppel', 'kurve', 'kurz', 'kuss', 'kutsche', 'käfer', 'käfig', 'kämmen', 'kämpfen',
+  'könig', 'können', 'körper', 'küche', 'kühl', 'kühn', 'küssen', 'küste', 'labor', 'lachen',
+  'lachs', 'laden', 'lage', 'lager', 'lahm', 'laken', 'lamm', 'lampe', 'land', 'lang',
+  'lanze', 'lappen', 'larve', 'lassen', 'last', 'lau', 'laub', 'lauch', 'lauf', 'laufen',
+  'laune', 'laut', 'lauter', 'leben', 'leder', 'leer', 'legen', 'lehm', 'lehren', 'lehrer',
+  'leib', 'leicht', 'leihen', 'leim', 'leine', 'leise', 'leiten', 'leiter', 'lenken', 'lerche',
+  'lernen', 'lesen', 'licht', 'lieb', 'lieben', 'lied', 'liege', 'liegen', 'lila', 'lilie',
+  'linde', 'linie', 'linse', 'lippe', 'list', 'lob', 'loben', 'loch', 'locke', 'locken',
+  'locker', 'lohn', 'los', 'luft', 'lunge', 'lupe', 'lust', 'lärm', 'löffel', 'löwe',
+  'lücke', 'lügen', 'machen', 'magen', 'mager', 'mahl', 'mahlen', 'mai', 'mais', 'makler',
+  'malen', 'maler', 'mantel', 'mappe', 'marder', 'markt', 'marmor', 'mars', 'maske', 'mast',
+  'matt', 'mauer', 'maul', 'maus', 'meer', 'mehl', 'meise', 'meister', 'melden', 'melone',
+  'menge', 'mensch', 'messen', 'messer', 'metall', 'miete', 'milch', 'mild', 'minute', 'mischen',
+  'mittag', 'mittel', 'mittig', 'modern', 'mohn', 'mole', 'monat', 'mond', 'moor', 'moos',
+  'mops', 'morgen', 'motor', 'mulde', 'mund', 'munter', 'muschel', 'musik', 'muskel', 'mutter',
+  'möbel', 'mögen', 'möwe', 'mücke', 'müde', 'mühle', 'mütze', 'nabel', 'nacht', 'nadel',
+  'nagel', 'name', 'narbe', 'nase', 'nass', 'nebel', 'necken', 'neffe', 'nehmen', 'nelke',
+  'nennen', 'nest', 'nett', 'netz', 'neu', 'nichte', 'nicken', 'niere', 'nobel', 'nonne',
+  'norden', 'not', 'note', 'nudel', 'nuss', 'nutzen', 'nähen', 'oase', 'ofen', 'offen',
+  'ohr', 'oktober', 'onkel', 'oper', 'opfer', 'orange', 'orden', 'ordnen', 'orgel', 'ort',
+  'osten', 'otter', 'oval', 'paar', 'packen', 'paket', 'palme', 'panne', 'papier', 'pappe',
+  'park', 'parken', 'pass', 'pate', 'pause', 'pech', 'pedal', 'pegel', 'pelz', 'perle',
+  'pfad', 'pfanne', 'pfau', 'pfeffer', 'pfeife', 'pfeifen', 'pfeil', 'pferd', 'pflanze', 'pflaume',
+  'pflegen', 'pforte', 'pfote', 'pfund', 'pilot', 'pilz', 'pinsel', 'piste', 'plakat', 'plan',
+  'planen', 'platt', 'platz', 'pokal', 'polster', 'post', 'pracht', 'prall', 'preis', 'prima',
+  'prinz', 'probe', 'prüfen', 'puder', 'pulver', 'pumpe', 'punkt', 'puppe', 'putzen', 'quader',
+  'quaken', 'qualle', 'quark', 'quelle', 'quitte', 'rabe', 'rad', 'radio', 'rahmen', 'rakete',
+  'rand', 'rasch', 'rasen', 'rast', 'rat', 'raten', 'rau', 'rauchen', 'raum', 'raupe',
+  'rebe', 'rechen', 'rechnen', 'recht', 'reden', 'regal', 'rege', 'regel', 'regen', 'regnen',
+  'reh', 'reiben', 'reich', 'reif', 'reifen', 'reihe', 'rein', 'reis', 'reise', 'reiten',
+  'rennen', 'retten', 'rettich', 'rezept', 'richter', 'riechen', 'riegel', 'riese', 'rind', 'ring',
+  'ringen', 'rinne', 'rippe', 'ritter', 'rock', 'roggen', 'rohr', 'rolle', 'rollen', 'roman',
+  'rosa', 'rose', 'rost', 'rosten', 'rot', 'ruder', 'rudern', 'ruf', 'rufen', 'ruhe',
+  'ruine', 'rund', 'rute', 'rätsel', 'räumen', 'rücken', 'rühren', 'saal', 'saat', 'sache',
+  'sacht', 'sack', 'saft', 'sage', 'sagen', 'sahne', 'saite', 'salat', 'salbe', 'salz',
+  'samen', 'sammeln', 'sand', 'sanft', 'satt', 'sattel', 'satz', 'sau', 'sauber', 'sauer',
+  'saugen', 'saum', 'schaf', 'schal', 'schale', 'scharf', 'schatz', 'schauen', 'schaum', 'schere',
+  'scheu', 'schick', 'schief', 'schiff', 'schild', 'schilf', 'schirm', 'schlaf', 'schlank', 'schlau',
+  'schloss', 'schmal', 'schnee', 'schnell', 'schrank', 'schräg', 'schuh', 'schule', 'schuppe', 'schwach',
+  'schwan', 'schwarz', 'schwer', 'schön', 'see', 'segel', 'segeln', 'sehen', 'seife', 'seil',
+  'seite', 'sekt', 'selten', 'senden', 'senf', 'sessel', 'setzen', 'sichel', 'sicher', 'sieb',
+  'silber', 'singen', 'sinken', 'sinn', 'sirup', 'sitz', 'sitzen', 'socke', 'sofa', 'sohle',
+  'sohn', 'sollen', 'sommer', 'sonne', 'sorge', 'sorgen', 'soße', 'spalt', 'spalten', 'sparen',
+  'spaten', 'speck', 'spiegel', 'spiel', 'spielen', 'spinne', 'spinnen', 'spitz', 'spitze', 'sport',
+  'spur', 'spät', 'spülen', 'staat', 'stab', 'stadt', 'stahl', 'stall', 'stamm', 'stange',
+  'star', 'stark', 'starten', 'staub', 'staunen', 'stechen', 'stecken', 'stehen', 'steigen', 'steil',
+  'stein', 'stellen', 'sterben', 'stern', 'stiefel', 'stier', 'stift', 'still', 'stirn', 'stock',
+  'stoff', 'stolz', 'storch', 'stoßen', 'straff', 'strand', 'strauch', 'straße', 'streng', 'strom',
+  'stube', 'stuhl', 'stumm', 'stunde', 'stur', 'sturm', 'stören', 'suchen', 'sumpf', 'suppe',
+  'säge', 'süden', 'süß', 'tafel', 'tag', 'takt', 'tal', 'tanken', 'tanne', 'tante',
+  'tanz', 'tanzen', 'tapfer', 'tasche', 'tasse', 'tau', 'taub', 'taube', 'tauchen', 'teich',
+  'teig', 'teilen', 'teller', 'tempel', 'tennis', 'teppich', 'test', 'teuer', 'teufel', 'text',
+  'theater', 'tief', 'tiger', 'tinte', 'tisch', 'titel', 'tochter', 'toll', 'tomate', 'ton',
+  'topf', 'tor', 'torte', 'tragen', 'trauen', 'traum', 'treffen', 'treiben', 'trennen', 'treppe',
+  'treu', 'trinken', 'trocken', 'trommel', 'tropfen', 'trost', 'träumen', 'trüb', 'tuch', 'tulpe',
+  'tunnel', 'turm', 'turnen', 'tüchtig', 'tür', 'ufer', 'uhr', 'ulme', 'umweg', 'unke',
+  'unkraut', 'urlaub', 'vage', 'vase', 'vater', 'verein', 'vers', 'vetter', 'vieh', 'viel',
+  'vogel', 'volk', 'voll', 'vorhang', 'waage', 'wabe', 'wach', 'wache', 'wachsen', 'wade',
+  'waffe', 'wagen', 'wahl', 'wahr', 'wal', 'wald', 'wall', 'wand', 'wandern', 'wange',
+  'wanne', 'wappen', 'ware', 'warm', 'warten', 'warze', 'waschen', 'wasser', 'watte', 'weben',
+  'wecken', 'wecker', 'weg', 'wehen', 'weich', 'weichen', 'weide', 'wein', 'weinen', 'weise',
+  'weit', 'weizen', 'weiß', 'welle', 'welt', 'werfen', 'wespe', 'weste', 'wetten', 'wetter',
+  'wiege', 'wiegen', 'wiese', 'wild', 'wind', 'winkel', 'winken', 'winter', 'wipfel', 'wirr',
+  'wirt', 'wischen', 'wissen', 'witz', 'woche', 'wohnen', 'wolf', 'wolke', 'wolle', 'wort',
+  'wunder', 'wunsch', 'wurm', 'wurst', 'wut', 'wählen', 'wärme', 'wühlen', 'würfel', 'wüste',
+  'zahl', 'zahlen', 'zahm', 'zahn', 'zange', 'zapfen', 'zart', 'zauber', 'zaubern', 'zaun',
+  'zebra', 'zecke', 'zehe', 'zeichen', 'zeigen', 'zeit', 'zelle', 'zelt', 'zettel', 'zeuge',
+  'ziege', 'ziegel', 'ziehen', 'ziel', 'zielen', 'zimmer', 'zimt', 'zinn', 'zins', 'zirkus',
+  'zitrone', 'zittern', 'zornig', 'zucker', 'zug', 'zunge', 'zupfen', 'zweig', 'zwerg', 'zwiebel',
+  'zäh', 'zählen', 'zögern', 'öffnen', 'übel', 'üben',
+];
@@ -0,0 +1,143 @@
+/**
+ * Spanish Diceware Wordlist
+ * 1296 common words, one per roll of four dice (1111-6666), 10.3 bits per
+ * word. Lowercase, 3-8 letters, sorted by code point. Accented
+ * letters are stored precomposed (NFKC).
+ *
+ * Loaded on demand via {@link loadWordlist}; do not import directly.
+ *
+ * @module generators/wordlists/diceware-es
+ */
+
+export const DICEWARE_ES_WORDLIST: readonly string[] = [
+  'abeja', 'abeto', 'abono', 'abril', 'abrir', 'acera', 'acero', 'acorde', 'acto', 'actuar',
+  'adorar', 'adorno', 'aduana', 'afiche', 'agenda', 'agosto', 'agua', 'aguja', 'aire', 'ajo',
+  'ala', 'alarma', 'alba', 'alce', 'alcoba', 'aldaba', 'aldea', 'alegre', 'alero', 'aleta',
+  'alga', 'alma', 'almeja', 'altar', 'alto', 'altura', 'alud', 'alumno', 'amable', 'amar',
+  'amargo', 'amigo', 'amor', 'ancho', 'ancla', 'andar', 'anillo', 'animal', 'anotar', 'ansia',
+  'antena', 'antojo', 'anís', 'apagar', 'apio', 'apodo', 'arado', 'araña', 'arco', 'arena',
+  'arete', 'armar', 'aroma', 'arpa', 'arroyo', 'arroz', 'arte', 'asa', 'asado', 'asar',
+  'asno', 'astro', 'atajo', 'atar', 'atlas', 'atleta', 'atún', 'audaz', 'aula', 'aullar',
+  'aurora', 'autor', 'ave', 'avena', 'avisar', 'avispa', 'avión', 'axila', 'ayuda', 'azada',
+  'azotea', 'azul', 'azúcar', 'año', 'bache', 'bahía', 'bailar', 'baile', 'bajar', 'bajo',
+  'bala', 'balcón', 'balde', 'balsa', 'bambú', 'banana', 'banco', 'barba', 'barca', 'barco',
+  'barniz', 'barrer', 'barril', 'barrio', 'barro', 'base', 'bastar', 'bastón', 'basura', 'bata',
+  'bañera', 'baño', 'baúl', 'beber', 'bebida', 'bebé', 'beca', 'bello', 'besar', 'beso',
+  'biblia', 'bicho', 'bici', 'bidón', 'bigote', 'biombo', 'blanco', 'blando', 'bloque', 'blusa',
+  'bobina', 'boca', 'bocado', 'boda', 'bodega', 'boina', 'bola', 'bolsa', 'bolso', 'bomba',
+  'bonito', 'bordar', 'borde', 'borrar', 'bosque', 'bota', 'botón', 'bozal', 'brasa', 'bravo',
+  'brazo', 'breve', 'brillo', 'brisa', 'brocha', 'broma', 'brote', 'bueno', 'buey', 'bujía',
+  'bulto', 'burro', 'buscar', 'butaca', 'buzón', 'búho', 'cabaña', 'caber', 'cabeza', 'cable',
+  'cabra', 'cacao', 'cacto', 'cadena', 'cadera', 'caer', 'café', 'caimán', 'caja', 'cajón',
+  'cal', 'caldo', 'callar', 'calle', 'callo', 'calma', 'calor', 'calvo', 'cama', 'cambio',
+  'camino', 'camisa', 'camión', 'campo', 'canal', 'canela', 'canica', 'canoa', 'cantar', 'capa',
+  'capaz', 'cara', 'carbón', 'cardo', 'cargar', 'carne', 'caro', 'carpa', 'carril', 'carro',
+  'carta', 'cartón', 'casa', 'casar', 'casco', 'castor', 'caucho', 'cavar', 'cazar', 'cazo',
+  'caña', 'cebra', 'cedro', 'ceja', 'celda', 'cena', 'cenar', 'ceniza', 'centro', 'cera',
+  'cerca', 'cerdo', 'cereza', 'cerezo', 'cerrar', 'cerro', 'cesta', 'cesto', 'chacal', 'chal',
+  'champú', 'chapa', 'charco', 'chino', 'chispa', 'chiste', 'chivo', 'chocar', 'choza', 'ciego',
+  'cielo', 'ciervo', 'cima', 'cine', 'cinta', 'ciprés', 'circo', 'cisne', 'citar', 'ciudad',
+  'claro', 'clase', 'clavar', 'clavel', 'clavo', 'clima', 'cloro', 'cobija', 'cobrar', 'cobre',
+  'coche', 'cocina', 'coco', 'codo', 'cofre', 'coger', 'cohete', 'cojo', 'cojín', 'col',
+  'cola', 'colgar', 'colina', 'collar', 'color', 'comer', 'cometa', 'comida', 'concha', 'conejo',
+  'cono', 'contar', 'copa', 'copiar', 'copo', 'coral', 'corcho', 'cordel', 'coro', 'corona',
+  'corral', 'correo', 'correr', 'cortar', 'corto', 'cosa', 'coser', 'costa', 'costar', 'crear',
+  'crecer', 'creer', 'crema', 'cresta', 'criar', 'cruel', 'cruz', 'cruzar', 'cráneo', 'cráter',
+  'cuadra', 'cuadro', 'cuarto', 'cubo', 'cubrir', 'cuello', 'cuenca', 'cuento', 'cuerda', 'cuerno',
+  'cuero', 'cuerpo', 'cueva', 'cuidar', 'cumbre', 'cuna', 'cura', 'curar', 'cuña', 'cáliz',
+  'cárcel', 'código', 'cómic', 'cómodo', 'cúpula', 'dado', 'dalia', 'dama', 'danza', 'dar',
+  'dardo', 'debate', 'deber', 'decir', 'dedo', 'dehesa', 'dejar', 'delfín', 'denso', 'dental',
+  'desear', 'deseo', 'desván', 'diablo', 'diario', 'dibujo', 'diente', 'dinero', 'dios', 'disco',
+  'divisa', 'docena', 'dolor', 'dorado', 'dormir', 'dosis', 'dragón', 'ducado', 'ducha', 'dueño',
+  'dulce', 'duna', 'durar', 'duro', 'dátil', 'débil', 'década', 'día', 'echar', 'eco',
+  'edad', 'edén', 'eje', 'elegir', 'embudo', 'enano', 'encaje', 'encina', 'encía', 'enero',
+  'enigma', 'enorme', 'entrar', 'envase', 'enviar', 'equipo', 'erizo', 'error', 'escama', 'escena',
+  'escoba', 'escudo', 'esfera', 'espada', 'espejo', 'espiga', 'espina', 'esquí', 'estaca', 'estepa',
+  'estilo', 'estufa', 'etapa', 'faena', 'faisán', 'falda', 'faro', 'farol', 'fauna', 'favor',
+  'fecha', 'feliz', 'feo', 'feria', 'fideo', 'fiel', 'fiera', 'fiesta', 'figura', 'fijar',
+  'fila', 'finca', 'fino', 'firma', 'firmar', 'firme', 'flaco', 'flan', 'flauta', 'flecha',
+  'flor', 'flota', 'flotar', 'foca', 'foco', 'folio', 'fondo', 'forma', 'formar', 'foto',
+  'fraile', 'franja', 'frasco', 'frente', 'fresa', 'fresco', 'freír', 'fruta', 'fruto', 'frío',
+  'fuego', 'fuelle', 'fuente', 'fuerte', 'fuerza', 'fumar', 'funda', 'furgón', 'fusil', 'fácil',
+  'fémur', 'gacela', 'gafas', 'gala', 'galgo', 'gallo', 'galón', 'gamba', 'ganar', 'ganso',
+  'garaje', 'garra', 'garza', 'gasa', 'gastar', 'gato', 'gema', 'gemelo', 'genio', 'gente',
+  'gesto', 'girar', 'gitano', 'globo', 'gloria', 'golfo', 'goma', 'gordo', 'gorra', 'gota',
+  'gozar', 'grande', 'granja', 'grano', 'grasa', 'grave', 'grifo', 'grillo', 'gris', 'gritar',
+  'grito', 'grupo', 'grúa', 'guante', 'guapo', 'guerra', 'guiar', 'guinda', 'guiño', 'gula',
+  'gusano', 'gustar', 'guía', 'habano', 'hablar', 'hacer', 'hacha', 'hada', 'hamaca', 'hambre',
+  'harina', 'harpa', 'helado', 'helar', 'herida', 'hervir', 'hiedra', 'hielo', 'hiena', 'hierba',
+  'hierro', 'higo', 'hija', 'hijo', 'hilo', 'hinojo', 'hipo', 'hocico', 'hogar', 'hoja',
+  'hombre', 'hombro', 'hondo', 'hongo', 'hora', 'horca', 'horno', 'hotel', 'hucha', 'hueco',
+  'huella', 'huerto', 'hueso', 'huevo', 'huir', 'hule', 'humo', 'hundir', 'héroe', 'hígado',
+  'húmedo', 'icono', 'idea', 'imagen', 'imán', 'indio', 'isla', 'istmo', 'jabalí', 'jabón',
+  'jaguar', 'jalea', 'jamón', 'jarabe', 'jardín', 'jarra', 'jaula', 'jazmín', 'jefe', 'jinete',
+  'jirafa', 'joroba', 'jota', 'joven', 'joya', 'joyero', 'judía', 'juego', 'jueves', 'juez',
+  'jugar', 'jugo', 'julio', 'jungla', 'junio', 'juntar', 'jurado', 'jurar', 'justo', 'kilo',
+  'labio', 'laca', 'lacre', 'ladera', 'lago', 'laguna', 'lana', 'lanza', 'lanzar', 'largo',
+  'lata', 'laurel', 'lava', 'lavabo', 'lavar', 'lazo', 'leche', 'leer', 'lejano', 'lengua',
+  'lentes', 'lento', 'letra', 'leve', 'leña', 'leño', 'león', 'libre', 'libro', 'licor',
+  'liebre', 'lienzo', 'lila', 'lima', 'limpio', 'limón', 'lince', 'lino', 'lirio', 'listo',
+  'litera', 'llama', 'llamar', 'llanto', 'llave', 'llegar', 'llenar', 'lleno', 'llevar', 'llorar',
+  'llover', 'lluvia', 'lobo', 'loco', 'lodo', 'lograr', 'lomo', 'lona', 'lonja', 'loro',
+  'lucero', 'luchar', 'lugar', 'lujoso', 'luna', 'lunes', 'lupa', 'luz', 'lápiz', 'látigo',
+  'línea', 'maceta', 'madeja', 'madera', 'madre', 'maduro', 'magia', 'mago', 'maleta', 'malla',
+  'malo', 'malva', 'mamá', 'mandar', 'mandil', 'manga', 'mango', 'manija', 'mano', 'manso',
+  'manta', 'mantel', 'manto', 'maní', 'mapa', 'mar', 'maraca', 'marco', 'marea', 'mareo',
+  'margen', 'marido', 'martes', 'marzo', 'masa', 'mata', 'matar', 'matriz', 'mayo', 'maíz',
+  'mecha', 'medir', 'medusa', 'melena', 'melón', 'menta', 'mentir', 'menú', 'mesa', 'meseta',
+  'meta', 'metal', 'meter', 'miel', 'miga', 'milla', 'mimbre', 'mina', 'minuto', 'mirada',
+  'mirar', 'mirlo', 'misa', 'mitad', 'mito', 'modelo', 'molde', 'molino', 'momia', 'moneda',
+  'mono', 'monte', 'mora', 'morder', 'moreno', 'morsa', 'mosca', 'motivo', 'motor', 'mover',
+  'mudo', 'mueble', 'muela', 'muelle', 'mulo', 'muro', 'museo', 'muslo', 'muñeca', 'mármol',
+  'mástil', 'música', 'nabo', 'nacer', 'nación', 'nadar', 'naipe', 'nariz', 'nata', 'nave',
+  'negar', 'negro', 'nevar', 'neón', 'nido', 'niebla', 'nieto', 'nieve', 'nivel', 'niño',
+  'noble', 'noche', 'nogal', 'nombre', 'norte', 'nota', 'novela', 'nube', 'nuca', 'nudo',
+  'nuevo', 'nuez', 'nutria', 'níquel', 'número', 'oasis', 'objeto', 'oca', 'ocaso', 'ocho',
+  'océano', 'odiar', 'oficio', 'ojal', 'ojo', 'ola', 'oler', 'olivo', 'olla', 'olmo',
+  'onda', 'orar', 'oreja', 'orilla', 'oro', 'ortiga', 'oruga', 'osa', 'oscuro', 'oso',
+  'ostra', 'otoño', 'oveja', 'oír', 'padre', 'paella', 'pagar', 'paja', 'pala', 'palco',
+  'paleta', 'palma', 'paloma', 'pan', 'panal', 'panda', 'papaya', 'papel', 'parada', 'paramo',
+  'parar', 'pared', 'parque', 'partir', 'pasar', 'pasear', 'paso', 'pasta', 'pastel', 'pastor',
+  'pata', 'patata', 'patio', 'pato', 'patrón', 'pausa', 'pavo', 'payaso', 'paz', 'país',
+  'peca', 'pecho', 'pedal', 'pedir', 'pegar', 'peinar', 'peine', 'pelear', 'pelo', 'pelota',
+  'pena', 'pensar', 'peral', 'percha', 'perder', 'perdiz', 'perfil', 'perla', 'perno', 'perro',
+  'pesado', 'pesar', 'pesca', 'pescar', 'pez', 'piano', 'picnic', 'pico', 'pie', 'piedra',
+  'piel', 'pierna', 'pijama', 'pila', 'pileta', 'pincel', 'pino', 'pintar', 'pintor', 'pinza',
+  'piojo', 'pipa', 'pirata', 'pisar', 'piso', 'pista', 'pizca', 'piña', 'placa', 'plano',
+  'planta', 'plata', 'plato', 'playa', 'plaza', 'plomo', 'pluma', 'pobre', 'poder', 'poema',
+  'polea', 'pollo', 'polvo', 'pomada', 'pomelo', 'poncho', 'poner', 'postre', 'potro', 'pozo',
+  'prado', 'precio', 'premio', 'primo', 'prisa', 'prisma', 'probar', 'pronto', 'pueblo', 'puente',
+  'puerta', 'puerto', 'pulga', 'pulpo', 'puma', 'punto', 'puro', 'puño', 'página', 'pájaro',
+  'pálido', 'pétalo', 'quemar', 'querer', 'queso', 'quinta', 'quitar', 'rabo', 'racimo', 'radar',
+  'radio', 'rama', 'rampa', 'rana', 'rancho', 'raro', 'rasgo', 'rastro', 'rata', 'ratón',
+  'rayo', 'razón', 'raíz', 'real', 'rebaño', 'recado', 'receta', 'recreo', 'recto', 'red',
+  'regalo', 'regar', 'regla', 'reina', 'reloj', 'remar', 'remo', 'reno', 'reptil', 'rey',
+  'rezar', 'reír', 'rico', 'rincón', 'risa', 'rizo', 'riñón', 'robar', 'roble', 'roca',
+  'rodaja', 'rodar', 'rogar', 'rojo', 'rollo', 'rombo', 'romper', 'rosa', 'rosal', 'rubio',
+  'rubí', 'rueda', 'ruido', 'ruina', 'rumbo', 'rápido', 'río', 'saber', 'sabio', 'sable',
+  'sacar', 'saco', 'sal', 'salado', 'salero', 'salir', 'salsa', 'saltar', 'salto', 'salud',
+  'salvia', 'salón', 'sandía', 'sangre', 'sano', 'sapo', 'sartén', 'sauce', 'sauna', 'secar',
+  'seco', 'seda', 'seguir', 'sello', 'selva', 'semana', 'senda', 'sentar', 'sentir', 'sereno',
+  'serio', 'servir', 'seta', 'señal', 'sidra', 'sierra', 'siesta', 'siglo', 'silbar', 'silla',
+  'simple', 'sirena', 'sirope', 'sobre', 'sofá', 'soga', 'sol', 'solapa', 'soler', 'soltar',
+  'sombra', 'sonar', 'sonido', 'sopa', 'sordo', 'soñar', 'suave', 'subir', 'sucio', 'sudar',
+  'suela', 'suelo', 'suerte', 'sueño', 'sumar', 'suéter', 'sábado', 'sábana', 'tabla', 'taco',
+  'tacón', 'tajada', 'talco', 'taller', 'talón', 'tamaño', 'tambor', 'tanque', 'tapa', 'tapar',
+  'tapiz', 'tardar', 'tarde', 'tarea', 'tarta', 'taza', 'tazón', 'teatro', 'techo', 'tecla',
+  'teja', 'tejado', 'tejer', 'tejón', 'tela', 'telar', 'telón', 'tema', 'temer', 'templo',
+  'tenaza', 'tender', 'tener', 'tesoro', 'tibio', 'tienda', 'tierno', 'tierra', 'tigre', 'tijera',
+  'tilo', 'timbre', 'timón', 'tinaja', 'tinta', 'tirar', 'tirita', 'tiza', 'toalla', 'tocar',
+  'toldo', 'tomar', 'tomate', 'tono', 'tonto', 'torno', 'toro', 'torre', 'torta', 'tos',
+  'toser', 'traer', 'tragar', 'trampa', 'trapo', 'tratar', 'tren', 'trigo', 'trineo', 'tripa',
+  'triste', 'trompa', 'tronco', 'trono', 'tropa', 'trucha', 'trueno', 'trufa', 'trébol', 'tubo',
+  'tuerca', 'tumba', 'turrón', 'tío', 'títere', 'túnel', 'ubre', 'umbral', 'uranio', 'urna',
+  'usar', 'uva', 'uña', 'vaca', 'vaciar', 'vacío', 'vagón', 'vaina', 'valer', 'valija',
+  'valle', 'valor', 'vals', 'vapor', 'vara', 'vasija', 'vaso', 'vecino', 'vela', 'velero',
+  'velo', 'veloz', 'vena', 'venado', 'vender', 'veneno', 'venir', 'ver', 'verano', 'verde',
+  'verja', 'verso', 'viajar', 'viaje', 'vida', 'vidrio', 'viejo', 'viento', 'viga', 'vino',
+  'violín', 'visera', 'visita', 'vivero', 'vivir', 'vivo', 'viñedo', 'volar', 'volcán', 'volver',
+  'votar', 'voz', 'vuelo', 'vuelta', 'vía', 'yate', 'yegua', 'yema', 'yermo', 'yeso',
+  'yogur', 'yunque', 'zafiro', 'zapato', 'zarza', 'zona', 'zorro', 'zumo', 'zócalo', 'ágil',
+  'águila', 'ámbar', 'ángulo', 'árbol', 'áspero', 'ático', 'ébano', 'élite', 'época', 'éxito',
+  'índice', 'ópera', 'órbita', 'óvalo', 'último', 'único',
+];
@@ -0,0 +1,143 @@
+/**
+ * French Diceware Wordlist
+ * 1296 common words, one per roll of four dice (1111-6666), 10.3 bits per
+ * word. Lowercase, 3-8 letters, sorted by code point. Accented
+ * letters are stored precomposed (NFKC).
+ *
+ * Loaded on demand via {@link loadWordlist}; do not import directly.
+ *
+ * @module generators/wordlists/diceware-fr
+ */
+
+export const DICEWARE_FR_WORDLIST: readonly string[] = [
+  'abri', 'acajou', 'acier', 'acteur', 'agenda', 'agile', 'agneau', 'aigle', 'aiglon', 'aigre',
+  'ail', 'aile', 'aimant', 'aimer', 'air', 'aisé', 'album', 'alcôve', 'algue', 'aller',
+  'allée', 'amande', 'ambre', 'amer', 'ami', 'amiral', 'amour', 'ample', 'ananas', 'ancien',
+  'ancre', 'ange', 'animal', 'anis', 'anneau', 'année', 'anse', 'antre', 'août', 'appel',
+  'appui', 'arbre', 'arc', 'arche', 'argent', 'argile', 'aride', 'armure', 'arène', 'arôme',
+  'atlas', 'atout', 'aube', 'autel', 'avenue', 'aveu', 'avion', 'avoine', 'avril', 'azur',
+  'badge', 'bagage', 'bague', 'bahut', 'baie', 'bain', 'balai', 'balcon', 'balise', 'balle',
+  'ballon', 'bambou', 'banane', 'banc', 'bande', 'banjo', 'barbe', 'baril', 'baron', 'barque',
+  'barre', 'bas', 'bassin', 'basson', 'bateau', 'baume', 'bavard', 'bavoir', 'bazar', 'beau',
+  'bec', 'berge', 'berger', 'beurre', 'biche', 'bidon', 'bijou', 'bille', 'bison', 'bitume',
+  'bière', 'blanc', 'blason', 'bleu', 'bloc', 'blond', 'blouse', 'blé', 'bobine', 'bocage',
+  'bocal', 'boeuf', 'boire', 'bois', 'bol', 'bombe', 'bon', 'bonbon', 'bonnet', 'bord',
+  'bosse', 'botte', 'bouc', 'bouche', 'boucle', 'boudin', 'boue', 'bouger', 'bougie', 'boulet',
+  'boulon', 'bourse', 'bouton', 'bouée', 'boxe', 'boîte', 'braise', 'bras', 'brave', 'brebis',
+  'bref', 'brique', 'brise', 'broche', 'bronze', 'brosse', 'bruit', 'brume', 'brun', 'brûler',
+  'bureau', 'buse', 'but', 'butte', 'bâtir', 'bâton', 'béret', 'bêtise', 'bûche', 'cabane',
+  'cabine', 'cacao', 'cacher', 'cachet', 'cadeau', 'cadran', 'cadre', 'café', 'cage', 'cahier',
+  'caisse', 'calice', 'calme', 'camion', 'camée', 'canal', 'canapé', 'canard', 'canif', 'canne',
+  'canot', 'canyon', 'cape', 'capot', 'carafe', 'carré', 'carte', 'carton', 'casier', 'casque',
+  'casser', 'cassis', 'castor', 'cave', 'cendre', 'cercle', 'cerf', 'cerise', 'chaise', 'chalet',
+  'champ', 'chance', 'char', 'charme', 'chat', 'chaton', 'chaud', 'chaume', 'chaîne', 'chef',
+  'chemin', 'cher', 'cheval', 'chevet', 'cheveu', 'chien', 'chiot', 'choix', 'chou', 'chèvre',
+  'chêne', 'cidre', 'ciel', 'cierge', 'cigale', 'cil', 'cime', 'cinéma', 'cirque', 'ciseau',
+  'citron', 'civet', 'clair', 'claque', 'climat', 'cloche', 'clou', 'clown', 'clé', 'cobalt',
+  'cochon', 'cocon', 'code', 'coeur', 'coffre', 'cognac', 'coin', 'col', 'colis', 'coller',
+  'compas', 'comète', 'conte', 'copier', 'coq', 'corail', 'corde', 'cordon', 'corne', 'corps',
+  'coton', 'cou', 'coucou', 'coude', 'coudre', 'coupe', 'couper', 'cour', 'courir', 'court',
+  'cousin', 'coûter', 'crabe', 'craie', 'crayon', 'creux', 'crier', 'croire', 'croix', 'cru',
+  'cruche', 'crâne', 'crème', 'crépi', 'crêpe', 'crête', 'cuir', 'cuire', 'cuivre', 'cuve',
+  'cycle', 'cygne', 'câble', 'cèdre', 'cône', 'côte', 'daim', 'dalle', 'dame', 'damier',
+  'danse', 'danser', 'dard', 'datte', 'delta', 'dent', 'dessin', 'destin', 'devoir', 'dieu',
+  'digue', 'dinde', 'dindon', 'dire', 'disque', 'divan', 'doigt', 'dolmen', 'domino', 'donjon',
+  'donner', 'dorade', 'dormir', 'dos', 'douane', 'douche', 'doux', 'dragon', 'dragée', 'drap',
+  'droit', 'drôle', 'duc', 'dune', 'dur', 'duvet', 'débris', 'début', 'décor', 'défi',
+  'délice', 'désert', 'dôme', 'eau', 'effort', 'enclos', 'encre', 'enfant', 'engin', 'entrer',
+  'envol', 'espace', 'espoir', 'esprit', 'essaim', 'exil', 'fable', 'fagot', 'faible', 'faisan',
+  'fanal', 'farce', 'farine', 'faucon', 'faune', 'fauve', 'façade', 'fer', 'ferme', 'fermer',
+  'festin', 'feu', 'feutre', 'fiacre', 'fier', 'figue', 'fil', 'filet', 'fille', 'fils',
+  'fin', 'finir', 'fiole', 'flacon', 'flamme', 'flanc', 'flaque', 'fleur', 'fleuve', 'flocon',
+  'flèche', 'fléau', 'flûte', 'foin', 'foire', 'fondre', 'forge', 'fort', 'forêt', 'fossé',
+  'fou', 'fouet', 'foule', 'four', 'fourmi', 'foyer', 'frais', 'fraise', 'franc', 'frein',
+  'frelon', 'friche', 'frimas', 'frite', 'froid', 'fronde', 'front', 'fruit', 'frère', 'frêne',
+  'fumée', 'fusain', 'fuseau', 'fusée', 'fève', 'fée', 'fête', 'gagner', 'gai', 'gaine',
+  'galet', 'galion', 'galop', 'gamme', 'gant', 'garage', 'garder', 'gare', 'garçon', 'gazon',
+  'geai', 'gecko', 'gel', 'gelée', 'genou', 'gentil', 'gerbe', 'gibier', 'gilet', 'girafe',
+  'gitan', 'givre', 'glace', 'gland', 'glaçon', 'globe', 'glu', 'golfe', 'gomme', 'gorge',
+  'gourde', 'gousse', 'goutte', 'goûter', 'gradin', 'grain', 'graine', 'grange', 'granit', 'grappe',
+  'gras', 'grave', 'grelot', 'griffe', 'grille', 'gris', 'grive', 'gros', 'grotte', 'groupe',
+  'gruau', 'grêle', 'guenon', 'guide', 'guêpe', 'gâteau', 'habit', 'hache', 'haie', 'hamac',
+  'hameau', 'hanche', 'harpe', 'harpon', 'haut', 'havre', 'henné', 'herbe', 'hibou', 'hiver',
+  'hochet', 'homard', 'homme', 'hotte', 'houx', 'hublot', 'huile', 'humour', 'hutte', 'huître',
+  'hymne', 'hélice', 'héron', 'hêtre', 'idée', 'igloo', 'image', 'indigo', 'iode', 'iris',
+  'ivoire', 'jade', 'jambe', 'jambon', 'jardin', 'jasmin', 'jaune', 'jeter', 'jeton', 'jeu',
+  'jeudi', 'jeune', 'jockey', 'joie', 'joli', 'jonc', 'joue', 'jouer', 'jouet', 'jour',
+  'joyau', 'judo', 'juge', 'juin', 'jument', 'jungle', 'jupe', 'jus', 'juste', 'kayak',
+  'kimono', 'koala', 'képi', 'lac', 'lacet', 'lagon', 'lainage', 'laine', 'laisser', 'lait',
+  'laitue', 'lama', 'lame', 'lampe', 'lance', 'landau', 'langue', 'lapin', 'large', 'larme',
+  'las', 'lasso', 'laurier', 'lavande', 'laver', 'layette', 'lecteur', 'lent', 'lettre', 'lever',
+  'levure', 'leçon', 'liane', 'libre', 'licorne', 'lien', 'lierre', 'lilas', 'limace', 'lime',
+  'lin', 'linotte', 'lion', 'lire', 'lisse', 'lit', 'litre', 'livre', 'livret', 'lièvre',
+  'loge', 'loger', 'loi', 'long', 'losange', 'lotus', 'louer', 'loup', 'loupe', 'lourd',
+  'louve', 'lueur', 'luge', 'lundi', 'lune', 'lustre', 'luth', 'lutin', 'lynx', 'lèvre',
+  'légende', 'léger', 'légume', 'lézard', 'machine', 'madame', 'magasin', 'magie', 'mai', 'maillet',
+  'maillot', 'main', 'maire', 'maison', 'malice', 'malle', 'manche', 'manger', 'mangue', 'mante',
+  'manteau', 'manège', 'marais', 'marbre', 'marche', 'marcher', 'marché', 'mardi', 'mare', 'marelle',
+  'mari', 'mariage', 'marin', 'marmite', 'marotte', 'marron', 'mars', 'marteau', 'martin', 'marée',
+  'masque', 'massif', 'matelas', 'matin', 'maçon', 'maître', 'maïs', 'melon', 'menthe', 'mentir',
+  'mer', 'merlan', 'merle', 'mettre', 'meuble', 'meule', 'microbe', 'miel', 'miette', 'mille',
+  'mimosa', 'mince', 'minerai', 'minute', 'miroir', 'mitaine', 'mode', 'moineau', 'moisson', 'moment',
+  'monde', 'monnaie', 'monter', 'montre', 'montrer', 'morceau', 'mordre', 'morue', 'mot', 'moteur',
+  'motte', 'mou', 'mouche', 'moufle', 'moulin', 'mousse', 'mouton', 'muet', 'muguet', 'mulet',
+  'mur', 'murmure', 'museau', 'musique', 'mustang', 'musée', 'myrte', 'mâle', 'mât', 'mèche',
+  'mère', 'méandre', 'mélodie', 'mélèze', 'mésange', 'métal', 'mûr', 'mûre', 'nacre', 'nager',
+  'nappe', 'navet', 'navire', 'naître', 'nectar', 'neige', 'neiger', 'nerf', 'neuf', 'nez',
+  'niche', 'nickel', 'nid', 'noble', 'noeud', 'noir', 'noix', 'nom', 'nord', 'note',
+  'nourrir', 'noyau', 'noyer', 'nuage', 'nuance', 'nuit', 'oasis', 'objet', 'océan', 'odeur',
+  'oeil', 'oeillet', 'oeuf', 'offrir', 'ogre', 'oie', 'oignon', 'oiseau', 'olive', 'ombre',
+  'oncle', 'onde', 'ongle', 'opale', 'opéra', 'orage', 'orange', 'oreille', 'orge', 'orgue',
+  'orme', 'orteil', 'ortie', 'osier', 'otage', 'otarie', 'oublier', 'ouest', 'ouragan', 'ourlet',
+  'ours', 'outil', 'ouvrier', 'ouvrir', 'ovale', 'pagaie', 'page', 'pagode', 'paille', 'pain',
+  'palais', 'palette', 'palme', 'palmier', 'pampa', 'panda', 'panier', 'panneau', 'paon', 'papaye',
+  'papier', 'paquet', 'parasol', 'parc', 'parfum', 'parler', 'paroi', 'partie', 'partir', 'passage',
+  'passer', 'pastel', 'patin', 'patte', 'paume', 'pauvre', 'pavé', 'payer', 'pays', 'paysage',
+  'peau', 'peigne', 'peindre', 'peintre', 'pelle', 'pelote', 'pendule', 'penser', 'pensée', 'perche',
+  'perdre', 'perdrix', 'perle', 'persil', 'peser', 'petit', 'phare', 'phoque', 'photo', 'piano',
+  'pied', 'pierre', 'pieuvre', 'pigeon', 'pile', 'pilote', 'piment', 'pin', 'pince', 'pinceau',
+  'pioche', 'pipe', 'piste', 'piston', 'piège', 'placard', 'plafond', 'plage', 'plaine', 'planche',
+  'plante', 'planter', 'planète', 'plat', 'platane', 'plateau', 'plein', 'pleurer', 'plier', 'plomb',
+  'plonger', 'pluie', 'plume', 'pluvier', 'plâtre', 'poche', 'poids', 'poil', 'poire', 'poireau',
+  'pois', 'poisson', 'poivre', 'poivron', 'poli', 'pollen', 'pommade', 'pomme', 'pompe', 'poncho',
+  'pont', 'porc', 'porche', 'port', 'portail', 'porte', 'porter', 'poser', 'potager', 'poteau',
+  'potiron', 'poudre', 'poule', 'poulpe', 'poumon', 'poupée', 'pousser', 'poutre', 'poème', 'poêle',
+  'prairie', 'praline', 'prendre', 'prier', 'prince', 'prisme', 'propre', 'proue', 'prune', 'prêt',
+  'prêter', 'puce', 'puits', 'pull', 'puma', 'punaise', 'pupitre', 'pur', 'pyjama', 'pâle',
+  'péniche', 'pépin', 'pétale', 'pétrole', 'pêche', 'quai', 'quartz', 'queue', 'quiche', 'quitter',
+  'racine', 'radeau', 'radio', 'raifort', 'raisin', 'rame', 'rampant', 'rampe', 'rang', 'ranger',
+  'rapace', 'rapide', 'rare', 'rasoir', 'rayon', 'refuge', 'reine', 'remplir', 'renard', 'rendre',
+  'renne', 'rentrer', 'repas', 'reptile', 'requin', 'rester', 'riche', 'rideau', 'rire', 'rivage',
+  'rivière', 'riz', 'robe', 'roche', 'rocher', 'rognon', 'roi', 'roman', 'ronce', 'rond',
+  'rose', 'roseau', 'rosier', 'rotin', 'roue', 'rouge', 'rouler', 'roux', 'ruban', 'rubis',
+  'ruche', 'rude', 'rue', 'rugby', 'ruine', 'râteau', 'règle', 'rébus', 'récif', 'récolte',
+  'réparer', 'résine', 'réussir', 'réveil', 'rêver', 'sable', 'sablier', 'sabot', 'sac', 'sachet',
+  'safran', 'sage', 'sain', 'saisir', 'saison', 'salade', 'sale', 'salle', 'salon', 'salé',
+  'samedi', 'sandale', 'sang', 'saphir', 'sapin', 'sardine', 'sarment', 'satin', 'sauge', 'saule',
+  'saumon', 'sauter', 'sauver', 'savoir', 'savon', 'sceau', 'scie', 'seau', 'sec', 'seigle',
+  'sel', 'semaine', 'semer', 'sentier', 'sentir', 'serpent', 'serre', 'servir', 'seuil', 'seul',
+  'siffler', 'sifflet', 'signe', 'silex', 'sillon', 'simple', 'singe', 'sirop', 'sirène', 'siècle',
+  'sloop', 'socle', 'sofa', 'soie', 'soigner', 'soir', 'soldat', 'soleil', 'solide', 'sombre',
+  'sommet', 'son', 'sonate', 'sonner', 'sorbet', 'sorcier', 'sortir', 'souche', 'soufre', 'soupape',
+  'soupe', 'souple', 'source', 'sourd', 'sourire', 'souris', 'sphinx', 'statue', 'stylo', 'subtil',
+  'sucre', 'sud', 'suivre', 'sureau', 'sésame', 'sûr', 'table', 'tableau', 'tablier', 'tache',
+  'taille', 'tailler', 'taillis', 'talus', 'tambour', 'tamis', 'tanière', 'tante', 'taon', 'tapir',
+  'tapis', 'tarte', 'tasse', 'taupe', 'taureau', 'taverne', 'teinte', 'temple', 'temps', 'tempête',
+  'tendre', 'tenir', 'terre', 'terrier', 'thon', 'thym', 'thé', 'théâtre', 'tige', 'tigre',
+  'tilleul', 'timbre', 'timide', 'tirer', 'tiroir', 'tison', 'tissu', 'tiède', 'toile', 'toit',
+  'tomate', 'tomber', 'tondre', 'tonneau', 'topaze', 'torche', 'torrent', 'tortue', 'totem', 'toupie',
+  'tour', 'tourbe', 'tourner', 'tousser', 'train', 'traîner', 'tresser', 'tribu', 'tricot', 'triste',
+  'trolley', 'tronc', 'trou', 'trouver', 'truelle', 'truffe', 'truite', 'trèfle', 'trésor', 'tuba',
+  'tuer', 'tuile', 'tulipe', 'tunnel', 'turban', 'tuyau', 'télé', 'tête', 'unir', 'usine',
+  'vache', 'vague', 'valise', 'vallée', 'valoir', 'vanille', 'vapeur', 'vase', 'vaste', 'veau',
+  'velours', 'vendre', 'venir', 'vent', 'ventre', 'verger', 'vernis', 'verre', 'verrou', 'verser',
+  'vert', 'veste', 'viande', 'vide', 'vieux', 'vif', 'vigne', 'village', 'ville', 'vin',
+  'violet', 'violon', 'virgule', 'vis', 'visage', 'vitrail', 'vitre', 'vivre', 'voile', 'voir',
+  'voisin', 'voiture', 'voix', 'volcan', 'voler', 'volet', 'vote', 'vouloir', 'voyager', 'vrai',
+  'vrille', 'vélo', 'wagon', 'yaourt', 'zèbre', 'zéro', 'âne', 'ébène', 'écaille', 'écharpe',
+  'échelle', 'échoppe', 'éclair', 'écluse', 'école', 'écorce', 'écouter', 'écran', 'écrin', 'écrire',
+  'écrou', 'écuelle', 'écume', 'écusson', 'édifice', 'église', 'élan', 'élève', 'émail', 'énigme',
+  'épaule', 'épave', 'éperon', 'épi', 'épice', 'épinard', 'épine', 'éponge', 'épée', 'équipe',
+  'érable', 'étable', 'étage', 'étain', 'étang', 'étau', 'étoffe', 'étoile', 'étroit', 'étude',
+  'étudier', 'étui', 'été', 'évier', 'île', 'îlot',
+];
@@ -0,0 +1,143 @@
+/**
+ * Italian Diceware Wordlist
+ * 1296 common words, one per roll of four dice (1111-6666), 10.3 bits per
+ * word. Lowercase, 3-8 letters, sorted by code point. Accented
+ * letters are stored precomposed (NFKC).
+ *
+ * Loaded on demand via {@link loadWordlist}; do not import directly.
+ *
+ * @module generators/wordlists/diceware-it
+ */
+
+export const DICEWARE_IT_WORDLIST: readonly string[] = [
+  'abete', 'abitare', 'abito', 'accordo', 'acero', 'aceto', 'acqua', 'aereo', 'affetto', 'agenda',
+  'agile', 'agio', 'aglio', 'agnello', 'ago', 'agosto', 'aiutare', 'aiuto', 'ala', 'alba',
+  'albero', 'alce', 'alga', 'allegro', 'alloro', 'alpe', 'altare', 'alto', 'alveare', 'alzare',
+  'amaca', 'amare', 'amaro', 'ambra', 'amico', 'amore', 'amuleto', 'ananas', 'anatra', 'ancora',
+  'andare', 'anello', 'anfora', 'angelo', 'angolo', 'anguria', 'anice', 'anima', 'anitra', 'annata',
+  'anno', 'antenna', 'antico', 'ape', 'appunto', 'aprile', 'aprire', 'aquila', 'arancia', 'aratro',
+  'arbusto', 'arco', 'ardesia', 'argento', 'argilla', 'aria', 'armadio', 'arnese', 'aroma', 'arpa',
+  'arrosto', 'arte', 'ascia', 'asino', 'aspetto', 'asse', 'asta', 'astro', 'atlante', 'atleta',
+  'atomo', 'attimo', 'attore', 'autore', 'autunno', 'avanzo', 'avena', 'azione', 'azzurro', 'baciare',
+  'baco', 'badile', 'baffo', 'bagnare', 'bagno', 'baia', 'baita', 'balcone', 'balena', 'balla',
+  'ballare', 'ballo', 'balsamo', 'bambola', 'bambù', 'banana', 'banca', 'banco', 'baracca', 'barba',
+  'barca', 'barile', 'barone', 'basco', 'basso', 'bastone', 'battere', 'battuta', 'baule', 'bazar',
+  'beccaio', 'becco', 'bello', 'benda', 'benzina', 'bere', 'betulla', 'biada', 'bianco', 'bidone',
+  'biglia', 'binario', 'biondo', 'biro', 'birra', 'biscia', 'bisonte', 'bivio', 'blu', 'bocca',
+  'boccale', 'boia', 'bolla', 'bollire', 'bomba', 'bordo', 'borgo', 'borsa', 'bosco', 'botte',
+  'bottega', 'bottone', 'bozzolo', 'braccio', 'brace', 'branco', 'breve', 'brezza', 'brocca', 'brodo',
+  'bronzo', 'bruco', 'bruma', 'buco', 'budino', 'bue', 'bufalo', 'bufera', 'buio', 'bulbo',
+  'buono', 'burro', 'burrone', 'bussare', 'bussola', 'busta', 'buttare', 'cabina', 'cacao', 'cadenza',
+  'cadere', 'caffè', 'calce', 'caldo', 'calice', 'calle', 'calmo', 'calore', 'calza', 'camera',
+  'camino', 'camion', 'campana', 'campo', 'canale', 'candela', 'cane', 'canguro', 'canna', 'canoa',
+  'cantare', 'cantina', 'canto', 'capanna', 'capello', 'capire', 'capra', 'carbone', 'cardo', 'carezza',
+  'carne', 'caro', 'carota', 'carriola', 'carro', 'carrozza', 'carta', 'cartello', 'casa', 'cascata',
+  'casco', 'caserma', 'cassa', 'cassetto', 'castagna', 'castello', 'castoro', 'catena', 'catino', 'cavallo',
+  'caverna', 'caviglia', 'cavolo', 'cedro', 'cembalo', 'cena', 'cenere', 'cera', 'cercare', 'cerchio',
+  'cerotto', 'cervo', 'cesta', 'cetriolo', 'chiamare', 'chiaro', 'chiave', 'chicco', 'chiedere', 'chiesa',
+  'chioccia', 'chiodo', 'chiosco', 'chitarra', 'chiudere', 'ciabatta', 'cialda', 'cicala', 'cicogna', 'cielo',
+  'ciglio', 'cigno', 'ciliegia', 'cima', 'cimice', 'cinema', 'cintura', 'ciotola', 'ciottolo', 'cipolla',
+  'cipresso', 'cipria', 'circo', 'cisterna', 'città', 'civetta', 'clima', 'coccio', 'cocco', 'cocomero',
+  'coda', 'colla', 'collana', 'colle', 'collina', 'collo', 'colomba', 'colonna', 'colore', 'colpire',
+  'coltello', 'cometa', 'comodino', 'compasso', 'comprare', 'conca', 'confine', 'coniglio', 'contare', 'conto',
+  'coperta', 'coppa', 'coppia', 'coprire', 'corallo', 'corazza', 'corda', 'cornice', 'corniola', 'corno',
+  'corona', 'corpo', 'correre', 'corsa', 'corte', 'corto', 'corvo', 'coscia', 'coso', 'costa',
+  'cotone', 'covone', 'cozza', 'cratere', 'cravatta', 'credere', 'crema', 'crescere', 'criceto', 'croce',
+  'crosta', 'crostata', 'crudo', 'cubo', 'cuccia', 'cucciolo', 'cucina', 'cucinare', 'cucire', 'cuffia',
+  'cugino', 'culla', 'cuneo', 'cuoco', 'cuore', 'cupola', 'cuscino', 'dado', 'daino', 'dama',
+  'dare', 'dattero', 'dattilo', 'debito', 'debole', 'decidere', 'decina', 'delfino', 'delizia', 'denaro',
+  'denso', 'dente', 'deserto', 'destino', 'diadema', 'dialogo', 'diamante', 'diario', 'dipinto', 'dire',
+  'disco', 'dito', 'diva', 'divano', 'doccia', 'dogana', 'dolce', 'domani', 'domenica', 'donnola',
+  'dono', 'doppio', 'dormire', 'dote', 'dottore', 'drago', 'dragone', 'drappo', 'duca', 'duna',
+  'durare', 'duro', 'ebano', 'eclissi', 'eco', 'edera', 'edicola', 'effetto', 'elastico', 'elefante',
+  'elenco', 'elica', 'eliso', 'elmetto', 'elmo', 'emblema', 'enigma', 'entrare', 'equatore', 'erba',
+  'eroe', 'esame', 'esca', 'esercito', 'estate', 'fabbro', 'faccia', 'facciata', 'facile', 'fagiano',
+  'fagiolo', 'falce', 'falco', 'falò', 'fame', 'famiglia', 'fanale', 'fango', 'farfalla', 'farina',
+  'farmacia', 'faro', 'fascia', 'fata', 'fattoria', 'fauna', 'favo', 'favola', 'febbre', 'fede',
+  'felce', 'felice', 'fenice', 'feritoia', 'fermare', 'fermata', 'fermo', 'ferro', 'ferrovia', 'fessura',
+  'festa', 'fetta', 'fiaba', 'fiamma', 'fianco', 'fiasco', 'fibbia', 'fico', 'fienile', 'fieno',
+  'fiero', 'figlio', 'figura', 'fila', 'filo', 'filtro', 'fine', 'finire', 'fionda', 'fiore',
+  'fischio', 'fiume', 'flauto', 'flotta', 'foca', 'focaccia', 'fodera', 'foglia', 'fogna', 'folla',
+  'fondo', 'fontana', 'forbice', 'foresta', 'forma', 'formica', 'fornaio', 'forno', 'forte', 'fortezza',
+  'fortuna', 'fossa', 'fosso', 'fragola', 'fragore', 'frangia', 'frassino', 'frate', 'freccia', 'freddo',
+  'fregata', 'fresco', 'fresia', 'frittata', 'fronte', 'frumento', 'frutta', 'fucile', 'fulmine', 'fumare',
+  'fumetto', 'fumo', 'fune', 'fungo', 'funivia', 'fuoco', 'furbo', 'fuso', 'gabbia', 'gaggia',
+  'galeone', 'galleria', 'gallina', 'gallo', 'gamba', 'gambero', 'gancio', 'garofano', 'gatto', 'gazza',
+  'gelato', 'gelso', 'gemello', 'gemma', 'genio', 'gentile', 'gerbera', 'gesso', 'gettare', 'getto',
+  'ghiaccio', 'ghianda', 'giacca', 'giacinto', 'giaguaro', 'giallo', 'giardino', 'giglio', 'ginepro', 'giocare',
+  'gioco', 'gioia', 'giorno', 'giostra', 'giovane', 'giraffa', 'girare', 'girasole', 'gita', 'giudice',
+  'giunco', 'giusto', 'glicine', 'globo', 'gnomo', 'gobba', 'goccia', 'golfo', 'gomito', 'gomma',
+  'gondola', 'gonna', 'gradino', 'granchio', 'grande', 'granito', 'grano', 'grappolo', 'grasso', 'gridare',
+  'grigio', 'grillo', 'grotta', 'gru', 'guado', 'guancia', 'guanto', 'guardare', 'guardia', 'gufo',
+  'guidare', 'guscio', 'iceberg', 'icona', 'idea', 'imparare', 'impronta', 'incanto', 'incenso', 'indice',
+  'inferno', 'insalata', 'insegna', 'inverno', 'isola', 'isolotto', 'istrice', 'laccio', 'lacrima', 'lago',
+  'lama', 'lampada', 'lampone', 'lana', 'lancia', 'lanciare', 'lanterna', 'lardo', 'lasciare', 'lastra',
+  'latte', 'lattuga', 'lauro', 'lavagna', 'lavanda', 'lavare', 'lavello', 'lavoro', 'legare', 'leggere',
+  'leggero', 'leggio', 'legno', 'legume', 'lente', 'lento', 'lenzuolo', 'leone', 'leopardo', 'lepre',
+  'lettera', 'lettino', 'letto', 'leva', 'levriero', 'libero', 'libro', 'limone', 'lince', 'lingua',
+  'lino', 'liquore', 'lira', 'lisca', 'liscio', 'lista', 'lodola', 'loggia', 'lombrico', 'lontra',
+  'lucciola', 'luce', 'luglio', 'lumaca', 'lume', 'luna', 'lungo', 'lupo', 'lustro', 'macchia',
+  'macina', 'madia', 'madre', 'maestro', 'maggio', 'maglia', 'magnolia', 'mago', 'magone', 'magro',
+  'maiale', 'mais', 'malva', 'mamma', 'mandare', 'mandorla', 'mangiare', 'manico', 'maniglia', 'mano',
+  'mantello', 'manto', 'manubrio', 'mappa', 'mare', 'marina', 'marmo', 'marmotta', 'marrone', 'martello',
+  'marzo', 'maschera', 'mastino', 'matassa', 'matita', 'mattina', 'mazzo', 'medaglia', 'mela', 'melone',
+  'memoria', 'menta', 'mento', 'mercato', 'merletto', 'merlo', 'merluzzo', 'mese', 'meta', 'metallo',
+  'mettere', 'miccia', 'micio', 'miele', 'miglio', 'mimosa', 'minestra', 'miniera', 'mirtillo', 'mirto',
+  'missile', 'mite', 'mitra', 'mobile', 'molla', 'molle', 'mollusco', 'moneta', 'monte', 'montone',
+  'mora', 'morbido', 'mordere', 'morso', 'mortaio', 'mosaico', 'mosca', 'mostarda', 'mostrare', 'motore',
+  'motto', 'mucca', 'mulino', 'mulo', 'muovere', 'muro', 'muschio', 'museo', 'musica', 'muso',
+  'muto', 'narciso', 'nascere', 'naso', 'nastro', 'nave', 'nebbia', 'nero', 'nespola', 'nettare',
+  'neve', 'nicchia', 'nido', 'ninfea', 'nipote', 'nitrato', 'nobile', 'nocciola', 'noce', 'nodo',
+  'nome', 'nonna', 'nonno', 'notaio', 'notte', 'novella', 'nube', 'nudo', 'nulla', 'nuotare',
+  'nuoto', 'nuovo', 'nuvola', 'oasi', 'obelisco', 'oblò', 'oca', 'occhiale', 'occhio', 'oceano',
+  'odore', 'officina', 'offrire', 'olio', 'oliva', 'olivo', 'olmo', 'ombelico', 'ombra', 'ombrello',
+  'onda', 'opale', 'opera', 'orario', 'orata', 'ordinare', 'orecchio', 'organo', 'orlo', 'ornato',
+  'oro', 'orso', 'ortica', 'orto', 'orzo', 'oscuro', 'ospite', 'ossa', 'ostello', 'ostrica',
+  'ottobre', 'ottone', 'ovile', 'ozono', 'pacco', 'pace', 'padella', 'padre', 'paese', 'pagaia',
+  'pagare', 'pagina', 'paglia', 'palazzo', 'paletta', 'palio', 'palla', 'pallido', 'palma', 'palude',
+  'panca', 'pancia', 'pandoro', 'pane', 'panino', 'panna', 'pantera', 'papavero', 'papiro', 'parco',
+  'parete', 'pari', 'parlare', 'parola', 'parrucca', 'partire', 'pascolo', 'passare', 'passero', 'pasta',
+  'pastore', 'patata', 'patella', 'pattino', 'pavone', 'pecora', 'pedale', 'pegno', 'pelle', 'pendio',
+  'penisola', 'penna', 'pensare', 'pentola', 'pepe', 'peperone', 'pera', 'perdere', 'pergola', 'perla',
+  'pertica', 'pesca', 'pescare', 'pesce', 'petalo', 'pettine', 'piangere', 'piano', 'piantare', 'piattino',
+  'piatto', 'piazza', 'picchio', 'piccione', 'piccolo', 'piede', 'piegare', 'pieno', 'pietra', 'pigiama',
+  'pigna', 'pila', 'pilota', 'pinguino', 'pino', 'pioggia', 'pioppo', 'piroga', 'pistola', 'piuma',
+  'pizza', 'platano', 'plico', 'pollice', 'pollo', 'polmone', 'polpo', 'polvere', 'pomata', 'pomodoro',
+  'pompa', 'ponte', 'porta', 'portare', 'porto', 'portone', 'posta', 'potere', 'povero', 'pozzo',
+  'pranzare', 'prato', 'premio', 'prendere', 'prete', 'principe', 'prisma', 'pronto', 'prugna', 'pruno',
+  'pugno', 'pulce', 'pulcino', 'puledro', 'pulire', 'punto', 'pupazzo', 'puro', 'quaderno', 'quadro',
+  'quarzo', 'quercia', 'quiete', 'radice', 'radio', 'ragazzo', 'raggio', 'ragno', 'rame', 'ramo',
+  'rampa', 'rana', 'rapa', 'rapace', 'rapido', 'raro', 'razzo', 'recinto', 'regalo', 'regina',
+  'remo', 'rena', 'renna', 'rete', 'ricamo', 'riccio', 'ricco', 'ricetta', 'ridere', 'riempire',
+  'riga', 'rimedio', 'ripa', 'riso', 'ristoro', 'ritmo', 'riva', 'roccia', 'rompere', 'rondine',
+  'rosa', 'rospo', 'rossetto', 'rosso', 'rotaia', 'rotondo', 'rovo', 'rubino', 'rullo', 'ruota',
+  'ruscello', 'sabbia', 'sacco', 'saetta', 'saggio', 'salame', 'salato', 'sale', 'salice', 'salire',
+  'salmone', 'salotto', 'saltare', 'salto', 'salutare', 'salvia', 'sandalo', 'sangue', 'sano', 'sapere',
+  'sapone', 'sapore', 'sarta', 'sasso', 'sbarra', 'scacchi', 'scaffale', 'scala', 'scalino', 'scarabeo',
+  'scarpa', 'scatola', 'scavare', 'scendere', 'scheggia', 'schiuma', 'sciarpa', 'scimmia', 'scoglio', 'scopa',
+  'scorza', 'scrigno', 'scrivere', 'scudo', 'scultura', 'secchio', 'secco', 'sedano', 'sedere', 'sedia',
+  'segale', 'segreto', 'selce', 'sella', 'semaforo', 'seme', 'semplice', 'sentiero', 'sentire', 'seppia',
+  'sera', 'serio', 'serpente', 'serra', 'servire', 'seta', 'sete', 'sgabello', 'siepe', 'sigaro',
+  'sigillo', 'silenzio', 'sirena', 'slitta', 'soffiare', 'soffitto', 'soglia', 'sogliola', 'sognare', 'solco',
+  'soldo', 'sole', 'sordo', 'sorella', 'sorgente', 'sorriso', 'sottana', 'sottile', 'spada', 'spago',
+  'spalla', 'spazzola', 'specchio', 'spezia', 'spiaggia', 'spiga', 'spillo', 'spina', 'spingere', 'sponda',
+  'spugna', 'squalo', 'staffa', 'stagione', 'stagno', 'stalla', 'stampo', 'stare', 'statua', 'stecca',
+  'stella', 'stemma', 'stivale', 'stoffa', 'storia', 'strada', 'stretto', 'studiare', 'stufa', 'sughero',
+  'sugo', 'suonare', 'suono', 'susina', 'svago', 'tabacco', 'tacco', 'tagliare', 'tagliere', 'talpa',
+  'tamburo', 'tana', 'tappeto', 'tappo', 'tasca', 'tastiera', 'tavola', 'tavolo', 'tazza', 'teatro',
+  'tegola', 'tela', 'telaio', 'telefono', 'tempio', 'tempo', 'tenaglia', 'tenda', 'tenere', 'tenero',
+  'termine', 'terra', 'terrazzo', 'tesoro', 'tessera', 'testa', 'tetto', 'tiepido', 'tifone', 'tiglio',
+  'tigre', 'timido', 'timo', 'timone', 'tinta', 'tipo', 'tirare', 'tiro', 'toccare', 'toga',
+  'tomba', 'tonno', 'topazio', 'topo', 'torchio', 'torcia', 'tornado', 'tornare', 'torre', 'torrente',
+  'torta', 'tortora', 'tossire', 'tovaglia', 'tracolla', 'trama', 'trave', 'treccia', 'treno', 'tribù',
+  'trincea', 'triste', 'trofeo', 'tromba', 'tronco', 'trota', 'trottola', 'trovare', 'trucco', 'tubo',
+  'tuffo', 'tulipano', 'tuono', 'turbante', 'uccello', 'ufficio', 'uliveto', 'ulivo', 'ultimo', 'uncino',
+  'unghia', 'uomo', 'uovo', 'uragano', 'urlo', 'usare', 'uscire', 'usignolo', 'uva', 'vacca',
+  'vagone', 'valanga', 'valigia', 'valle', 'vanga', 'vaniglia', 'vapore', 'vaso', 'vecchio', 'vedere',
+  'vela', 'veleno', 'veloce', 'vendere', 'venire', 'vento', 'veranda', 'verde', 'verdura', 'verme',
+  'vero', 'vespa', 'vestito', 'vetrina', 'vetro', 'via', 'viale', 'vicolo', 'vigna', 'villa',
+  'vimini', 'vincere', 'vino', 'viola', 'violino', 'vipera', 'visone', 'vite', 'vitello', 'vivere',
+  'vivo', 'vocale', 'voce', 'volare', 'volere', 'volpe', 'vongola', 'votare', 'vulcano', 'vuoto',
+  'zaffiro', 'zaino', 'zampa', 'zanzara', 'zappa', 'zattera', 'zebra', 'zenzero', 'zerbino', 'zio',
+  'zoccolo', 'zolfo', 'zolla', 'zucca', 'zucchero', 'zuppa',
+];
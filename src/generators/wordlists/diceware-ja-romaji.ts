@@ -0,0 +1,143 @@
+/**
+ * Japanese (Hepburn romaji) Diceware Wordlist
+ * 1296 common words, one per roll of four dice (1111-6666), 10.3 bits per
+ * word. Lowercase, 3-8 letters, sorted by code point. Plain ASCII
+ * without long-vowel marks, so it can be typed on any keyboard.
+ *
+ * Loaded on demand via {@link loadWordlist}; do not import directly.
+ *
+ * @module generators/wordlists/diceware-ja-romaji
+ */
+
+export const DICEWARE_JA_ROMAJI_WORDLIST: readonly string[] = [
+  'abiru', 'abura', 'agaru', 'ageru', 'ago', 'ahiru', 'aibo', 'aida', 'aigo', 'aikagi',
+  'aikido', 'aisatsu', 'aizu', 'aji', 'ajisai', 'aka', 'akachan', 'akai', 'akane', 'akari',
+  'akaruku', 'akebono', 'akeru', 'aki', 'akindo', 'akiya', 'aku', 'akubi', 'akuma', 'amado',
+  'amagasa', 'amagumo', 'amai', 'amamori', 'amazake', 'ame', 'ami', 'amu', 'ana', 'anago',
+  'anata', 'ane', 'ani', 'anko', 'anmitsu', 'anshin', 'anzu', 'aoba', 'aobato', 'aoi',
+  'aomori', 'aozora', 'arare', 'arashi', 'arasou', 'arau', 'ari', 'aruku', 'asa', 'asagao',
+  'asahi', 'asari', 'asatte', 'ase', 'ashi', 'ashiato', 'ashita', 'asobi', 'asobiba', 'asobu',
+  'ataeru', 'ataka', 'atama', 'atari', 'ato', 'atsugi', 'atsui', 'awa', 'awabi', 'awase',
+  'ayamaru', 'ayame', 'ayatori', 'ayu', 'azami', 'azuki', 'bachi', 'baiku', 'bakufu', 'bamen',
+  'banana', 'bango', 'banto', 'bara', 'basha', 'basho', 'basu', 'bato', 'batta', 'beni',
+  'benkyo', 'bento', 'bettaku', 'bijin', 'bijutsu', 'bin', 'biru', 'biwa', 'biwako', 'bokken',
+  'bokura', 'bonsai', 'bora', 'boshi', 'botan', 'bozu', 'budo', 'bunbogu', 'bunka', 'bunko',
+  'bunraku', 'buri', 'buta', 'butai', 'byobu', 'chagama', 'chakai', 'chanoyu', 'chasen', 'chawan',
+  'chaya', 'chi', 'chibi', 'chichi', 'chidori', 'chie', 'chigai', 'chiho', 'chiisai', 'chikai',
+  'chikara', 'chikuwa', 'chikyu', 'chimaki', 'chinju', 'chizu', 'cho', 'choba', 'chochin', 'chokin',
+  'chokki', 'chomen', 'chorei', 'chugoku', 'chuka', 'chusha', 'daifuku', 'daikon', 'daiku', 'daimyo',
+  'dairi', 'daiza', 'dako', 'danchi', 'dango', 'danna', 'daruma', 'dashi', 'dasu', 'deguchi',
+  'denen', 'denki', 'denpo', 'denwa', 'deru', 'doa', 'dobin', 'dogu', 'dojo', 'dokan',
+  'doki', 'doku', 'dokutsu', 'donburi', 'donguri', 'dora', 'dori', 'doro', 'dorobo', 'dote',
+  'doyo', 'dozo', 'ebi', 'ebisu', 'eboshi', 'eda', 'edamame', 'ehon', 'eiga', 'eigo',
+  'eizo', 'eki', 'ekiben', 'ekubo', 'ema', 'emi', 'empitsu', 'engawa', 'enogu', 'ensei',
+  'enshi', 'ensoku', 'ento', 'erabu', 'eri', 'fubuki', 'fudai', 'fude', 'fudoki', 'fue',
+  'fugu', 'fuji', 'fujin', 'fukei', 'fuku', 'fukuro', 'fumi', 'fumu', 'fune', 'funsui',
+  'furin', 'furo', 'furu', 'furui', 'fusen', 'fusuma', 'futa', 'futaba', 'futago', 'futon',
+  'fuurin', 'fuyu', 'gaka', 'gake', 'gakki', 'gakko', 'gakudan', 'gakuen', 'gama', 'gan',
+  'garasu', 'gassho', 'gatten', 'geiko', 'gekko', 'genkan', 'genki', 'genmai', 'geta', 'gimon',
+  'gin', 'giri', 'gobo', 'gochi', 'gochiso', 'gohan', 'goma', 'gomi', 'goraiko', 'goza',
+  'gumi', 'gunbai', 'gunkan', 'gyokuro', 'gyosen', 'gyoza', 'gyu', 'haba', 'habutae', 'hachi',
+  'hadaka', 'hae', 'hagaki', 'hagi', 'hagoita', 'haha', 'hai', 'haiiro', 'haiku', 'haikyo',
+  'hairu', 'hakama', 'hakata', 'hako', 'hakobu', 'hakubai', 'hakusai', 'hama', 'hamachi', 'hamon',
+  'hana', 'hanabi', 'hanakago', 'hanami', 'hanashi', 'hanasu', 'hanawa', 'hanazono', 'hane', 'haniwa',
+  'hanko', 'hanten', 'haori', 'happi', 'hara', 'haragei', 'haramaki', 'harau', 'hareru', 'hari',
+  'haru', 'harukaze', 'harusame', 'hasami', 'hashi', 'hashira', 'hashiru', 'hasu', 'hata', 'hatake',
+  'hataraku', 'hato', 'hatoba', 'hayabusa', 'hayai', 'hayashi', 'hayate', 'hebi', 'hedo', 'heiwa',
+  'hekiga', 'heso', 'heya', 'hibachi', 'hibari', 'hibiki', 'hidari', 'higan', 'hige', 'hijiki',
+  'hikari', 'hikeshi', 'hikoki', 'hiku', 'hima', 'himawari', 'hime', 'hinata', 'hinoki', 'hiragana',
+  'hiraku', 'hirame', 'hiroba', 'hiroi', 'hirou', 'hiru', 'hishaku', 'hitode', 'hitomi', 'hitsuji',
+  'hiyoko', 'hiza', 'hizume', 'hocho', 'hodo', 'hoho', 'hoji', 'hoki', 'hokku', 'hokora',
+  'hondo', 'honmaru', 'honya', 'horagai', 'horin', 'hoshi', 'hosoi', 'hotaru', 'hotate', 'hotoke',
+  'hozuki', 'hyo', 'hyotan', 'ibara', 'ichiba', 'ichie', 'ichigo', 'ichiyo', 'ido', 'idobata',
+  'igaguri', 'igusa', 'ika', 'ikada', 'ikari', 'ike', 'ikebana', 'ikigai', 'ikiru', 'iku',
+  'ikura', 'ima', 'imo', 'imoto', 'inago', 'inaka', 'inari', 'inazuma', 'ine', 'inochi',
+  'inori', 'inu', 'ippai', 'ippon', 'ireru', 'iriguchi', 'iroha', 'irori', 'iru', 'iruka',
+  'ishi', 'ishigaki', 'isobe', 'isshin', 'itamae', 'ito', 'itsuki', 'iwa', 'iwashi', 'iyashi',
+  'izakaya', 'jagaimo', 'jiban', 'jibun', 'jidai', 'jikan', 'jikka', 'jimen', 'jinbei', 'jinja',
+  'jinrai', 'jiru', 'jisho', 'jitensha', 'jiyu', 'jizo', 'joban', 'jocho', 'jogi', 'jomon',
+  'joro', 'joruri', 'jubako', 'juban', 'judo', 'jukai', 'junsai', 'jutaku', 'kabe', 'kabuki',
+  'kaburi', 'kabuto', 'kachi', 'kado', 'kaede', 'kaen', 'kaeru', 'kagami', 'kagaribi', 'kage',
+  'kagi', 'kagu', 'kagura', 'kai', 'kaidan', 'kaigan', 'kaiko', 'kaiseki', 'kaiso', 'kaji',
+  'kakashi', 'kakejiku', 'kakeru', 'kaki', 'kakigori', 'kaku', 'kama', 'kamaboko', 'kamado', 'kame',
+  'kami', 'kamidana', 'kaminari', 'kamo', 'kan', 'kanabo', 'kanashii', 'kane', 'kani', 'kanji',
+  'kanna', 'kanpai', 'kanten', 'kanzashi', 'kappa', 'kappogi', 'kara', 'karakuri', 'karasu', 'karate',
+  'karui', 'karuta', 'kasa', 'kase', 'kashi', 'kasu', 'kasumi', 'kasuri', 'kata', 'katai',
+  'katakana', 'katana', 'katsu', 'katsudon', 'katsuo', 'katsura', 'kau', 'kawa', 'kawaii', 'kawaku',
+  'kawara', 'kayabuki', 'kayu', 'kazari', 'kaze', 'kazoku', 'kegawa', 'keiko', 'keisatsu', 'keito',
+  'kemari', 'kemuri', 'ken', 'kendo', 'kenzan', 'kesa', 'kesu', 'kiba', 'kibi', 'kibune',
+  'kiiroi', 'kiji', 'kiku', 'kikyo', 'kimi', 'kimochi', 'kimono', 'kin', 'kinako', 'kinjo',
+  'kinkaku', 'kinoko', 'kinpira', 'kinu', 'kiri', 'kiriko', 'kiru', 'kiseki', 'kiseru', 'kisha',
+  'kissaten', 'kita', 'kitanai', 'kitsune', 'kiyomizu', 'kizashi', 'kizuna', 'koban', 'kobashi', 'kobo',
+  'kobushi', 'kocha', 'kodachi', 'kodama', 'kodomo', 'koe', 'kofun', 'kogane', 'kohaku', 'kohi',
+  'koi', 'koke', 'kokeshi', 'kokoa', 'kokoro', 'kokuban', 'kokugo', 'koma', 'komachi', 'komainu',
+  'kome', 'komori', 'komugi', 'kon', 'konbu', 'konnyaku', 'konro', 'kori', 'koshi', 'kosode',
+  'kosumosu', 'kotatsu', 'koto', 'kotoba', 'kotori', 'kowai', 'koya', 'kozo', 'kubi', 'kuchi',
+  'kugi', 'kujaku', 'kuji', 'kukki', 'kuma', 'kumade', 'kumo', 'kumu', 'kura', 'kuraberu',
+  'kurage', 'kuri', 'kuroi', 'kuru', 'kuruma', 'kurumaza', 'kurumi', 'kusa', 'kusabue', 'kushi',
+  'kusuri', 'kutsu', 'kuu', 'kyaku', 'kyogen', 'kyokai', 'kyoku', 'kyu', 'kyudo', 'kyuri',
+  'mabushii', 'maccha', 'machi', 'mado', 'mae', 'magaru', 'magatama', 'mago', 'maiko', 'mairu',
+  'maki', 'makimono', 'makura', 'mame', 'mamezara', 'mamori', 'mamoru', 'manako', 'maneki', 'manga',
+  'mangetsu', 'manju', 'marimo', 'maru', 'marui', 'masu', 'masumi', 'matcha', 'matoi', 'matsu',
+  'matsuri', 'mawaru', 'mayu', 'megane', 'meiji', 'meijin', 'meisho', 'mejiro', 'menko', 'meron',
+  'meshi', 'mibun', 'michi', 'midori', 'migi', 'mijikai', 'mikado', 'mikan', 'mikazuki', 'mikoshi',
+  'mimi', 'minami', 'minamo', 'minato', 'minka', 'minogasa', 'mirin', 'miru', 'miruku', 'misaki',
+  'miseru', 'miso', 'mitsu', 'mitsuba', 'miyage', 'miyako', 'mizu', 'mizuhiki', 'mizunara', 'mizuumi',
+  'mochi', 'mochiru', 'modoru', 'moegi', 'moeru', 'mokuba', 'mokugyo', 'mokume', 'momen', 'momiji',
+  'momo', 'momotaro', 'mompe', 'mon', 'monaka', 'monzen', 'morau', 'mori', 'mosu', 'motai',
+  'motsu', 'mozu', 'mugi', 'mukade', 'mukashi', 'mukau', 'mura', 'murasaki', 'murasame', 'mushi',
+  'mushiro', 'musubi', 'musubu', 'musume', 'muzai', 'myoga', 'nabe', 'nagai', 'nagare', 'nagareru',
+  'nagashi', 'nagauta', 'nagaya', 'nageru', 'naginata', 'nagori', 'naisho', 'naka', 'nakama', 'naku',
+  'namahage', 'namazu', 'nami', 'namida', 'nanohana', 'nanten', 'narau', 'naru', 'nasu', 'natsu',
+  'natto', 'nawa', 'naze', 'negi', 'nehan', 'neko', 'nemuri', 'nenga', 'nerikiri', 'neru',
+  'nezu', 'nezumi', 'nigeru', 'nigiri', 'nigori', 'nihon', 'niji', 'nijimasu', 'nikki', 'niku',
+  'ninja', 'ninjin', 'nishiki', 'nishin', 'niwa', 'niwatori', 'nobiru', 'nobori', 'noboru', 'nodate',
+  'nokogiri', 'nomiya', 'nomu', 'nonbiri', 'noren', 'nori', 'norimaki', 'noru', 'noshi', 'nozomi',
+  'nue', 'nugu', 'nukazuke', 'nuno', 'nurie', 'nuru', 'nurui', 'nyudo', 'obake', 'obento',
+  'obi', 'obon', 'ocha', 'ochazuke', 'odaiba', 'odawara', 'odori', 'odoru', 'ofuda', 'ofuro',
+  'ogi', 'ogura', 'ohagi', 'ohashi', 'ohayo', 'oishii', 'oka', 'okame', 'okane', 'okashi',
+  'oke', 'okiagari', 'okiru', 'okiya', 'okonomi', 'okoru', 'okoshi', 'oku', 'okura', 'okuri',
+  'omamori', 'omikuji', 'omiyage', 'omocha', 'omoi', 'omoide', 'omou', 'omusubi', 'ongaku', 'oni',
+  'onigiri', 'onna', 'onsen', 'onsenkyo', 'oranda', 'oribe', 'origami', 'oriru', 'orizuru', 'oroshi',
+  'osechi', 'oshibori', 'oshieru', 'oshiro', 'oshiruko', 'osoi', 'osu', 'otafuku', 'otogi', 'otoko',
+  'otosu', 'otto', 'owan', 'oya', 'oyako', 'oyatsu', 'oyogu', 'oyu', 'ozashiki', 'ozoni',
+  'pachi', 'pachinko', 'pan', 'pin', 'pon', 'ponzu', 'purin', 'raijin', 'rajio', 'raku',
+  'rakugo', 'ramen', 'ramune', 'ranma', 'rasen', 'rei', 'renga', 'renge', 'renkon', 'rikishi',
+  'rikka', 'rindo', 'ringo', 'rinjin', 'rinne', 'risu', 'roba', 'roji', 'rojin', 'roka',
+  'rokuro', 'ronin', 'rusu', 'ryokan', 'ryokucha', 'ryori', 'ryu', 'ryuhyo', 'ryuzu', 'saba',
+  'sabaku', 'sabi', 'sadaijin', 'sadame', 'sagasu', 'saifu', 'saijiki', 'saikoro', 'saisei', 'saisen',
+  'sakaba', 'sakaki', 'sakana', 'sakaya', 'sakazuki', 'sake', 'saki', 'saku', 'sakubo', 'sakubun',
+  'sakura', 'same', 'samue', 'samui', 'samurai', 'sanbashi', 'sangaku', 'sanma', 'sanshin', 'sansho',
+  'sara', 'saru', 'sarugaku', 'sasa', 'sashimi', 'sasu', 'sato', 'satoimo', 'sawa', 'sawagu',
+  'sawara', 'sayonara', 'sazae', 'seiji', 'seiza', 'sekai', 'seki', 'sekihan', 'semai', 'semi',
+  'sen', 'senbei', 'senryu', 'sensei', 'sensu', 'sento', 'seri', 'setsubun', 'shamisen', 'shamoji',
+  'shiba', 'shiitake', 'shika', 'shiki', 'shima', 'shimeru', 'shinai', 'shinju', 'shinobi', 'shio',
+  'shippo', 'shirasu', 'shiro', 'shiroi', 'shiru', 'shiso', 'shita', 'shizen', 'shizuku', 'shogatsu',
+  'shogi', 'shoji', 'shojin', 'shoku', 'shokunin', 'shomen', 'shonen', 'shoyu', 'shugi', 'shuriken',
+  'soba', 'soboro', 'sode', 'somen', 'sora', 'soroban', 'sorobu', 'sotoba', 'sudare', 'sugi',
+  'sugiita', 'sugoi', 'sugoroku', 'suika', 'suiren', 'suisen', 'suisha', 'sukima', 'sukiyaki', 'suku',
+  'sumi', 'sumo', 'sumu', 'suna', 'sunaba', 'surume', 'sushi', 'susuki', 'suwaru', 'suzu',
+  'suzume', 'suzuran', 'suzushii', 'tabako', 'taberu', 'tabi', 'tabiji', 'tadaima', 'tadashi', 'tagasode',
+  'tai', 'taifu', 'taiko', 'tairyo', 'taiyaki', 'taiyo', 'takai', 'takara', 'take', 'takenoko',
+  'tako', 'takoyaki', 'takuan', 'tama', 'tamago', 'tamaya', 'tana', 'tanabata', 'tanbo', 'tanoshii',
+  'tanpopo', 'tanuki', 'tanzaku', 'tasu', 'tatami', 'tatemono', 'tatsu', 'taue', 'tawara', 'tawashi',
+  'tayori', 'tebukuro', 'tegami', 'teien', 'tekkadon', 'tekko', 'temari', 'tempura', 'tengu', 'tenjin',
+  'tenki', 'tenmon', 'tenshi', 'tenshu', 'tenugui', 'teppan', 'tera', 'teru', 'tetsu', 'tetsubin',
+  'tobira', 'tobu', 'tochi', 'todoku', 'tofu', 'tokei', 'tokkuri', 'tokonoma', 'tomaru', 'tomo',
+  'tonbo', 'tonkatsu', 'tora', 'tori', 'toribune', 'torii', 'toro', 'toru', 'toshi', 'toyu',
+  'tsubaki', 'tsubame', 'tsubo', 'tsuchi', 'tsukau', 'tsuke', 'tsuki', 'tsukimi', 'tsukubai', 'tsukue',
+  'tsukuru', 'tsumiki', 'tsuna', 'tsurara', 'tsuru', 'tsutsumu', 'tsuyoi', 'tsuyu', 'tsuzumi', 'uchi',
+  'uchiwa', 'ude', 'udon', 'ugoku', 'uguisu', 'ukabu', 'ukeru', 'ukiyo', 'ukiyoe', 'uma',
+  'umami', 'umareru', 'umeboshi', 'umewaka', 'umi', 'umibe', 'unabara', 'unagi', 'unohana', 'uranai',
+  'urashima', 'ureshii', 'uru', 'urushi', 'usagi', 'ushi', 'usui', 'usuzumi', 'uta', 'utage',
+  'utai', 'utau', 'utsu', 'utsuwa', 'uwagi', 'uzura', 'wabi', 'wafu', 'wagashi', 'waka',
+  'wakaba', 'wakai', 'wakame', 'wakaru', 'wani', 'wanko', 'warabe', 'warabi', 'waraji', 'warau',
+  'warui', 'wasabi', 'washi', 'washoku', 'wasureru', 'watage', 'watari', 'wataru', 'wayo', 'yabusame',
+  'yado', 'yagi', 'yagura', 'yakata', 'yakiimo', 'yakitori', 'yaku', 'yakumi', 'yakumo', 'yama',
+  'yamabiko', 'yamabuki', 'yamadera', 'yamagoya', 'yamato', 'yanagi', 'yane', 'yasai', 'yasashii', 'yasui',
+  'yasumi', 'yatai', 'yoake', 'yobikake', 'yobu', 'yokan', 'yomichi', 'yomogi', 'yomu', 'yoroi',
+  'yorokobu', 'yoru', 'yosegi', 'yotsuba', 'yowai', 'yuba', 'yubi', 'yugata', 'yugure', 'yuhi',
+  'yukata', 'yuki', 'yuku', 'yume', 'yumeji', 'yumi', 'yuri', 'yurikago', 'yusuzumi', 'yuzu',
+  'zabuton', 'zaisu', 'zakuro', 'zangyo', 'zaru', 'zarusoba', 'zashiki', 'zatsuon', 'zazen', 'zen',
+  'zeni', 'zenmai', 'zenzai', 'zori', 'zuikan', 'zuiki',
+];
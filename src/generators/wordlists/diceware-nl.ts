@@ -0,0 +1,143 @@
+/**
+ * Dutch Diceware Wordlist
+ * 1296 common words, one per roll of four dice (1111-6666), 10.3 bits per
+ * word. Lowercase, 3-8 letters, sorted by code point. Accented
+ * letters are stored precomposed (NFKC).
+ *
+ * Loaded on demand via {@link loadWordlist}; do not import directly.
+ *
+ * @module generators/wordlists/diceware-nl
+ */
+
+export const DICEWARE_NL_WORDLIST: readonly string[] = [
+  'aalbes', 'aap', 'aardbei', 'aarde', 'aardig', 'abeel', 'adem', 'ader', 'adres', 'akelei',
+  'aker', 'akker', 'akte', 'alarm', 'alpaca', 'altaar', 'ambacht', 'ananas', 'anijs', 'anker',
+  'appel', 'april', 'arena', 'arend', 'arm', 'asperge', 'atlas', 'augurk', 'auto', 'avond',
+  'azijn', 'baai', 'baak', 'baal', 'baan', 'baard', 'baars', 'baby', 'bad', 'badjas',
+  'bagger', 'bak', 'baken', 'bakken', 'bakker', 'bal', 'balk', 'balkon', 'ballet', 'ballon',
+  'bamboe', 'banaan', 'band', 'bang', 'bank', 'barak', 'bark', 'bast', 'baviaan', 'bed',
+  'beek', 'been', 'beer', 'beet', 'beitel', 'beker', 'bel', 'bellen', 'bende', 'berg',
+  'berk', 'berm', 'bes', 'bestek', 'beton', 'beuk', 'beurs', 'bever', 'bezem', 'bezoek',
+  'bidden', 'bier', 'big', 'bij', 'bijbaan', 'bijbel', 'bijl', 'bijten', 'bil', 'biljart',
+  'binden', 'bitter', 'blaas', 'blad', 'blaffen', 'blank', 'blauw', 'blazen', 'bleek', 'blij',
+  'blijven', 'blik', 'bliksem', 'bloed', 'bloeden', 'bloem', 'bloes', 'blok', 'blond', 'blos',
+  'bobbel', 'bocht', 'bodem', 'boei', 'boek', 'boeket', 'boer', 'boezem', 'bok', 'bokaal',
+  'bol', 'bolder', 'bolster', 'bom', 'bonbon', 'boog', 'boom', 'boon', 'boos', 'boot',
+  'bord', 'borrel', 'borst', 'bos', 'bosbes', 'bosje', 'bot', 'boter', 'bout', 'bouwen',
+  'bouwval', 'braam', 'brand', 'breien', 'breken', 'brengen', 'brief', 'bries', 'bril', 'broek',
+  'broer', 'brok', 'bron', 'brons', 'brood', 'brug', 'bruid', 'bruin', 'buffel', 'bui',
+  'buidel', 'buigen', 'buik', 'buis', 'buks', 'bult', 'bundel', 'burcht', 'bus', 'buur',
+  'cabine', 'cactus', 'cadeau', 'camping', 'canvas', 'cel', 'cello', 'cement', 'chalet', 'cijfer',
+  'cipres', 'circus', 'citer', 'citroen', 'cobra', 'compas', 'dadel', 'dag', 'dak', 'dal',
+  'dalmaat', 'dam', 'damhert', 'dans', 'dansen', 'danser', 'dapper', 'das', 'deeg', 'deel',
+  'deken', 'deksel', 'delen', 'delta', 'denken', 'dennen', 'depot', 'deuk', 'deur', 'diamant',
+  'dief', 'diep', 'dier', 'dijk', 'dik', 'dikte', 'ding', 'dochter', 'dok', 'dol',
+  'dolfijn', 'dolk', 'dom', 'donder', 'donker', 'dooier', 'doorn', 'doos', 'dop', 'dorp',
+  'dos', 'douche', 'draad', 'draak', 'dragen', 'drank', 'dreef', 'drinken', 'dromen', 'droog',
+  'drop', 'druppel', 'duif', 'duiken', 'duiker', 'duim', 'duin', 'duivel', 'dun', 'duur',
+  'duwen', 'dweil', 'echo', 'edel', 'eend', 'eerlijk', 'egel', 'eik', 'eiland', 'eind',
+  'eiwit', 'ekster', 'eland', 'elf', 'elleboog', 'emaille', 'emmer', 'eng', 'engel', 'enkel',
+  'erf', 'erwt', 'eten', 'evenaar', 'ezel', 'faam', 'fabel', 'fakkel', 'fazant', 'feest',
+  'fel', 'fiets', 'fietsen', 'fijn', 'fiool', 'fit', 'flamingo', 'flap', 'flat', 'fles',
+  'flink', 'fluit', 'fluiten', 'fluweel', 'foelie', 'fok', 'fontein', 'forel', 'fort', 'fossiel',
+  'foto', 'fregat', 'fris', 'fruit', 'fuik', 'fust', 'gaaf', 'gaan', 'galg', 'galop',
+  'gang', 'gans', 'garage', 'garen', 'gat', 'gebak', 'gebed', 'geduld', 'geel', 'gehucht',
+  'geit', 'gek', 'geld', 'gelei', 'gember', 'gerbera', 'gerst', 'gesp', 'geur', 'gevel',
+  'geven', 'gids', 'gier', 'gieten', 'gips', 'gitaar', 'glad', 'glas', 'glijden', 'glimlach',
+  'gloed', 'god', 'goed', 'gong', 'gordijn', 'goud', 'graag', 'graan', 'graat', 'gracht',
+  'graf', 'granaat', 'gras', 'graven', 'griffel', 'grijpen', 'grijs', 'grind', 'groeien', 'groen',
+  'groente', 'groot', 'grot', 'gruis', 'gul', 'gulden', 'haag', 'haai', 'haan', 'haar',
+  'hagedis', 'hagel', 'hak', 'hakken', 'hal', 'halm', 'hals', 'hamer', 'hamster', 'hand',
+  'handdoek', 'hangen', 'hangmat', 'hard', 'haring', 'harp', 'hart', 'haspel', 'haven', 'haver',
+  'hazelaar', 'heel', 'heester', 'heet', 'heg', 'heide', 'hek', 'heks', 'hel', 'helder',
+  'helm', 'helpen', 'hemd', 'hemel', 'hengel', 'hengst', 'herberg', 'hert', 'heuvel', 'hoed',
+  'hoef', 'hoek', 'hoepel', 'hof', 'hok', 'hol', 'hommel', 'hond', 'honing', 'hoofd',
+  'hoog', 'hooi', 'hoorn', 'hoos', 'horen', 'horloge', 'houden', 'hout', 'huilen', 'huis',
+  'hulst', 'humor', 'hut', 'hutspot', 'icoon', 'idee', 'iglo', 'ijs', 'inkt', 'iris',
+  'jaar', 'jacht', 'jagen', 'jager', 'jaguar', 'jas', 'jasmijn', 'jeugd', 'jojo', 'jong',
+  'jongen', 'jurk', 'jus', 'juweel', 'kaak', 'kaal', 'kaap', 'kaars', 'kaart', 'kaas',
+  'kabel', 'kabouter', 'kachel', 'kade', 'kajuit', 'kalender', 'kalf', 'kalk', 'kalm', 'kam',
+  'kameel', 'kamer', 'kammen', 'kampvuur', 'kanaal', 'kaneel', 'kano', 'kantoor', 'kap', 'kapel',
+  'kapitein', 'kar', 'karper', 'karton', 'kast', 'kasteel', 'kat', 'kaviaar', 'keel', 'kegel',
+  'kelder', 'kerel', 'kerf', 'kerk', 'kers', 'ketel', 'ketting', 'keuken', 'kever', 'kier',
+  'kiezel', 'kijken', 'kikker', 'kikvors', 'kin', 'kind', 'kiosk', 'kip', 'kist', 'klant',
+  'klaproos', 'klas', 'klauw', 'klaver', 'klavier', 'klei', 'klein', 'klepel', 'kleur', 'klif',
+  'klimmen', 'klok', 'klokhuis', 'klomp', 'kloppen', 'kluis', 'knal', 'knap', 'knie', 'knikker',
+  'knol', 'knoop', 'koe', 'koek', 'koekoek', 'koel', 'koepel', 'koerier', 'koffer', 'koffie',
+  'kogel', 'kok', 'koken', 'kolibrie', 'kolk', 'kolom', 'kom', 'komeet', 'komen', 'kompas',
+  'konijn', 'koning', 'kooi', 'kool', 'koor', 'koord', 'kop', 'kopen', 'koper', 'kopje',
+  'korf', 'korrel', 'kors', 'kort', 'kost', 'koster', 'kou', 'koud', 'kozijn', 'kraag',
+  'kraai', 'kraam', 'kraan', 'kralen', 'kramp', 'krant', 'kreeft', 'kreek', 'krekel', 'krijgen',
+  'kring', 'kroeg', 'kroket', 'krom', 'kroon', 'kruid', 'kruik', 'kruimel', 'kruipen', 'kruis',
+  'kudde', 'kuiken', 'kuil', 'kuip', 'kunst', 'kus', 'kussen', 'kust', 'kwaad', 'kwal',
+  'kwast', 'laag', 'laars', 'laat', 'lachen', 'ladder', 'laden', 'lagune', 'lakens', 'lam',
+  'lamp', 'lancet', 'land', 'lang', 'langzaam', 'lantaarn', 'las', 'lasso', 'lat', 'laurier',
+  'lauw', 'lava', 'lavendel', 'leder', 'leeg', 'leem', 'leeuw', 'leguaan', 'lelie', 'lemmet',
+  'lenen', 'lente', 'lepel', 'leren', 'les', 'letter', 'leuk', 'leuning', 'lezen', 'libel',
+  'lichaam', 'licht', 'lied', 'lief', 'liegen', 'liggen', 'lijmen', 'lijn', 'lijster', 'limoen',
+  'linde', 'liniaal', 'lint', 'lip', 'loep', 'lood', 'loods', 'lopen', 'los', 'lotus',
+  'lucht', 'luchter', 'lucifer', 'luid', 'luik', 'luipaard', 'lupine', 'lus', 'maag', 'maaien',
+  'maaltijd', 'maan', 'maart', 'mager', 'magneet', 'mais', 'mak', 'maken', 'mals', 'mammoet',
+  'mand', 'manege', 'mango', 'mantel', 'map', 'markt', 'marmer', 'marmot', 'marter', 'mascotte',
+  'mast', 'mat', 'matras', 'matroos', 'medaille', 'meel', 'meer', 'mees', 'meeuw', 'meid',
+  'melk', 'melken', 'meloen', 'merel', 'mes', 'mest', 'metaal', 'meten', 'meteoor', 'mier',
+  'mijn', 'mijter', 'mild', 'mimosa', 'mineraal', 'minuut', 'mist', 'modder', 'moe', 'moeder',
+  'moeras', 'mol', 'molen', 'molshoop', 'mond', 'monnik', 'mooi', 'mortier', 'mos', 'mossel',
+  'mosterd', 'motor', 'mozaiek', 'mozaïek', 'muis', 'munt', 'mus', 'museum', 'muts', 'muur',
+  'muziek', 'naald', 'naam', 'nacht', 'nagel', 'narcis', 'nat', 'neef', 'nemen', 'nerts',
+  'nest', 'net', 'netjes', 'neus', 'nevel', 'nicht', 'nieuw', 'nieuws', 'niezen', 'nijptang',
+  'noord', 'noot', 'nota', 'nuttig', 'oase', 'oceaan', 'oester', 'oever', 'oktober', 'olie',
+  'olifant', 'olijf', 'oma', 'omelet', 'onweer', 'oog', 'oom', 'oor', 'oost', 'opa',
+  'opaal', 'openen', 'orgel', 'orka', 'orkaan', 'otter', 'oud', 'oven', 'paal', 'paars',
+  'pad', 'pagode', 'pakhuis', 'pakken', 'pakket', 'paleis', 'palet', 'palm', 'pan', 'panfluit',
+  'panter', 'pantser', 'pap', 'papegaai', 'papier', 'paprika', 'parasol', 'parel', 'park', 'parkiet',
+  'pasta', 'pastei', 'patrijs', 'pauw', 'peddel', 'peen', 'peer', 'pekel', 'pelikaan', 'pen',
+  'penseel', 'peper', 'perk', 'perzik', 'pet', 'piano', 'pier', 'pijl', 'pijp', 'pil',
+  'pinguin', 'piraat', 'piramide', 'pistool', 'pizza', 'plaat', 'plafond', 'plakken', 'plank', 'plant',
+  'planten', 'plas', 'plat', 'plein', 'plooi', 'pluim', 'plukken', 'poedel', 'poes', 'poetsen',
+  'polder', 'pols', 'pomp', 'pompoen', 'pond', 'pony', 'poolster', 'poort', 'pop', 'portier',
+  'post', 'pot', 'potlood', 'pracht', 'praten', 'prei', 'prent', 'prik', 'prins', 'prisma',
+  'prooi', 'pruim', 'pudding', 'put', 'puzzel', 'pyjama', 'quiche', 'raadsel', 'raaf', 'raam',
+  'raar', 'rad', 'radijs', 'raket', 'rand', 'rank', 'raster', 'rat', 'recht', 'reep',
+  'regel', 'regen', 'reiger', 'reis', 'rekenen', 'rennen', 'reuk', 'reus', 'rib', 'riem',
+  'riet', 'rijden', 'rijk', 'rijm', 'rijp', 'rijst', 'rimpel', 'ring', 'rivier', 'rob',
+  'robijn', 'roeiboot', 'roepen', 'roer', 'roeren', 'rog', 'rok', 'rol', 'roman', 'rond',
+  'rood', 'room', 'roos', 'rooster', 'rots', 'rozijn', 'rug', 'ruiken', 'ruimte', 'ruit',
+  'ruiter', 'rups', 'rusten', 'rustig', 'ruw', 'saffier', 'salade', 'salie', 'sandaal', 'sap',
+  'sauna', 'schaap', 'schaar', 'schaats', 'schaduw', 'schat', 'schelp', 'schelvis', 'schep', 'scheren',
+  'scherp', 'schieten', 'schilder', 'schip', 'schoen', 'schommel', 'school', 'schoon', 'schoot', 'schoppen',
+  'schors', 'schotel', 'schouw', 'schroef', 'schuif', 'schuim', 'schuin', 'schuit', 'schutter', 'schuur',
+  'sfinx', 'sier', 'sik', 'sjaal', 'sjerp', 'sla', 'slaan', 'slaapzak', 'slager', 'slak',
+  'slang', 'slank', 'slap', 'slapen', 'slee', 'sleutel', 'slim', 'slinger', 'sloep', 'slof',
+  'slot', 'sluis', 'sluiten', 'smal', 'smaragd', 'smelten', 'smid', 'smoes', 'snavel', 'sneeuw',
+  'snel', 'snijden', 'snoek', 'snoep', 'snor', 'soep', 'sok', 'soldaat', 'sonnet', 'spaan',
+  'spade', 'spar', 'specht', 'speer', 'spelen', 'spiegel', 'spijker', 'spin', 'spons', 'spoor',
+  'sport', 'spreeuw', 'springen', 'staan', 'stad', 'stal', 'stamper', 'steen', 'steiger', 'stelen',
+  'stempel', 'ster', 'sterk', 'sterven', 'stier', 'stijf', 'stil', 'stoel', 'stoep', 'stoer',
+  'stok', 'stom', 'stomp', 'storm', 'stout', 'straat', 'strak', 'strand', 'strijken', 'strik',
+  'stro', 'struik', 'studio', 'stuk', 'suiker', 'taai', 'taart', 'tabak', 'tabel', 'tafel',
+  'tak', 'tamboer', 'tand', 'tang', 'tante', 'tapas', 'tapijt', 'tarwe', 'tas', 'taxi',
+  'teen', 'teer', 'tegel', 'tegen', 'teken', 'tekenen', 'tellen', 'tempel', 'tennis', 'tent',
+  'terp', 'test', 'thee', 'ticket', 'tijd', 'tijger', 'tijm', 'tin', 'tinnen', 'toast',
+  'toekan', 'toeter', 'tol', 'tomaat', 'ton', 'tor', 'toren', 'tornado', 'totem', 'touw',
+  'tractor', 'tram', 'trap', 'trechter', 'trein', 'trekken', 'trommel', 'trompet', 'troon', 'tros',
+  'trots', 'trouw', 'trui', 'tuba', 'tuin', 'tulband', 'tulp', 'turf', 'turnen', 'uier',
+  'uil', 'uitzicht', 'urn', 'uur', 'vaag', 'vaart', 'vaas', 'vader', 'vakantie', 'val',
+  'valk', 'vallei', 'vallen', 'vals', 'vanille', 'varen', 'varken', 'vat', 'vechten', 'veel',
+  'veen', 'veer', 'veerboot', 'vegen', 'veger', 'vel', 'veld', 'velg', 'venster', 'ver',
+  'verf', 'vers', 'verven', 'vest', 'vet', 'veulen', 'vief', 'vijand', 'vijg', 'vijl',
+  'vijver', 'villa', 'vinden', 'vinger', 'vink', 'viool', 'vis', 'vissen', 'vlag', 'vlak',
+  'vlam', 'vlas', 'vlieg', 'vliegen', 'vlieger', 'vlinder', 'vlo', 'vloer', 'vloot', 'vlot',
+  'vlug', 'vogel', 'vol', 'volgen', 'vork', 'vos', 'vragen', 'vrij', 'vroeg', 'vrolijk',
+  'vrucht', 'vuil', 'vulkaan', 'vuur', 'waag', 'wachten', 'wafel', 'wagen', 'wal', 'walnoot',
+  'walvis', 'wand', 'wang', 'want', 'wapen', 'warm', 'warmte', 'wassen', 'water', 'waterval',
+  'week', 'weg', 'wegen', 'wei', 'wekker', 'wereld', 'werken', 'werpen', 'wesp', 'west',
+  'weven', 'wiebel', 'wieg', 'wiel', 'wijd', 'wijs', 'wild', 'wilg', 'wimpel', 'wind',
+  'winkel', 'winter', 'wip', 'wit', 'woest', 'wol', 'wolf', 'wolk', 'wolkje', 'wonen',
+  'woord', 'worm', 'wortel', 'woud', 'wuiven', 'zaad', 'zaaien', 'zacht', 'zadel', 'zagen',
+  'zak', 'zalf', 'zalm', 'zand', 'zebra', 'zee', 'zeef', 'zeehond', 'zeep', 'zeester',
+  'zegel', 'zegen', 'zeggen', 'zeil', 'zeis', 'zeker', 'zetten', 'zicht', 'zien', 'zijde',
+  'zilt', 'zilver', 'zingen', 'zitten', 'zoeken', 'zoet', 'zolder', 'zomer', 'zomp', 'zon',
+  'zool', 'zout', 'zuil', 'zus', 'zuur', 'zwaan', 'zwaar', 'zwaard', 'zwak', 'zwaluw',
+  'zwam', 'zwart', 'zwemmen', 'zwerm', 'zwerver', 'zweten',
+];
@@ -0,0 +1,143 @@
+/**
+ * Portuguese Diceware Wordlist
+ * 1296 common words, one per roll of four dice (1111-6666), 10.3 bits per
+ * word. Lowercase, 3-8 letters, sorted by code point. Accented
+ * letters are stored precomposed (NFKC).
+ *
+ * Loaded on demand via {@link loadWordlist}; do not import directly.
+ *
+ * @module generators/wordlists/diceware-pt
+ */
+
+export const DICEWARE_PT_WORDLIST: readonly string[] = [
+  'abacate', 'abacaxi', 'abade', 'abano', 'abelha', 'abismo', 'abraço', 'abrigo', 'abril', 'abrir',
+  'abóbora', 'acabar', 'acampar', 'acender', 'aceno', 'acerola', 'achar', 'acácia', 'adaga', 'adega',
+  'adubo', 'afago', 'agenda', 'agosto', 'agrião', 'agulha', 'aipim', 'ajudar', 'alcatra', 'aldeia',
+  'alecrim', 'alegre', 'alface', 'alga', 'algodão', 'alho', 'alicate', 'alma', 'almoço', 'alpaca',
+  'alpiste', 'altar', 'alto', 'alvo', 'amar', 'amargo', 'ameba', 'ameixa', 'amigo', 'amizade',
+  'amor', 'amora', 'amêndoa', 'ananás', 'andaime', 'andar', 'anel', 'angu', 'animal', 'anjo',
+  'ano', 'anta', 'antena', 'antigo', 'anzol', 'anão', 'apagar', 'apito', 'aquário', 'arado',
+  'arame', 'aranha', 'arara', 'araçá', 'arco', 'ardósia', 'areia', 'arena', 'argila', 'arma',
+  'armário', 'aroma', 'arpão', 'arraia', 'arraial', 'arreio', 'arroz', 'arte', 'asa', 'asfalto',
+  'assento', 'assobio', 'astro', 'atalho', 'atirar', 'atlas', 'atum', 'aula', 'aurora', 'autor',
+  'avelã', 'avenida', 'avental', 'avião', 'avó', 'avô', 'azedo', 'azeite', 'azul', 'azulejo',
+  'açafrão', 'açude', 'açúcar', 'bacia', 'badejo', 'baga', 'bagagem', 'bagre', 'bailar', 'baile',
+  'bainha', 'bairro', 'baixela', 'baixo', 'bala', 'baladas', 'balança', 'balcão', 'balde', 'baldio',
+  'baleia', 'bambu', 'banana', 'banco', 'banda', 'banho', 'banjo', 'baralho', 'barata', 'barba',
+  'barca', 'barco', 'barraca', 'barriga', 'barril', 'barro', 'barulho', 'base', 'bastão', 'batata',
+  'batom', 'batuque', 'bazar', 'baía', 'baú', 'beber', 'bebida', 'beco', 'beija', 'beijo',
+  'belo', 'bengala', 'berço', 'besouro', 'bexiga', 'bezerro', 'bicho', 'bico', 'bife', 'bigode',
+  'bigorna', 'bilhete', 'bilro', 'biombo', 'boato', 'boca', 'bocado', 'bodoque', 'boia', 'boiada',
+  'bola', 'bolacha', 'bolha', 'bolo', 'bolsa', 'bolso', 'bom', 'bombom', 'bondade', 'boneca',
+  'boné', 'borda', 'bosque', 'bota', 'botão', 'branco', 'brasa', 'bravo', 'braço', 'brejo',
+  'breve', 'brincar', 'brinco', 'brisa', 'broche', 'bronze', 'broto', 'bruxa', 'bucho', 'bule',
+  'buquê', 'buraco', 'burro', 'buscar', 'bálsamo', 'bétula', 'búfalo', 'búzio', 'cabana', 'cabaça',
+  'cabelo', 'cabeça', 'cabide', 'cabra', 'cacau', 'cacimba', 'cacto', 'cadeado', 'cadeira', 'caderno',
+  'café', 'caiaque', 'cair', 'caixa', 'cajado', 'caju', 'calango', 'calar', 'caldo', 'calmo',
+  'calor', 'calça', 'calçada', 'cama', 'camada', 'camarão', 'camelo', 'caminho', 'camisa', 'campo',
+  'camurça', 'cana', 'canal', 'candeia', 'caneca', 'caneco', 'canela', 'caneta', 'canga', 'cangurú',
+  'canhão', 'canjica', 'canoa', 'cantar', 'canto', 'canudo', 'canário', 'capa', 'capela', 'capim',
+  'capuz', 'caracol', 'carne', 'caro', 'caroço', 'carpa', 'carreta', 'carro', 'carroça', 'carta',
+  'cartola', 'carvão', 'casa', 'casaco', 'casar', 'casca', 'cascata', 'casebre', 'castelo', 'cata',
+  'cauda', 'cavaco', 'cavalo', 'cavar', 'caverna', 'caxumba', 'cebola', 'cedro', 'cegonha', 'celeiro',
+  'celeste', 'cenoura', 'cenário', 'cera', 'cerca', 'cereal', 'cereja', 'cerrado', 'certo', 'cerveja',
+  'cesta', 'cetim', 'chamar', 'chaminé', 'chapéu', 'charuto', 'chave', 'chegar', 'chicote', 'chifre',
+  'chinelo', 'chorar', 'chover', 'chuchu', 'chupeta', 'chuva', 'chá', 'ciclone', 'cidade', 'cigarra',
+  'cilada', 'cimento', 'cinema', 'cinto', 'cipó', 'circo', 'cisco', 'cisne', 'citrino', 'clarim',
+  'claro', 'cobra', 'cocar', 'coco', 'coelho', 'cofre', 'coifa', 'colar', 'coleira', 'colete',
+  'colher', 'colina', 'colmeia', 'coluna', 'comer', 'cometa', 'comprar', 'concha', 'contar', 'copo',
+  'coração', 'corda', 'cordel', 'corneta', 'coroa', 'corpo', 'correr', 'corrida', 'cortar', 'cortiça',
+  'coruja', 'coser', 'costa', 'couro', 'couve', 'coxa', 'coxilha', 'cratera', 'cravo', 'crescer',
+  'crina', 'crista', 'cristal', 'cruz', 'cubo', 'cuco', 'cuia', 'cume', 'cunha', 'curto',
+  'cuíca', 'cálice', 'céu', 'cúpula', 'dado', 'damasco', 'dançar', 'dar', 'debate', 'dedal',
+  'dedo', 'degrau', 'deitar', 'delfim', 'delta', 'dente', 'desafio', 'desenho', 'deserto', 'dia',
+  'diadema', 'dialeto', 'dique', 'disco', 'divã', 'dizer', 'diário', 'dobra', 'doce', 'domingo',
+  'dominó', 'doninha', 'dono', 'dormida', 'dormir', 'dorso', 'dourado', 'dragona', 'dragão', 'duna',
+  'duro', 'eclipse', 'eco', 'elo', 'emblema', 'empada', 'encosta', 'enfeite', 'engenho', 'enseada',
+  'entalhe', 'entrar', 'enxada', 'enxame', 'escada', 'escama', 'escola', 'escova', 'escudo', 'escuro',
+  'espada', 'espelho', 'esperar', 'esperto', 'espiga', 'espinho', 'esponja', 'esquilo', 'esquina', 'estaca',
+  'esteira', 'estojo', 'estopa', 'estrada', 'estrela', 'estribo', 'estudar', 'estátua', 'faca', 'fagote',
+  'faixa', 'falar', 'falcão', 'família', 'farinha', 'farofa', 'farol', 'farpa', 'fatia', 'fauna',
+  'fava', 'favo', 'fazenda', 'fazer', 'faísca', 'febre', 'fechar', 'feijão', 'feio', 'feira',
+  'feitiço', 'feliz', 'feltro', 'fenda', 'feno', 'ferida', 'ferro', 'festa', 'fiapo', 'ficar',
+  'fiel', 'figo', 'fila', 'filho', 'fino', 'firme', 'fita', 'fivela', 'flanela', 'flauta',
+  'flecha', 'flor', 'foca', 'focinho', 'fogo', 'foguete', 'fogão', 'folha', 'fonte', 'forca',
+  'forja', 'formiga', 'forno', 'forte', 'fralda', 'franja', 'fraque', 'freio', 'fresco', 'frio',
+  'fronha', 'fruta', 'fubá', 'fugir', 'fuligem', 'fumo', 'funil', 'furacão', 'fuso', 'fácil',
+  'fênix', 'fósforo', 'fôlego', 'gado', 'gaiola', 'gaita', 'gaivota', 'galho', 'galinha', 'galo',
+  'galpão', 'galáxia', 'gamela', 'ganhar', 'ganso', 'garfo', 'garoa', 'garoto', 'garrafa', 'garça',
+  'gato', 'gaveta', 'gavião', 'gazela', 'geada', 'geleia', 'gelo', 'gema', 'gengiva', 'gente',
+  'gesso', 'gibão', 'gincana', 'girafa', 'giz', 'globo', 'gnomo', 'goiaba', 'gola', 'golfo',
+  'gongo', 'gordo', 'gorila', 'gorjeta', 'gorro', 'gota', 'grade', 'grama', 'grande', 'granito',
+  'grato', 'gravata', 'graveto', 'graxa', 'grelha', 'grilo', 'gritar', 'grosso', 'gruta', 'grão',
+  'guache', 'guaraná', 'guarda', 'guardar', 'guarita', 'guizo', 'hamster', 'harpa', 'haste', 'hera',
+  'herói', 'hiena', 'hino', 'hora', 'horta', 'hortelã', 'hotel', 'hélice', 'hóspede', 'iate',
+  'iglu', 'igreja', 'ilha', 'imbuia', 'incenso', 'inhame', 'inseto', 'inverno', 'ioiô', 'ipê',
+  'irmão', 'jabuti', 'jaca', 'jacaré', 'jaguar', 'jamelão', 'janela', 'jangada', 'jantar', 'jaqueta',
+  'jardim', 'jarra', 'jarro', 'jasmim', 'jato', 'javali', 'jeca', 'jegue', 'jerimum', 'jiboia',
+  'jirau', 'joelho', 'jogar', 'jogo', 'jongo', 'jornal', 'jovem', 'jujuba', 'julho', 'jumento',
+  'junho', 'justo', 'jóia', 'lacre', 'ladeira', 'lagarto', 'lago', 'lagoa', 'lagosta', 'lama',
+  'lancha', 'lança', 'lapela', 'laranja', 'lareira', 'largo', 'lastro', 'lata', 'latão', 'lavanda',
+  'lavar', 'lavoura', 'laço', 'lebre', 'legume', 'leilão', 'leite', 'leitão', 'leme', 'lenha',
+  'lento', 'lenço', 'leque', 'ler', 'lesma', 'letra', 'levar', 'leve', 'leão', 'licor',
+  'lima', 'limo', 'limpar', 'limpo', 'limão', 'lince', 'linha', 'lintel', 'liso', 'livre',
+  'livro', 'lixa', 'lobo', 'loja', 'lomba', 'lombo', 'longo', 'lontra', 'losango', 'louco',
+  'louro', 'lousa', 'lua', 'lume', 'lupa', 'lustre', 'lutar', 'luva', 'luz', 'lágrima',
+  'lápis', 'lâmpada', 'lírio', 'lótus', 'macaco', 'machado', 'machete', 'macio', 'madeira', 'maestro',
+  'magro', 'maio', 'mala', 'malha', 'malva', 'mamute', 'mamão', 'mandar', 'maneco', 'manga',
+  'manhã', 'manso', 'manta', 'mantra', 'mapa', 'mar', 'maracá', 'marfim', 'margem', 'marido',
+  'marmita', 'marreco', 'martelo', 'março', 'maré', 'mastro', 'mata', 'matraca', 'maçaneta', 'maçã',
+  'medalha', 'medir', 'medusa', 'meia', 'mel', 'melado', 'melancia', 'melaço', 'melão', 'mendigo',
+  'menino', 'mentir', 'mercado', 'mergulho', 'mesa', 'mesquita', 'mexilhão', 'milagre', 'milho', 'mimo',
+  'mina', 'mingau', 'miolo', 'mirante', 'mirtilo', 'miçanga', 'mochila', 'moeda', 'moinho', 'moldura',
+  'mole', 'molhado', 'montanha', 'moqueca', 'morango', 'morcego', 'morder', 'morno', 'morro', 'mosaico',
+  'mosca', 'mosquito', 'mostarda', 'mostrar', 'moto', 'mudar', 'mudo', 'mula', 'muro', 'mutirão',
+  'mármore', 'máscara', 'mãe', 'mão', 'mês', 'música', 'nabo', 'nadar', 'nariz', 'nascer',
+  'nata', 'navalha', 'navio', 'neblina', 'negro', 'nenê', 'neve', 'nevoeiro', 'nicho', 'ninfa',
+  'ninho', 'nobre', 'nogueira', 'noite', 'nome', 'norte', 'novelo', 'novo', 'noz', 'nuvem',
+  'níquel', 'núcleo', 'obelisco', 'oca', 'oceano', 'oficina', 'olaria', 'oleiro', 'olhar', 'olho',
+  'oliveira', 'ombro', 'onda', 'onça', 'orelha', 'orquídea', 'orvalho', 'osso', 'ostra', 'ouriço',
+  'ouro', 'outono', 'ouvido', 'ouvir', 'ovelha', 'ovo', 'oásis', 'paca', 'padre', 'pagar',
+  'pai', 'paina', 'painel', 'paiol', 'pajé', 'palavra', 'palco', 'palha', 'palito', 'palmeira',
+  'palmito', 'pamonha', 'pandeiro', 'panela', 'pantera', 'papagaio', 'papel', 'papoula', 'paquera', 'parafuso',
+  'parar', 'parede', 'parque', 'parreira', 'partir', 'passar', 'pasta', 'pastel', 'pata', 'pato',
+  'pavio', 'pavão', 'paçoca', 'pecado', 'pedal', 'pedir', 'pedra', 'pegar', 'peito', 'peixe',
+  'pelica', 'pena', 'penca', 'peneira', 'pensar', 'pente', 'pepino', 'pequeno', 'pequi', 'pera',
+  'perder', 'perna', 'pernil', 'peru', 'pesado', 'pesca', 'pescar', 'pestana', 'piaba', 'piano',
+  'pica', 'picolé', 'pilha', 'pilão', 'pimenta', 'pimentão', 'pincel', 'pinga', 'pingo', 'pinheiro',
+  'pinhão', 'pintar', 'pinça', 'pipa', 'pipoca', 'piquete', 'pirata', 'pires', 'pirão', 'piscina',
+  'piso', 'pitanga', 'pião', 'planeta', 'planta', 'plantar', 'pluma', 'pobre', 'poder', 'poeira',
+  'poltrona', 'polvo', 'pomada', 'pomar', 'pombo', 'ponte', 'porco', 'pororoca', 'porta', 'porão',
+  'potro', 'potássio', 'poço', 'praia', 'prancha', 'prata', 'prato', 'praça', 'prego', 'presente',
+  'preto', 'primo', 'pronto', 'prumo', 'pudim', 'pulga', 'pulmão', 'pulseira', 'pulso', 'pupila',
+  'puro', 'puxar', 'puçá', 'pálido', 'pássaro', 'pátio', 'pão', 'pérola', 'pétala', 'pêssego',
+  'pôr', 'quadro', 'quati', 'queijo', 'queixo', 'quente', 'querer', 'quiabo', 'quindim', 'quintal',
+  'quiosque', 'rabanete', 'rabo', 'radar', 'raia', 'raio', 'raiz', 'ramo', 'rapadura', 'raposa',
+  'raquete', 'raro', 'rastro', 'rato', 'ratoeira', 'rebanho', 'recado', 'recife', 'rede', 'refúgio',
+  'rei', 'relógio', 'remo', 'remédio', 'renda', 'rendeira', 'retalho', 'reto', 'retrato', 'rezar',
+  'riacho', 'ribeira', 'rico', 'rifle', 'rio', 'rir', 'rocha', 'roda', 'rodeio', 'rolha',
+  'rolo', 'romã', 'rosa', 'roseira', 'rosário', 'roupa', 'roxo', 'rua', 'rubi', 'ruína',
+  'rápido', 'régua', 'saber', 'sabiá', 'sabugo', 'sabão', 'saci', 'saco', 'sacola', 'sagui',
+  'saia', 'sair', 'sal', 'sala', 'salada', 'salgado', 'salmão', 'salsicha', 'saltar', 'samba',
+  'sandália', 'sanfona', 'sapato', 'sapo', 'saracura', 'sarau', 'sardinha', 'sarjeta', 'saudade', 'secar',
+  'seco', 'seguir', 'seiva', 'selo', 'selva', 'semente', 'sentar', 'sentir', 'sereia', 'sereno',
+  'seresta', 'seringa', 'serra', 'servir', 'seta', 'simples', 'sino', 'siri', 'sobrado', 'sobrinho',
+  'sofá', 'soja', 'sol', 'solar', 'soldado', 'sombra', 'sonhar', 'sopa', 'sorriso', 'sorvete',
+  'suave', 'subir', 'sucuri', 'sujo', 'surdo', 'sussurro', 'sábio', 'sério', 'sótão', 'taba',
+  'tacho', 'taco', 'taipa', 'talher', 'tamanco', 'tamanduá', 'tambor', 'tampa', 'tanque', 'tapete',
+  'tapioca', 'tarde', 'tarrafa', 'tatu', 'tatuagem', 'taça', 'tear', 'teatro', 'tecido', 'teclado',
+  'teia', 'tela', 'telha', 'telhado', 'tempero', 'tempo', 'tenda', 'tenro', 'termo', 'terno',
+  'terra', 'tesoura', 'tesouro', 'tigela', 'tigre', 'tijela', 'tijolo', 'timão', 'tinta', 'tinteiro',
+  'tio', 'tiririca', 'toada', 'toalha', 'toca', 'tocar', 'toldo', 'tomar', 'tomate', 'tomilho',
+  'tonel', 'topázio', 'tora', 'tornado', 'torrada', 'torre', 'toucinho', 'touro', 'tralha', 'trança',
+  'trazer', 'traíra', 'trem', 'trevo', 'trigo', 'trilha', 'triste', 'trombeta', 'trompa', 'tronco',
+  'trono', 'trovão', 'trufa', 'tubarão', 'tubo', 'tucano', 'tulipa', 'tutu', 'túnel', 'uirapuru',
+  'umbigo', 'umbu', 'unha', 'urso', 'urubu', 'usar', 'usina', 'uva', 'vaca', 'vagalume',
+  'vagão', 'vale', 'vapor', 'vaqueiro', 'vara', 'varal', 'varanda', 'vareta', 'vaso', 'vassoura',
+  'veado', 'vela', 'veleiro', 'velho', 'veludo', 'velório', 'vender', 'vento', 'ver', 'verde',
+  'verruga', 'verão', 'vespa', 'vestido', 'vestir', 'viajar', 'vidro', 'vila', 'vinagre', 'vinho',
+  'viola', 'violão', 'virola', 'visgo', 'vitral', 'viveiro', 'viver', 'vivo', 'voar', 'voltar',
+  'voz', 'vulcão', 'xadrez', 'xale', 'xará', 'xerife', 'xodó', 'xícara', 'zabumba', 'zagueiro',
+  'zebra', 'zinco', 'zumbido', 'água', 'águia', 'árvore', 'âmbar', 'âncora', 'ébano', 'égua',
+  'ídolo', 'ímã', 'índio', 'ópera', 'úmido', 'único',
+];
@@ -0,0 +1,145 @@
+/**
+ * EFF Short Wordlist #2
+ * 1296 longer, more memorable words, one per roll of four dice
+ * (1111-6666), 10.3 bits per word. Every word has a unique three-letter
+ * prefix, so words can be autocompleted and typos are easy to correct.
+ *
+ * Source: Electronic Frontier Foundation, "Deep Dive: EFF's New Wordlists
+ * for Random Passphrases" (2016), CC BY 3.0 US.
+ * Loaded on demand via {@link loadWordlist}; do not import directly.
+ *
+ * @module generators/wordlists/eff-short-2
+ */
+
+export const EFF_SHORT_WORDLIST_2: readonly string[] = [
+  'aardvark', 'abandoned', 'abbreviate', 'abdomen', 'abhorrence', 'abiding', 'abnormal', 'abrasion', 'absorbing', 'abundant',
+  'abyss', 'academy', 'accountant', 'acetone', 'achiness', 'acid', 'acoustics', 'acquire', 'acrobat', 'actress',
+  'acuteness', 'aerosol', 'aesthetic', 'affidavit', 'afloat', 'afraid', 'aftershave', 'again', 'agency', 'aggressor',
+  'aghast', 'agitate', 'agnostic', 'agonizing', 'agreeing', 'aidless', 'aimlessly', 'ajar', 'alarmclock', 'albatross',
+  'alchemy', 'alfalfa', 'algae', 'aliens', 'alkaline', 'almanac', 'alongside', 'alphabet', 'already', 'also',
+  'altitude', 'aluminum', 'always', 'amazingly', 'ambulance', 'amendment', 'amiable', 'ammunition', 'amnesty', 'amoeba',
+  'amplifier', 'amuser', 'anagram', 'anchor', 'android', 'anesthesia', 'angelfish', 'animal', 'anklet', 'announcer',
+  'anonymous', 'answer', 'antelope', 'anxiety', 'anyplace', 'aorta', 'apartment', 'apnea', 'apostrophe', 'apple',
+  'apricot', 'aquamarine', 'arachnid', 'arbitrate', 'ardently', 'arena', 'argument', 'aristocrat', 'armchair', 'aromatic',
+  'arrowhead', 'arsonist', 'artichoke', 'asbestos', 'ascend', 'aseptic', 'ashamed', 'asinine', 'asleep', 'asocial',
+  'asparagus', 'astronaut', 'asymmetric', 'atlas', 'atmosphere', 'atom', 'atrocious', 'attic', 'audience', 'autopilot',
+  'avalanche', 'avenue', 'aviation', 'avocado', 'awareness', 'awkward', 'axis', 'azalea', 'babbling', 'backpack',
+  'bagpipe', 'bakery', 'balancing', 'bamboo', 'banana', 'barracuda', 'basket', 'bathrobe', 'bazooka', 'blade',
+  'blender', 'blimp', 'blouse', 'blurred', 'boatyard', 'bobcat', 'body', 'bogusness', 'bohemian', 'boiler',
+  'bonnet', 'boots', 'borough', 'bossiness', 'bottle', 'bouquet', 'boxlike', 'breath', 'briefcase', 'broom',
+  'brushes', 'bubblegum', 'buckle', 'buffalo', 'bullfrog', 'bunny', 'busboy', 'buzzard', 'cabin', 'cactus',
+  'cadillac', 'cafeteria', 'cage', 'cahoots', 'cajoling', 'cakewalk', 'calculator', 'camera', 'canister', 'capsule',
+  'carrot', 'cashew', 'cathedral', 'caviar', 'ceasefire', 'cedar', 'celery', 'cement', 'census', 'ceramics',
+  'cesspool', 'chalkboard', 'cheesecake', 'chimney', 'chlorine', 'chopsticks', 'chrome', 'chute', 'cilantro', 'cinnamon',
+  'circle', 'cityscape', 'civilian', 'clay', 'clergyman', 'clipboard', 'clock', 'clubhouse', 'coathanger', 'cobweb',
+  'coconut', 'codeword', 'coexistent', 'coffeecake', 'cognitive', 'cohabitate', 'collarbone', 'computer', 'confetti', 'copier',
+  'cornea', 'cosmetics', 'cotton', 'couch', 'coverless', 'coyote', 'coziness', 'crawfish', 'crewmember', 'crib',
+  'croissant', 'crumble', 'crystal', 'cubical', 'cucumber', 'cuddly', 'cufflink', 'cuisine', 'culprit', 'cup',
+  'curry', 'cushion', 'cuticle', 'cybernetic', 'cyclist', 'cylinder', 'cymbal', 'cynicism', 'cypress', 'cytoplasm',
+  'dachshund', 'daffodil', 'dagger', 'dairy', 'dalmatian', 'dandelion', 'dartboard', 'dastardly', 'datebook', 'daughter',
+  'dawn', 'daytime', 'dazzler', 'dealer', 'debris', 'decal', 'dedicate', 'deepness', 'defrost', 'degree',
+  'dehydrator', 'deliverer', 'dentist', 'deodorant', 'depot', 'deranged', 'desktop', 'detergent', 'device', 'dexterity',
+  'diamond', 'dibs', 'dictionary', 'diffuser', 'digit', 'dilated', 'dimple', 'dinnerware', 'dioxide', 'diploma',
+  'directory', 'dishcloth', 'ditto', 'dividers', 'dizziness', 'doctor', 'dodge', 'doll', 'dominoes', 'donut',
+  'doorstep', 'dorsal', 'double', 'downstairs', 'dozed', 'drainpipe', 'dresser', 'driftwood', 'droppings', 'drum',
+  'dryer', 'dubiously', 'duckling', 'duffel', 'dugout', 'dumpster', 'duplex', 'durable', 'dustpan', 'dutiful',
+  'duvet', 'dwelling', 'dwindling', 'dynamite', 'dyslexia', 'eagerness', 'earlobe', 'easel', 'eavesdrop', 'ebook',
+  'eccentric', 'echoless', 'eclipse', 'ecosystem', 'ecstasy', 'edged', 'editor', 'educator', 'eelworm', 'eerie',
+  'effects', 'eggnog', 'egomaniac', 'ejection', 'elastic', 'elbow', 'elderly', 'elephant', 'elfishly', 'eliminator',
+  'elk', 'elliptical', 'elongated', 'elsewhere', 'elusive', 'elves', 'emancipate', 'embroidery', 'emcee', 'emerald',
+  'emission', 'emoticon', 'emperor', 'emulate', 'enactment', 'enchilada', 'endorphin', 'energy', 'enforcer', 'engine',
+  'enhance', 'enigmatic', 'enjoyably', 'enlarged', 'enormous', 'enquirer', 'enrollment', 'ensemble', 'entryway', 'enunciate',
+  'envoy', 'enzyme', 'epidemic', 'equipment', 'erasable', 'ergonomic', 'erratic', 'eruption', 'escalator', 'esophagus',
+  'espresso', 'essay', 'estrogen', 'etching', 'eternal', 'ethics', 'etiquette', 'eucalyptus', 'eulogy', 'euphemism',
+  'evacuation', 'evergreen', 'evidence', 'evolution', 'exam', 'excerpt', 'exerciser', 'exfoliate', 'exhale', 'exist',
+  'exorcist', 'explode', 'exquisite', 'exterior', 'exuberant', 'fabric', 'factory', 'faded', 'failsafe', 'falcon',
+  'family', 'fanfare', 'fasten', 'faucet', 'favorite', 'feasibly', 'federal', 'feedback', 'feigned', 'feline',
+  'femur', 'fence', 'ferret', 'festival', 'fettuccine', 'feudalist', 'feverish', 'fiberglass', 'fictitious', 'fiddle',
+  'figurine', 'fillet', 'finalist', 'fiscally', 'fixture', 'flashlight', 'fleshiness', 'flight', 'florist', 'flypaper',
+  'foamless', 'focus', 'foggy', 'folksong', 'fondue', 'footpath', 'fossil', 'fountain', 'fox', 'fragment',
+  'freeway', 'fridge', 'frosting', 'fruit', 'fryingpan', 'gadget', 'gainfully', 'gallstone', 'gamekeeper', 'gangway',
+  'garlic', 'gaslight', 'gathering', 'gauntlet', 'gearbox', 'gecko', 'gem', 'generator', 'geographer', 'gerbil',
+  'gesture', 'getaway', 'geyser', 'ghoulishly', 'gibberish', 'giddiness', 'giftshop', 'gigabyte', 'gimmick', 'giraffe',
+  'giveaway', 'gizmo', 'glasses', 'gleeful', 'glisten', 'glove', 'glucose', 'glycerin', 'gnarly', 'gnomish',
+  'goatskin', 'goggles', 'goldfish', 'gong', 'gooey', 'gorgeous', 'gosling', 'gothic', 'gourmet', 'governor',
+  'grape', 'grease', 'grid', 'grommet', 'gruffness', 'guacamole', 'guide', 'gumball', 'gurgling', 'gusto',
+  'gutter', 'gymnast', 'habitable', 'hacksaw', 'haggler', 'haiku', 'halibut', 'hamburger', 'handbag', 'happily',
+  'harbor', 'hashtag', 'haunted', 'hazelnut', 'headphone', 'hedgehog', 'heftiness', 'heinously', 'helmet', 'hemoglobin',
+  'henceforth', 'herbs', 'hesitancy', 'hexagon', 'hubcap', 'huddling', 'huff', 'hugeness', 'hullabaloo', 'human',
+  'hunter', 'hurricane', 'hushing', 'hyacinth', 'hybrid', 'hydrant', 'hygienist', 'hypnotist', 'ibuprofen', 'icepack',
+  'icing', 'iconic', 'identical', 'idiocy', 'idly', 'igloo', 'ignition', 'iguana', 'illuminate', 'imaging',
+  'imitator', 'immigrant', 'imprint', 'iodine', 'ionosphere', 'iridescent', 'irksome', 'iron', 'irrigation', 'island',
+  'isotope', 'issueless', 'italicize', 'itemizer', 'itinerary', 'ivory', 'jabbering', 'jackrabbit', 'jaguar', 'jailhouse',
+  'jalapeno', 'jamboree', 'janitor', 'jarring', 'jasmine', 'jaundice', 'jawbreaker', 'jaywalker', 'jazz', 'jealous',
+  'jeep', 'jelly', 'jeopardize', 'jersey', 'jetski', 'jiffy', 'jigsaw', 'jingling', 'jobholder', 'jogging',
+  'joinable', 'jokingly', 'journal', 'jovial', 'joystick', 'jubilant', 'judiciary', 'juggle', 'juice', 'jujitsu',
+  'jukebox', 'jumpiness', 'junkyard', 'juror', 'justifying', 'juvenile', 'kabob', 'kamikaze', 'kangaroo', 'karate',
+  'kayak', 'keepsake', 'kennel', 'kerosene', 'ketchup', 'khaki', 'kickstand', 'kilogram', 'kimono', 'kingdom',
+  'kiosk', 'kissing', 'kite', 'knapsack', 'kneecap', 'knickers', 'koala', 'krypton', 'laboratory', 'ladder',
+  'lakefront', 'lantern', 'laptop', 'laryngitis', 'lasagna', 'latch', 'laundry', 'lavender', 'laxative', 'lazybones',
+  'lecturer', 'leftover', 'leggings', 'leisure', 'lemon', 'length', 'leopard', 'leprechaun', 'lettuce', 'leukemia',
+  'levers', 'lewdness', 'liability', 'library', 'licorice', 'lifeboat', 'lightbulb', 'likewise', 'lilac', 'limousine',
+  'lint', 'lioness', 'lipstick', 'liquid', 'listless', 'litter', 'liverwurst', 'lizard', 'llama', 'luau',
+  'lubricant', 'lucidity', 'ludicrous', 'luggage', 'lukewarm', 'lullaby', 'lumberjack', 'lunchbox', 'luridness', 'luscious',
+  'luxurious', 'lyrics', 'macaroni', 'maestro', 'magazine', 'mahogany', 'maimed', 'majority', 'makeover', 'malformed',
+  'mammal', 'mango', 'mapmaker', 'marbles', 'massager', 'matchstick', 'maverick', 'maximum', 'mayonnaise', 'moaning',
+  'mobilize', 'moccasin', 'modify', 'moisture', 'molecule', 'momentum', 'monastery', 'moonshine', 'mortuary', 'mosquito',
+  'motorcycle', 'mousetrap', 'movie', 'mower', 'mozzarella', 'muckiness', 'mudflow', 'mugshot', 'mule', 'mummy',
+  'mundane', 'muppet', 'mural', 'mustard', 'mutation', 'myriad', 'myth', 'nail', 'namesake', 'nanosecond',
+  'napkin', 'narrator', 'nastiness', 'natives', 'nautically', 'navigate', 'nearest', 'nebula', 'nectar', 'nefarious',
+  'negotiator', 'neither', 'nemesis', 'neoliberal', 'nephew', 'nervously', 'nest', 'netting', 'neuron', 'nevermore',
+  'nextdoor', 'nicotine', 'niece', 'nimbleness', 'nirvana', 'nuclear', 'nugget', 'nuisance', 'nullify', 'numbing',
+  'nuptials', 'nursery', 'nutcracker', 'nylon', 'oasis', 'oat', 'obediently', 'obituary', 'object', 'obliterate',
+  'obnoxious', 'observer', 'obtain', 'obvious', 'occupation', 'oceanic', 'octopus', 'ocular', 'office', 'oftentimes',
+  'oiliness', 'ointment', 'older', 'olympics', 'omissible', 'omnivorous', 'oncoming', 'onion', 'onlooker', 'onstage',
+  'onward', 'onyx', 'oomph', 'opaquely', 'opera', 'opium', 'opossum', 'opponent', 'optical', 'opulently',
+  'oscillator', 'osmosis', 'ostrich', 'otherwise', 'ought', 'outhouse', 'ovation', 'oven', 'owlish', 'oxford',
+  'oxidize', 'oxygen', 'oyster', 'ozone', 'pacemaker', 'padlock', 'pageant', 'pajamas', 'palm', 'pamphlet',
+  'paprika', 'parakeet', 'passport', 'patio', 'pauper', 'pavement', 'payphone', 'pebble', 'peculiarly', 'pedometer',
+  'pegboard', 'pelican', 'penguin', 'peony', 'pepperoni', 'peroxide', 'pesticide', 'petroleum', 'pewter', 'pharmacy',
+  'pheasant', 'phonebook', 'phrasing', 'physician', 'plank', 'pledge', 'plotted', 'plug', 'plywood', 'pneumonia',
+  'podiatrist', 'poetic', 'pogo', 'poison', 'poking', 'policeman', 'poncho', 'popcorn', 'porcupine', 'postcard',
+  'poultry', 'powerboat', 'prairie', 'pretzel', 'princess', 'propeller', 'prune', 'pry', 'pseudo', 'publisher',
+  'pucker', 'pueblo', 'pulley', 'pumpkin', 'punchbowl', 'puppy', 'purse', 'pushup', 'putt', 'puzzle',
+  'pyramid', 'python', 'quarters', 'quesadilla', 'quilt', 'quote', 'racoon', 'radish', 'raffle', 'ragweed',
+  'railroad', 'rampantly', 'rancidity', 'rapidly', 'rarity', 'rascal', 'ratio', 'raucously', 'ravioli', 'rayon',
+  'razor', 'reappear', 'recipient', 'redo', 'reemerge', 'reflector', 'regime', 'reheat', 'reissue', 'rejoin',
+  'rekindle', 'relapse', 'remix', 'renovator', 'repackage', 'requisite', 'resalable', 'retiree', 'revision', 'rewind',
+  'rhapsody', 'rhino', 'rhythm', 'ribbon', 'rickety', 'riddle', 'rigorous', 'rimmed', 'rinse', 'riotous',
+  'rippling', 'riskiness', 'riverbed', 'rodeo', 'roman', 'rooster', 'rope', 'rotunda', 'roulette', 'rowboat',
+  'royal', 'rubber', 'rudder', 'ruffle', 'rugged', 'rumble', 'runway', 'rupture', 'ruthless', 'sabotage',
+  'sacrament', 'sadness', 'safari', 'sailboat', 'sakes', 'salami', 'sample', 'sanitary', 'sapphire', 'sarcasm',
+  'sassy', 'satchel', 'saucepan', 'savagely', 'scalding', 'scented', 'schoolbus', 'science', 'scoreboard', 'scratch',
+  'scuba', 'seahorse', 'second', 'sedative', 'seeing', 'segment', 'seismic', 'selector', 'semester', 'senator',
+  'septum', 'sequence', 'serpent', 'sesame', 'setback', 'seventh', 'sewage', 'shackles', 'shelter', 'shoelace',
+  'shrapnel', 'shuffle', 'shyness', 'sibling', 'sickness', 'sidekick', 'sierra', 'siftings', 'sightseer', 'silicon',
+  'simplify', 'sincerely', 'sirloin', 'sisterhood', 'sitter', 'sixtyfold', 'sizzle', 'skateboard', 'skeleton', 'skimpily',
+  'skydiver', 'slaw', 'slinky', 'sloppy', 'slurp', 'smartly', 'smelly', 'smirk', 'smog', 'snapshot',
+  'snooze', 'snuggle', 'soapbox', 'sobbing', 'society', 'sofa', 'sojourn', 'solvable', 'sombrero', 'songbird',
+  'sophomore', 'sorority', 'soybean', 'spearmint', 'spiffy', 'splendid', 'spoiled', 'sprinkler', 'spyglass', 'squirrel',
+  'stained', 'steerable', 'stick', 'stoplight', 'strongman', 'stubbornly', 'stylist', 'suave', 'subtitle', 'succulent',
+  'sudden', 'suffocate', 'sugar', 'suitcase', 'sulfur', 'sumo', 'sunny', 'superman', 'surfboard', 'suspect',
+  'swan', 'sweatshirt', 'swimwear', 'sworn', 'synopsis', 'tadpole', 'tagline', 'tailgate', 'tallness', 'tamale',
+  'tanning', 'tapestry', 'target', 'tastiness', 'tattoo', 'taunt', 'tavern', 'taxicab', 'tazer', 'teacup',
+  'tedious', 'teeth', 'telescope', 'temperate', 'tennis', 'tequila', 'terrible', 'testimony', 'tether', 'textile',
+  'thank', 'theater', 'thimble', 'thorn', 'thumbprint', 'thyself', 'tiara', 'tibia', 'tickle', 'tidal',
+  'tiger', 'tiki', 'tilt', 'tingle', 'tiptoe', 'tiramisu', 'tissue', 'titanic', 'toaster', 'tobacco',
+  'today', 'toffee', 'toga', 'toilet', 'tolerable', 'tomato', 'tonic', 'toolbox', 'topaz', 'torch',
+  'totally', 'toucan', 'towel', 'toxic', 'trash', 'treadmill', 'trickery', 'trombone', 'truck', 'tsunami',
+  'tuba', 'tucked', 'tugboat', 'tulip', 'tumbling', 'tundra', 'tuppence', 'turtle', 'tusk', 'tutorial',
+  'tuxedo', 'tweezers', 'twig', 'tycoon', 'tyrant', 'ultimate', 'umbilical', 'unadorned', 'unbiased', 'uncle',
+  'undead', 'unearth', 'unfold', 'uniform', 'unpaid', 'uplifting', 'uproar', 'upscale', 'uranium', 'urchin',
+  'urologist', 'usage', 'user', 'utensil', 'utility', 'utmost', 'utopia', 'uttermost', 'vacuum', 'vagrant',
+  'valuables', 'vampire', 'vanilla', 'vaporizer', 'vascular', 'veggie', 'vehicle', 'velcro', 'venom', 'verbalize',
+  'vessel', 'vexingly', 'vibes', 'vicinity', 'video', 'vigorous', 'village', 'vindicate', 'violin', 'viper',
+  'virtual', 'visa', 'vitamins', 'vivacious', 'vocalist', 'voicemail', 'volcano', 'voter', 'voucher', 'voyage',
+  'vulture', 'wackiness', 'waffle', 'wagon', 'wahoo', 'waistband', 'waking', 'wallet', 'wand', 'warrior',
+  'washcloth', 'watermelon', 'waviness', 'waxwork', 'wayside', 'wealthy', 'website', 'wedding', 'weekend', 'weirdness',
+  'welcome', 'western', 'wetland', 'whacky', 'wheat', 'whiff', 'whoever', 'wick', 'widely', 'wielder',
+  'wifi', 'wiggle', 'wikipedia', 'wildcard', 'wimp', 'wincing', 'wipe', 'wiring', 'wisdom', 'wizard',
+  'wobble', 'wolverine', 'woman', 'wonder', 'woodchuck', 'wordsmith', 'wound', 'woven', 'wrangle', 'wreath',
+  'wrinkle', 'wrongly', 'xbox', 'xerox', 'yahoo', 'yam', 'yanking', 'yapping', 'yard', 'yawning',
+  'yeah', 'yellow', 'yen', 'yesterday', 'yiddish', 'yield', 'yin', 'yippee', 'yodel', 'yoga',
+  'yonder', 'yoyo', 'yummy', 'zap', 'zealous', 'zebra', 'zen', 'zeppelin', 'zero', 'zestfully',
+  'zigzagged', 'zipfile', 'zombie', 'zone', 'zoologist', 'zucchini',
+];
@@ -0,0 +1,196 @@
+/**
+ * Passphrase Wordlists
+ * Built-in wordlists for passphrase and mnemonic generation. The basic list
+ * is bundled inline; the EFF, localized, BIP39 and part-of-speech lists are
+ * large, so each lives in its own module and is only fetched the first time
+ * it is requested.
+ *
+ * @module generators/wordlists
+ */
+
+import { BASIC_WORDLIST } from './basic';
+
+/**
+ * Names of the built-in wordlists
+ * - `basic`: 440 common words, always available (8.8 bits/word)
+ * - `eff-large`: EFF large list, 7776 words (12.9 bits/word)
+ * - `eff-short-1`: EFF short list #1, 1296 short words (10.3 bits/word)
+ * - `eff-short-2`: EFF short list #2, 1296 words with unique 3-letter
+ *   prefixes (10.3 bits/word)
+ * - `diceware-<language>`: 1296 common words in that language
+ *   (10.3 bits/word), see {@link PassphraseLanguage}
+ * - `bip39-english`: BIP39 English mnemonic list, 2048 words with unique
+ *   4-letter prefixes (11 bits/word)
+ * - `bip39-<language>`: the other official BIP39 lists (Japanese, Spanish,
+ *   French, Italian, Czech, Portuguese, Korean, simplified and traditional
+ *   Chinese), 2048 words each, for the mnemonic `language` option
+ * - `en-adjectives`, `en-nouns`, `en-verbs`, `en-adverbs`: English word
+ *   classes for grammar-structured passphrases (512, 1024, 256 and 128
+ *   words)
+ */
+export type WordlistName =
+  | 'basic'
+  | 'eff-large'
+  | 'eff-short-1'
+  | 'eff-short-2'
+  | 'diceware-de'
+  | 'diceware-es'
+  | 'diceware-fr'
+  | 'diceware-it'
+  | 'diceware-pt'
+  | 'diceware-nl'
+  | 'diceware-ja-romaji'
+  | 'bip39-english'
+  | 'bip39-japanese'
+  | 'bip39-spanish'
+  | 'bip39-french'
+  | 'bip39-italian'
+  | 'bip39-czech'
+  | 'bip39-portuguese'
+  | 'bip39-korean'
+  | 'bip39-chinese-simplified'
+  | 'bip39-chinese-traditional'
+  | 'en-adjectives'
+  | 'en-nouns'
+  | 'en-verbs'
+  | 'en-adverbs';
+
+/**
+ * Passphrase languages
+ * `ja-romaji` is Japanese written in Hepburn romanization.
+ */
+export type PassphraseLanguage = 'en' | 'de' | 'es' | 'fr' | 'it' | 'pt' | 'nl' | 'ja-romaji';
+
+/**
+ * Default wordlist for each passphrase language: the EFF large list for
+ * English, a 1296-word diceware list for the others
+ */
+const LANGUAGE_WORDLISTS: Record<PassphraseLanguage, WordlistName> = {
+  en: 'eff-large',
+  de: 'diceware-de',
+  es: 'diceware-es',
+  fr: 'diceware-fr',
+  it: 'diceware-it',
+  pt: 'diceware-pt',
+  nl: 'diceware-nl',
+  'ja-romaji': 'diceware-ja-romaji',
+};
+
+/**
+ * Dynamic imports for the lazily loaded lists
+ */
+const WORDLIST_LOADERS: Record<Exclude<WordlistName, 'basic'>, () => Promise<readonly string[]>> = {
+  'eff-large': () => import('./eff-large').then(module => module.EFF_LARGE_WORDLIST),
+  'eff-short-1': () => import('./eff-short-1').then(module => module.EFF_SHORT_WORDLIST_1),
+  'eff-short-2': () => import('./eff-short-2').then(module => module.EFF_SHORT_WORDLIST_2),
+  'diceware-de': () => import('./diceware-de').then(module => module.DICEWARE_DE_WORDLIST),
+  'diceware-es': () => import('./diceware-es').then(module => module.DICEWARE_ES_WORDLIST),
+  'diceware-fr': () => import('./diceware-fr').then(module => module.DICEWARE_FR_WORDLIST),
+  'diceware-it': () => import('./diceware-it').then(module => module.DICEWARE_IT_WORDLIST),
+  'diceware-pt': () => import('./diceware-pt').then(module => module.DICEWARE_PT_WORDLIST),
+  'diceware-nl': () => import('./diceware-nl').then(module => module.DICEWARE_NL_WORDLIST),
+  'diceware-ja-romaji': () => import('./diceware-ja-romaji').then(module => module.DICEWARE_JA_ROMAJI_WORDLIST),
+  'bip39-english': () => import('./bip39-english').then(module => module.BIP39_ENGLISH_WORDLIST),
+  'bip39-japanese': () => import('./bip39-japanese').then(module => module.BIP39_JAPANESE_WORDLIST),
+  'bip39-spanish': () => import('./bip39-spanish').then(module => module.BIP39_SPANISH_WORDLIST),
+  'bip39-french': () => import('./bip39-french').then(module => module.BIP39_FRENCH_WORDLIST),
+  'bip39-italian': () => import('./bip39-italian').then(module => module.BIP39_ITALIAN_WORDLIST),
+  'bip39-czech': () => import('./bip39-czech').then(module => module.BIP39_CZECH_WORDLIST),
+  'bip39-portuguese': () => import('./bip39-portuguese').then(module => module.BIP39_PORTUGUESE_WORDLIST),
+  'bip39-korean': () => import('./bip39-korean').then(module => module.BIP39_KOREAN_WORDLIST),
+  'bip39-chinese-simplified': () => import('./bip39-chinese-simplified').then(module => module.BIP39_CHINESE_SIMPLIFIED_WORDLIST),
+  'bip39-chinese-traditional': () => import('./bip39-chinese-traditional').then(module => module.BIP39_CHINESE_TRADITIONAL_WORDLIST),
+  'en-adjectives': () => import('./parts-of-speech-en').then(module => module.EN_ADJECTIVES),
+  'en-nouns': () => import('./parts-of-speech-en').then(module => module.EN_NOUNS),
+  'en-verbs': () => import('./parts-of-speech-en').then(module => module.EN_VERBS),
+  'en-adverbs': () => import('./parts-of-speech-en').then(module => module.EN_ADVERBS),
+};
+
+/**
+ * Wordlists that are ready for synchronous use
+ */
+const loadedWordlists = new Map<WordlistName, readonly string[]>([['basic', BASIC_WORDLIST]]);
+
+/**
+ * In-flight loads (ensures each list is imported once)
+ */
+const pendingWordlists = new Map<WordlistName, Promise<readonly string[]>>();
+
+/**
+ * Check that a name refers to a built-in wordlist
+ */
+function assertWordlistName(name: string): asserts name is WordlistName {
+  if (name !== 'basic' && !Object.prototype.hasOwnProperty.call(WORDLIST_LOADERS, name)) {
+    throw new Error(`Unknown wordlist: ${name}`);
+  }
+}
+
+/**
+ * Get the built-in wordlist for a passphrase language
+ *
+ * @throws Error if the language is not supported
+ */
+export function getLanguageWordlist(language: PassphraseLanguage): WordlistName {
+  if (!Object.prototype.hasOwnProperty.call(LANGUAGE_WORDLISTS, language)) {
+    throw new Error(`Unsupported passphrase language: ${language}`);
+  }
+  return LANGUAGE_WORDLISTS[language];
+}
+
+/**
+ * Load a built-in wordlist
+ * Resolves immediately for lists that are already loaded. Call this before
+ * {@link generatePassphrase} when using one of the EFF or localized lists.
+ *
+ * @param name - Built-in wordlist name
+ * @returns The words of the list
+ * @throws Error if the name is not a built-in wordlist
+ *
+ * @example
+ * ```typescript
+ * await loadWordlist('eff-large');
+ * const result = generatePassphrase({ ...getDefaultPassphraseOptions(), wordlist: 'eff-large' });
+ * ```
+ */
+export async function loadWordlist(name: WordlistName): Promise<readonly string[]> {
+  assertWordlistName(name);
+
+  const loaded = loadedWordlists.get(name);
+  if (loaded) {
+    return loaded;
+  }
+
+  let pending = pendingWordlists.get(name);
+  if (!pending) {
+    pending = WORDLIST_LOADERS[name as Exclude<WordlistName, 'basic'>]().then(words => {
+      loadedWordlists.set(name, words);
+      pendingWordlists.delete(name);
+      return words;
+    });
+    pendingWordlists.set(name, pending);
+  }
+
+  return pending;
+}
+
+/**
+ * Check if a built-in wordlist is loaded and can be used synchronously
+ */
+export function isWordlistLoaded(name: WordlistName): boolean {
+  return loadedWordlists.has(name);
+}
+
+/**
+ * Get a built-in wordlist that has already been loaded
+ *
+ * @throws Error if the name is unknown or the list has not been loaded yet
+ */
+export function getLoadedWordlist(name: WordlistName): readonly string[] {
+  assertWordlistName(name);
+
+  const words = loadedWordlists.get(name);
+  if (!words) {
+    throw new Error(`Wordlist "${name}" is not loaded; call loadWordlist('${name}') first`);
+  }
+  return words;
+}
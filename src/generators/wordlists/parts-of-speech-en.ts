@@ -0,0 +1,220 @@
+/**
+ * English Part-of-Speech Wordlists
+ * Word classes for grammar-structured passphrases such as
+ * "brave-otter-juggles-seven-lanterns". Every list is sorted, lowercase and
+ * a power of two in size:
+ * - adjectives: 512 (9 bits per word)
+ * - nouns: 1024 singular nouns with regular plurals (10 bits per word)
+ * - verbs: 256 transitive verbs, third person singular (8 bits per word)
+ * - adverbs: 128 manner adverbs (7 bits per word)
+ *
+ * Loaded on demand via {@link loadWordlist}; do not import directly.
+ *
+ * @module generators/wordlists/parts-of-speech-en
+ */
+
+export const EN_ADJECTIVES: readonly string[] = [
+  'able', 'active', 'agile', 'alert', 'alive', 'amber', 'ample', 'ancient', 'antique', 'arctic',
+  'ardent', 'aromatic', 'artful', 'atomic', 'avid', 'awake', 'aware', 'azure', 'babbling', 'balmy',
+  'bare', 'bashful', 'basic', 'beaded', 'beaming', 'bearded', 'bent', 'best', 'big', 'bland',
+  'blank', 'blissful', 'blithe', 'blond', 'blue', 'blunt', 'blurry', 'boiling', 'bold', 'boxy',
+  'brainy', 'brave', 'brawny', 'breezy', 'brief', 'bright', 'brilliant', 'brisk', 'bronze', 'brown',
+  'bubbly', 'bulky', 'bumpy', 'burly', 'bushy', 'busy', 'buttery', 'calm', 'candid', 'carefree',
+  'careful', 'caring', 'casual', 'cautious', 'chalky', 'charming', 'cheeky', 'cheerful', 'chewy', 'chilly',
+  'chirpy', 'choppy', 'chubby', 'chunky', 'classic', 'clean', 'clear', 'clever', 'cloudy', 'clumsy',
+  'coastal', 'cold', 'colossal', 'comfy', 'comic', 'common', 'compact', 'cool', 'cordial', 'cosmic',
+  'cosy', 'crafty', 'creamy', 'crimson', 'crisp', 'crispy', 'crowded', 'crunchy', 'cuddly', 'cunning',
+  'curious', 'curly', 'curved', 'cute', 'daily', 'dainty', 'damp', 'dandy', 'dapper', 'daring',
+  'dark', 'dazzling', 'deep', 'deft', 'dense', 'devoted', 'dewy', 'diligent', 'distant', 'dizzy',
+  'docile', 'dotted', 'double', 'downy', 'dreamy', 'dry', 'dusky', 'dusty', 'dutiful', 'dynamic',
+  'eager', 'early', 'earnest', 'earthy', 'eastern', 'easy', 'edible', 'elastic', 'elder', 'electric',
+  'elegant', 'elite', 'eloquent', 'emerald', 'empty', 'endless', 'epic', 'equal', 'even', 'exact',
+  'excited', 'exotic', 'expert', 'extra', 'fabled', 'faded', 'faint', 'fair', 'faithful', 'famous',
+  'fancy', 'far', 'fast', 'fearless', 'feisty', 'festive', 'fierce', 'fiery', 'final', 'fine',
+  'firm', 'first', 'fizzy', 'flaky', 'flat', 'fleecy', 'flexible', 'floppy', 'floral', 'fluffy',
+  'fluid', 'foggy', 'folded', 'fond', 'fragrant', 'frank', 'free', 'fresh', 'friendly', 'frilly',
+  'frosty', 'frozen', 'frugal', 'fruity', 'full', 'funky', 'funny', 'furry', 'fuzzy', 'gallant',
+  'gentle', 'giant', 'giddy', 'gifted', 'gilded', 'glad', 'glassy', 'gleaming', 'gleeful', 'glossy',
+  'glowing', 'golden', 'good', 'graceful', 'grand', 'grassy', 'grateful', 'gray', 'great', 'green',
+  'handy', 'happy', 'hardy', 'hasty', 'hazy', 'healthy', 'hearty', 'heavy', 'helpful', 'heroic',
+  'high', 'hollow', 'honest', 'hopeful', 'hot', 'huge', 'humble', 'husky', 'icy', 'ideal',
+  'immense', 'inky', 'instant', 'ivory', 'jagged', 'jaunty', 'jazzy', 'jolly', 'jovial', 'joyful',
+  'juicy', 'jumbo', 'jumpy', 'keen', 'kind', 'kindly', 'kingly', 'knotty', 'lacy', 'large',
+  'lavish', 'lazy', 'leafy', 'lean', 'light', 'limber', 'little', 'lively', 'local', 'lofty',
+  'lone', 'long', 'loose', 'loud', 'lovely', 'loving', 'loyal', 'lucid', 'lucky', 'lukewarm',
+  'lunar', 'lush', 'magenta', 'magic', 'majestic', 'marine', 'massive', 'mature', 'mellow', 'merry',
+  'messy', 'mighty', 'mild', 'milky', 'mint', 'misty', 'mobile', 'modern', 'modest', 'moist',
+  'molten', 'mossy', 'muddy', 'musical', 'mystic', 'narrow', 'native', 'natural', 'naval', 'near',
+  'neat', 'neon', 'new', 'nice', 'nifty', 'nimble', 'noble', 'noisy', 'normal', 'northern',
+  'novel', 'odd', 'olive', 'open', 'orange', 'organic', 'ornate', 'oval', 'pale', 'patient',
+  'peaceful', 'pearly', 'perky', 'petite', 'placid', 'plaid', 'plain', 'playful', 'pleasant', 'plucky',
+  'plump', 'plush', 'polar', 'polished', 'polite', 'posh', 'potent', 'precise', 'pretty', 'prickly',
+  'prime', 'proud', 'puffy', 'pure', 'purple', 'quaint', 'quick', 'quiet', 'quirky', 'radiant',
+  'rainy', 'rapid', 'rare', 'raspy', 'ready', 'real', 'regal', 'relaxed', 'remote', 'restful',
+  'rich', 'rigid', 'ripe', 'rising', 'robust', 'rocky', 'rosy', 'rough', 'round', 'royal',
+  'ruby', 'rugged', 'rural', 'rustic', 'rusty', 'safe', 'salty', 'sandy', 'sassy', 'satin',
+  'savvy', 'scaly', 'scarlet', 'scenic', 'secret', 'serene', 'shaggy', 'shaky', 'shallow', 'sharp',
+  'shiny', 'short', 'shy', 'silent', 'silky', 'silver', 'simple', 'sincere', 'sleek', 'sleepy',
+  'slender', 'slim', 'slow', 'small', 'smart', 'smiling', 'smoky', 'smooth', 'snappy', 'snowy',
+  'snug', 'soft', 'solar', 'solid', 'sonic', 'southern', 'spare', 'sparkly', 'speedy', 'spicy',
+  'spiffy', 'spiky', 'spotted', 'spry', 'square', 'stable', 'starry', 'steady', 'steep', 'sticky',
+  'stiff', 'still', 'stormy', 'stout', 'striped', 'strong', 'sturdy', 'subtle', 'sugary', 'sunny',
+  'super', 'swift', 'tall', 'tame', 'tan', 'tangy', 'tart', 'tender', 'thick', 'thin',
+  'thorny', 'tidy', 'tiny', 'toasty', 'tough', 'tranquil', 'trendy', 'tricky', 'trim', 'trusty',
+  'tuneful', 'twin', 'ultra', 'unique', 'upbeat', 'urban', 'useful', 'usual', 'valiant', 'vast',
+  'velvet', 'vibrant', 'violet', 'vital', 'vivid', 'vocal', 'warm', 'wavy', 'waxy', 'western',
+  'white', 'whole', 'wide', 'wild', 'willing', 'windy', 'wintry', 'wiry', 'wise', 'witty',
+  'wobbly', 'wooden', 'woolly', 'wordy', 'worthy', 'yellow', 'young', 'youthful', 'zany', 'zealous',
+  'zesty', 'zippy',
+];
+
+export const EN_NOUNS: readonly string[] = [
+  'abbey', 'acorn', 'acrobat', 'actor', 'admiral', 'aircraft', 'airplane', 'airship', 'alarm', 'album',
+  'alcove', 'alley', 'almond', 'alpaca', 'amulet', 'anchor', 'angel', 'ankle', 'ant', 'antelope',
+  'anthem', 'anvil', 'apple', 'apricot', 'apron', 'aquarium', 'arcade', 'arch', 'archer', 'arena',
+  'armchair', 'armor', 'arrow', 'artist', 'atlas', 'atom', 'attic', 'auction', 'author', 'avenue',
+  'avocado', 'award', 'axle', 'backpack', 'badge', 'badger', 'bagel', 'baguette', 'baker', 'balcony',
+  'ball', 'ballad', 'balloon', 'bamboo', 'banana', 'band', 'bandana', 'bandit', 'bangle', 'banjo',
+  'bank', 'banner', 'barber', 'bard', 'barge', 'barn', 'barrel', 'basin', 'basket', 'bassoon',
+  'bat', 'bathtub', 'battery', 'bay', 'bazaar', 'beach', 'beacon', 'bead', 'beagle', 'beak',
+  'bean', 'beanbag', 'bear', 'beard', 'beaver', 'bed', 'bedroom', 'bee', 'beehive', 'beetle',
+  'beetroot', 'bell', 'bellhop', 'belt', 'bench', 'beret', 'berry', 'bicycle', 'bird', 'biscuit',
+  'blanket', 'blender', 'blimp', 'blizzard', 'blossom', 'boar', 'boat', 'bobcat', 'bolt', 'bonfire',
+  'bonnet', 'book', 'bookcase', 'bookmark', 'boot', 'bottle', 'boulder', 'bouquet', 'boutique', 'bow',
+  'bowl', 'bowler', 'boxer', 'bracelet', 'bracket', 'branch', 'bread', 'breeze', 'brewer', 'brick',
+  'bride', 'bridge', 'brigade', 'brooch', 'brook', 'broom', 'brush', 'bubble', 'bucket', 'buckle',
+  'bugle', 'building', 'bull', 'bulldog', 'bungalow', 'bunker', 'bunny', 'burrito', 'bus', 'bush',
+  'butcher', 'butler', 'button', 'buzzard', 'cabbage', 'cabin', 'cabinet', 'cable', 'cafe', 'cake',
+  'calendar', 'camel', 'camera', 'camp', 'camper', 'canal', 'canary', 'candle', 'candy', 'cannon',
+  'canoe', 'canyon', 'cap', 'cape', 'capsule', 'captain', 'car', 'caramel', 'caravan', 'card',
+  'cardigan', 'carnival', 'carousel', 'carpet', 'carrot', 'cart', 'cashew', 'castle', 'cat', 'catapult',
+  'cauldron', 'cave', 'cavern', 'cedar', 'cellar', 'cello', 'centaur', 'chair', 'chalice', 'chalk',
+  'champion', 'channel', 'chapel', 'chariot', 'charm', 'chateau', 'checker', 'cheetah', 'chef', 'cherry',
+  'cherub', 'chest', 'chestnut', 'chicken', 'chili', 'chimney', 'chipmunk', 'chisel', 'chorus', 'cinema',
+  'circle', 'circus', 'citadel', 'city', 'clam', 'clarinet', 'cliff', 'cloak', 'clock', 'cloud',
+  'clover', 'clown', 'coach', 'coaster', 'coat', 'cobra', 'cockatoo', 'coconut', 'coin', 'collar',
+  'colt', 'comb', 'comedian', 'comet', 'compass', 'conch', 'condor', 'cone', 'cook', 'cookie',
+  'coral', 'cork', 'corner', 'costume', 'cottage', 'couch', 'courier', 'cousin', 'cow', 'cowboy',
+  'coyote', 'crab', 'crane', 'crate', 'crater', 'crayon', 'creek', 'crescent', 'crib', 'cricket',
+  'crow', 'crown', 'crumb', 'crumpet', 'crystal', 'cub', 'cucumber', 'cup', 'cupboard', 'cupcake',
+  'curator', 'curtain', 'cushion', 'cyclist', 'cymbal', 'cypress', 'daisy', 'dam', 'dancer', 'dart',
+  'deck', 'den', 'dentist', 'desk', 'dial', 'diamond', 'diary', 'diner', 'dinosaur', 'diver',
+  'dock', 'doctor', 'dog', 'doll', 'dolphin', 'dome', 'donkey', 'door', 'doorbell', 'doughnut',
+  'dove', 'dragon', 'drain', 'drawer', 'drum', 'drummer', 'duck', 'dumpling', 'dune', 'eagle',
+  'earmuff', 'earring', 'easel', 'echidna', 'eclipse', 'eel', 'egg', 'eggplant', 'elbow', 'elephant',
+  'elevator', 'elm', 'embassy', 'emerald', 'emperor', 'empress', 'emu', 'engine', 'engineer', 'entrance',
+  'envelope', 'ermine', 'espresso', 'explorer', 'fable', 'factory', 'fairy', 'falcon', 'fan', 'farm',
+  'farmer', 'fawn', 'feast', 'feather', 'fence', 'fern', 'ferret', 'ferry', 'festival', 'fiddle',
+  'fiddler', 'field', 'fig', 'figurine', 'filament', 'finch', 'finger', 'firefly', 'fjord', 'flag',
+  'flagpole', 'flamingo', 'flask', 'fleet', 'flock', 'flood', 'floor', 'florist', 'flounder', 'flower',
+  'flute', 'flyer', 'foal', 'folder', 'forest', 'forge', 'fork', 'fort', 'fortress', 'fossil',
+  'fountain', 'fox', 'freckle', 'freezer', 'fridge', 'fritter', 'frog', 'funnel', 'gadget', 'galaxy',
+  'galleon', 'gallery', 'gander', 'garden', 'gardener', 'garland', 'gate', 'gazebo', 'gazelle', 'gear',
+  'gecko', 'gem', 'geyser', 'giant', 'giraffe', 'glacier', 'glider', 'globe', 'glove', 'gnome',
+  'goat', 'goblet', 'goblin', 'goldfish', 'golfer', 'gondola', 'gopher', 'gorge', 'gorilla', 'governor',
+  'gown', 'grape', 'griffin', 'grill', 'grocer', 'grotto', 'guard', 'guide', 'guitar', 'gull',
+  'gumball', 'gumdrop', 'gutter', 'gymnast', 'hall', 'halo', 'hamlet', 'hammer', 'hammock', 'hamster',
+  'handbag', 'handle', 'harbor', 'harness', 'harp', 'hat', 'hatchet', 'hawk', 'haystack', 'hazelnut',
+  'headband', 'hearth', 'heater', 'hedge', 'hedgehog', 'heirloom', 'helmet', 'hen', 'herald', 'herb',
+  'heron', 'hiker', 'hill', 'hinge', 'hippo', 'hive', 'hologram', 'honeybee', 'hood', 'hook',
+  'hoop', 'horn', 'hornet', 'horse', 'hospital', 'hotel', 'hound', 'house', 'hut', 'hyena',
+  'iceberg', 'icicle', 'igloo', 'iguana', 'inkwell', 'inn', 'insect', 'inventor', 'iris', 'island',
+  'jackal', 'jacket', 'jaguar', 'jar', 'javelin', 'jeep', 'jester', 'jet', 'jetty', 'jewel',
+  'jigsaw', 'jockey', 'joker', 'journal', 'judge', 'jug', 'juggler', 'jukebox', 'jungle', 'juniper',
+  'kangaroo', 'kayak', 'kernel', 'kettle', 'key', 'keyboard', 'kiln', 'kimono', 'king', 'kingdom',
+  'kiosk', 'kitchen', 'kite', 'kitten', 'kiwi', 'knapsack', 'knight', 'knob', 'koala', 'ladder',
+  'ladle', 'lagoon', 'lake', 'lamb', 'lamp', 'landmark', 'lane', 'lantern', 'lapel', 'laptop',
+  'lark', 'lasso', 'latch', 'lattice', 'lawn', 'leash', 'ledge', 'lemon', 'lemur', 'leopard',
+  'letter', 'lever', 'library', 'lichen', 'lifeboat', 'lilac', 'lily', 'lime', 'liner', 'lion',
+  'lizard', 'llama', 'lobby', 'lobster', 'locket', 'lodge', 'loft', 'lollipop', 'lotus', 'lounge',
+  'lute', 'lynx', 'macaroon', 'machine', 'magician', 'magnet', 'magpie', 'mailbox', 'mammoth', 'manatee',
+  'mandolin', 'mansion', 'mantle', 'map', 'maple', 'marble', 'marina', 'mariner', 'market', 'mascot',
+  'mask', 'mattress', 'maze', 'meadow', 'medal', 'melody', 'melon', 'merchant', 'meringue', 'mermaid',
+  'meteor', 'mill', 'minnow', 'minstrel', 'mint', 'mirror', 'mitten', 'moat', 'mole', 'monarch',
+  'monkey', 'monument', 'moon', 'mop', 'mosaic', 'motel', 'moth', 'motor', 'mound', 'mountain',
+  'muffin', 'mug', 'mule', 'mural', 'museum', 'mushroom', 'musician', 'nacho', 'napkin', 'narwhal',
+  'nebula', 'necklace', 'needle', 'neighbor', 'nest', 'newt', 'nickel', 'nomad', 'noodle', 'notebook',
+  'novel', 'nugget', 'nurse', 'nut', 'nutmeg', 'oak', 'oar', 'ocean', 'ocelot', 'octopus',
+  'office', 'olive', 'omelet', 'opal', 'opera', 'orange', 'orbit', 'orca', 'orchard', 'orchid',
+  'organ', 'oriole', 'ornament', 'ostrich', 'otter', 'outpost', 'oven', 'overcoat', 'owl', 'oyster',
+  'paddle', 'padlock', 'pagoda', 'pail', 'painter', 'palace', 'palette', 'pancake', 'panda', 'panther',
+  'pantry', 'papaya', 'parade', 'parasol', 'parcel', 'parka', 'parrot', 'parsnip', 'pastry', 'patch',
+  'path', 'patio', 'pavilion', 'peach', 'peacock', 'peanut', 'peapod', 'pear', 'pearl', 'pebble',
+  'pecan', 'pedal', 'pelican', 'pen', 'pencil', 'pendant', 'pendulum', 'penguin', 'pepper', 'perch',
+  'pheasant', 'piano', 'pickaxe', 'pickle', 'picnic', 'pie', 'pier', 'pig', 'pigeon', 'pilgrim',
+  'pillar', 'pillow', 'pilot', 'pine', 'pinecone', 'pinwheel', 'pipe', 'pirate', 'pitcher', 'pizza',
+  'planet', 'plank', 'plateau', 'platypus', 'plaza', 'plow', 'plum', 'plumber', 'pocket', 'poet',
+  'polka', 'pond', 'pony', 'poppy', 'porch', 'portrait', 'possum', 'postcard', 'poster', 'pot',
+  'pouch', 'prairie', 'pretzel', 'prince', 'princess', 'printer', 'prism', 'prune', 'pudding', 'puddle',
+  'puffin', 'pulley', 'puma', 'pumpkin', 'puppet', 'puppy', 'pyramid', 'quail', 'quarry', 'quartz',
+  'queen', 'quilt', 'quiver', 'rabbit', 'raccoon', 'racket', 'radio', 'radish', 'raft', 'rafter',
+  'rainbow', 'raisin', 'rake', 'rampart', 'ranch', 'ranger', 'rattle', 'raven', 'reef', 'referee',
+  'reindeer', 'relic', 'reptile', 'rhino', 'rhubarb', 'ribbon', 'riddle', 'rink', 'river', 'robe',
+  'robin', 'robot', 'rocket', 'rodeo', 'roof', 'rooster', 'rope', 'rose', 'rowboat', 'ruby',
+  'rug', 'ruler', 'runner', 'saddle', 'safari', 'saga', 'sage', 'sail', 'sailor', 'saloon',
+  'sandal', 'sardine', 'sash', 'satchel', 'saucer', 'sausage', 'scale', 'scepter', 'scholar', 'school',
+  'scone', 'scooter', 'scout', 'scroll', 'seagull', 'seal', 'seed', 'sentry', 'sequin', 'serpent',
+  'shadow', 'shark', 'shed', 'sheriff', 'shield', 'ship', 'shoe', 'shovel', 'shrimp', 'shrub',
+  'silo', 'singer', 'skater', 'sketch', 'ski', 'skiff', 'skunk', 'skyline', 'sled', 'slide',
+  'slipper', 'sloth', 'slug', 'snack', 'snail', 'snake', 'sneaker', 'snorkel', 'snowman', 'sock',
+  'sofa', 'soldier', 'sonnet', 'spade', 'sparrow', 'spatula', 'spear', 'spider', 'sponge', 'spoon',
+  'spring', 'sprout', 'spruce', 'squash', 'stable', 'stadium', 'stage', 'stamp', 'star', 'statue',
+  'steeple', 'sticker', 'stool', 'stork', 'storm', 'stove', 'stream', 'street', 'sun', 'sundae',
+  'sundial', 'surfer', 'swallow', 'swamp', 'swan', 'sweater', 'sword', 'table', 'tablet', 'taco',
+  'tadpole', 'tailor', 'tank', 'target', 'tassel', 'taxi', 'teacher', 'teacup', 'teapot', 'temple',
+  'tent', 'terrace', 'thimble', 'thistle', 'thread', 'throne', 'ticket', 'tide', 'tiger', 'timber',
+  'toad', 'toaster', 'torch', 'totem', 'toucan', 'towel', 'tower', 'town', 'toy', 'tractor',
+  'trail', 'train', 'trapeze', 'tree', 'trellis', 'trolley', 'trophy', 'truck', 'trumpet', 'trunk',
+  'tuba', 'tugboat', 'tulip', 'tunnel', 'turban', 'turkey', 'turnip', 'turtle', 'tuxedo', 'ukulele',
+  'unicorn', 'urchin', 'urn', 'valley', 'van', 'vase', 'vault', 'vendor', 'veranda', 'vessel',
+  'vest', 'viking', 'villa', 'village', 'vine', 'violet', 'violin', 'viper', 'visor', 'voyager',
+  'vulture', 'waffle', 'wagon', 'waiter', 'wallet', 'walnut', 'walrus', 'wand', 'warrior', 'wasp',
+  'watch', 'weasel', 'weaver', 'wedge', 'whale', 'wheel', 'whisker', 'whistle', 'wigwam', 'willow',
+  'window', 'wing', 'wizard', 'wombat', 'wren', 'wrench', 'yacht', 'yak', 'yam', 'yard',
+  'yarn', 'yodeler', 'zebra', 'zipper',
+];
+
+export const EN_VERBS: readonly string[] = [
+  'admires', 'adopts', 'adores', 'aligns', 'amazes', 'amuses', 'animates', 'applauds', 'arranges', 'attracts',
+  'awakens', 'bakes', 'balances', 'bathes', 'beckons', 'bends', 'blends', 'boards', 'boils', 'bounces',
+  'braids', 'brews', 'brings', 'brushes', 'bubbles', 'buckles', 'builds', 'bumps', 'buys', 'calls',
+  'calms', 'captures', 'carries', 'carves', 'catches', 'chases', 'checks', 'cheers', 'chooses', 'circles',
+  'clasps', 'cleans', 'climbs', 'clips', 'closes', 'collects', 'colors', 'combs', 'comforts', 'compares',
+  'composes', 'cooks', 'copies', 'counts', 'covers', 'cradles', 'crafts', 'creates', 'crosses', 'crowns',
+  'cuddles', 'curls', 'dances', 'delivers', 'designs', 'digs', 'displays', 'dodges', 'doodles', 'drags',
+  'draws', 'dresses', 'drives', 'dusts', 'earns', 'echoes', 'embraces', 'enchants', 'enjoys', 'escorts',
+  'examines', 'explores', 'fetches', 'fills', 'finds', 'fixes', 'flips', 'floats', 'folds', 'follows',
+  'forges', 'frames', 'gathers', 'glazes', 'grabs', 'greets', 'grills', 'grows', 'guards', 'guides',
+  'hatches', 'hauls', 'heals', 'helps', 'herds', 'hides', 'holds', 'honors', 'hooks', 'hosts',
+  'hugs', 'hums', 'imagines', 'imitates', 'inspects', 'invents', 'invites', 'irons', 'jiggles', 'joins',
+  'juggles', 'keeps', 'kneads', 'knits', 'knocks', 'labels', 'lassos', 'launches', 'leads', 'lends',
+  'lifts', 'lights', 'loads', 'locates', 'lowers', 'makes', 'marks', 'meets', 'melts', 'mends',
+  'mixes', 'models', 'molds', 'mops', 'moves', 'nudges', 'offers', 'opens', 'orders', 'packs',
+  'paddles', 'paints', 'parades', 'passes', 'pats', 'pedals', 'peels', 'pets', 'picks', 'pilots',
+  'pinches', 'places', 'plants', 'pleases', 'plucks', 'ponders', 'pops', 'pours', 'praises', 'presses',
+  'prints', 'pulls', 'pumps', 'pushes', 'races', 'raises', 'rakes', 'reaches', 'reads', 'records',
+  'repairs', 'rescues', 'rides', 'rinses', 'ripens', 'roasts', 'rocks', 'rolls', 'rows', 'rubs',
+  'sails', 'salutes', 'saves', 'scoops', 'scrubs', 'selects', 'sends', 'serves', 'sews', 'shakes',
+  'shapes', 'shares', 'shines', 'shows', 'signals', 'skims', 'slices', 'smells', 'snaps', 'sorts',
+  'spins', 'spots', 'spreads', 'stacks', 'stamps', 'stirs', 'stores', 'strokes', 'studies', 'sweeps',
+  'swings', 'tames', 'tastes', 'teaches', 'tends', 'tickles', 'tidies', 'tosses', 'tows', 'traces',
+  'trades', 'trains', 'trims', 'tugs', 'tunes', 'twirls', 'twists', 'unlocks', 'unpacks', 'unwraps',
+  'visits', 'wakes', 'walks', 'warms', 'washes', 'watches', 'waters', 'waves', 'weaves', 'weighs',
+  'winds', 'wins', 'wipes', 'wraps', 'writes', 'zips',
+];
+
+export const EN_ADVERBS: readonly string[] = [
+  'ably', 'actively', 'adroitly', 'airily', 'artfully', 'avidly', 'blithely', 'boldly', 'brightly', 'briskly',
+  'busily', 'calmly', 'candidly', 'carefully', 'casually', 'cleanly', 'cleverly', 'coolly', 'cordially', 'crisply',
+  'curiously', 'daintily', 'daringly', 'deftly', 'dreamily', 'eagerly', 'earnestly', 'easily', 'elegantly', 'endlessly',
+  'evenly', 'exactly', 'expertly', 'fiercely', 'firmly', 'fondly', 'frankly', 'freely', 'freshly', 'fully',
+  'gaily', 'gallantly', 'gently', 'gladly', 'gleefully', 'grandly', 'handily', 'happily', 'hastily', 'heartily',
+  'helpfully', 'honestly', 'hopefully', 'humbly', 'idly', 'instantly', 'intently', 'jauntily', 'jovially', 'joyfully',
+  'joyously', 'keenly', 'kindly', 'lazily', 'lightly', 'loftily', 'loudly', 'lovingly', 'loyally', 'luckily',
+  'merrily', 'mightily', 'mildly', 'modestly', 'neatly', 'nicely', 'nimbly', 'nobly', 'openly', 'patiently',
+  'playfully', 'politely', 'promptly', 'properly', 'proudly', 'quickly', 'quietly', 'quirkily', 'rapidly', 'readily',
+  'regally', 'reliably', 'royally', 'safely', 'secretly', 'serenely', 'sharply', 'shyly', 'silently', 'simply',
+  'sincerely', 'slowly', 'smartly', 'smoothly', 'snugly', 'softly', 'soundly', 'speedily', 'steadily', 'stoutly',
+  'strongly', 'subtly', 'suddenly', 'sweetly', 'swiftly', 'tenderly', 'tidily', 'tightly', 'usefully', 'valiantly',
+  'vividly', 'warmly', 'wildly', 'willingly', 'wisely', 'wittily', 'zealously', 'zestfully',
+];
@@ -0,0 +1,182 @@
+/**
+ * Message Localization
+ * Every user-facing message of the analyzers (strength weaknesses and
+ * feedback, crack times, unmet minimum requirements, policy violations and
+ * their details) has a stable message ID and is rendered from a per-locale
+ * catalog. The `report.*` messages label the CLI's analysis report.
+ *
+ * Built-in locales: `en`, `de`, `es`, `fr`, `ja`. Locales are matched
+ * case-insensitively, regional tags fall back to their language
+ * (`de-AT` → `de`), and any message missing from a catalog falls back to
+ * English. Register more locales, or override built-in wording, with
+ * {@link registerLocale}.
+ *
+ * @module i18n
+ */
+
+import { EN_MESSAGES } from './locales/en';
+import { DE_MESSAGES } from './locales/de';
+import { ES_MESSAGES } from './locales/es';
+import { FR_MESSAGES } from './locales/fr';
+import { JA_MESSAGES } from './locales/ja';
+
+/**
+ * Stable identifier of a localized message (e.g. `policy.tooShort`)
+ */
+export type MessageId = keyof typeof EN_MESSAGES;
+
+/**
+ * Complete set of messages for one locale. Placeholders such as
+ * `{minLength}` are filled in from the message parameters.
+ */
+export type MessageCatalog = Record<MessageId, string>;
+
+/**
+ * Values for the placeholders of a message
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Locale used when none is given
+ */
+const FALLBACK_LOCALE = 'en';
+
+/**
+ * Registered catalogs, keyed by normalized locale tag
+ */
+const catalogs = new Map<string, Partial<MessageCatalog>>([
+  ['en', EN_MESSAGES],
+  ['de', DE_MESSAGES],
+  ['es', ES_MESSAGES],
+  ['fr', FR_MESSAGES],
+  ['ja', JA_MESSAGES],
+]);
+
+/**
+ * Locale used when a call does not name one
+ */
+let defaultLocale = FALLBACK_LOCALE;
+
+/**
+ * Normalize a locale tag for lookup (`de_AT` and `de-at` become `de-at`)
+ */
+function normalizeLocale(locale: string): string {
+  return locale.trim().replace(/_/g, '-').toLowerCase();
+}
+
+/**
+ * Catalog lookup order for a locale: the tag itself, then its language,
+ * then English
+ */
+function localeChain(locale: string): string[] {
+  const normalized = normalizeLocale(locale);
+  const language = normalized.split('-')[0] ?? normalized;
+  return [...new Set([normalized, language, FALLBACK_LOCALE])];
+}
+
+/**
+ * Add a locale, or override messages of an existing one
+ *
+ * Messages are merged into any catalog already registered for the tag,
+ * so a partial catalog can reword a few built-in messages.
+ *
+ * @param locale - BCP 47 locale tag (e.g. `it`, `pt-BR`)
+ * @param messages - Messages to add; missing ones fall back to English
+ * @throws Error if the locale tag is empty
+ *
+ * @example
+ * ```typescript
+ * registerLocale('it', {
+ *   'policy.tooShort': 'La password deve contenere almeno {minLength} caratteri',
+ *   // ...
+ * });
+ *
+ * // Reword one English message
+ * registerLocale('en', { 'requirement.number': 'One digit' });
+ * ```
+ */
+export function registerLocale(locale: string, messages: Partial<MessageCatalog>): void {
+  const normalized = normalizeLocale(locale);
+  if (!normalized) {
+    throw new Error('Locale must be a non-empty string');
+  }
+
+  catalogs.set(normalized, { ...catalogs.get(normalized), ...messages });
+}
+
+/**
+ * List the registered locale tags
+ *
+ * @returns Normalized locale tags, built-in ones first
+ */
+export function getAvailableLocales(): string[] {
+  return [...catalogs.keys()];
+}
+
+/**
+ * Check whether a locale, or its language, has a catalog
+ *
+ * @param locale - BCP 47 locale tag
+ * @returns True if messages will not fall back to English entirely
+ */
+export function isLocaleAvailable(locale: string): boolean {
+  const normalized = normalizeLocale(locale);
+  return catalogs.has(normalized) || catalogs.has(normalized.split('-')[0] ?? normalized);
+}
+
+/**
+ * Set the locale used when a call does not pass one
+ *
+ * @param locale - BCP 47 locale tag
+ * @throws Error if neither the locale nor its language is registered
+ *
+ * @example
+ * ```typescript
+ * setDefaultLocale(navigator.language); // e.g. "de-DE"
+ * ```
+ */
+export function setDefaultLocale(locale: string): void {
+  if (!isLocaleAvailable(locale)) {
+    throw new Error(`Unknown locale: "${locale}"`);
+  }
+  defaultLocale = normalizeLocale(locale);
+}
+
+/**
+ * Get the locale used when a call does not pass one
+ *
+ * @returns Normalized locale tag (default: `en`)
+ */
+export function getDefaultLocale(): string {
+  return defaultLocale;
+}
+
+/**
+ * Render a message in a locale
+ *
+ * @param id - Message ID
+ * @param params - Values for the message placeholders
+ * @param locale - BCP 47 locale tag (default: {@link getDefaultLocale})
+ * @returns The localized message, or English if the locale lacks it
+ *
+ * @example
+ * ```typescript
+ * translate('policy.tooShort', { minLength: 15 }, 'de');
+ * // "Das Passwort muss mindestens 15 Zeichen lang sein"
+ * ```
+ */
+export function translate(id: MessageId, params: MessageParams = {}, locale: string = defaultLocale): string {
+  let template: string = EN_MESSAGES[id];
+  for (const tag of localeChain(locale)) {
+    const message = catalogs.get(tag)?.[id];
+    if (message !== undefined) {
+      template = message;
+      break;
+    }
+  }
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    return value === undefined ? placeholder : String(value);
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * German Messages
+ *
+ * @module i18n/locales/de
+ */
+
+import type { MessageCatalog } from '../index';
+
+export const DE_MESSAGES: MessageCatalog = {
+  // Strength analysis: weaknesses and feedback
+  'strength.empty': 'Das Passwort ist leer',
+  'strength.enterPassword': 'Geben Sie ein Passwort ein',
+  'strength.commonPattern': 'Enthält ein häufiges Muster oder Wörterbuchwort',
+  'strength.keyboardPattern': 'Enthält ein Tastaturmuster',
+  'strength.datePattern': 'Enthält eine Jahreszahl oder ein Datum',
+  'strength.repeatedSequence': 'Enthält wiederholte Zeichenfolgen',
+  'strength.personalInfo': 'Enthält persönliche oder seitenbezogene Informationen',
+  'strength.dictionaryWord': 'Enthält Wörter aus einem eigenen Wörterbuch ({words})',
+  'strength.tooShort': 'Das Passwort ist zu kurz (mindestens {minLength} Zeichen)',
+  'strength.lowDiversity': 'Dem Passwort fehlt es an Zeichenvielfalt',
+  'strength.avoidPatterns': 'Vermeiden Sie häufige Muster und erhöhen Sie die Komplexität',
+
+  // zxcvbn warnings
+  'zxcvbn.straightRow': 'Gerade Tastenreihen sind leicht zu erraten',
+  'zxcvbn.shortKeyboardPattern': 'Kurze Tastaturmuster sind leicht zu erraten',
+  'zxcvbn.repeatedCharacters': 'Wiederholungen wie „aaa“ sind leicht zu erraten',
+  'zxcvbn.repeatedBlocks': 'Wiederholungen wie „abcabcabc“ sind kaum schwerer zu erraten als „abc“',
+  'zxcvbn.sequences': 'Folgen wie abc oder 6543 sind leicht zu erraten',
+  'zxcvbn.recentYears': 'Jüngere Jahreszahlen sind leicht zu erraten',
+  'zxcvbn.dates': 'Daten sind oft leicht zu erraten',
+  'zxcvbn.topTen': 'Dies ist eines der 10 häufigsten Passwörter',
+  'zxcvbn.topHundred': 'Dies ist eines der 100 häufigsten Passwörter',
+  'zxcvbn.veryCommon': 'Dies ist ein sehr häufiges Passwort',
+  'zxcvbn.similarToCommon': 'Dies ähnelt einem häufig verwendeten Passwort',
+  'zxcvbn.wordByItself': 'Ein einzelnes Wort ist leicht zu erraten',
+  'zxcvbn.namesByThemselves': 'Vor- und Nachnamen allein sind leicht zu erraten',
+  'zxcvbn.commonNames': 'Häufige Vor- und Nachnamen sind leicht zu erraten',
+
+  // zxcvbn suggestions
+  'zxcvbn.useFewWords': 'Verwenden Sie mehrere Wörter und vermeiden Sie gängige Redewendungen',
+  'zxcvbn.noNeedForSymbols': 'Sonderzeichen, Ziffern oder Großbuchstaben sind nicht nötig',
+  'zxcvbn.addAnotherWord': 'Fügen Sie ein oder zwei Wörter hinzu. Ungewöhnliche Wörter sind besser.',
+  'zxcvbn.longerKeyboardPattern': 'Verwenden Sie ein längeres Tastaturmuster mit mehr Richtungswechseln',
+  'zxcvbn.avoidRepeats': 'Vermeiden Sie wiederholte Wörter und Zeichen',
+  'zxcvbn.avoidSequences': 'Vermeiden Sie Zeichenfolgen',
+  'zxcvbn.avoidRecentYears': 'Vermeiden Sie jüngere Jahreszahlen',
+  'zxcvbn.avoidAssociatedYears': 'Vermeiden Sie Jahreszahlen, die mit Ihnen in Verbindung stehen',
+  'zxcvbn.avoidAssociatedDates': 'Vermeiden Sie Daten und Jahreszahlen, die mit Ihnen in Verbindung stehen',
+  'zxcvbn.capitalization': 'Großschreibung hilft kaum',
+  'zxcvbn.allUppercase': 'Nur Großbuchstaben sind fast so leicht zu erraten wie nur Kleinbuchstaben',
+  'zxcvbn.reversedWords': 'Rückwärts geschriebene Wörter sind kaum schwerer zu erraten',
+  'zxcvbn.predictableSubstitutions': 'Vorhersehbare Ersetzungen wie „@“ statt „a“ helfen kaum',
+
+  // Minimum requirements
+  'requirement.minLength': 'Mindestens {minLength} Zeichen',
+  'requirement.maxLength': 'Höchstens {maxLength} Zeichen',
+  'requirement.lowercase': 'Ein Kleinbuchstabe',
+  'requirement.uppercase': 'Ein Großbuchstabe',
+  'requirement.number': 'Eine Ziffer',
+  'requirement.letter': 'Ein Buchstabe',
+  'requirement.symbol': 'Ein Sonderzeichen',
+  'requirement.noBannedPatterns': 'Keine gängigen Wörter oder Muster',
+
+  // Policy violations
+  'policy.tooShort': 'Das Passwort muss mindestens {minLength} Zeichen lang sein',
+  'policy.tooLong': 'Das Passwort darf höchstens {maxLength} Zeichen lang sein',
+  'policy.disallowedCharacters': 'Das Passwort enthält unzulässige Zeichen',
+  'policy.commonPassword': 'Dieses Passwort wurde in Datenlecks gefunden und ist zu häufig',
+  'policy.keyboardPattern': 'Das Passwort enthält ein häufiges Tastaturmuster',
+  'policy.repetitivePattern': 'Das Passwort enthält ein sich wiederholendes Muster',
+  'policy.sequentialPattern': 'Das Passwort enthält eine fortlaufende Zeichenfolge',
+  'policy.datePattern': 'Das Passwort enthält ein Datum',
+  'policy.contextWords': 'Das Passwort enthält persönliche oder dienstbezogene Informationen',
+  'policy.tooGuessable': 'Das Passwort ist zu leicht zu erraten',
+
+  // Policy violation details
+  'policy.detail.currentLength': 'Aktuelle Länge: {length}',
+  'policy.detail.commonPassword': 'Das Passwort steht in der Liste häufiger Passwörter',
+  'policy.detail.keyboardPattern': 'Tastaturmuster „{pattern}“ gefunden',
+  'policy.detail.repetitivePattern': 'Wiederholungsmuster „{pattern}“ gefunden',
+  'policy.detail.repeatedCharacter': 'Wiederholtes Zeichen „{character}“ gefunden',
+  'policy.detail.sequentialPattern': 'Zeichenfolge „{pattern}“ gefunden',
+  'policy.detail.reversedSequentialPattern': 'Zeichenfolge „{pattern}“ gefunden (rückwärts)',
+  'policy.detail.datePattern': 'Jahreszahl „{year}“ gefunden',
+  'policy.detail.contextWords': 'Gefunden: {words}',
+  'policy.detail.customRule': 'Regel: {rule}',
+  'policy.detail.estimatorScore': 'Schätzer „{estimator}“ ergab {score}/4',
+
+  // Crack time display
+  'crackTime.instant': 'sofort',
+  'crackTime.second': '{count} Sekunde',
+  'crackTime.seconds': '{count} Sekunden',
+  'crackTime.minute': '{count} Minute',
+  'crackTime.minutes': '{count} Minuten',
+  'crackTime.hour': '{count} Stunde',
+  'crackTime.hours': '{count} Stunden',
+  'crackTime.day': '{count} Tag',
+  'crackTime.days': '{count} Tage',
+  'crackTime.month': '{count} Monat',
+  'crackTime.months': '{count} Monate',
+  'crackTime.year': '{count} Jahr',
+  'crackTime.years': '{count} Jahre',
+  'crackTime.centuries': 'Jahrhunderte',
+
+  // Analysis report (CLI)
+  'report.title': 'Analyse der Passwortstärke',
+  'report.score': 'Gesamtwertung',
+  'report.strength': 'Stärke',
+  'report.entropy': 'Entropie',
+  'report.entropyBits': '{bits} Bit',
+  'report.crackTime': 'Zeit zum Knacken',
+  'report.crackTimes': 'Zeit zum Knacken nach Szenario',
+  'report.onlineThrottled': 'Online, gedrosselt',
+  'report.onlineUnthrottled': 'Online, ungedrosselt',
+  'report.offlineSlowHash': 'Offline, langsamer Hash',
+  'report.offlineFastHash': 'Offline, schneller Hash',
+  'report.offlineHash': 'Offline mit {algorithm}',
+  'report.warning': 'Warnung',
+  'report.suggestions': 'Vorschläge',
+  'report.weaknesses': 'Schwächen',
+  'report.level.weak': 'schwach',
+  'report.level.medium': 'mittel',
+  'report.level.strong': 'stark',
+  'report.level.very-strong': 'sehr stark',
+};
@@ -0,0 +1,126 @@
+/**
+ * English Messages
+ * The reference catalog: every message ID is defined here, and other
+ * locales fall back to it for any message they leave out. The zxcvbn
+ * entries repeat zxcvbn's own English feedback word for word.
+ *
+ * @module i18n/locales/en
+ */
+
+export const EN_MESSAGES = {
+  // Strength analysis: weaknesses and feedback
+  'strength.empty': 'Password is empty',
+  'strength.enterPassword': 'Enter a password',
+  'strength.commonPattern': 'Contains common pattern or dictionary word',
+  'strength.keyboardPattern': 'Contains keyboard pattern',
+  'strength.datePattern': 'Contains year or date pattern',
+  'strength.repeatedSequence': 'Contains repeated sequences',
+  'strength.personalInfo': 'Contains personal or site-specific information',
+  'strength.dictionaryWord': 'Contains words from a custom dictionary ({words})',
+  'strength.tooShort': 'Password is too short (minimum {minLength} characters)',
+  'strength.lowDiversity': 'Password lacks character diversity',
+  'strength.avoidPatterns': 'Avoid common patterns and increase complexity',
+
+  // zxcvbn warnings
+  'zxcvbn.straightRow': 'Straight rows of keys are easy to guess',
+  'zxcvbn.shortKeyboardPattern': 'Short keyboard patterns are easy to guess',
+  'zxcvbn.repeatedCharacters': 'Repeats like "aaa" are easy to guess',
+  'zxcvbn.repeatedBlocks': 'Repeats like "abcabcabc" are only slightly harder to guess than "abc"',
+  'zxcvbn.sequences': 'Sequences like abc or 6543 are easy to guess',
+  'zxcvbn.recentYears': 'Recent years are easy to guess',
+  'zxcvbn.dates': 'Dates are often easy to guess',
+  'zxcvbn.topTen': 'This is a top-10 common password',
+  'zxcvbn.topHundred': 'This is a top-100 common password',
+  'zxcvbn.veryCommon': 'This is a very common password',
+  'zxcvbn.similarToCommon': 'This is similar to a commonly used password',
+  'zxcvbn.wordByItself': 'A word by itself is easy to guess',
+  'zxcvbn.namesByThemselves': 'Names and surnames by themselves are easy to guess',
+  'zxcvbn.commonNames': 'Common names and surnames are easy to guess',
+
+  // zxcvbn suggestions
+  'zxcvbn.useFewWords': 'Use a few words, avoid common phrases',
+  'zxcvbn.noNeedForSymbols': 'No need for symbols, digits, or uppercase letters',
+  'zxcvbn.addAnotherWord': 'Add another word or two. Uncommon words are better.',
+  'zxcvbn.longerKeyboardPattern': 'Use a longer keyboard pattern with more turns',
+  'zxcvbn.avoidRepeats': 'Avoid repeated words and characters',
+  'zxcvbn.avoidSequences': 'Avoid sequences',
+  'zxcvbn.avoidRecentYears': 'Avoid recent years',
+  'zxcvbn.avoidAssociatedYears': 'Avoid years that are associated with you',
+  'zxcvbn.avoidAssociatedDates': 'Avoid dates and years that are associated with you',
+  'zxcvbn.capitalization': "Capitalization doesn't help very much",
+  'zxcvbn.allUppercase': 'All-uppercase is almost as easy to guess as all-lowercase',
+  'zxcvbn.reversedWords': "Reversed words aren't much harder to guess",
+  'zxcvbn.predictableSubstitutions': "Predictable substitutions like '@' instead of 'a' don't help very much",
+
+  // Minimum requirements
+  'requirement.minLength': 'At least {minLength} characters',
+  'requirement.maxLength': 'At most {maxLength} characters',
+  'requirement.lowercase': 'One lowercase letter',
+  'requirement.uppercase': 'One uppercase letter',
+  'requirement.number': 'One number',
+  'requirement.letter': 'One letter',
+  'requirement.symbol': 'One symbol',
+  'requirement.noBannedPatterns': 'No common words or patterns',
+
+  // Policy violations
+  'policy.tooShort': 'Password must be at least {minLength} characters long',
+  'policy.tooLong': 'Password must not exceed {maxLength} characters',
+  'policy.disallowedCharacters': 'Password contains disallowed characters',
+  'policy.commonPassword': 'This password has been found in data breaches and is too common',
+  'policy.keyboardPattern': 'Password contains common keyboard pattern',
+  'policy.repetitivePattern': 'Password contains repetitive pattern',
+  'policy.sequentialPattern': 'Password contains sequential pattern',
+  'policy.datePattern': 'Password contains date pattern',
+  'policy.contextWords': 'Password contains personal or service-related information',
+  'policy.tooGuessable': 'Password is too easy to guess',
+
+  // Policy violation details
+  'policy.detail.currentLength': 'Current length: {length}',
+  'policy.detail.commonPassword': 'Password appears in common password list',
+  'policy.detail.keyboardPattern': 'Found keyboard pattern "{pattern}"',
+  'policy.detail.repetitivePattern': 'Found repetitive pattern "{pattern}"',
+  'policy.detail.repeatedCharacter': 'Found repeated character "{character}"',
+  'policy.detail.sequentialPattern': 'Found sequential pattern "{pattern}"',
+  'policy.detail.reversedSequentialPattern': 'Found sequential pattern "{pattern}" (reversed)',
+  'policy.detail.datePattern': 'Found year pattern "{year}"',
+  'policy.detail.contextWords': 'Found: {words}',
+  'policy.detail.customRule': 'Rule: {rule}',
+  'policy.detail.estimatorScore': 'Estimator "{estimator}" scored {score}/4',
+
+  // Crack time display
+  'crackTime.instant': 'instant',
+  'crackTime.second': '{count} second',
+  'crackTime.seconds': '{count} seconds',
+  'crackTime.minute': '{count} minute',
+  'crackTime.minutes': '{count} minutes',
+  'crackTime.hour': '{count} hour',
+  'crackTime.hours': '{count} hours',
+  'crackTime.day': '{count} day',
+  'crackTime.days': '{count} days',
+  'crackTime.month': '{count} month',
+  'crackTime.months': '{count} months',
+  'crackTime.year': '{count} year',
+  'crackTime.years': '{count} years',
+  'crackTime.centuries': 'centuries',
+
+  // Analysis report (CLI)
+  'report.title': 'Password Strength Analysis',
+  'report.score': 'Overall Score',
+  'report.strength': 'Strength',
+  'report.entropy': 'Entropy',
+  'report.entropyBits': '{bits} bits',
+  'report.crackTime': 'Crack Time',
+  'report.crackTimes': 'Crack Times by Scenario',
+  'report.onlineThrottled': 'Online, throttled',
+  'report.onlineUnthrottled': 'Online, unthrottled',
+  'report.offlineSlowHash': 'Offline, slow hash',
+  'report.offlineFastHash': 'Offline, fast hash',
+  'report.offlineHash': 'Offline, {algorithm}',
+  'report.warning': 'Warning',
+  'report.suggestions': 'Suggestions',
+  'report.weaknesses': 'Weaknesses',
+  'report.level.weak': 'weak',
+  'report.level.medium': 'medium',
+  'report.level.strong': 'strong',
+  'report.level.very-strong': 'very-strong',
+};
@@ -0,0 +1,126 @@
+/**
+ * Spanish Messages
+ *
+ * @module i18n/locales/es
+ */
+
+import type { MessageCatalog } from '../index';
+
+export const ES_MESSAGES: MessageCatalog = {
+  // Strength analysis: weaknesses and feedback
+  'strength.empty': 'La contraseña está vacía',
+  'strength.enterPassword': 'Introduce una contraseña',
+  'strength.commonPattern': 'Contiene un patrón común o una palabra de diccionario',
+  'strength.keyboardPattern': 'Contiene un patrón de teclado',
+  'strength.datePattern': 'Contiene un año o una fecha',
+  'strength.repeatedSequence': 'Contiene secuencias repetidas',
+  'strength.personalInfo': 'Contiene información personal o relacionada con el sitio',
+  'strength.dictionaryWord': 'Contiene palabras de un diccionario personalizado ({words})',
+  'strength.tooShort': 'La contraseña es demasiado corta (mínimo {minLength} caracteres)',
+  'strength.lowDiversity': 'A la contraseña le falta variedad de caracteres',
+  'strength.avoidPatterns': 'Evita los patrones comunes y aumenta la complejidad',
+
+  // zxcvbn warnings
+  'zxcvbn.straightRow': 'Las filas rectas de teclas son fáciles de adivinar',
+  'zxcvbn.shortKeyboardPattern': 'Los patrones de teclado cortos son fáciles de adivinar',
+  'zxcvbn.repeatedCharacters': 'Las repeticiones como «aaa» son fáciles de adivinar',
+  'zxcvbn.repeatedBlocks': 'Las repeticiones como «abcabcabc» son apenas más difíciles de adivinar que «abc»',
+  'zxcvbn.sequences': 'Las secuencias como abc o 6543 son fáciles de adivinar',
+  'zxcvbn.recentYears': 'Los años recientes son fáciles de adivinar',
+  'zxcvbn.dates': 'Las fechas suelen ser fáciles de adivinar',
+  'zxcvbn.topTen': 'Esta es una de las 10 contraseñas más comunes',
+  'zxcvbn.topHundred': 'Esta es una de las 100 contraseñas más comunes',
+  'zxcvbn.veryCommon': 'Esta es una contraseña muy común',
+  'zxcvbn.similarToCommon': 'Se parece a una contraseña de uso frecuente',
+  'zxcvbn.wordByItself': 'Una palabra sola es fácil de adivinar',
+  'zxcvbn.namesByThemselves': 'Los nombres y apellidos por sí solos son fáciles de adivinar',
+  'zxcvbn.commonNames': 'Los nombres y apellidos comunes son fáciles de adivinar',
+
+  // zxcvbn suggestions
+  'zxcvbn.useFewWords': 'Usa varias palabras y evita las frases hechas',
+  'zxcvbn.noNeedForSymbols': 'No hacen falta símbolos, números ni mayúsculas',
+  'zxcvbn.addAnotherWord': 'Añade una o dos palabras más. Las palabras poco comunes son mejores.',
+  'zxcvbn.longerKeyboardPattern': 'Usa un patrón de teclado más largo y con más giros',
+  'zxcvbn.avoidRepeats': 'Evita repetir palabras y caracteres',
+  'zxcvbn.avoidSequences': 'Evita las secuencias',
+  'zxcvbn.avoidRecentYears': 'Evita los años recientes',
+  'zxcvbn.avoidAssociatedYears': 'Evita los años relacionados contigo',
+  'zxcvbn.avoidAssociatedDates': 'Evita las fechas y los años relacionados contigo',
+  'zxcvbn.capitalization': 'Las mayúsculas no ayudan mucho',
+  'zxcvbn.allUppercase': 'Todo en mayúsculas es casi tan fácil de adivinar como todo en minúsculas',
+  'zxcvbn.reversedWords': 'Las palabras al revés no son mucho más difíciles de adivinar',
+  'zxcvbn.predictableSubstitutions': 'Las sustituciones predecibles como «@» en lugar de «a» no ayudan mucho',
+
+  // Minimum requirements
+  'requirement.minLength': 'Al menos {minLength} caracteres',
+  'requirement.maxLength': 'Como máximo {maxLength} caracteres',
+  'requirement.lowercase': 'Una letra minúscula',
+  'requirement.uppercase': 'Una letra mayúscula',
+  'requirement.number': 'Un número',
+  'requirement.letter': 'Una letra',
+  'requirement.symbol': 'Un símbolo',
+  'requirement.noBannedPatterns': 'Sin palabras ni patrones comunes',
+
+  // Policy violations
+  'policy.tooShort': 'La contraseña debe tener al menos {minLength} caracteres',
+  'policy.tooLong': 'La contraseña no debe superar los {maxLength} caracteres',
+  'policy.disallowedCharacters': 'La contraseña contiene caracteres no permitidos',
+  'policy.commonPassword': 'Esta contraseña ha aparecido en filtraciones de datos y es demasiado común',
+  'policy.keyboardPattern': 'La contraseña contiene un patrón de teclado común',
+  'policy.repetitivePattern': 'La contraseña contiene un patrón repetitivo',
+  'policy.sequentialPattern': 'La contraseña contiene una secuencia',
+  'policy.datePattern': 'La contraseña contiene una fecha',
+  'policy.contextWords': 'La contraseña contiene información personal o relacionada con el servicio',
+  'policy.tooGuessable': 'La contraseña es demasiado fácil de adivinar',
+
+  // Policy violation details
+  'policy.detail.currentLength': 'Longitud actual: {length}',
+  'policy.detail.commonPassword': 'La contraseña figura en la lista de contraseñas comunes',
+  'policy.detail.keyboardPattern': 'Se encontró el patrón de teclado «{pattern}»',
+  'policy.detail.repetitivePattern': 'Se encontró el patrón repetitivo «{pattern}»',
+  'policy.detail.repeatedCharacter': 'Se encontró el carácter repetido «{character}»',
+  'policy.detail.sequentialPattern': 'Se encontró la secuencia «{pattern}»',
+  'policy.detail.reversedSequentialPattern': 'Se encontró la secuencia «{pattern}» (invertida)',
+  'policy.detail.datePattern': 'Se encontró el año «{year}»',
+  'policy.detail.contextWords': 'Encontrado: {words}',
+  'policy.detail.customRule': 'Regla: {rule}',
+  'policy.detail.estimatorScore': 'El estimador «{estimator}» dio {score}/4',
+
+  // Crack time display
+  'crackTime.instant': 'al instante',
+  'crackTime.second': '{count} segundo',
+  'crackTime.seconds': '{count} segundos',
+  'crackTime.minute': '{count} minuto',
+  'crackTime.minutes': '{count} minutos',
+  'crackTime.hour': '{count} hora',
+  'crackTime.hours': '{count} horas',
+  'crackTime.day': '{count} día',
+  'crackTime.days': '{count} días',
+  'crackTime.month': '{count} mes',
+  'crackTime.months': '{count} meses',
+  'crackTime.year': '{count} año',
+  'crackTime.years': '{count} años',
+  'crackTime.centuries': 'siglos',
+
+  // Analysis report (CLI)
+  'report.title': 'Análisis de la fortaleza de la contraseña',
+  'report.score': 'Puntuación total',
+  'report.strength': 'Fortaleza',
+  'report.entropy': 'Entropía',
+  // A non-breaking space keeps the number with its unit
+  'report.entropyBits': '{bits}\u00a0bits',
+  'report.crackTime': 'Tiempo para descifrarla',
+  'report.crackTimes': 'Tiempos para descifrarla por escenario',
+  'report.onlineThrottled': 'En línea, limitado',
+  'report.onlineUnthrottled': 'En línea, sin límite',
+  'report.offlineSlowHash': 'Sin conexión, hash lento',
+  'report.offlineFastHash': 'Sin conexión, hash rápido',
+  'report.offlineHash': 'Sin conexión, {algorithm}',
+  'report.warning': 'Advertencia',
+  'report.suggestions': 'Sugerencias',
+  'report.weaknesses': 'Debilidades',
+  'report.level.weak': 'débil',
+  'report.level.medium': 'media',
+  'report.level.strong': 'fuerte',
+  'report.level.very-strong': 'muy fuerte',
+};
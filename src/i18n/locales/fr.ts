@@ -0,0 +1,125 @@
+/**
+ * French Messages
+ *
+ * @module i18n/locales/fr
+ */
+
+import type { MessageCatalog } from '../index';
+
+export const FR_MESSAGES: MessageCatalog = {
+  // Strength analysis: weaknesses and feedback
+  'strength.empty': 'Le mot de passe est vide',
+  'strength.enterPassword': 'Saisissez un mot de passe',
+  'strength.commonPattern': 'Contient un motif courant ou un mot du dictionnaire',
+  'strength.keyboardPattern': 'Contient un motif de clavier',
+  'strength.datePattern': 'Contient une année ou une date',
+  'strength.repeatedSequence': 'Contient des séquences répétées',
+  'strength.personalInfo': 'Contient des informations personnelles ou propres au site',
+  'strength.dictionaryWord': 'Contient des mots d’un dictionnaire personnalisé ({words})',
+  'strength.tooShort': 'Le mot de passe est trop court ({minLength} caractères minimum)',
+  'strength.lowDiversity': 'Le mot de passe manque de variété de caractères',
+  'strength.avoidPatterns': 'Évitez les motifs courants et augmentez la complexité',
+
+  // zxcvbn warnings
+  'zxcvbn.straightRow': 'Les rangées de touches droites sont faciles à deviner',
+  'zxcvbn.shortKeyboardPattern': 'Les motifs de clavier courts sont faciles à deviner',
+  'zxcvbn.repeatedCharacters': 'Les répétitions comme « aaa » sont faciles à deviner',
+  'zxcvbn.repeatedBlocks': 'Les répétitions comme « abcabcabc » sont à peine plus difficiles à deviner que « abc »',
+  'zxcvbn.sequences': 'Les suites comme abc ou 6543 sont faciles à deviner',
+  'zxcvbn.recentYears': 'Les années récentes sont faciles à deviner',
+  'zxcvbn.dates': 'Les dates sont souvent faciles à deviner',
+  'zxcvbn.topTen': 'Ce mot de passe fait partie des 10 plus courants',
+  'zxcvbn.topHundred': 'Ce mot de passe fait partie des 100 plus courants',
+  'zxcvbn.veryCommon': 'Ce mot de passe est très courant',
+  'zxcvbn.similarToCommon': 'Ce mot de passe ressemble à un mot de passe très utilisé',
+  'zxcvbn.wordByItself': 'Un mot seul est facile à deviner',
+  'zxcvbn.namesByThemselves': 'Les prénoms et noms de famille seuls sont faciles à deviner',
+  'zxcvbn.commonNames': 'Les prénoms et noms de famille courants sont faciles à deviner',
+
+  // zxcvbn suggestions
+  'zxcvbn.useFewWords': 'Utilisez plusieurs mots et évitez les expressions courantes',
+  'zxcvbn.noNeedForSymbols': 'Pas besoin de symboles, de chiffres ni de majuscules',
+  'zxcvbn.addAnotherWord': 'Ajoutez un ou deux mots. Les mots peu courants sont préférables.',
+  'zxcvbn.longerKeyboardPattern': 'Utilisez un motif de clavier plus long avec plus de changements de direction',
+  'zxcvbn.avoidRepeats': 'Évitez les mots et caractères répétés',
+  'zxcvbn.avoidSequences': 'Évitez les suites',
+  'zxcvbn.avoidRecentYears': 'Évitez les années récentes',
+  'zxcvbn.avoidAssociatedYears': 'Évitez les années qui vous sont associées',
+  'zxcvbn.avoidAssociatedDates': 'Évitez les dates et années qui vous sont associées',
+  'zxcvbn.capitalization': 'Les majuscules n’aident pas beaucoup',
+  'zxcvbn.allUppercase': 'Tout en majuscules est presque aussi facile à deviner que tout en minuscules',
+  'zxcvbn.reversedWords': 'Les mots inversés ne sont pas beaucoup plus difficiles à deviner',
+  'zxcvbn.predictableSubstitutions': 'Les substitutions prévisibles comme « @ » au lieu de « a » n’aident pas beaucoup',
+
+  // Minimum requirements
+  'requirement.minLength': 'Au moins {minLength} caractères',
+  'requirement.maxLength': 'Au plus {maxLength} caractères',
+  'requirement.lowercase': 'Une lettre minuscule',
+  'requirement.uppercase': 'Une lettre majuscule',
+  'requirement.number': 'Un chiffre',
+  'requirement.letter': 'Une lettre',
+  'requirement.symbol': 'Un symbole',
+  'requirement.noBannedPatterns': 'Aucun mot ni motif courant',
+
+  // Policy violations
+  'policy.tooShort': 'Le mot de passe doit contenir au moins {minLength} caractères',
+  'policy.tooLong': 'Le mot de passe ne doit pas dépasser {maxLength} caractères',
+  'policy.disallowedCharacters': 'Le mot de passe contient des caractères non autorisés',
+  'policy.commonPassword': 'Ce mot de passe figure dans des fuites de données et est trop courant',
+  'policy.keyboardPattern': 'Le mot de passe contient un motif de clavier courant',
+  'policy.repetitivePattern': 'Le mot de passe contient un motif répétitif',
+  'policy.sequentialPattern': 'Le mot de passe contient une suite de caractères',
+  'policy.datePattern': 'Le mot de passe contient une date',
+  'policy.contextWords': 'Le mot de passe contient des informations personnelles ou liées au service',
+  'policy.tooGuessable': 'Le mot de passe est trop facile à deviner',
+
+  // Policy violation details
+  'policy.detail.currentLength': 'Longueur actuelle : {length}',
+  'policy.detail.commonPassword': 'Le mot de passe figure dans la liste des mots de passe courants',
+  'policy.detail.keyboardPattern': 'Motif de clavier « {pattern} » trouvé',
+  'policy.detail.repetitivePattern': 'Motif répétitif « {pattern} » trouvé',
+  'policy.detail.repeatedCharacter': 'Caractère répété « {character} » trouvé',
+  'policy.detail.sequentialPattern': 'Suite « {pattern} » trouvée',
+  'policy.detail.reversedSequentialPattern': 'Suite « {pattern} » trouvée (inversée)',
+  'policy.detail.datePattern': 'Année « {year} » trouvée',
+  'policy.detail.contextWords': 'Trouvé : {words}',
+  'policy.detail.customRule': 'Règle : {rule}',
+  'policy.detail.estimatorScore': 'L’estimateur « {estimator} » a donné {score}/4',
+
+  // Crack time display (a non-breaking space keeps the number with its unit)
+  'crackTime.instant': 'instantané',
+  'crackTime.second': '{count}\u00a0seconde',
+  'crackTime.seconds': '{count}\u00a0secondes',
+  'crackTime.minute': '{count}\u00a0minute',
+  'crackTime.minutes': '{count}\u00a0minutes',
+  'crackTime.hour': '{count}\u00a0heure',
+  'crackTime.hours': '{count}\u00a0heures',
+  'crackTime.day': '{count}\u00a0jour',
+  'crackTime.days': '{count}\u00a0jours',
+  'crackTime.month': '{count}\u00a0mois',
+  'crackTime.months': '{count}\u00a0mois',
+  'crackTime.year': '{count}\u00a0an',
+  'crackTime.years': '{count}\u00a0ans',
+  'crackTime.centuries': 'des siècles',
+
+  // Analysis report (CLI)
+  'report.title': 'Analyse de la robustesse du mot de passe',
+  'report.score': 'Score global',
+  'report.strength': 'Robustesse',
+  'report.entropy': 'Entropie',
+  'report.entropyBits': '{bits}\u00a0bits',
+  'report.crackTime': 'Temps de cassage',
+  'report.crackTimes': 'Temps de cassage par scénario',
+  'report.onlineThrottled': 'En ligne, limité',
+  'report.onlineUnthrottled': 'En ligne, sans limite',
+  'report.offlineSlowHash': 'Hors ligne, hachage lent',
+  'report.offlineFastHash': 'Hors ligne, hachage rapide',
+  'report.offlineHash': 'Hors ligne, {algorithm}',
+  'report.warning': 'Avertissement',
+  'report.suggestions': 'Conseils',
+  'report.weaknesses': 'Faiblesses',
+  'report.level.weak': 'faible',
+  'report.level.medium': 'moyen',
+  'report.level.strong': 'fort',
+  'report.level.very-strong': 'très fort',
+};
@@ -0,0 +1,125 @@
+/**
+ * Japanese Messages
+ *
+ * @module i18n/locales/ja
+ */
+
+import type { MessageCatalog } from '../index';
+
+export const JA_MESSAGES: MessageCatalog = {
+  // Strength analysis: weaknesses and feedback
+  'strength.empty': 'パスワードが空です',
+  'strength.enterPassword': 'パスワードを入力してください',
+  'strength.commonPattern': 'よくあるパターンまたは辞書の単語が含まれています',
+  'strength.keyboardPattern': 'キーボードの並びが含まれています',
+  'strength.datePattern': '年または日付が含まれています',
+  'strength.repeatedSequence': '繰り返しの文字列が含まれています',
+  'strength.personalInfo': '個人情報またはサイト固有の情報が含まれています',
+  'strength.dictionaryWord': 'カスタム辞書の単語が含まれています（{words}）',
+  'strength.tooShort': 'パスワードが短すぎます（{minLength}文字以上）',
+  'strength.lowDiversity': 'パスワードの文字の種類が少なすぎます',
+  'strength.avoidPatterns': 'よくあるパターンを避け、複雑さを高めてください',
+
+  // zxcvbn warnings
+  'zxcvbn.straightRow': 'キーボードの一列の並びは推測されやすいです',
+  'zxcvbn.shortKeyboardPattern': '短いキーボードパターンは推測されやすいです',
+  'zxcvbn.repeatedCharacters': '「aaa」のような繰り返しは推測されやすいです',
+  'zxcvbn.repeatedBlocks': '「abcabcabc」のような繰り返しは「abc」とほとんど変わらず推測されやすいです',
+  'zxcvbn.sequences': 'abc や 6543 のような連続した文字は推測されやすいです',
+  'zxcvbn.recentYears': '最近の年は推測されやすいです',
+  'zxcvbn.dates': '日付は推測されやすいことが多いです',
+  'zxcvbn.topTen': 'よく使われるパスワードの上位10位以内です',
+  'zxcvbn.topHundred': 'よく使われるパスワードの上位100位以内です',
+  'zxcvbn.veryCommon': '非常によく使われるパスワードです',
+  'zxcvbn.similarToCommon': 'よく使われるパスワードに似ています',
+  'zxcvbn.wordByItself': '単語ひとつだけでは推測されやすいです',
+  'zxcvbn.namesByThemselves': '名前や名字だけでは推測されやすいです',
+  'zxcvbn.commonNames': 'よくある名前や名字は推測されやすいです',
+
+  // zxcvbn suggestions
+  'zxcvbn.useFewWords': '複数の単語を使い、よくある言い回しは避けてください',
+  'zxcvbn.noNeedForSymbols': '記号、数字、大文字は必須ではありません',
+  'zxcvbn.addAnotherWord': '単語をもう1つか2つ追加してください。珍しい単語ほど効果的です。',
+  'zxcvbn.longerKeyboardPattern': '曲がり角の多い、より長いキーボードパターンを使ってください',
+  'zxcvbn.avoidRepeats': '単語や文字の繰り返しは避けてください',
+  'zxcvbn.avoidSequences': '連続した文字は避けてください',
+  'zxcvbn.avoidRecentYears': '最近の年は避けてください',
+  'zxcvbn.avoidAssociatedYears': 'あなたに関係のある年は避けてください',
+  'zxcvbn.avoidAssociatedDates': 'あなたに関係のある日付や年は避けてください',
+  'zxcvbn.capitalization': '大文字にしてもあまり効果はありません',
+  'zxcvbn.allUppercase': 'すべて大文字でも、すべて小文字とほぼ同じくらい推測されやすいです',
+  'zxcvbn.reversedWords': '単語を逆さにしても推測の難しさはあまり変わりません',
+  'zxcvbn.predictableSubstitutions': '「a」の代わりに「@」を使うような予測しやすい置き換えはあまり効果がありません',
+
+  // Minimum requirements
+  'requirement.minLength': '{minLength}文字以上',
+  'requirement.maxLength': '{maxLength}文字以内',
+  'requirement.lowercase': '小文字を1文字以上',
+  'requirement.uppercase': '大文字を1文字以上',
+  'requirement.number': '数字を1文字以上',
+  'requirement.letter': '英字を1文字以上',
+  'requirement.symbol': '記号を1文字以上',
+  'requirement.noBannedPatterns': 'よくある単語やパターンを含まない',
+
+  // Policy violations
+  'policy.tooShort': 'パスワードは{minLength}文字以上にしてください',
+  'policy.tooLong': 'パスワードは{maxLength}文字以内にしてください',
+  'policy.disallowedCharacters': 'パスワードに使用できない文字が含まれています',
+  'policy.commonPassword': 'このパスワードはデータ漏えいで見つかっており、よく使われすぎています',
+  'policy.keyboardPattern': 'パスワードによくあるキーボードの並びが含まれています',
+  'policy.repetitivePattern': 'パスワードに繰り返しのパターンが含まれています',
+  'policy.sequentialPattern': 'パスワードに連続した文字が含まれています',
+  'policy.datePattern': 'パスワードに日付が含まれています',
+  'policy.contextWords': 'パスワードに個人情報またはサービスに関連する情報が含まれています',
+  'policy.tooGuessable': 'パスワードが推測されやすすぎます',
+
+  // Policy violation details
+  'policy.detail.currentLength': '現在の長さ: {length}',
+  'policy.detail.commonPassword': 'パスワードがよく使われるパスワードの一覧にあります',
+  'policy.detail.keyboardPattern': 'キーボードの並び「{pattern}」が見つかりました',
+  'policy.detail.repetitivePattern': '繰り返しのパターン「{pattern}」が見つかりました',
+  'policy.detail.repeatedCharacter': '繰り返された文字「{character}」が見つかりました',
+  'policy.detail.sequentialPattern': '連続した文字「{pattern}」が見つかりました',
+  'policy.detail.reversedSequentialPattern': '連続した文字「{pattern}」が見つかりました（逆順）',
+  'policy.detail.datePattern': '年「{year}」が見つかりました',
+  'policy.detail.contextWords': '見つかった語: {words}',
+  'policy.detail.customRule': 'ルール: {rule}',
+  'policy.detail.estimatorScore': '推定器「{estimator}」の評価は{score}/4です',
+
+  // Crack time display
+  'crackTime.instant': '即座',
+  'crackTime.second': '{count}秒',
+  'crackTime.seconds': '{count}秒',
+  'crackTime.minute': '{count}分',
+  'crackTime.minutes': '{count}分',
+  'crackTime.hour': '{count}時間',
+  'crackTime.hours': '{count}時間',
+  'crackTime.day': '{count}日',
+  'crackTime.days': '{count}日',
+  'crackTime.month': '{count}か月',
+  'crackTime.months': '{count}か月',
+  'crackTime.year': '{count}年',
+  'crackTime.years': '{count}年',
+  'crackTime.centuries': '数世紀',
+
+  // Analysis report (CLI)
+  'report.title': 'パスワード強度の分析',
+  'report.score': '総合スコア',
+  'report.strength': '強度',
+  'report.entropy': 'エントロピー',
+  'report.entropyBits': '{bits}ビット',
+  'report.crackTime': '解読時間',
+  'report.crackTimes': 'シナリオ別の解読時間',
+  'report.onlineThrottled': 'オンライン、制限あり',
+  'report.onlineUnthrottled': 'オンライン、制限なし',
+  'report.offlineSlowHash': 'オフライン、低速ハッシュ',
+  'report.offlineFastHash': 'オフライン、高速ハッシュ',
+  'report.offlineHash': 'オフライン、{algorithm}',
+  'report.warning': '警告',
+  'report.suggestions': '提案',
+  'report.weaknesses': '弱点',
+  'report.level.weak': '弱い',
+  'report.level.medium': '普通',
+  'report.level.strong': '強い',
+  'report.level.very-strong': '非常に強い',
+};
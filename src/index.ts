@@ -12,35 +12,140 @@ export {
   generatePassword,
   generatePasswords,
   generatePronounceablePassword,
+  generatePasswordForRules,
+  generateFromPattern,
   getDefaultOptions,
   type PasswordGeneratorOptions,
+  type CharacterClass,
+  type SymbolSetPreset,
+  type PasswordRulesOptions,
   type GeneratedPassword,
 } from './generators/password';
 
+// Password Rules (passwordrules attribute syntax)
+export {
+  parsePasswordRules,
+  type PasswordRules,
+} from './generators/password-rules';
+
+// Stateless Password Derivation
+export {
+  derivePassword,
+  type DerivePasswordInput,
+} from './generators/derive';
+
 // Passphrase Generator
 export {
   generatePassphrase,
   generateMemorablePassphrase,
   getDefaultPassphraseOptions,
+  loadPassphraseWordlist,
+  passphraseFromDiceRolls,
+  getDicePerWord,
+  PASSPHRASE_WORD_COUNT,
   type PassphraseOptions,
+  type PassphraseSlot,
+  type PassphraseSlotEntropy,
+  type GeneratedPassphrase,
+  type DiceRollOptions,
 } from './generators/passphrase';
+export {
+  loadWordlist,
+  isWordlistLoaded,
+  type WordlistName,
+  type PassphraseLanguage,
+} from './generators/wordlists';
+
+// BIP39 Mnemonics
+export {
+  generateMnemonic,
+  validateMnemonic,
+  entropyToMnemonic,
+  mnemonicToEntropy,
+  mnemonicToSeed,
+  type MnemonicOptions,
+  type MnemonicStrength,
+  type MnemonicLanguage,
+  type MnemonicWordlist,
+} from './generators/mnemonic';
 
 // Strength Analysis
 export {
   analyzePasswordStrength,
-  preloadZxcvbn,
-  isZxcvbnLoaded,
   type PasswordStrengthResult,
+  type StrengthAnalysisOptions,
+  type CrackScenario,
+  type CrackTimeEstimate,
+  type CrackTimes,
+  type StrengthMatch,
+  type StrengthMatchPattern,
 } from './analyzer/strength';
 
+// Strength Estimators
+export {
+  zxcvbnEstimator,
+  setStrengthEstimator,
+  getStrengthEstimator,
+  preloadStrengthEstimator,
+  preloadZxcvbn,
+  isZxcvbnLoaded,
+  guessesToScore,
+  type StrengthEstimator,
+  type StrengthEstimate,
+} from './analyzer/estimator';
+
+// Strength Analysis in a Web Worker
+export {
+  createStrengthWorker,
+  exposeStrengthAnalyzer,
+  type StrengthWorker,
+  type StrengthWorkerOptions,
+  type StrengthWorkerPort,
+  type StrengthWorkerScope,
+} from './analyzer/strength-worker';
+
+// Incremental Analysis
+export {
+  createIncrementalAnalyzer,
+  type IncrementalAnalyzer,
+  type IncrementalAnalyzerOptions,
+  type IncrementalStrengthUpdate,
+} from './analyzer/incremental';
+
 // Quick Check & Validation
 export {
   quickStrengthCheck,
   meetsMinimumRequirements,
+  getRequirementsPreset,
+  quickEstimator,
   type QuickStrengthResult,
   type MinimumRequirementsResult,
+  type MinimumRequirementsOptions,
+  type RequirementsProfile,
+  type RequirementsPresetName,
+  type RequirementStatus,
+  type CustomRequirement,
 } from './analyzer/quick-check';
 
+// Custom Dictionaries
+export {
+  registerDictionary,
+  unregisterDictionary,
+  getRegisteredDictionaries,
+  loadDictionaries,
+  findDictionaryMatches,
+  type DictionarySource,
+  type DictionaryMatch,
+} from './analyzer/dictionaries';
+
+// Issue Codes
+export {
+  ISSUE_CODES,
+  type IssueCode,
+  type IssueParams,
+  type AnalysisIssue,
+} from './analyzer/issues';
+
 // Breach Checking
 export {
   checkPasswordBreach,
@@ -76,6 +181,19 @@ export {
   type ValidationContext,
 } from './analyzer/policy';
 
+// Localized Messages
+export {
+  translate,
+  registerLocale,
+  getAvailableLocales,
+  isLocaleAvailable,
+  setDefaultLocale,
+  getDefaultLocale,
+  type MessageId,
+  type MessageCatalog,
+  type MessageParams,
+} from './i18n';
+
 // Unicode Character Sets
 export {
   generateUnicodePassword,
@@ -96,12 +214,24 @@ export {
   getRotationSchedule,
   formatCrackCost,
   calculateExpiryBatch,
+  getHashGuessRate,
+  HASH_ALGORITHMS,
   type ExpiryOptions,
   type ExpiryEstimate,
   type RiskProfile,
   type HashAlgorithm,
 } from './analyzer/expiry';
 
+// Random Sources & Sampling
+export {
+  secureRandomInt,
+  secureChoice,
+  secureShuffle,
+  webCryptoRandomSource,
+  createSeededRandomSource, // Test-only: deterministic, never use for real secrets
+  type RandomSource,
+} from './utils/random';
+
 // Utilities
 export {
   formatTOTPCode,
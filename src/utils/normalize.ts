@@ -0,0 +1,35 @@
+/**
+ * Unicode Normalization
+ *
+ * Shared by the policy engine, the Unicode generator and the passphrase
+ * generator so that a generated password and the same password typed back
+ * in are compared in the same form.
+ *
+ * @module utils/normalize
+ */
+
+/**
+ * Unicode normalization form
+ */
+export type NormalizationForm = 'NFC' | 'NFD' | 'NFKC' | 'NFKD';
+
+/**
+ * Normalization form applied by the policy engine unless configured otherwise
+ */
+export const DEFAULT_NORMALIZATION: NormalizationForm = 'NFKC';
+
+/**
+ * Normalize password using specified Unicode normalization form
+ */
+export function normalizePassword(password: string, form: NormalizationForm = DEFAULT_NORMALIZATION): string {
+  if (typeof password !== 'string') {
+    return '';
+  }
+
+  try {
+    return password.normalize(form);
+  } catch (error) {
+    // Fallback if normalization fails
+    return password;
+  }
+}
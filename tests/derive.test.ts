@@ -0,0 +1,200 @@
+/**
+ * Tests for stateless password derivation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { scrypt } from '@noble/hashes/scrypt';
+import { bytesToHex } from '@noble/hashes/utils';
+import { derivePassword } from '../src/generators/derive';
+import type { PasswordGeneratorOptions } from '../src/generators/password';
+
+const MASTER = 'correct horse battery staple';
+
+describe('Password Derivation', () => {
+  describe('scrypt (RFC 7914 test vectors)', () => {
+    it('should match the empty password vector', () => {
+      const key = scrypt('', '', { N: 16, r: 1, p: 1, dkLen: 64 });
+      expect(bytesToHex(key)).toBe(
+        '77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442' +
+        'fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906'
+      );
+    });
+
+    it('should match the "password" / "NaCl" vector', () => {
+      const key = scrypt('password', 'NaCl', { N: 1024, r: 8, p: 16, dkLen: 64 });
+      expect(bytesToHex(key)).toBe(
+        'fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162' +
+        '2eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640'
+      );
+    });
+  });
+
+  // Regression vectors: produced by this implementation when version 1
+  // shipped, not by an independent one. They pin the output, which the
+  // versioning contract says must never change.
+  describe('derivePassword regression vectors (v1)', () => {
+    it('should derive the default-options vector', async () => {
+      const result = await derivePassword({ master: MASTER, site: 'example.com', login: 'alice@example.com' });
+
+      expect(result.password).toBe('Hn3^s$|H%7=jH:4V');
+      expect(result.entropy).toBe(103.1);
+      expect(result.strength).toBe('very-strong');
+    });
+
+    it('should derive the counter vector', async () => {
+      const result = await derivePassword({
+        master: MASTER,
+        site: 'example.com',
+        login: 'alice@example.com',
+        counter: 2,
+      });
+      expect(result.password).toBe('*66>$Q5bfma[n!UT');
+    });
+
+    it('should derive the login vector', async () => {
+      const result = await derivePassword({ master: MASTER, site: 'example.com', login: 'bob@example.com' });
+      expect(result.password).toBe('#n=FY]:ySxt3PuYN');
+    });
+
+    it('should derive the custom-options vectors', async () => {
+      const alphanumeric = await derivePassword({
+        master: MASTER,
+        site: 'example.com',
+        login: 'alice@example.com',
+        options: { length: 20, includeSymbols: false },
+      });
+      expect(alphanumeric.password).toBe('obHRatTp04gkjuRxqCWz');
+
+      const constrained = await derivePassword({
+        master: MASTER,
+        site: 'example.com',
+        login: 'alice@example.com',
+        options: { length: 12, symbolSet: 'url-safe', minNumbers: 3 },
+      });
+      expect(constrained.password).toBe('w79-GQzqq0a7');
+    });
+
+    it('should derive the position and repeat constraint vectors', async () => {
+      const input = { master: MASTER, site: 'example.com', login: 'alice@example.com' };
+
+      const positions = await derivePassword({
+        ...input,
+        options: {
+          length: 24,
+          includeSymbols: false,
+          minNumbers: 4,
+          firstCharClass: 'letter',
+          lastCharClass: 'number',
+          maxConsecutiveRepeats: 1,
+        },
+      });
+      expect(positions).toEqual({ password: 'k3qtHJVe0wj129T2u6HuBvK6', entropy: 139, strength: 'very-strong' });
+
+      const exclusions = await derivePassword({
+        ...input,
+        options: { excludeAmbiguous: true, excludeChars: 'xyzXYZ', symbolSet: 'shell-safe', minSymbols: 2 },
+      });
+      expect(exclusions.password).toBe(',BPj47o@nHQbE9D:');
+
+      const custom = await derivePassword({ ...input, options: { length: 12, customCharset: 'abcdef0123456789' } });
+      expect(custom).toEqual({ password: 'a94a44a1b494', entropy: 48, strength: 'medium' });
+
+      const repeats = await derivePassword({ ...input, options: { symbolSet: 'xml-safe', maxConsecutiveRepeats: 2 } });
+      expect(repeats.password).toBe('h$](9NZ-kw{Ez|2Z');
+    });
+
+    it('should keep the symbol presets of version 1', async () => {
+      // json-safe meant the default symbols when version 1 shipped
+      const result = await derivePassword({
+        master: MASTER,
+        site: 'example.com',
+        login: 'alice@example.com',
+        options: { symbolSet: 'json-safe' },
+      });
+      expect(result.password).toBe('Hn3^s$|H%7=jH:4V');
+    });
+
+    it('should derive the Unicode and maximum counter vector', async () => {
+      const result = await derivePassword({
+        master: 'café ünïcødé',
+        site: 'Bücher.example',
+        login: 'zoë',
+        counter: 4294967295,
+      });
+      expect(result.password).toBe('1@wue89-tK[P1[Rf');
+    });
+  });
+
+  describe('derivePassword', () => {
+    it('should be deterministic', async () => {
+      const input = { master: MASTER, site: 'example.org', login: 'carol' };
+      const first = await derivePassword(input);
+      const second = await derivePassword(input);
+
+      expect(first.password).toBe(second.password);
+    });
+
+    it('should normalize the site name', async () => {
+      const plain = await derivePassword({ master: MASTER, site: 'example.com', login: 'alice@example.com' });
+      const messy = await derivePassword({ master: MASTER, site: '  Example.COM ', login: 'alice@example.com' });
+
+      expect(messy.password).toBe(plain.password);
+    });
+
+    it('should normalize the master password to NFKC', async () => {
+      const composed = await derivePassword({ master: 'caf\u00e9', site: 'example.com' });
+      const decomposed = await derivePassword({ master: 'cafe\u0301', site: 'example.com' });
+
+      expect(decomposed.password).toBe(composed.password);
+    });
+
+    it('should keep site and login fields separate', async () => {
+      const a = await derivePassword({ master: MASTER, site: 'example.co', login: 'mbob' });
+      const b = await derivePassword({ master: MASTER, site: 'example.com', login: 'bob' });
+
+      expect(a.password).not.toBe(b.password);
+    });
+
+    it('should honour generation options', async () => {
+      const result = await derivePassword({
+        master: MASTER,
+        site: 'example.com',
+        options: {
+          length: 24,
+          includeSymbols: false,
+          minNumbers: 4,
+          firstCharClass: 'letter',
+          maxConsecutiveRepeats: 1,
+        },
+      });
+
+      expect(result.password).toHaveLength(24);
+      expect(result.password).toMatch(/^[A-Za-z][A-Za-z0-9]*$/);
+      expect(result.password.replace(/\D/g, '').length).toBeGreaterThanOrEqual(4);
+      expect(result.password).not.toMatch(/(.)\1/);
+    });
+
+    it('should reject invalid inputs', async () => {
+      await expect(derivePassword({ master: '', site: 'example.com' })).rejects.toThrow('Master password');
+      await expect(derivePassword({ master: MASTER, site: '  ' })).rejects.toThrow('Site must not be empty');
+      await expect(derivePassword({ master: MASTER, site: 'example.com', counter: 0 })).rejects.toThrow('Counter');
+      await expect(derivePassword({ master: MASTER, site: 'example.com', counter: 1.5 })).rejects.toThrow('Counter');
+      await expect(
+        derivePassword({ master: MASTER, site: 'example.com', version: 2 as 1 })
+      ).rejects.toThrow('Unknown derivation version: 2');
+    });
+
+    it('should reject invalid generation options', async () => {
+      await expect(
+        derivePassword({ master: MASTER, site: 'example.com', options: { length: 4 } })
+      ).rejects.toThrow('Password length must be between 8 and 128 characters');
+    });
+
+    it('should reject options added after version 1', async () => {
+      const options = { length: 20, pronounceable: true } as Partial<PasswordGeneratorOptions>;
+      await expect(
+        derivePassword({ master: MASTER, site: 'example.com', options })
+      ).rejects.toThrow('Option "pronounceable" is not supported by derivation version 1');
+    });
+  });
+});
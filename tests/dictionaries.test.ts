@@ -0,0 +1,131 @@
+/**
+ * Tests for custom dictionaries
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  registerDictionary,
+  unregisterDictionary,
+  getRegisteredDictionaries,
+  loadDictionaries,
+  findDictionaryMatches,
+} from '../src/analyzer/dictionaries';
+import { analyzePasswordStrength } from '../src/analyzer/strength';
+import { quickStrengthCheck } from '../src/analyzer/quick-check';
+
+describe('Custom Dictionaries', () => {
+  afterEach(() => {
+    for (const name of getRegisteredDictionaries()) {
+      unregisterDictionary(name);
+    }
+  });
+
+  describe('registerDictionary', () => {
+    it('should register, replace and remove dictionaries', () => {
+      registerDictionary('company', ['acme']);
+      registerDictionary('company', ['globex']);
+
+      expect(getRegisteredDictionaries()).toEqual(['company']);
+      expect(findDictionaryMatches('acme-globex').map(match => match.word)).toEqual(['globex']);
+      expect(unregisterDictionary('company')).toBe(true);
+      expect(unregisterDictionary('company')).toBe(false);
+    });
+
+    it('should reject an empty name or a non-positive weight', () => {
+      expect(() => registerDictionary(' ', ['acme'])).toThrow('Dictionary name must be a non-empty string');
+      expect(() => registerDictionary('company', ['acme'], 0)).toThrow('rankWeight must be a positive number');
+      expect(() => registerDictionary('company', ['acme'], NaN)).toThrow('rankWeight must be a positive number');
+    });
+  });
+
+  describe('findDictionaryMatches', () => {
+    it('should match case-insensitively and report rank-based guesses', () => {
+      registerDictionary('company', ['acme', 'Roadrunner', 'wile'], 10);
+
+      expect(findDictionaryMatches('BeepRoadRunner')).toEqual([
+        {
+          dictionary: 'company',
+          word: 'roadrunner',
+          token: 'RoadRunner',
+          start: 4,
+          end: 14,
+          rank: 2,
+          l33t: false,
+          guesses: 20,
+        },
+      ]);
+    });
+
+    it('should see through leetspeak', () => {
+      registerDictionary('company', ['acme', 'wile']);
+
+      const matches = findDictionaryMatches('4cm3-W1l3');
+      expect(matches.map(({ word, token, l33t, guesses }) => ({ word, token, l33t, guesses }))).toEqual([
+        { word: 'acme', token: '4cm3', l33t: true, guesses: 2 },
+        { word: 'wile', token: 'W1l3', l33t: true, guesses: 4 },
+      ]);
+    });
+
+    it('should ignore words shorter than three characters', () => {
+      registerDictionary('codes', ['ny', 'la', 'sfo']);
+      expect(findDictionaryMatches('ny-la-sfo').map(match => match.word)).toEqual(['sfo']);
+    });
+  });
+
+  describe('lazy dictionaries', () => {
+    it('should call the loader once, when first needed', async () => {
+      const loader = vi.fn(() => Promise.resolve(['quokka']));
+      registerDictionary('animals', loader);
+
+      expect(loader).not.toHaveBeenCalled();
+      expect(findDictionaryMatches('quokka99')).toEqual([]);
+
+      await Promise.all([loadDictionaries(), loadDictionaries()]);
+      await analyzePasswordStrength('quokka99');
+
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(findDictionaryMatches('quokka99')).toHaveLength(1);
+    });
+
+    it('should retry a loader that failed', async () => {
+      const loader = vi.fn()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValueOnce(['quokka']);
+      registerDictionary('animals', loader);
+
+      await expect(loadDictionaries()).rejects.toThrow('offline');
+      await loadDictionaries();
+
+      expect(loader).toHaveBeenCalledTimes(2);
+      expect(findDictionaryMatches('quokka99')).toHaveLength(1);
+    });
+  });
+
+  describe('analyzers', () => {
+    const password = 'Zorblatt-Quennington7';
+
+    it('should penalize dictionary words in the full analysis', async () => {
+      const plain = await analyzePasswordStrength(password);
+      registerDictionary('offices', ['quennington', 'zorblatt'], 0.5);
+      const result = await analyzePasswordStrength(password);
+
+      expect(result.crackTimeSeconds).toBeLessThan(plain.crackTimeSeconds);
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({
+          code: 'DICTIONARY_WORD',
+          params: { words: ['zorblatt', 'quennington'], dictionaries: ['offices'] },
+        })
+      );
+      expect(result.matches).toContainEqual(
+        expect.objectContaining({ token: 'Quennington', start: 9, end: 20, pattern: 'dictionary' })
+      );
+    });
+
+    it('should treat dictionary words as common patterns in the quick check', () => {
+      const plain = quickStrengthCheck(password);
+      registerDictionary('offices', ['zorblatt']);
+
+      expect(quickStrengthCheck(password).score).toBe(plain.score - 20);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for pluggable strength estimators
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  zxcvbnEstimator,
+  setStrengthEstimator,
+  getStrengthEstimator,
+  guessesToScore,
+  type StrengthEstimator,
+} from '../src/analyzer/estimator';
+import { quickEstimator } from '../src/analyzer/quick-check';
+import { analyzePasswordStrength } from '../src/analyzer/strength';
+import { validatePassword } from '../src/analyzer/policy';
+
+/**
+ * Estimator that rates every password the same
+ */
+function createFixedEstimator(guesses: number): StrengthEstimator {
+  return {
+    name: 'fixed',
+    load: vi.fn(() => Promise.resolve()),
+    estimate: vi.fn(() => ({
+      guesses,
+      score: guessesToScore(guesses),
+      matches: [],
+      feedback: { warning: 'Too predictable', suggestions: ['Avoid repeated words and characters'] },
+    })),
+  };
+}
+
+describe('Strength Estimators', () => {
+  afterEach(() => {
+    setStrengthEstimator(zxcvbnEstimator);
+  });
+
+  describe('registry', () => {
+    it('should default to zxcvbn', () => {
+      expect(getStrengthEstimator()).toBe(zxcvbnEstimator);
+    });
+
+    it('should analyze with the active estimator', async () => {
+      const estimator = createFixedEstimator(1e12);
+      setStrengthEstimator(estimator);
+
+      const result = await analyzePasswordStrength('Xk9#mQ2$vL7!nP4&', { userInputs: ['Acme'], locale: 'de' });
+
+      expect(estimator.load).toHaveBeenCalled();
+      expect(estimator.estimate).toHaveBeenCalledWith('Xk9#mQ2$vL7!nP4&', ['acme']);
+      expect(result.crackTimes.offlineFastHash.seconds).toBe(100);
+      expect(result.score).toBe(95);
+      // Known zxcvbn messages are translated, others kept as given
+      expect(result.feedback.warning).toBe('Too predictable');
+      expect(result.feedback.suggestions[0]).toBe('Vermeiden Sie wiederholte Wörter und Zeichen');
+    });
+
+    it('should prefer the estimator passed to the call', async () => {
+      setStrengthEstimator(createFixedEstimator(1e12));
+      const result = await analyzePasswordStrength('Xk9#mQ2$vL7!nP4&', { estimator: createFixedEstimator(10) });
+
+      expect(result.crackTimeSeconds).toBe(1);
+    });
+
+    it('should price the custom pattern checks with the estimator', async () => {
+      setStrengthEstimator(createFixedEstimator(42));
+      const { matches } = await analyzePasswordStrength('Monkey1987!');
+
+      expect(matches).toContainEqual({ token: '1987', start: 6, end: 10, pattern: 'date', guesses: 42 });
+    });
+  });
+
+  describe('guessesToScore', () => {
+    it('should use the zxcvbn thresholds', () => {
+      expect([1e3, 1e6, 1e8, 1e10, 1e11].map(guessesToScore)).toEqual([0, 1, 2, 3, 4]);
+      expect(guessesToScore(1e3 + 5)).toBe(1);
+    });
+  });
+
+  describe('quickEstimator', () => {
+    it('should brute-force passwords without patterns', () => {
+      const { guesses, matches } = quickEstimator.estimate('xk9mq2vl', []);
+
+      expect(guesses).toBe(36 ** 8);
+      expect(matches).toEqual([]);
+    });
+
+    it('should charge little for common patterns and user inputs', () => {
+      const plain = quickEstimator.estimate('monkeyacme', []);
+      const result = quickEstimator.estimate('monkeyacme', ['acme']);
+
+      expect(result.guesses).toBe(100 * 1);
+      expect(result.guesses).toBeLessThan(plain.guesses);
+      expect(result.score).toBe(0);
+      expect(result.matches.map(({ token, pattern }) => ({ token, pattern }))).toEqual([
+        { token: 'monkey', pattern: 'dictionary' },
+        { token: 'acme', pattern: 'dictionary' },
+      ]);
+      expect(result.feedback.warning).toBe('This is similar to a commonly used password');
+    });
+
+    it('should run the full analysis without zxcvbn', async () => {
+      setStrengthEstimator(quickEstimator);
+      const result = await analyzePasswordStrength('password', { locale: 'fr' });
+
+      expect(result.strength).toBe('weak');
+      expect(result.feedback.warning).toBe('Ce mot de passe ressemble à un mot de passe très utilisé');
+    });
+  });
+
+  describe('policy engine', () => {
+    it('should enforce minStrengthScore with the active estimator', async () => {
+      setStrengthEstimator(createFixedEstimator(1e5));
+      const { valid, violations } = await validatePassword('correct horse battery staple', { minStrengthScore: 3 });
+
+      expect(valid).toBe(false);
+      expect(violations).toContainEqual(expect.objectContaining({
+        code: 'TOO_GUESSABLE',
+        params: { score: 1, minScore: 3 },
+        field: 'strength',
+        message: 'Password is too easy to guess',
+      }));
+    });
+
+    it('should pass the context words to the estimator', async () => {
+      setStrengthEstimator(quickEstimator);
+      const withContext = await validatePassword('zorblattquennington', {
+        minStrengthScore: 3,
+        detectPatterns: false,
+      }, { username: 'Zorblatt', lastName: 'Quennington' });
+      const withoutContext = await validatePassword('zorblattquennington', { minStrengthScore: 3 });
+
+      expect(withContext.violations.map(violation => violation.code)).toContain('TOO_GUESSABLE');
+      expect(withoutContext.violations.map(violation => violation.code)).not.toContain('TOO_GUESSABLE');
+    });
+
+    it('should not estimate without minStrengthScore', async () => {
+      const estimator = createFixedEstimator(1);
+      setStrengthEstimator(estimator);
+      await validatePassword('correct horse battery staple');
+
+      expect(estimator.load).not.toHaveBeenCalled();
+    });
+  });
+});
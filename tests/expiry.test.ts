@@ -18,7 +18,10 @@ import {
   getRotationSchedule,
   formatCrackCost,
   calculateExpiryBatch,
+  getHashGuessRate,
+  HASH_ALGORITHMS,
   type ExpiryOptions,
+  type HashAlgorithm,
 } from '../src/analyzer/expiry';
 
 describe('Entropy-Based Rotation', () => {
@@ -269,6 +272,16 @@ describe('Hash Algorithm Impact', () => {
 
     expect(md5.estimatedCrackCost).toBeLessThan(argon2.estimatedCrackCost * 0.01);
   });
+
+  it('should reject unknown hash algorithms', async () => {
+    expect(HASH_ALGORITHMS.map(getHashGuessRate)).toEqual([1e7, 2e7, 1e8, 1e9, 1e10, 2e10, 1e11]);
+    expect(() => getHashGuessRate('sha512' as HashAlgorithm)).toThrow(
+      'Unknown hash algorithm: "sha512" (use one of argon2id, scrypt, bcrypt, pbkdf2, sha256, sha1, md5)'
+    );
+    await expect(
+      calculateExpiry(password, baseDate, { hashAlgorithm: 'sha512' as HashAlgorithm })
+    ).rejects.toThrow('Unknown hash algorithm');
+  });
 });
 
 describe('Days Remaining Calculation', () => {
@@ -0,0 +1,168 @@
+/**
+ * Tests for localized messages
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  translate,
+  registerLocale,
+  getAvailableLocales,
+  isLocaleAvailable,
+  setDefaultLocale,
+  getDefaultLocale,
+  type MessageId,
+} from '../src/i18n';
+import { EN_MESSAGES } from '../src/i18n/locales/en';
+import { DE_MESSAGES } from '../src/i18n/locales/de';
+import { ES_MESSAGES } from '../src/i18n/locales/es';
+import { FR_MESSAGES } from '../src/i18n/locales/fr';
+import { JA_MESSAGES } from '../src/i18n/locales/ja';
+import { analyzePasswordStrength } from '../src/analyzer/strength';
+import { meetsMinimumRequirements } from '../src/analyzer/quick-check';
+import { validatePassword } from '../src/analyzer/policy';
+
+describe('i18n', () => {
+  afterEach(() => {
+    setDefaultLocale('en');
+  });
+
+  describe('catalogs', () => {
+    const placeholders = (message: string) => (message.match(/\{\w+\}/g) ?? []).sort();
+
+    it.each([
+      ['de', DE_MESSAGES],
+      ['es', ES_MESSAGES],
+      ['fr', FR_MESSAGES],
+      ['ja', JA_MESSAGES],
+    ])('should translate every message into %s with the same placeholders', (_, catalog) => {
+      for (const id of Object.keys(EN_MESSAGES) as MessageId[]) {
+        expect(catalog[id]).toBeTruthy();
+        expect(catalog[id]).not.toBe(EN_MESSAGES[id]);
+        expect(placeholders(catalog[id])).toEqual(placeholders(EN_MESSAGES[id]));
+      }
+    });
+
+    it('should list the built-in locales', () => {
+      expect(getAvailableLocales()).toEqual(expect.arrayContaining(['en', 'de', 'es', 'fr', 'ja']));
+    });
+  });
+
+  describe('translate', () => {
+    it('should fill in placeholders', () => {
+      expect(translate('policy.tooShort', { minLength: 15 })).toBe(
+        'Password must be at least 15 characters long'
+      );
+      expect(translate('policy.tooShort', { minLength: 15 }, 'de')).toBe(
+        'Das Passwort muss mindestens 15 Zeichen lang sein'
+      );
+    });
+
+    it('should keep placeholders without a value', () => {
+      expect(translate('requirement.minLength')).toBe('At least {minLength} characters');
+    });
+
+    it('should fall back from region to language to English', () => {
+      expect(translate('requirement.number', {}, 'fr-CA')).toBe('Un chiffre');
+      expect(translate('requirement.number', {}, 'JA_jp')).toBe('数字を1文字以上');
+      expect(translate('requirement.number', {}, 'sv')).toBe('One number');
+    });
+  });
+
+  describe('registerLocale', () => {
+    it('should add a locale with English fallback for missing messages', () => {
+      registerLocale('it-test', { 'requirement.number': 'Un numero' });
+
+      expect(isLocaleAvailable('it-TEST')).toBe(true);
+      expect(translate('requirement.number', {}, 'it-test')).toBe('Un numero');
+      expect(translate('requirement.lowercase', {}, 'it-test')).toBe('One lowercase letter');
+    });
+
+    it('should merge overrides into an existing catalog', () => {
+      registerLocale('pt-test', { 'requirement.number': 'Um número' });
+      registerLocale('pt-test', { 'requirement.uppercase': 'Uma letra maiúscula' });
+
+      expect(translate('requirement.number', {}, 'pt-test')).toBe('Um número');
+      expect(translate('requirement.uppercase', {}, 'pt-test')).toBe('Uma letra maiúscula');
+    });
+
+    it('should reject an empty locale tag', () => {
+      expect(() => registerLocale(' ', {})).toThrow('Locale must be a non-empty string');
+    });
+  });
+
+  describe('default locale', () => {
+    it('should be used when no locale is passed', () => {
+      expect(getDefaultLocale()).toBe('en');
+      setDefaultLocale('es-MX');
+
+      expect(getDefaultLocale()).toBe('es-mx');
+      expect(translate('requirement.number')).toBe('Un número');
+      expect(meetsMinimumRequirements('ABCDEFGH').missing).toContain('Una letra minúscula');
+    });
+
+    it('should reject unknown locales', () => {
+      expect(isLocaleAvailable('sv-SE')).toBe(false);
+      expect(() => setDefaultLocale('sv-SE')).toThrow('Unknown locale: "sv-SE"');
+      expect(getDefaultLocale()).toBe('en');
+    });
+  });
+
+  describe('analyzers', () => {
+    it('should localize strength feedback and weaknesses', async () => {
+      const result = await analyzePasswordStrength('qwerty', { locale: 'de' });
+
+      expect(result.feedback.warning).toBe('Dies ist eines der 10 häufigsten Passwörter');
+      expect(result.weaknesses).toContain('Enthält ein Tastaturmuster');
+      expect(result.weaknesses).toContain('Das Passwort ist zu kurz (mindestens 8 Zeichen)');
+      expect(result.feedback.suggestions).toContain(
+        'Vermeiden Sie häufige Muster und erhöhen Sie die Komplexität'
+      );
+    });
+
+    it('should localize crack times', async () => {
+      const english = await analyzePasswordStrength('Tr0ub4dor&3', { hashAlgorithm: 'bcrypt' });
+      const german = await analyzePasswordStrength('Tr0ub4dor&3', { hashAlgorithm: 'bcrypt', locale: 'de' });
+
+      expect(english.crackTimes.offlineFastHash.display).toBe('10 seconds');
+      expect(german.crackTimes.offlineFastHash.display).toBe('10 Sekunden');
+      expect(english.crackTime).toMatch(/^\d+ (years?|months?)$|^centuries$/);
+      expect(german.crackTime).toMatch(/^\d+ (Jahre?|Monate?)$|^Jahrhunderte$/);
+      expect((await analyzePasswordStrength('', { locale: 'fr' })).crackTime).toBe('instantané');
+      expect(translate('crackTime.hours', { count: 3 }, 'ja')).toBe('3時間');
+    });
+
+    it('should localize the empty password result', async () => {
+      const result = await analyzePasswordStrength('', { locale: 'ja' });
+      expect(result.feedback.warning).toBe('パスワードが空です');
+      expect(result.feedback.suggestions).toEqual(['パスワードを入力してください']);
+    });
+
+    it('should localize missing requirements', () => {
+      expect(meetsMinimumRequirements('abc123', { locale: 'fr' }).missing).toEqual([
+        'Au moins 8 caractères',
+        'Une lettre majuscule',
+      ]);
+    });
+
+    it('should localize policy violations but keep fields and custom messages', async () => {
+      const result = await validatePassword('short', {
+        locale: 'es',
+        customRules: [{ name: 'no-s', validate: pwd => !pwd.includes('s'), message: 'No s', severity: 'warning' }],
+      });
+
+      const length = result.violations.find(v => v.field === 'length');
+      expect(length?.message).toBe('La contraseña debe tener al menos 15 caracteres');
+      expect(result.violations.find(v => v.field === 'custom')?.message).toBe('No s');
+    });
+
+    it('should localize policy violation details', async () => {
+      const result = await validatePassword('qwerty-zzz', { locale: 'fr', minLength: 12 });
+
+      expect(result.violations.find(v => v.code === 'TOO_SHORT')?.details).toBe('Longueur actuelle : 10');
+      expect(result.violations.find(v => v.code === 'REPEATED_PATTERN')?.details).toBe('Caractère répété « z » trouvé');
+      expect(result.violations.find(v => v.code === 'KEYBOARD_PATTERN')?.details).toBe(
+        'Motif de clavier « qwerty » trouvé'
+      );
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for incremental strength analysis
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createIncrementalAnalyzer, type IncrementalStrengthUpdate } from '../src/analyzer/incremental';
+import { analyzePasswordStrength } from '../src/analyzer/strength';
+import { quickStrengthCheck } from '../src/analyzer/quick-check';
+import type { StrengthWorker } from '../src/analyzer/strength-worker';
+
+/**
+ * Wait for the update of a phase
+ */
+function nextUpdate(
+  analyzer: ReturnType<typeof createIncrementalAnalyzer>,
+  phase: IncrementalStrengthUpdate['phase']
+): Promise<IncrementalStrengthUpdate> {
+  return new Promise((resolve) => {
+    const unsubscribe = analyzer.subscribe((update) => {
+      if (update.phase === phase) {
+        unsubscribe();
+        resolve(update);
+      }
+    });
+  });
+}
+
+describe('Incremental Analyzer', () => {
+  it('should emit a quick estimate, then the full analysis', async () => {
+    const analyzer = createIncrementalAnalyzer({ userInputs: ['acme'] });
+    const updates: IncrementalStrengthUpdate[] = [];
+    analyzer.subscribe(update => updates.push(update));
+
+    const full = nextUpdate(analyzer, 'full');
+    analyzer.update('acme-Horse-42');
+
+    expect(updates).toEqual([{
+      password: 'acme-Horse-42',
+      phase: 'quick',
+      quick: quickStrengthCheck('acme-Horse-42'),
+      full: null,
+      stale: false,
+      error: null,
+    }]);
+    expect((await full).full).toEqual(await analyzePasswordStrength('acme-Horse-42', { userInputs: ['acme'] }));
+    expect(analyzer.current?.phase).toBe('full');
+  });
+
+  it('should keep the prefix result while characters are appended', async () => {
+    const analyzer = createIncrementalAnalyzer();
+    analyzer.update('hunter');
+    const prefix = (await nextUpdate(analyzer, 'full')).full;
+
+    analyzer.update('hunter2');
+
+    expect(analyzer.current).toMatchObject({ password: 'hunter2', phase: 'quick', full: prefix, stale: true });
+
+    analyzer.update('xhunter');
+    expect(analyzer.current).toMatchObject({ phase: 'quick', full: null, stale: false });
+  });
+
+  it('should reuse cached results when deleting characters', async () => {
+    const analyzer = createIncrementalAnalyzer();
+    analyzer.update('correct');
+    const cached = (await nextUpdate(analyzer, 'full')).full;
+    analyzer.update('correct1');
+    await nextUpdate(analyzer, 'full');
+
+    const updates: IncrementalStrengthUpdate[] = [];
+    analyzer.subscribe(update => updates.push(update));
+    analyzer.update('correct');
+
+    expect(updates).toEqual([expect.objectContaining({ phase: 'full', full: cached, stale: false })]);
+  });
+
+  it('should drop full analyses superseded by newer input', async () => {
+    vi.useFakeTimers();
+    try {
+      const analyzer = createIncrementalAnalyzer({ delay: 100 });
+      const phases: string[] = [];
+      analyzer.subscribe(update => phases.push(`${update.phase}:${update.password}`));
+
+      analyzer.update('c');
+      analyzer.update('co');
+      await vi.advanceTimersByTimeAsync(50);
+      analyzer.update('cor');
+      await vi.advanceTimersByTimeAsync(100);
+      await vi.waitFor(() => expect(phases).toContain('full:cor'));
+
+      expect(phases).toEqual(['quick:c', 'quick:co', 'quick:cor', 'full:cor']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should run the full analysis in a worker', async () => {
+    const expected = await analyzePasswordStrength('tr0ub4dor');
+    const analyze = vi.fn((_password: string, _options?: object, _signal?: AbortSignal) => Promise.resolve(expected));
+    const analyzer = createIncrementalAnalyzer({ worker: { analyze } as unknown as StrengthWorker, locale: 'de' });
+
+    analyzer.update('tr0ub4dor');
+
+    expect((await nextUpdate(analyzer, 'full')).full).toBe(expected);
+    expect(analyze).toHaveBeenCalledWith('tr0ub4dor', { locale: 'de' }, expect.any(AbortSignal));
+  });
+
+  it('should report failed analyses', async () => {
+    const analyzer = createIncrementalAnalyzer({
+      worker: { analyze: () => Promise.reject(new Error('worker crashed')) } as unknown as StrengthWorker,
+    });
+
+    analyzer.update('password');
+
+    expect(await nextUpdate(analyzer, 'error')).toMatchObject({ full: null, error: new Error('worker crashed') });
+  });
+
+  it('should stream updates to async iterators until disposed', async () => {
+    const analyzer = createIncrementalAnalyzer();
+    const phases: string[] = [];
+
+    const consumed = (async () => {
+      for await (const update of analyzer) {
+        phases.push(update.phase);
+        if (update.phase === 'full') {
+          analyzer.dispose();
+        }
+      }
+    })();
+
+    analyzer.update('correct horse');
+    await consumed;
+
+    expect(phases).toEqual(['quick', 'full']);
+    expect(() => analyzer.update('x')).toThrow('Incremental analyzer has been disposed');
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Tests for BIP39 mnemonic generation
+ */
+
+import { beforeAll, describe, it, expect } from 'vitest';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import {
+  entropyToMnemonic,
+  generateMnemonic,
+  mnemonicToEntropy,
+  mnemonicToSeed,
+  validateMnemonic,
+  type MnemonicLanguage,
+  type MnemonicStrength,
+} from '../src/generators/mnemonic';
+import { loadWordlist } from '../src/generators/wordlists';
+import { createSeededRandomSource } from '../src/utils/random';
+
+/**
+ * Official BIP39 test vectors (trezor/python-mnemonic vectors.json),
+ * seeds derived with the passphrase "TREZOR"
+ */
+const VECTORS = [
+  {
+    entropy: '00000000000000000000000000000000',
+    mnemonic: 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+    seed: 'c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04',
+  },
+  {
+    entropy: '7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f',
+    mnemonic: 'legal winner thank year wave sausage worth useful legal winner thank yellow',
+    seed: '2e8905819b8723fe2c1d161860e5ee1830318dbf49a83bd451cfb8440c28bd6fa457fe1296106559a3c80937a1c1069be3a3a5bd381ee6260e8d9739fce1f607',
+  },
+  {
+    entropy: '80808080808080808080808080808080',
+    mnemonic: 'letter advice cage absurd amount doctor acoustic avoid letter advice cage above',
+    seed: 'd71de856f81a8acc65e6fc851a38d4d7ec216fd0796d0a6827a3ad6ed5511a30fa280f12eb2e47ed2ac03b5c462a0358d18d69fe4f985ec81778c1b370b652a8',
+  },
+  {
+    entropy: 'ffffffffffffffffffffffffffffffff',
+    mnemonic: 'zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo wrong',
+    seed: 'ac27495480225222079d7be181583751e86f571027b0497b5b5d11218e0a8a13332572917f0f8e5a589620c6f15b11c61dee327651a14c34e18231052e48c069',
+  },
+  {
+    entropy: '0000000000000000000000000000000000000000000000000000000000000000',
+    mnemonic: 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon art',
+    seed: 'bda85446c68413707090a52022edd26a1c9462295029f2e60cd7c4f2bbd3097170af7a4d73245cafa9c3cca8d561a7c3de6f5d4a10be8ed2a5e608d68f92fcc8',
+  },
+  {
+    entropy: '9e885d952ad362caeb4efe34a8e91bd2',
+    mnemonic: 'ozone drill grab fiber curtain grace pudding thank cruise elder eight picnic',
+    seed: '274ddc525802f7c828d8ef7ddbcdc5304e87ac3535913611fbbfa986d0c9e5476c91689f9c8a54fd55bd38606aa6a8595ad213d4c9c9f9aca3fb217069a41028',
+  },
+  {
+    entropy: 'f585c11aec520db57dd353c69554b21a89b20fb0650966fa0a9d6f74fd989d8f',
+    mnemonic: 'void come effort suffer camp survey warrior heavy shoot primary clutch crush open amazing screen patrol group space point ten exist slush involve unfold',
+    seed: '01f5bced59dec48e362f2c45b5de68b9fd6c92c6634f44d6d40aab69056506f0e35524a518034ddc1192e1dacd32c1ed3eaa3c3b131c88ed8e7e54c49a5d0998',
+  },
+];
+
+/**
+ * Official Japanese test vectors (bip32JP, listed in BIP39), seeds derived
+ * with the passphrase "㍍ガバヴァぱばぐゞちぢ十人十色". Words are NFKD and
+ * separated by ideographic spaces (U+3000).
+ */
+const JAPANESE_VECTORS = [
+  {
+    entropy: '00000000000000000000000000000000',
+    mnemonic: 'あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あおぞら',
+    seed: 'a262d6fb6122ecf45be09c50492b31f92e9beb7d9a845987a02cefda57a15f9c467a17872029a9e92299b5cbdf306e3a0ee620245cbd508959b6cb7ca637bd55',
+  },
+  {
+    entropy: '7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f',
+    mnemonic: 'そつう　れきだい　ほんやく　わかす　りくつ　ばいか　ろせん　やちん　そつう　れきだい　ほんやく　わかめ',
+    seed: 'aee025cbe6ca256862f889e48110a6a382365142f7d16f2b9545285b3af64e542143a577e9c144e101a6bdca18f8d97ec3366ebf5b088b1c1af9bc31346e60d9',
+  },
+  {
+    entropy: 'ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+    mnemonic: 'われる　われる　われる　われる　われる　われる　われる　われる　われる　われる　われる　われる　われる　われる　われる　われる　われる　われる　われる　われる　われる　われる　われる　らいう',
+    seed: 'a44ba7054ac2f9226929d56505a51e13acdaa8a9097923ca07ea465c4c7e294c038f3f4e7e4b373726ba0057191aced6e48ac8d183f3a11569c426f0de414623',
+  },
+  {
+    entropy: '77c2b00716cec7213839159e404db50d',
+    mnemonic: 'せまい　うちがわ　あずき　かろう　めずらしい　だんち　ますく　おさめる　ていぼう　あたる　すあな　えしゃく',
+    seed: '344cef9efc37d0cb36d89def03d09144dd51167923487eec42c487f7428908546fa31a3c26b7391a2b3afe7db81b9f8c5007336b58e269ea0bd10749a87e0193',
+  },
+  {
+    entropy: '3e141609b97933b66a060dcddc71fad1d91677db872031e85f4c015c5e7e8982',
+    mnemonic: 'くのう　てぬぐい　そんかい　すろっと　ちきゅう　ほあん　とさか　はくしゅ　ひびく　みえる　そざい　てんすう　たんぴん　くしょう　すいようび　みけん　きさらぎ　げざん　ふくざつ　あつかう　はやい　くろう　おやゆび　こすう',
+    seed: '32e78dce2aff5db25aa7a4a32b493b5d10b4089923f3320c8b287a77e512455443298351beb3f7eb2390c4662a2e566eec5217e1a37467af43b46668d515e41b',
+  },
+];
+
+/**
+ * Accented lists: Trezor vector entropies with the passphrase "TREZOR",
+ * cross-checked against bitcoinjs/bip39. Mnemonics are written in NFC, as
+ * typed; the official lists store NFKD.
+ */
+const ACCENTED_VECTORS = [
+  {
+    language: 'spanish' as const,
+    entropy: '7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f',
+    mnemonic: 'ligero vista talar yogur venta queso yacer trozo ligero vista talar zafiro',
+    seed: '1580aa5d5d67057b3a0a12253c283b93921851555529d0bbe9634349d641029216f791ddce3527819d44d833a0df3500b15fd8ba4cae7ca24e1464b9167de633',
+  },
+  {
+    language: 'spanish' as const,
+    entropy: '8080808080808080808080808080808080808080808080808080808080808080',
+    mnemonic: 'lino admitir bolero abrir álbum dejar acelga aprender lino admitir bolero abrir álbum dejar acelga aprender lino admitir bolero abrir álbum dejar acelga aumento',
+    seed: 'dd095dddb50de059f5cb6932d529ad37dd32d40f72da3d0c7671ffc6bd967b4392fe233e5e9a4d9e5e60413160ae215e34375db85e95ccbab4fd4712f32216ab',
+  },
+  {
+    language: 'french' as const,
+    entropy: '9e885d952ad362caeb4efe34a8e91bd2',
+    mnemonic: 'monument dépenser féroce entasser comédie ferveur optique sonnette codifier discuter dioxyde nerveux',
+    seed: 'd322acd69a849cce8719674eeb7cd76520de01ea35210012a44a5dcc19faf285202c3fb3c749a46d338ad54ddd398029ee308ee352a89f65180dbd3ff750dd50',
+  },
+];
+
+describe('BIP39 Mnemonics', () => {
+  beforeAll(async () => {
+    await loadWordlist('bip39-english');
+    await loadWordlist('bip39-japanese');
+    await loadWordlist('bip39-spanish');
+    await loadWordlist('bip39-french');
+  });
+
+  describe('official test vectors', () => {
+    for (const vector of VECTORS) {
+      it(`should encode ${vector.entropy}`, () => {
+        expect(entropyToMnemonic(hexToBytes(vector.entropy))).toBe(vector.mnemonic);
+        expect(bytesToHex(mnemonicToEntropy(vector.mnemonic))).toBe(vector.entropy);
+        expect(validateMnemonic(vector.mnemonic)).toBe(true);
+        expect(bytesToHex(mnemonicToSeed(vector.mnemonic, 'TREZOR'))).toBe(vector.seed);
+      });
+    }
+  });
+
+  describe('Japanese test vectors', () => {
+    for (const vector of JAPANESE_VECTORS) {
+      it(`should encode ${vector.entropy}`, () => {
+        expect(entropyToMnemonic(hexToBytes(vector.entropy), 'japanese')).toBe(vector.mnemonic);
+        expect(bytesToHex(mnemonicToEntropy(vector.mnemonic, 'japanese'))).toBe(vector.entropy);
+        expect(validateMnemonic(vector.mnemonic.normalize('NFC'), 'japanese')).toBe(true);
+        expect(bytesToHex(mnemonicToSeed(vector.mnemonic, '㍍ガバヴァぱばぐゞちぢ十人十色'))).toBe(vector.seed);
+      });
+    }
+  });
+
+  describe('accented list vectors', () => {
+    for (const vector of ACCENTED_VECTORS) {
+      it(`should encode ${vector.entropy} in ${vector.language}`, () => {
+        expect(entropyToMnemonic(hexToBytes(vector.entropy), vector.language)).toBe(vector.mnemonic.normalize('NFKD'));
+        expect(bytesToHex(mnemonicToEntropy(vector.mnemonic, vector.language))).toBe(vector.entropy);
+        expect(validateMnemonic(vector.mnemonic, vector.language)).toBe(true);
+        expect(bytesToHex(mnemonicToSeed(vector.mnemonic, 'TREZOR'))).toBe(vector.seed);
+      });
+    }
+  });
+
+  describe('generateMnemonic', () => {
+    it('should generate 12 words by default', () => {
+      const mnemonic = generateMnemonic();
+      expect(mnemonic.split(' ')).toHaveLength(12);
+      expect(validateMnemonic(mnemonic)).toBe(true);
+    });
+
+    it('should scale the word count with the strength', () => {
+      const sizes: [MnemonicStrength, number][] = [[128, 12], [160, 15], [192, 18], [224, 21], [256, 24]];
+      for (const [strengthBits, words] of sizes) {
+        const mnemonic = generateMnemonic({ strengthBits });
+        expect(mnemonic.split(' ')).toHaveLength(words);
+        expect(validateMnemonic(mnemonic)).toBe(true);
+      }
+    });
+
+    it('should be reproducible with a seeded random source', () => {
+      const a = generateMnemonic({}, createSeededRandomSource('bip39'));
+      const b = generateMnemonic({}, createSeededRandomSource('bip39'));
+      expect(a).toBe(b);
+    });
+
+    it('should reject unsupported strengths', () => {
+      expect(() => generateMnemonic({ strengthBits: 64 as MnemonicStrength })).toThrow(
+        'Mnemonic strength must be 128, 160, 192, 224 or 256 bits'
+      );
+      expect(() => generateMnemonic({ strengthBits: 130 as MnemonicStrength })).toThrow();
+    });
+
+    it('should use a custom 2048-word list', () => {
+      const wordlist = Array.from({ length: 2048 }, (_, i) => `w${i}`);
+      const mnemonic = generateMnemonic({ wordlist });
+      expect(mnemonic.split(' ').every(word => wordlist.includes(word))).toBe(true);
+      expect(validateMnemonic(mnemonic, wordlist)).toBe(true);
+      expect(validateMnemonic(mnemonic)).toBe(false);
+    });
+
+    it('should generate in the requested language', async () => {
+      const japanese = generateMnemonic({ language: 'japanese' });
+      expect(japanese.split('\u3000')).toHaveLength(12);
+      expect(japanese).not.toContain(' ');
+      expect(validateMnemonic(japanese, 'japanese')).toBe(true);
+      expect(validateMnemonic(japanese)).toBe(false);
+
+      const words = await loadWordlist('bip39-korean');
+      const korean = generateMnemonic({ language: 'korean', strengthBits: 256 });
+      expect(korean.split(' ').every(word => words.includes(word))).toBe(true);
+    });
+
+    it('should reject unknown or unloaded languages', () => {
+      expect(() => generateMnemonic({ language: 'czech' })).toThrow('Wordlist "bip39-czech" is not loaded');
+      expect(() => generateMnemonic({ language: 'latin' as MnemonicLanguage })).toThrow(
+        'Unknown mnemonic language: "latin"'
+      );
+      expect(() => generateMnemonic({ language: 'spanish', wordlist: [] })).toThrow(
+        'Specify either a language or a wordlist, not both'
+      );
+    });
+
+    it('should reject lists without exactly 2048 distinct words', () => {
+      expect(() => generateMnemonic({ wordlist: ['one', 'two'] })).toThrow(
+        'Mnemonic wordlist must contain exactly 2048 distinct words'
+      );
+      const duplicated = Array.from({ length: 2048 }, (_, i) => `w${i % 2047}`);
+      expect(() => generateMnemonic({ wordlist: duplicated })).toThrow();
+    });
+  });
+
+  describe('validateMnemonic', () => {
+    it('should reject a bad checksum', () => {
+      expect(validateMnemonic('abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon')).toBe(false);
+      expect(() => mnemonicToEntropy('zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo')).toThrow('Invalid mnemonic checksum');
+    });
+
+    it('should reject unknown words and bad word counts', () => {
+      expect(validateMnemonic('abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon aboutt')).toBe(false);
+      expect(() => mnemonicToEntropy('abandon about')).toThrow('Mnemonic must have 12, 15, 18, 21 or 24 words');
+      expect(() => mnemonicToEntropy(`${'abandon '.repeat(11)}bitcoins`)).toThrow('Unknown mnemonic word: "bitcoins"');
+    });
+
+    it('should accept extra whitespace', () => {
+      expect(validateMnemonic(`  ${VECTORS[0]!.mnemonic.replace(/ /g, '\u3000')}\n`)).toBe(true);
+    });
+  });
+
+  describe('mnemonicToSeed', () => {
+    it('should use an empty passphrase by default', () => {
+      expect(bytesToHex(mnemonicToSeed(VECTORS[0]!.mnemonic))).toBe(
+        bytesToHex(mnemonicToSeed(VECTORS[0]!.mnemonic, ''))
+      );
+      expect(mnemonicToSeed(VECTORS[0]!.mnemonic)).toHaveLength(64);
+    });
+
+    it('should normalize the passphrase to NFKD', () => {
+      expect(bytesToHex(mnemonicToSeed(VECTORS[0]!.mnemonic, 'café'))).toBe(
+        bytesToHex(mnemonicToSeed(VECTORS[0]!.mnemonic, 'café'))
+      );
+    });
+  });
+});
@@ -2,13 +2,19 @@
  * Tests for passphrase generator
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   generatePassphrase,
   generateMemorablePassphrase,
   getDefaultPassphraseOptions,
+  loadPassphraseWordlist,
+  passphraseFromDiceRolls,
+  getDicePerWord,
   type PassphraseOptions,
 } from '../src/generators/passphrase';
+import { loadWordlist } from '../src/generators/wordlists';
+import { validatePassword } from '../src/analyzer/policy';
+import { createSeededRandomSource } from '../src/utils/random';
 
 describe('Passphrase Generator', () => {
   describe('generatePassphrase', () => {
@@ -148,7 +154,8 @@ describe('Passphrase Generator', () => {
         includeNumbers: false,
       };
 
-      expect(() => generatePassphrase(invalidOptions)).toThrow('Word count must be between 4 and 8');
+      expect(() => generatePassphrase(invalidOptions)).toThrow('Word count must be between 3 and 12');
+      expect(() => generatePassphrase({ ...invalidOptions, wordCount: 13 })).toThrow('Word count must be between 3 and 12');
     });
 
     it('should generate unique passphrases', () => {
@@ -169,6 +176,466 @@ describe('Passphrase Generator', () => {
     });
   });
 
+  describe('wordlist option', () => {
+    const base: PassphraseOptions = {
+      wordCount: 5,
+      separator: 'space',
+      capitalize: 'none',
+      includeNumbers: false,
+    };
+
+    it('should require EFF lists to be loaded first', () => {
+      expect(() => generatePassphrase({ ...base, wordlist: 'eff-short-1' }))
+        .toThrow('Wordlist "eff-short-1" is not loaded');
+    });
+
+    it('should draw words from a loaded EFF list', async () => {
+      const words = await loadWordlist('eff-large');
+      const result = generatePassphrase({ ...base, wordlist: 'eff-large' });
+
+      for (const word of result.password.split(' ')) {
+        expect(words).toContain(word);
+      }
+      // 5 × log2(7776) ≈ 64.6 bits
+      expect(result.entropy).toBe(64.6);
+    });
+
+    it('should compute entropy from the short list size', async () => {
+      await loadWordlist('eff-short-2');
+      const result = generatePassphrase({ ...base, wordCount: 6, wordlist: 'eff-short-2' });
+      // 6 × log2(1296) ≈ 62.0 bits
+      expect(result.entropy).toBe(62);
+    });
+
+    it('should accept a custom wordlist', () => {
+      const custom = ['alpha', 'bravo', 'charlie', 'delta'];
+      const result = generatePassphrase({ ...base, wordCount: 4, wordlist: custom });
+
+      for (const word of result.password.split(' ')) {
+        expect(custom).toContain(word);
+      }
+      expect(result.entropy).toBe(8);
+      expect(result.strength).toBe('weak');
+    });
+
+    it('should reject duplicate words regardless of case', () => {
+      expect(() => generatePassphrase({ ...base, wordlist: ['apple', 'pear', 'Apple'] }))
+        .toThrow('Wordlist contains duplicate word: "apple"');
+    });
+
+    it('should reject prefix-ambiguous words without a separator', () => {
+      const words = ['sun', 'flower', 'sunflower', 'moon'];
+
+      expect(() => generatePassphrase({ ...base, separator: 'none', wordlist: words }))
+        .toThrow('"sun" is a prefix of "sunflower"');
+      expect(() => generatePassphrase({ ...base, wordlist: words })).not.toThrow();
+    });
+
+    it('should reject lists that are too small or contain blank words', () => {
+      expect(() => generatePassphrase({ ...base, wordlist: ['only'] })).toThrow('at least 2 words');
+      expect(() => generatePassphrase({ ...base, wordlist: ['one', 'two words'] })).toThrow('no whitespace');
+    });
+  });
+
+  describe('language option', () => {
+    const base: PassphraseOptions = {
+      wordCount: 6,
+      separator: 'space',
+      capitalize: 'none',
+      includeNumbers: false,
+    };
+
+    it('should draw words from the localized list', async () => {
+      const options: PassphraseOptions = { ...base, language: 'fr' };
+      await loadPassphraseWordlist(options);
+      const words = await loadWordlist('diceware-fr');
+
+      const result = generatePassphrase(options);
+      for (const word of result.password.split(' ')) {
+        expect(words).toContain(word);
+      }
+      // 6 × log2(1296) ≈ 62.0 bits
+      expect(result.entropy).toBe(62);
+    });
+
+    it('should use the EFF large list for English', async () => {
+      const options: PassphraseOptions = { ...base, language: 'en' };
+      await loadPassphraseWordlist(options);
+      const words = await loadWordlist('eff-large');
+
+      const result = generatePassphrase(options);
+      for (const word of result.password.split(' ')) {
+        expect(words).toContain(word);
+      }
+      // 6 × log2(7776) ≈ 77.5 bits
+      expect(result.entropy).toBe(77.5);
+    });
+
+    it('should use the bundled basic list without a language', () => {
+      const result = generatePassphrase(base);
+      // 6 × log2(440) ≈ 52.7 bits
+      expect(result.entropy).toBe(52.7);
+    });
+
+    it('should require the localized list to be loaded first', () => {
+      expect(() => generatePassphrase({ ...base, language: 'nl' })).toThrow('Wordlist "diceware-nl" is not loaded');
+    });
+
+    it('should not combine a language with a custom wordlist', async () => {
+      const options: PassphraseOptions = { ...base, language: 'es', wordlist: ['uno', 'dos', 'tres'] };
+
+      expect(() => generatePassphrase(options)).toThrow('either a language or a wordlist');
+      await expect(loadPassphraseWordlist(options)).rejects.toThrow('either a language or a wordlist');
+      expect(() => generatePassphrase({ ...base, language: 'en', wordlist: ['one', 'two', 'three'] })).not.toThrow();
+    });
+
+    it('should return phrases that the policy engine leaves unchanged', async () => {
+      const options: PassphraseOptions = { ...base, capitalize: 'all', language: 'de' };
+      await loadPassphraseWordlist(options);
+
+      for (let i = 0; i < 20; i++) {
+        const { password } = generatePassphrase(options);
+        const result = await validatePassword(password, { minLength: 8 });
+        expect(result.normalized).toBe(password);
+      }
+    });
+
+    it('should normalize custom words before checking for duplicates', () => {
+      expect(() => generatePassphrase({ ...base, wordlist: ['caf\u00e9', 'cafe\u0301', 'the'] }))
+        .toThrow('duplicate word');
+    });
+
+    it('should return custom words in composed form', () => {
+      const result = generatePassphrase({ ...base, wordCount: 4, wordlist: ['cafe\u0301', 'the\u0301'] });
+      expect(result.password).toBe(result.password.normalize('NFKC'));
+      expect(result.password).not.toContain('\u0301');
+    });
+  });
+
+  describe('grammar structure', () => {
+    const base: PassphraseOptions = {
+      wordCount: 5,
+      separator: 'space',
+      capitalize: 'none',
+      includeNumbers: false,
+      structure: 'grammar',
+    };
+
+    it('should require the word classes to be loaded first', () => {
+      expect(() => generatePassphrase(base)).toThrow('is not loaded');
+    });
+
+    it('should fill the adjective-noun-verb-number-noun template', async () => {
+      await loadPassphraseWordlist(base);
+      const [adjectives, nouns, verbs] = await Promise.all([
+        loadWordlist('en-adjectives'),
+        loadWordlist('en-nouns'),
+        loadWordlist('en-verbs'),
+      ]);
+
+      for (let i = 0; i < 20; i++) {
+        const [adjective, noun, verb, number, object] = generatePassphrase(base).password.split(' ');
+        expect(adjectives).toContain(adjective);
+        expect(nouns).toContain(noun);
+        expect(verbs).toContain(verb);
+        expect(number).toMatch(/^(two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|(thir|four|fif|six|seven)teen)$/);
+        expect(object).toMatch(/s$/);
+      }
+    });
+
+    it('should report the entropy of every slot', async () => {
+      await loadPassphraseWordlist(base);
+      const result = generatePassphrase(base);
+
+      expect(result.slots).toEqual([
+        { slot: 'adjective', entropy: 9 },
+        { slot: 'noun', entropy: 10 },
+        { slot: 'verb', entropy: 8 },
+        { slot: 'number', entropy: 4 },
+        { slot: 'noun', entropy: 10 },
+      ]);
+      expect(result.entropy).toBe(41);
+      expect(result.strength).toBe('medium');
+    });
+
+    it('should have a template for every word count', async () => {
+      await loadPassphraseWordlist(base);
+      const expected = { 4: 37, 5: 41, 6: 50, 7: 57, 8: 66 };
+
+      for (const [wordCount, entropy] of Object.entries(expected)) {
+        const result = generatePassphrase({ ...base, wordCount: Number(wordCount) });
+        expect(result.password.split(' ')).toHaveLength(Number(wordCount));
+        expect(result.slots).toHaveLength(Number(wordCount));
+        expect(result.entropy).toBe(entropy);
+      }
+    });
+
+    it('should pluralize object nouns regularly', async () => {
+      await loadPassphraseWordlist(base);
+      const nouns = await loadWordlist('en-nouns');
+      const random = createSeededRandomSource('grammar-plurals');
+
+      for (let i = 0; i < 50; i++) {
+        const object = generatePassphrase(base, random).password.split(' ')[4]!;
+        const singular = [object.replace(/ies$/, 'y'), object.replace(/es$/, ''), object.replace(/s$/, '')];
+        expect(singular.some(word => nouns.includes(word))).toBe(true);
+      }
+    });
+
+    it('should report one flat slot per word otherwise', () => {
+      const result = generatePassphrase({ ...base, structure: 'random', wordCount: 4 });
+      expect(result.slots).toHaveLength(4);
+      expect(result.slots.every(({ slot, entropy }) => slot === 'word' && entropy === 8.8)).toBe(true);
+    });
+
+    it('should not combine the grammar structure with other wordlists', async () => {
+      expect(() => generatePassphrase({ ...base, wordlist: 'eff-large' })).toThrow('built-in English word classes');
+      expect(() => generatePassphrase({ ...base, language: 'de' })).toThrow('built-in English word classes');
+      await expect(loadPassphraseWordlist({ ...base, language: 'fr' })).rejects.toThrow('built-in English word classes');
+    });
+  });
+
+  describe('word constraints', () => {
+    const base: PassphraseOptions = {
+      wordCount: 5,
+      separator: 'dash',
+      capitalize: 'none',
+      includeNumbers: false,
+      wordlist: 'eff-large',
+    };
+
+    it('should filter words by length and count only the remaining words', async () => {
+      const words = await loadWordlist('eff-large');
+      const allowed = words.filter(word => word.length >= 4 && word.length <= 5);
+
+      const result = generatePassphrase({ ...base, minWordLength: 4, maxWordLength: 5 });
+      for (const word of result.password.split(/[-_]/)) {
+        expect(allowed).toContain(word);
+      }
+      // Words plus 1 bit for the dash/underscore choice
+      expect(result.entropy).toBe(Math.round((5 * Math.log2(allowed.length) + 1) * 10) / 10);
+      expect(result.slots[0]!.entropy).toBeLessThan(12.9);
+    });
+
+    it('should keep passphrases within the total length', async () => {
+      await loadWordlist('eff-large');
+
+      for (const options of [
+        { ...base, maxTotalLength: 28 },
+        { ...base, maxTotalLength: 32, includeNumbers: true, separator: 'symbol' as const },
+        { ...base, maxTotalLength: 20, separator: 'none' as const },
+      ]) {
+        for (let i = 0; i < 20; i++) {
+          expect(generatePassphrase(options).password.length).toBeLessThanOrEqual(options.maxTotalLength);
+        }
+      }
+    });
+
+    it('should give every word a unique prefix', async () => {
+      await loadWordlist('eff-large');
+      const result = generatePassphrase({ ...base, uniquePrefixLength: 3, wordCount: 8 });
+      const words = result.password.split(/[-_]/);
+
+      expect(words.every(word => word.length >= 3)).toBe(true);
+      // 26^3 possible prefixes at most, fewer in practice
+      expect(result.slots[0]!.entropy).toBeLessThan(12.9);
+      expect(result.slots[0]!.entropy).toBeGreaterThan(10);
+    });
+
+    it('should keep the shortest word for each prefix', () => {
+      const wordlist = ['sun', 'sunflower', 'sunny', 'moon', 'moonlight', 'star'];
+      const result = generatePassphrase({ ...base, wordlist, uniquePrefixLength: 3, wordCount: 8 });
+
+      for (const word of result.password.split(/[-_]/)) {
+        expect(['sun', 'moon', 'star']).toContain(word);
+      }
+      expect(result.entropy).toBe(Math.round((8 * Math.log2(3) + 1) * 10) / 10);
+    });
+
+    it('should apply constraints to grammar slots', async () => {
+      const options: PassphraseOptions = {
+        wordCount: 5,
+        separator: 'dash',
+        capitalize: 'none',
+        includeNumbers: false,
+        structure: 'grammar',
+        maxWordLength: 5,
+      };
+      await loadPassphraseWordlist(options);
+
+      const result = generatePassphrase(options);
+      expect(result.password.split(/[-_]/).every(word => word.length <= 5)).toBe(true);
+      // Numbers up to five letters: two three four five six seven eight nine ten
+      expect(result.slots[3]).toEqual({ slot: 'number', entropy: 3.2 });
+    });
+
+    it('should reject impossible or invalid constraints', async () => {
+      await loadWordlist('eff-large');
+
+      expect(() => generatePassphrase({ ...base, minWordLength: 6, maxWordLength: 5 }))
+        .toThrow('Word length limits leave no room for words');
+      expect(() => generatePassphrase({ ...base, maxTotalLength: 8 })).toThrow('leave no room');
+      expect(() => generatePassphrase({ ...base, maxWordLength: 2 })).toThrow('Word constraints leave 0 word(s)');
+      expect(() => generatePassphrase({ ...base, minWordLength: 0 })).toThrow('minWordLength must be a positive integer');
+      expect(() => generatePassphrase({ ...base, uniquePrefixLength: 1.5 })).toThrow('uniquePrefixLength must be a positive integer');
+    });
+  });
+
+  describe('targetEntropyBits', () => {
+    const base: PassphraseOptions = {
+      wordCount: 4,
+      separator: 'dash',
+      capitalize: 'none',
+      includeNumbers: false,
+    };
+
+    it('should count the separator choice and inserted digits', () => {
+      const result = generatePassphrase({ ...base, separator: 'symbol', includeNumbers: true });
+      expect(result.slots.slice(4)).toEqual([
+        { slot: 'separator', entropy: 2.8 },
+        { slot: 'digits', entropy: 8.2 },
+      ]);
+      // 4 × 8.78 + 2.81 + 8.23
+      expect(result.entropy).toBe(46.2);
+    });
+
+    it('should pick the fewest words that reach the target', () => {
+      const result = generatePassphrase({ ...base, targetEntropyBits: 60 });
+      const words = result.slots.filter(({ slot }) => slot === 'word');
+
+      expect(words).toHaveLength(7);
+      expect(result.entropy).toBeGreaterThanOrEqual(60);
+      expect(result.slots.some(({ slot }) => slot === 'digits')).toBe(false);
+    });
+
+    it('should prefer more words from a larger list', async () => {
+      await loadWordlist('eff-large');
+      const result = generatePassphrase({ ...base, wordlist: 'eff-large', targetEntropyBits: 100 });
+
+      expect(result.slots.filter(({ slot }) => slot === 'word')).toHaveLength(8);
+      expect(result.entropy).toBe(104.4);
+    });
+
+    it('should add numbers and then symbols when words are not enough', () => {
+      const withNumbers = generatePassphrase({ ...base, targetEntropyBits: 110 });
+      expect(withNumbers.slots.map(({ slot }) => slot).slice(-2)).toEqual(['separator', 'digits']);
+      expect(withNumbers.slots.find(({ slot }) => slot === 'separator')!.entropy).toBe(1);
+      expect(withNumbers.entropy).toBeGreaterThanOrEqual(110);
+
+      const withSymbols = generatePassphrase({ ...base, targetEntropyBits: 115 });
+      expect(withSymbols.slots.find(({ slot }) => slot === 'separator')!.entropy).toBe(2.8);
+      expect(withSymbols.entropy).toBeGreaterThanOrEqual(115);
+    });
+
+    it('should use grammar templates only', async () => {
+      const options: PassphraseOptions = { ...base, structure: 'grammar', targetEntropyBits: 50 };
+      await loadPassphraseWordlist(options);
+
+      const result = generatePassphrase(options);
+      expect(result.password.split(/[-_]/)).toHaveLength(6);
+      expect(() => generatePassphrase({ ...base, structure: 'grammar', wordCount: 3 }))
+        .toThrow('Grammar-structured passphrases need 4 to 8 words');
+    });
+
+    it('should report the best grammar entropy when the target is out of reach', async () => {
+      const options: PassphraseOptions = { ...base, structure: 'grammar', targetEntropyBits: 90 };
+      await loadPassphraseWordlist(options);
+
+      expect(() => generatePassphrase(options)).toThrow(
+        'Target of 90 bits is out of reach with these options (at most 77 bits)'
+      );
+      expect(() => generatePassphrase({ ...options, language: 'de' })).toThrow(
+        'Grammar-structured passphrases use the built-in English word classes'
+      );
+    });
+
+    it('should reject unreachable or invalid targets', () => {
+      expect(() => generatePassphrase({ ...base, targetEntropyBits: 200 })).toThrow(
+        'Target of 200 bits is out of reach with these options (at most 116.4 bits)'
+      );
+      expect(() => generatePassphrase({ ...base, targetEntropyBits: 0 })).toThrow('targetEntropyBits must be a positive number');
+      expect(() => generatePassphrase({ ...base, targetEntropyBits: NaN })).toThrow('targetEntropyBits must be a positive number');
+    });
+  });
+
+  describe('passphraseFromDiceRolls', () => {
+    const rolls = ['16655', '15143', '34631', '42436', '56224'];
+
+    it('should map five-dice rolls to EFF large list words', async () => {
+      await loadWordlist('eff-large');
+      const result = passphraseFromDiceRolls(rolls);
+
+      expect(result.password).toBe('contusion-carwash-issue-omen-starting');
+      expect(result.entropy).toBe(64.6);
+      expect(result.strength).toBe('strong');
+    });
+
+    it('should map the first and last rolls to the ends of the list', async () => {
+      await loadWordlist('eff-large');
+      const result = passphraseFromDiceRolls(['11111', '66666', '11111', '66666'], { separator: 'space' });
+      expect(result.password).toBe('abacus zoom abacus zoom');
+    });
+
+    it('should apply separator and capitalization without drawing randomness', async () => {
+      await loadWordlist('eff-large');
+      const spy = vi.spyOn(crypto, 'getRandomValues');
+
+      const result = passphraseFromDiceRolls(rolls, { separator: 'none', capitalize: 'all' });
+
+      expect(result.password).toBe('ContusionCarwashIssueOmenStarting');
+      expect(spy).not.toHaveBeenCalled();
+      spy.mockRestore();
+    });
+
+    it('should use four-dice rolls for 1296-word lists', async () => {
+      await loadPassphraseWordlist({ language: 'it' });
+      const words = await loadWordlist('diceware-it');
+
+      const result = passphraseFromDiceRolls(['1111', '6666', '1112', '6665'], { language: 'it' });
+
+      expect(result.password).toBe([words[0], words[1295], words[1], words[1294]].join('-'));
+      expect(result.entropy).toBe(41.4);
+      expect(() => passphraseFromDiceRolls(rolls, { language: 'it' })).toThrow('must be 4 dice faces');
+    });
+
+    it('should reject malformed rolls', async () => {
+      await loadWordlist('eff-large');
+
+      expect(() => passphraseFromDiceRolls(['11111', '22222', '33333', '12345', '1237'])).toThrow(
+        'Roll 5 ("1237") must be 5 dice faces from 1 to 6'
+      );
+      expect(() => passphraseFromDiceRolls(['11111', '22222', '33333', '70000'])).toThrow('Roll 4');
+      expect(() => passphraseFromDiceRolls(['11111', '22222', '33333', 'abcde'])).toThrow('Roll 4');
+      expect(() => passphraseFromDiceRolls([' 11111 ', '22222', '33333', '44444'])).not.toThrow();
+    });
+
+    it('should reject word counts outside the shared bounds', async () => {
+      await loadWordlist('eff-large');
+      expect(() => passphraseFromDiceRolls(['11111', '22222'])).toThrow('Word count must be between 3 and 12');
+      expect(passphraseFromDiceRolls(['11111', '22222', '33333']).password.split('-')).toHaveLength(3);
+    });
+
+    it('should require a wordlist whose size is a power of 6', () => {
+      expect(() => passphraseFromDiceRolls(['1', '2', '3', '4'], { wordlist: 'basic' })).toThrow(
+        'power of 6 to map dice rolls (got 440)'
+      );
+
+      const custom = ['one', 'two', 'three', 'four', 'five', 'six'];
+      expect(passphraseFromDiceRolls(['1', '6', '2', '5'], { wordlist: custom }).password).toBe('one-six-two-five');
+    });
+
+    it('should report the dice per word before any roll is entered', async () => {
+      await loadWordlist('eff-large');
+      await loadWordlist('eff-short-1');
+      await loadWordlist('diceware-de');
+
+      expect(getDicePerWord()).toBe(5);
+      expect(getDicePerWord({ wordlist: 'eff-short-1' })).toBe(4);
+      expect(getDicePerWord({ language: 'de' })).toBe(4);
+      expect(() => getDicePerWord({ wordlist: 'basic' })).toThrow('power of 6 to map dice rolls (got 440)');
+    });
+  });
+
   describe('generateMemorablePassphrase', () => {
     it('should generate short passphrase with 4 words', () => {
       const result = generateMemorablePassphrase('short');
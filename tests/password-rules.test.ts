@@ -0,0 +1,81 @@
+/**
+ * Tests for the passwordrules parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePasswordRules, getRulesCharset } from '../src/generators/password-rules';
+
+describe('Password Rules Parser', () => {
+  describe('parsePasswordRules', () => {
+    it('should parse required and allowed classes', () => {
+      const rules = parsePasswordRules('required: upper; required: digit; allowed: lower');
+
+      expect(rules.required).toEqual(['ABCDEFGHIJKLMNOPQRSTUVWXYZ', '0123456789']);
+      expect(rules.allowed).toBe('abcdefghijklmnopqrstuvwxyz');
+    });
+
+    it('should union comma-separated classes within one rule', () => {
+      const rules = parsePasswordRules('required: upper, lower');
+      expect(rules.required).toHaveLength(1);
+      expect(rules.required[0]).toHaveLength(52);
+    });
+
+    it('should parse custom character classes', () => {
+      const rules = parsePasswordRules('required: [-_!]; allowed: [;,]');
+
+      expect(rules.required).toEqual(['-_!']);
+      expect(rules.allowed).toBe(';,');
+    });
+
+    it('should treat a bracket directly after the opening bracket as literal', () => {
+      const rules = parsePasswordRules('allowed: []-]');
+      expect(rules.allowed).toBe(']-');
+    });
+
+    it('should parse numeric properties', () => {
+      const rules = parsePasswordRules('minlength: 8; maxlength: 20; max-consecutive: 2');
+
+      expect(rules.minLength).toBe(8);
+      expect(rules.maxLength).toBe(20);
+      expect(rules.maxConsecutive).toBe(2);
+    });
+
+    it('should combine repeated length rules to the most restrictive value', () => {
+      const rules = parsePasswordRules('minlength: 8; minlength: 10; maxlength: 30; maxlength: 20');
+
+      expect(rules.minLength).toBe(10);
+      expect(rules.maxLength).toBe(20);
+    });
+
+    it('should be case-insensitive and tolerate whitespace', () => {
+      const rules = parsePasswordRules('  Required : UPPER ;MaxLength:12;  ');
+
+      expect(rules.required).toEqual(['ABCDEFGHIJKLMNOPQRSTUVWXYZ']);
+      expect(rules.maxLength).toBe(12);
+    });
+
+    it('should reject unknown properties and classes', () => {
+      expect(() => parsePasswordRules('forbidden: digit')).toThrow('Unknown password rule property');
+      expect(() => parsePasswordRules('required: emoji')).toThrow('Unknown character class');
+    });
+
+    it('should reject malformed values', () => {
+      expect(() => parsePasswordRules('maxlength: twenty')).toThrow('Invalid value for maxlength');
+      expect(() => parsePasswordRules('required upper')).toThrow('Invalid password rule');
+      expect(() => parsePasswordRules('allowed: [abc')).toThrow('Unterminated character class');
+    });
+  });
+
+  describe('getRulesCharset', () => {
+    it('should union allowed and required characters', () => {
+      const charset = getRulesCharset(parsePasswordRules('required: [ab]; allowed: [bc]'));
+      expect(charset.split('').sort().join('')).toBe('abc');
+    });
+
+    it('should default to ascii-printable without space', () => {
+      const charset = getRulesCharset(parsePasswordRules('maxlength: 20'));
+      expect(charset).toHaveLength(94);
+      expect(charset).not.toContain(' ');
+    });
+  });
+});
@@ -7,9 +7,12 @@ import {
   generatePassword,
   generatePasswords,
   generatePronounceablePassword,
+  generatePasswordForRules,
+  generateFromPattern,
   getDefaultOptions,
   type PasswordGeneratorOptions,
 } from '../src/generators/password';
+import { createSeededRandomSource } from '../src/utils/random';
 
 describe('Password Generator', () => {
   describe('generatePassword', () => {
@@ -154,6 +157,146 @@ describe('Password Generator', () => {
     });
   });
 
+  describe('generatePassword constraints', () => {
+    it('should honour minimum per-class counts', () => {
+      for (let i = 0; i < 50; i++) {
+        const { password } = generatePassword({
+          ...getDefaultOptions(),
+          length: 10,
+          minNumbers: 2,
+          minSymbols: 2,
+          minUppercase: 3,
+        });
+        expect(password.replace(/[^0-9]/g, '').length).toBeGreaterThanOrEqual(2);
+        expect(password.replace(/[A-Za-z0-9]/g, '').length).toBeGreaterThanOrEqual(2);
+        expect(password.replace(/[^A-Z]/g, '').length).toBeGreaterThanOrEqual(3);
+      }
+    });
+
+    it('should honour first and last character classes', () => {
+      for (let i = 0; i < 50; i++) {
+        const { password } = generatePassword({
+          ...getDefaultOptions(),
+          firstCharClass: 'letter',
+          lastCharClass: 'alphanumeric',
+        });
+        expect(password).toMatch(/^[A-Za-z]/);
+        expect(password).toMatch(/[A-Za-z0-9]$/);
+      }
+    });
+
+    it('should limit consecutive repeats', () => {
+      for (let i = 0; i < 20; i++) {
+        const { password } = generatePassword({
+          ...getDefaultOptions(),
+          length: 64,
+          includeUppercase: false,
+          includeLowercase: false,
+          includeSymbols: false,
+          maxConsecutiveRepeats: 1,
+        });
+        expect(password).not.toMatch(/(.)\1/);
+      }
+    });
+
+    it('should always include every enabled class', () => {
+      for (let i = 0; i < 200; i++) {
+        const { password } = generatePassword({ ...getDefaultOptions(), length: 8 });
+        expect(password).toMatch(/[A-Z]/);
+        expect(password).toMatch(/[a-z]/);
+        expect(password).toMatch(/[0-9]/);
+        expect(password).toMatch(/[^A-Za-z0-9]/);
+      }
+    });
+
+    it('should reduce entropy to account for constraints', () => {
+      const unconstrained = generatePassword({ ...getDefaultOptions(), customCharset: 'abcdefghij0123456789' });
+      const constrained = generatePassword({
+        ...getDefaultOptions(),
+        customCharset: 'abcdefghij0123456789',
+        minNumbers: 8,
+        firstCharClass: 'letter',
+      });
+      expect(unconstrained.entropy).toBe(Math.round(16 * Math.log2(20) * 10) / 10);
+      expect(constrained.entropy).toBeLessThan(unconstrained.entropy);
+    });
+
+    it('should reject impossible constraints', () => {
+      expect(() => generatePassword({ ...getDefaultOptions(), length: 8, minNumbers: 5, minSymbols: 5 })).toThrow(
+        'Minimum character counts exceed password length'
+      );
+      expect(() => generatePassword({ ...getDefaultOptions(), includeSymbols: false, minSymbols: 1 })).toThrow(
+        'Cannot require symbol characters'
+      );
+      expect(() => generatePassword({ ...getDefaultOptions(), minNumbers: -1 })).toThrow('non-negative');
+      expect(() => generatePassword({ ...getDefaultOptions(), maxConsecutiveRepeats: 0 })).toThrow('positive integer');
+      expect(() =>
+        generatePassword({ ...getDefaultOptions(), includeSymbols: false, lastCharClass: 'symbol' })
+      ).toThrow('No symbol characters available');
+    });
+  });
+
+  describe('symbol sets and exclusions', () => {
+    it('should use a preset symbol set', () => {
+      for (let i = 0; i < 20; i++) {
+        const { password } = generatePassword({ ...getDefaultOptions(), symbolSet: 'url-safe', minSymbols: 4 });
+        expect(password).toMatch(/^[A-Za-z0-9\-._~]+$/);
+        expect(password.replace(/[A-Za-z0-9]/g, '').length).toBeGreaterThanOrEqual(4);
+      }
+    });
+
+    it('should keep markup characters out of xml-safe passwords', () => {
+      for (let i = 0; i < 20; i++) {
+        const { password } = generatePassword({ ...getDefaultOptions(), length: 64, symbolSet: 'xml-safe' });
+        expect(password).not.toMatch(/[<>&'"]/);
+      }
+    });
+
+    it('should keep escaped characters out of json-safe passwords', () => {
+      for (let i = 0; i < 20; i++) {
+        const { password } = generatePassword({ ...getDefaultOptions(), length: 64, symbolSet: 'json-safe', minSymbols: 8 });
+        expect(password).not.toMatch(/["\\<>&]/);
+        expect(JSON.stringify(password)).toBe(`"${password}"`);
+      }
+    });
+
+    it('should draw json-safe symbols from the xml-safe set', () => {
+      const options = { ...getDefaultOptions(), includeUppercase: false, includeLowercase: false, includeNumbers: false };
+      const json = generatePassword({ ...options, symbolSet: 'json-safe' }, createSeededRandomSource('symbols'));
+      const xml = generatePassword({ ...options, symbolSet: 'xml-safe' }, createSeededRandomSource('symbols'));
+      expect(json).toEqual(xml);
+    });
+
+    it('should accept a free-form symbol set', () => {
+      const { password } = generatePassword({ ...getDefaultOptions(), symbolSet: '-_!', minSymbols: 3 });
+      expect(password).toMatch(/^[A-Za-z0-9\-_!]+$/);
+      expect(password.replace(/[A-Za-z0-9]/g, '').length).toBeGreaterThanOrEqual(3);
+    });
+
+    it('should reflect the symbol set size in entropy', () => {
+      const options = { ...getDefaultOptions(), includeUppercase: false, includeLowercase: false, includeNumbers: false };
+      const narrow = generatePassword({ ...options, symbolSet: 'url-safe' });
+      expect(narrow.entropy).toBe(Math.round(16 * Math.log2(4) * 10) / 10);
+    });
+
+    it('should exclude listed characters', () => {
+      for (let i = 0; i < 20; i++) {
+        const { password } = generatePassword({ ...getDefaultOptions(), length: 64, excludeChars: ';<>aeiou' });
+        expect(password).not.toMatch(/[;<>aeiou]/);
+      }
+    });
+
+    it('should apply exclusions to a custom charset', () => {
+      const { password } = generatePassword({ ...getDefaultOptions(), customCharset: 'abcdef', excludeChars: 'abc' });
+      expect(password).toMatch(/^[def]+$/);
+    });
+
+    it('should reject invalid symbol sets', () => {
+      expect(() => generatePassword({ ...getDefaultOptions(), symbolSet: 'sql-safe' })).toThrow('Unknown symbol set');
+      expect(() => generatePassword({ ...getDefaultOptions(), symbolSet: '' })).toThrow('Unknown symbol set');
+    });
+  });
+
   describe('generatePasswords', () => {
     it('should generate multiple passwords', () => {
       const options = getDefaultOptions();
@@ -173,6 +316,108 @@ describe('Password Generator', () => {
     });
   });
 
+  describe('generatePasswordForRules', () => {
+    it('should satisfy every rule', () => {
+      const rules = 'minlength: 12; maxlength: 14; required: upper; required: digit; required: [-_!]; allowed: lower; max-consecutive: 2';
+
+      for (let i = 0; i < 50; i++) {
+        const { password } = generatePasswordForRules(rules);
+        expect(password.length).toBeGreaterThanOrEqual(12);
+        expect(password.length).toBeLessThanOrEqual(14);
+        expect(password).toMatch(/[A-Z]/);
+        expect(password).toMatch(/[0-9]/);
+        expect(password).toMatch(/[-_!]/);
+        expect(password).toMatch(/^[A-Za-z0-9\-_!]+$/);
+        expect(password).not.toMatch(/(.)\1\1/);
+      }
+    });
+
+    it('should clamp the default length to maxlength', () => {
+      const result = generatePasswordForRules('maxlength: 10; required: digit');
+      expect(result.password).toHaveLength(10);
+    });
+
+    it('should honour an explicit length', () => {
+      const result = generatePasswordForRules('required: lower', { length: 24 });
+      expect(result.password).toHaveLength(24);
+    });
+
+    it('should report entropy of the constrained space', () => {
+      // 27 strings over {a,b,c} of length 3, minus 1 with no a/b and 8 with no c
+      const result = generatePasswordForRules('required: [ab]; required: [c]; minlength: 3; maxlength: 3');
+      expect(result.entropy).toBe(Math.round(Math.log2(18) * 10) / 10);
+    });
+
+    it('should sample uniformly from the constrained space', () => {
+      const seen = new Set<string>();
+      for (let i = 0; i < 400; i++) {
+        seen.add(generatePasswordForRules('required: [ab]; required: [c]; minlength: 3; maxlength: 3').password);
+      }
+      expect(seen.size).toBe(18);
+    });
+
+    it('should enforce max-consecutive constructively', () => {
+      const result = generatePasswordForRules('allowed: [ab]; max-consecutive: 1; minlength: 6; maxlength: 6');
+      expect(['ababab', 'bababa']).toContain(result.password);
+      expect(result.entropy).toBe(1);
+    });
+
+    it('should accept pre-parsed rules', () => {
+      const result = generatePasswordForRules({ required: ['xyz'], allowed: '', maxLength: 8 });
+      expect(result.password).toMatch(/^[xyz]{8}$/);
+    });
+
+    it('should throw for contradictory or unsatisfiable rules', () => {
+      expect(() => generatePasswordForRules('minlength: 20; maxlength: 10')).toThrow('contradictory');
+      expect(() => generatePasswordForRules('maxlength: 10', { length: 12 })).toThrow('between 1 and 10');
+      expect(() => generatePasswordForRules('required: [a]; required: [b]; required: [c]; maxlength: 2')).toThrow(
+        'No password satisfies'
+      );
+    });
+  });
+
+  describe('generateFromPattern', () => {
+    it('should follow the pattern shape', () => {
+      const result = generateFromPattern('LLLL-9999-ssss');
+      expect(result.password).toMatch(/^[A-Za-z]{4}-[0-9]{4}-[!@#$%^&*()_+\-=[\]{}|;:,.<>?]{4}$/);
+    });
+
+    it('should compute entropy per position', () => {
+      const result = generateFromPattern('LLLL-9999-ssss');
+      const expected = 4 * Math.log2(52) + 4 * Math.log2(10) + 4 * Math.log2(26);
+      expect(result.entropy).toBe(Math.round(expected * 10) / 10);
+    });
+
+    it('should give literals zero entropy', () => {
+      const result = generateFromPattern("'acme'-'corp'");
+      expect(result.password).toBe('acme-corp');
+      expect(result.entropy).toBe(0);
+      expect(result.strength).toBe('weak');
+    });
+
+    it('should generate words for word placeholders', () => {
+      const result = generateFromPattern('W-w-9{4}');
+      expect(result.password).toMatch(/^[A-Z][a-z]+-[a-z]+-[0-9]{4}$/);
+    });
+
+    it('should credit only the count choice for optional parts', () => {
+      const result = generateFromPattern('9{4}(-s)?');
+      expect(result.password).toMatch(/^[0-9]{4}(-[^A-Za-z0-9])?$/);
+      expect(result.entropy).toBe(Math.round((4 * Math.log2(10) + 1) * 10) / 10);
+    });
+
+    it('should honour variable repetition bounds', () => {
+      for (let i = 0; i < 20; i++) {
+        const { password } = generateFromPattern('h{8,12}');
+        expect(password).toMatch(/^[0-9a-f]{8,12}$/);
+      }
+    });
+
+    it('should throw for invalid patterns', () => {
+      expect(() => generateFromPattern('LLxx')).toThrow('Unknown placeholder');
+    });
+  });
+
   describe('generatePronounceablePassword', () => {
     it('should generate pronounceable password with correct length', () => {
       const result = generatePronounceablePassword(12);
@@ -0,0 +1,70 @@
+/**
+ * Tests for the password pattern parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePattern } from '../src/generators/pattern';
+
+describe('Password Pattern Parser', () => {
+  it('should parse placeholders and literals', () => {
+    const tokens = parsePattern('U9-s');
+
+    expect(tokens).toHaveLength(4);
+    expect(tokens[0]).toMatchObject({ kind: 'charset', chars: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ' });
+    expect(tokens[1]).toMatchObject({ kind: 'charset', chars: '0123456789' });
+    expect(tokens[2]).toEqual({ kind: 'literal', text: '-', min: 1, max: 1 });
+    expect(tokens[3]).toMatchObject({ kind: 'charset' });
+  });
+
+  it('should parse quoted literals and escapes', () => {
+    const tokens = parsePattern("'acme'\\U");
+
+    expect(tokens).toEqual([
+      { kind: 'literal', text: 'acme', min: 1, max: 1 },
+      { kind: 'literal', text: 'U', min: 1, max: 1 },
+    ]);
+  });
+
+  it('should parse word placeholders', () => {
+    expect(parsePattern('wW')).toEqual([
+      { kind: 'word', capitalize: false, min: 1, max: 1 },
+      { kind: 'word', capitalize: true, min: 1, max: 1 },
+    ]);
+  });
+
+  it('should expand character class ranges', () => {
+    const [token] = parsePattern('[a-c0-2_]');
+    expect(token).toMatchObject({ kind: 'charset', chars: 'abc012_' });
+  });
+
+  it('should parse quantifiers', () => {
+    const tokens = parsePattern('9{4}s{1,3}U?');
+
+    expect(tokens[0]).toMatchObject({ min: 4, max: 4 });
+    expect(tokens[1]).toMatchObject({ min: 1, max: 3 });
+    expect(tokens[2]).toMatchObject({ min: 0, max: 1 });
+  });
+
+  it('should parse nested groups', () => {
+    const [group] = parsePattern('(U(-9)?){2}');
+
+    expect(group).toMatchObject({ kind: 'group', min: 2, max: 2 });
+    if (group?.kind !== 'group') throw new Error('expected group');
+    expect(group.tokens[1]).toMatchObject({ kind: 'group', min: 0, max: 1 });
+  });
+
+  it('should reject unknown placeholders', () => {
+    expect(() => parsePattern('Ux')).toThrow('Unknown placeholder "x"');
+  });
+
+  it('should reject malformed patterns', () => {
+    expect(() => parsePattern('')).toThrow('must not be empty');
+    expect(() => parsePattern('(U')).toThrow('Unterminated group');
+    expect(() => parsePattern('U)')).toThrow('Unexpected ")"');
+    expect(() => parsePattern('[abc')).toThrow('Unterminated character class');
+    expect(() => parsePattern("'abc")).toThrow('Unterminated quoted literal');
+    expect(() => parsePattern('{2}')).toThrow('nothing to repeat');
+    expect(() => parsePattern('9{3,1}')).toThrow('min <= max');
+    expect(() => parsePattern('9{x}')).toThrow('Invalid quantifier');
+  });
+});
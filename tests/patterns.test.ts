@@ -0,0 +1,128 @@
+/**
+ * Tests for pattern normalization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getPatternViews, matchPatternViews, findKeyboardWalks } from '../src/analyzer/patterns';
+import { quickStrengthCheck } from '../src/analyzer/quick-check';
+import { generatePassphrase } from '../src/generators/passphrase';
+import { loadWordlist, isWordlistLoaded } from '../src/generators/wordlists';
+import { createSeededRandomSource } from '../src/utils/random';
+
+describe('Pattern Normalization', () => {
+  describe('getPatternViews', () => {
+    it('should read the password lowercased, de-leeted and reversed', () => {
+      expect(getPatternViews('P@55')).toEqual([
+        { text: 'p@55', l33t: false, reversed: false },
+        { text: 'pass', l33t: true, reversed: false },
+        { text: '55@p', l33t: false, reversed: true },
+        { text: 'ssap', l33t: true, reversed: true },
+      ]);
+    });
+
+    it('should try both readings of ambiguous characters', () => {
+      const texts = getPatternViews('1ett3r').map(view => view.text);
+
+      expect(texts).toContain('ietter');
+      expect(texts).toContain('letter');
+    });
+  });
+
+  describe('matchPatternViews', () => {
+    it('should locate matches in the password as typed', () => {
+      expect(matchPatternViews('x-Drowss@p!', /password/)).toMatchObject({
+        token: 'Drowss@p',
+        start: 2,
+        end: 10,
+        l33t: true,
+        reversed: true,
+      });
+      expect(matchPatternViews('x-Password', /password/)).toMatchObject({ l33t: false, reversed: false });
+      expect(matchPatternViews('x-Pastword', /password/)).toBeNull();
+    });
+  });
+
+  describe('findKeyboardWalks', () => {
+    it('should find walks typed with and without Shift', () => {
+      expect(findKeyboardWalks('!QAZ2wsx')).toEqual([
+        { token: '!QAZ', start: 0, end: 4, layout: 'qwerty' },
+        { token: '2wsx', start: 4, end: 8, layout: 'qwerty' },
+      ]);
+    });
+
+    it('should know AZERTY, QWERTZ and Dvorak', () => {
+      expect(findKeyboardWalks('xx-wxcv', ['azerty'])).toMatchObject([{ token: 'wxcv', layout: 'azerty' }]);
+      expect(findKeyboardWalks('xx-yxcvb', ['qwertz'])).toMatchObject([{ token: 'yxcvb', layout: 'qwertz' }]);
+      expect(findKeyboardWalks('xx-htns', ['dvorak'])).toMatchObject([{ token: 'htns', layout: 'dvorak' }]);
+      expect(findKeyboardWalks('xx-htns', ['qwerty'])).toEqual([]);
+    });
+
+    it('should keep the longest walk where layouts overlap', () => {
+      expect(findKeyboardWalks('ytrewq').map(walk => walk.token)).toEqual(['ytrewq']);
+    });
+
+    it('should ignore short runs and back-and-forth words', () => {
+      expect(findKeyboardWalks('qwe')).toEqual([]);
+      expect(findKeyboardWalks('were')).toEqual([]);
+      expect(findKeyboardWalks('Correct-Horse-Battery-Staple')).toEqual([]);
+    });
+
+    it('should require five keys unless the run is straight', () => {
+      expect(findKeyboardWalks('fred')).toEqual([]);
+      expect(findKeyboardWalks('drew')).toEqual([]);
+      expect(findKeyboardWalks('xx-asdf').map(walk => walk.token)).toEqual(['asdf']);
+      expect(findKeyboardWalks('xx-zaq1').map(walk => walk.token)).toEqual(['zaq1']);
+      expect(findKeyboardWalks('xx-qwsx').map(walk => walk.token)).toEqual([]);
+      expect(findKeyboardWalks('xx-qwsxc').map(walk => walk.token)).toEqual(['qwsxc']);
+    });
+
+    it('should need an extra key for runs inside a word', () => {
+      expect(isWordlistLoaded('eff-large')).toBe(false);
+      ['property', 'liberty', 'Giga-Hertz-42', 'stargazer', 'blazer', 'prewashed', 'rewash', 'strewn'].forEach(word => {
+        expect(findKeyboardWalks(word)).toEqual([]);
+      });
+      expect(findKeyboardWalks('passwordasdfg').map(walk => walk.token)).toEqual(['asdfg']);
+      expect(findKeyboardWalks('Qwerty123').map(walk => walk.token)).toEqual(['Qwerty']);
+    });
+
+    it('should not depend on which wordlists are loaded', async () => {
+      const password = 'Stargazer-Hertz-Mango-91';
+      const before = quickStrengthCheck(password);
+      const words = await loadWordlist('eff-large');
+
+      expect(quickStrengthCheck(password)).toEqual(before);
+      expect(words.filter(word => findKeyboardWalks(word).length > 0)).toEqual([]);
+      expect((await loadWordlist('basic')).filter(word => findKeyboardWalks(word).length > 0)).toEqual([]);
+    });
+
+    it('should find no walks in EFF passphrases', async () => {
+      await loadWordlist('eff-large');
+      const random = createSeededRandomSource('eff-walks');
+
+      for (let i = 0; i < 100; i++) {
+        const { password } = generatePassphrase(
+          { wordCount: 6, separator: 'dash', capitalize: 'first', includeNumbers: false, wordlist: 'eff-large' },
+          random
+        );
+        expect(findKeyboardWalks(password)).toEqual([]);
+      }
+    });
+
+    it('should keep the quick check under a millisecond', async () => {
+      await loadWordlist('eff-large');
+      const passwords = ['!QAZ2wsx-qwerty', 'Tr0ub4dor&3', 'Correct-Horse-Battery-Staple-1234', 'x'.repeat(64)];
+      passwords.forEach(password => quickStrengthCheck(password));
+
+      const runs = 200;
+      const started = performance.now();
+      for (let i = 0; i < runs; i++) {
+        for (const password of passwords) {
+          quickStrengthCheck(password);
+        }
+      }
+      const perCheck = (performance.now() - started) / (runs * passwords.length);
+
+      expect(perCheck).toBeLessThan(1);
+    });
+  });
+});
@@ -124,6 +124,14 @@ describe('Common Password Blocklist', () => {
     expect(blocklist).toBeDefined();
   });
 
+  it('should see through leetspeak and reversal', async () => {
+    for (const pwd of ['P@55w0rd', 'drowssap', '$h4d0w']) {
+      const result = await validatePassword(pwd, { minLength: 1 });
+
+      expect(result.violations.map(v => v.code)).toContain('COMMON_PASSWORD');
+    }
+  });
+
   it('should allow uncommon passwords', async () => {
     const password = 'VeryUniquePassword2024!ForTesting';
     const result = await validatePassword(password);
@@ -142,6 +150,16 @@ describe('Pattern Detection', () => {
     expect(pattern?.details).toContain('keyboard pattern');
   });
 
+  it('should detect keyboard walks on other layouts and with Shift', async () => {
+    const passwords = ['!QAZ2wsx-Orchard', 'Orchard-azertyuiop', 'Orchard-aoeuidhtns'];
+
+    for (const pwd of passwords) {
+      const result = await validatePassword(pwd, { minLength: 10 });
+
+      expect(result.violations.map(v => v.code)).toContain('KEYBOARD_PATTERN');
+    }
+  });
+
   it('should detect repetitive patterns', async () => {
     const result = await validatePassword('aaaabbbbccccdddd', { minLength: 10 });
 
@@ -446,6 +464,43 @@ describe('Batch Validation', () => {
   });
 });
 
+describe('Violation Codes', () => {
+  it('should carry length limits as parameters', async () => {
+    const short = await validatePassword('short');
+    const long = await validatePassword('x'.repeat(30), { maxLength: 20 });
+
+    expect(short.violations[0]).toMatchObject({ code: 'TOO_SHORT', params: { minLength: 15, length: 5 } });
+    expect(long.violations[0]).toMatchObject({ code: 'TOO_LONG', params: { maxLength: 20, length: 30 } });
+  });
+
+  it('should name the matched pattern', async () => {
+    const result = await validatePassword('zyxwvutsrqp1987!', { minLength: 8 });
+    const codes = result.violations.map(v => [v.code, v.params]);
+
+    expect(codes).toContainEqual(['SEQUENTIAL_PATTERN', { pattern: 'xyz', reversed: true }]);
+    expect(codes).toContainEqual(['DATE_PATTERN', { year: '1987' }]);
+  });
+
+  it('should code blocklist, context and custom rule violations', async () => {
+    const rule: ValidationRule = {
+      name: 'no-acme',
+      validate: pwd => !pwd.includes('acme'),
+      message: 'No company name',
+      severity: 'warning',
+    };
+    const result = await validatePassword(
+      'acme-jdoe-horse-battery',
+      { customRules: [rule] },
+      { username: 'jdoe' }
+    );
+    const blocked = await validatePassword('password');
+
+    expect(result.violations.find(v => v.code === 'CONTEXT_WORD')?.params).toEqual({ words: ['username'] });
+    expect(result.violations.find(v => v.code === 'CUSTOM_RULE')?.params).toEqual({ rule: 'no-acme' });
+    expect(blocked.violations.map(v => v.code)).toContain('COMMON_PASSWORD');
+  });
+});
+
 describe('Edge Cases', () => {
   it('should handle empty password', async () => {
     const result = await validatePassword('');
@@ -0,0 +1,190 @@
+/**
+ * Tests for random sources and unbiased sampling
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  webCryptoRandomSource,
+  createSeededRandomSource,
+  secureRandomInt,
+  secureRandomInts,
+  secureChoice,
+  secureShuffle,
+  type RandomSource,
+} from '../src/utils/random';
+import {
+  generatePassword,
+  generatePronounceablePassword,
+  generateFromPattern,
+  getDefaultOptions,
+} from '../src/generators/password';
+import { generatePassphrase, getDefaultPassphraseOptions } from '../src/generators/passphrase';
+import { generateUnicodePassword, CharsetType } from '../src/generators/unicode';
+
+describe('Random Sources', () => {
+  describe('webCryptoRandomSource', () => {
+    it('should fill and return the given array', () => {
+      const array = new Uint8Array(32);
+      const result = webCryptoRandomSource.getRandomValues(array);
+
+      expect(result).toBe(array);
+      expect(array.some(byte => byte !== 0)).toBe(true);
+    });
+  });
+
+  describe('createSeededRandomSource', () => {
+    it('should produce the same bytes for the same seed', () => {
+      const a = createSeededRandomSource('seed').getRandomValues(new Uint8Array(100));
+      const b = createSeededRandomSource('seed').getRandomValues(new Uint8Array(100));
+
+      expect(a).toEqual(b);
+    });
+
+    it('should produce different bytes for different seeds', () => {
+      const a = createSeededRandomSource('seed-1').getRandomValues(new Uint8Array(32));
+      const b = createSeededRandomSource('seed-2').getRandomValues(new Uint8Array(32));
+
+      expect(a).not.toEqual(b);
+    });
+
+    it('should produce a continuous stream regardless of read sizes', () => {
+      const whole = createSeededRandomSource(42).getRandomValues(new Uint8Array(70));
+
+      const source = createSeededRandomSource(42);
+      const pieces = [1, 31, 2, 36].map(size => Array.from(source.getRandomValues(new Uint8Array(size))));
+
+      expect(pieces.flat()).toEqual(Array.from(whole));
+    });
+  });
+
+  describe('secureRandomInt', () => {
+    it('should stay within range', () => {
+      for (const max of [1, 2, 7, 256, 257, 20992, 2 ** 32]) {
+        for (let i = 0; i < 50; i++) {
+          const value = secureRandomInt(max);
+          expect(Number.isInteger(value)).toBe(true);
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThan(max);
+        }
+      }
+    });
+
+    it('should reach values above one byte for large ranges', () => {
+      const values = secureRandomInts(20992, 200);
+      expect(values.some(value => value >= 256)).toBe(true);
+    });
+
+    it('should be roughly uniform', () => {
+      const counts = new Array<number>(6).fill(0);
+      for (const value of secureRandomInts(6, 6000)) {
+        counts[value]!++;
+      }
+      for (const count of counts) {
+        expect(count).toBeGreaterThan(850);
+        expect(count).toBeLessThan(1150);
+      }
+    });
+
+    it('should reject invalid ranges', () => {
+      expect(() => secureRandomInt(0)).toThrow('Range must be an integer');
+      expect(() => secureRandomInt(2.5)).toThrow('Range must be an integer');
+      expect(() => secureRandomInt(2 ** 32 + 1)).toThrow('Range must be an integer');
+    });
+
+    it('should discard values from the incomplete top block', () => {
+      // 250 and 200 fall outside the largest multiple of 100 that fits a byte
+      const bytes = [250, 200, 42];
+      const source: RandomSource = {
+        getRandomValues: array => {
+          array.forEach((_, i) => { array[i] = bytes.shift() ?? 0; });
+          return array;
+        },
+      };
+
+      expect(secureRandomInt(100, source)).toBe(42);
+    });
+  });
+
+  describe('secureRandomInts', () => {
+    it('should batch draws into a single call', () => {
+      const source: RandomSource = {
+        getRandomValues: vi.fn((array: Uint8Array) => {
+          array.fill(1);
+          return array;
+        }),
+      };
+
+      expect(secureRandomInts(10, 100, source)).toHaveLength(100);
+      expect(source.getRandomValues).toHaveBeenCalledTimes(1);
+    });
+
+    it('should split batches larger than the Web Crypto quota', () => {
+      expect(secureRandomInts(2 ** 32, 20000)).toHaveLength(20000);
+    });
+  });
+
+  describe('secureChoice', () => {
+    it('should pick an element of the array', () => {
+      const items = ['red', 'green', 'blue'];
+      expect(items).toContain(secureChoice(items));
+    });
+
+    it('should not split astral characters in strings', () => {
+      for (let i = 0; i < 20; i++) {
+        expect(['😀', '😎', '🤖']).toContain(secureChoice('😀😎🤖'));
+      }
+    });
+
+    it('should reject empty input', () => {
+      expect(() => secureChoice([])).toThrow('empty');
+      expect(() => secureChoice('')).toThrow('empty');
+    });
+  });
+
+  describe('secureShuffle', () => {
+    it('should return a permutation without mutating the input', () => {
+      const items = Array.from({ length: 50 }, (_, i) => i);
+      const shuffled = secureShuffle(items);
+
+      expect(items).toEqual(Array.from({ length: 50 }, (_, i) => i));
+      expect([...shuffled].sort((a, b) => a - b)).toEqual(items);
+    });
+
+    it('should produce every ordering of a small array', () => {
+      const seen = new Set<string>();
+      for (let i = 0; i < 300; i++) {
+        seen.add(secureShuffle(['a', 'b', 'c']).join(''));
+      }
+      expect(seen.size).toBe(6);
+    });
+  });
+
+  describe('generator integration', () => {
+    it('should make every generator reproducible with a seeded source', () => {
+      const run = (seed: string) => [
+        generatePassword(getDefaultOptions(), createSeededRandomSource(seed)).password,
+        generatePronounceablePassword(12, createSeededRandomSource(seed)).password,
+        generateFromPattern('LLLL-9999-w', createSeededRandomSource(seed)).password,
+        generatePassphrase(getDefaultPassphraseOptions(), createSeededRandomSource(seed)).password,
+        generateUnicodePassword({ length: 12, charsetType: CharsetType.Cyrillic }, createSeededRandomSource(seed)).password,
+      ];
+
+      expect(run('fixture')).toEqual(run('fixture'));
+      expect(run('fixture')).not.toEqual(run('other'));
+    });
+
+    it('should draw from a custom source instead of Web Crypto', () => {
+      const custom: RandomSource = {
+        getRandomValues: vi.fn((array: Uint8Array) => crypto.getRandomValues(array)),
+      };
+      const spy = vi.spyOn(crypto, 'getRandomValues');
+
+      generatePassword(getDefaultOptions(), custom);
+      generatePassphrase(getDefaultPassphraseOptions(), custom);
+
+      expect(custom.getRandomValues).toHaveBeenCalled();
+      expect(spy).toHaveBeenCalledTimes(vi.mocked(custom.getRandomValues).mock.calls.length);
+      spy.mockRestore();
+    });
+  });
+});
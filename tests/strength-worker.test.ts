@@ -0,0 +1,123 @@
+/**
+ * Tests for worker-backed strength analysis
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createStrengthWorker, exposeStrengthAnalyzer } from '../src/analyzer/strength-worker';
+import { analyzePasswordStrength } from '../src/analyzer/strength';
+
+/**
+ * A worker and its global scope, connected like postMessage: messages are
+ * cloned and delivered in a later task
+ */
+function createWorkerPair() {
+  const port = new EventTarget();
+  const scope = new EventTarget();
+  const deliver = (target: EventTarget, data: unknown) => {
+    setTimeout(() => target.dispatchEvent(new MessageEvent('message', { data: structuredClone(data) })), 0);
+  };
+
+  const sent: unknown[] = [];
+  const received: unknown[] = [];
+
+  return {
+    port: Object.assign(port, {
+      postMessage: (data: unknown) => {
+        sent.push(data);
+        deliver(scope, data);
+      },
+      terminate: vi.fn(),
+    }),
+    scope: Object.assign(scope, {
+      postMessage: (data: unknown) => {
+        received.push(data);
+        deliver(port, data);
+      },
+    }),
+    sent,
+    received,
+  };
+}
+
+describe('Strength Worker', () => {
+  it('should analyze in the worker', async () => {
+    const { port, scope } = createWorkerPair();
+    exposeStrengthAnalyzer(scope);
+    const strengthWorker = createStrengthWorker({ worker: port });
+
+    const result = await strengthWorker.analyze('correct-horse-battery', { userInputs: ['horse'] });
+    const expected = await analyzePasswordStrength('correct-horse-battery', { userInputs: ['horse'] });
+
+    expect(strengthWorker.offloaded).toBe(true);
+    expect(result).toEqual(expected);
+  });
+
+  it('should drop superseded requests without analyzing them', async () => {
+    const { port, scope, sent, received } = createWorkerPair();
+    exposeStrengthAnalyzer(scope);
+    const strengthWorker = createStrengthWorker({ worker: port });
+
+    const first = strengthWorker.analyze('c');
+    const second = strengthWorker.analyze('co');
+    const third = strengthWorker.analyze('cor');
+
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(second).rejects.toMatchObject({ name: 'AbortError' });
+    expect((await third).crackTimeSeconds).toBeGreaterThan(0);
+
+    expect(sent).toContainEqual({ type: 'cancel', id: 1 });
+    expect(received).toEqual([expect.objectContaining({ type: 'result', id: 3 })]);
+  });
+
+  it('should cancel a request with an abort signal', async () => {
+    const { port, scope, received } = createWorkerPair();
+    exposeStrengthAnalyzer(scope);
+    const strengthWorker = createStrengthWorker({ worker: port });
+    const controller = new AbortController();
+
+    const pending = strengthWorker.analyze('correct-horse', {}, controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(strengthWorker.analyze('x', {}, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(received).toEqual([]);
+  });
+
+  it('should analyze on the main thread when workers are unavailable', async () => {
+    const factory = vi.fn();
+    const strengthWorker = createStrengthWorker({ worker: factory });
+
+    const result = await strengthWorker.analyze('P@ssw0rd1987');
+
+    expect(factory).not.toHaveBeenCalled();
+    expect(strengthWorker.offloaded).toBe(false);
+    expect(result.matches.length).toBeGreaterThan(0);
+  });
+
+  it('should finish on the main thread if the worker fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { port } = createWorkerPair();
+    const strengthWorker = createStrengthWorker({ worker: port });
+
+    const pending = strengthWorker.analyze('correct-horse');
+    port.dispatchEvent(new Event('error'));
+
+    expect((await pending).score).toBeGreaterThan(0);
+    expect(strengthWorker.offloaded).toBe(false);
+    expect(port.terminate).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should reject requests after terminate', async () => {
+    const { port } = createWorkerPair();
+    const strengthWorker = createStrengthWorker({ worker: port });
+
+    const pending = strengthWorker.analyze('correct-horse');
+    strengthWorker.terminate();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(strengthWorker.analyze('x')).rejects.toThrow('Strength worker has been terminated');
+    expect(port.terminate).toHaveBeenCalled();
+  });
+});
@@ -7,6 +7,8 @@ import { analyzePasswordStrength } from '../src/analyzer/strength';
 import {
   quickStrengthCheck,
   meetsMinimumRequirements,
+  getRequirementsPreset,
+  type RequirementsPresetName,
 } from '../src/analyzer/quick-check';
 
 describe('Password Strength Analyzer', () => {
@@ -75,6 +77,149 @@ describe('Password Strength Analyzer', () => {
       expect(diverse.score).toBeGreaterThan(simple.score);
       expect(diverse.entropy).toBeGreaterThan(simple.entropy);
     });
+
+    describe('crack times', () => {
+      it('should estimate every attack scenario', async () => {
+        const result = await analyzePasswordStrength('correcthorse');
+        const { onlineThrottled, onlineUnthrottled, offlineSlowHash, offlineFastHash } = result.crackTimes;
+
+        expect(onlineUnthrottled.guessesPerSecond).toBe(10);
+        expect(offlineSlowHash.guessesPerSecond).toBe(1e4);
+        expect(offlineFastHash.guessesPerSecond).toBe(1e10);
+        expect(onlineThrottled.seconds).toBeGreaterThan(onlineUnthrottled.seconds);
+        expect(onlineUnthrottled.seconds).toBeGreaterThan(offlineSlowHash.seconds);
+        expect(offlineSlowHash.seconds).toBeGreaterThan(offlineFastHash.seconds);
+        expect(offlineSlowHash.seconds).toBeCloseTo(onlineUnthrottled.seconds / 1000);
+        expect(offlineFastHash.display).toBe('instant');
+        expect(result.crackTimes.custom).toBeUndefined();
+      });
+
+      it('should keep the headline crack time on the unthrottled online scenario', async () => {
+        const result = await analyzePasswordStrength('Tr0ub4dor&3');
+        expect(result.crackTimeSeconds).toBe(result.crackTimes.onlineUnthrottled.seconds);
+        expect(result.crackTime).toBe(result.crackTimes.onlineUnthrottled.display);
+      });
+
+      it('should add a custom scenario for a hash algorithm', async () => {
+        const sha256 = await analyzePasswordStrength('Tr0ub4dor&3', { hashAlgorithm: 'sha256' });
+        const argon2 = await analyzePasswordStrength('Tr0ub4dor&3', { hashAlgorithm: 'argon2id' });
+
+        expect(sha256.crackTimes.custom).toMatchObject({ hashAlgorithm: 'sha256', guessesPerSecond: 1e10 });
+        expect(sha256.crackTimes.custom!.seconds).toBe(sha256.crackTimes.offlineFastHash.seconds);
+        expect(argon2.crackTimes.custom!.guessesPerSecond).toBe(1e7);
+        expect(argon2.crackTimes.custom!.seconds).toBeCloseTo(sha256.crackTimes.custom!.seconds * 1000);
+      });
+
+      it('should report instant crack times for an empty password', async () => {
+        const result = await analyzePasswordStrength('', { hashAlgorithm: 'bcrypt' });
+        expect(result.crackTimes.offlineSlowHash).toEqual({ guessesPerSecond: 1e4, seconds: 0, display: 'instant' });
+        expect(result.crackTimes.custom!.display).toBe('instant');
+      });
+    });
+
+    describe('matches', () => {
+      it('should locate the weak parts of a password', async () => {
+        const password = 'P@ssw0rd1987';
+        const result = await analyzePasswordStrength(password);
+
+        expect(result.matches).toEqual([
+          expect.objectContaining({ token: 'P@ssw0rd', start: 0, end: 8, pattern: 'l33t' }),
+          expect.objectContaining({ token: '1987', start: 8, end: 12, pattern: 'date' }),
+        ]);
+        for (const match of result.matches) {
+          expect(password.slice(match.start, match.end)).toBe(match.token);
+          expect(match.guesses).toBeGreaterThan(0);
+        }
+      });
+
+      it('should include the custom pattern checks, sorted by position', async () => {
+        const result = await analyzePasswordStrength('qwerty12345');
+
+        expect(result.matches).toContainEqual(
+          expect.objectContaining({ token: 'qwert', start: 0, end: 5, pattern: 'spatial' })
+        );
+        expect(result.matches).toContainEqual(
+          expect.objectContaining({ token: '12345', start: 6, end: 11, pattern: 'spatial' })
+        );
+        const starts = result.matches.map(match => match.start);
+        expect(starts).toEqual([...starts].sort((a, b) => a - b));
+      });
+
+      it('should report no matches for random or empty passwords', async () => {
+        expect((await analyzePasswordStrength('xK9#mQ2$vL')).matches).toEqual([]);
+        expect((await analyzePasswordStrength('')).matches).toEqual([]);
+      });
+    });
+
+    describe('user inputs and context', () => {
+      const password = 'Zorblatt-Quennington7';
+
+      it('should score passwords built from user inputs lower', async () => {
+        const plain = await analyzePasswordStrength(password);
+        const informed = await analyzePasswordStrength(password, { userInputs: ['Zorblatt', 'quennington'] });
+
+        expect(informed.score).toBeLessThan(plain.score);
+        expect(informed.crackTimeSeconds).toBeLessThan(plain.crackTimeSeconds);
+        expect(informed.weaknesses).toContain('Contains personal or site-specific information');
+        expect(plain.weaknesses).not.toContain('Contains personal or site-specific information');
+      });
+
+      it('should use the validation context as user inputs', async () => {
+        const plain = await analyzePasswordStrength(password);
+        const informed = await analyzePasswordStrength(password, {
+          context: { firstName: 'Zorblatt', email: 'quennington@example.com' },
+        });
+
+        expect(informed.crackTimeSeconds).toBeLessThan(plain.crackTimeSeconds);
+        expect(informed.weaknesses).toContain('Contains personal or site-specific information');
+      });
+
+      it('should match usernames without their punctuation', async () => {
+        const result = await analyzePasswordStrength('zorblattquennington!!', { context: { username: 'zorblatt.quennington' } });
+        expect(result.weaknesses).toContain('Contains personal or site-specific information');
+      });
+
+      it('should ignore blank and very short inputs', async () => {
+        const plain = await analyzePasswordStrength(password);
+        const result = await analyzePasswordStrength(password, { userInputs: ['', '  ', 'q'], context: { lastName: undefined } });
+
+        expect(result.weaknesses).toEqual(plain.weaknesses);
+      });
+    });
+
+    describe('issue codes', () => {
+      it('should carry a code and parameters for every weakness', async () => {
+        const result = await analyzePasswordStrength('asdf1987', { userInputs: ['asdf'] });
+
+        expect(result.issues.map(issue => issue.message)).toEqual(result.weaknesses);
+        expect(result.issues).toContainEqual(
+          expect.objectContaining({ code: 'KEYBOARD_PATTERN', params: { pattern: 'asdf' } })
+        );
+        expect(result.issues).toContainEqual(
+          expect.objectContaining({ code: 'DATE_PATTERN', params: { year: '1987' } })
+        );
+        expect(result.issues).toContainEqual(
+          expect.objectContaining({ code: 'CONTEXT_WORD', params: { words: ['asdf'] } })
+        );
+      });
+
+      it('should keep codes and parameters when the locale changes', async () => {
+        const english = await analyzePasswordStrength('abc');
+        const japanese = await analyzePasswordStrength('abc', { locale: 'ja' });
+
+        expect(japanese.issues.map(({ code, params }) => ({ code, params }))).toEqual(
+          english.issues.map(({ code, params }) => ({ code, params }))
+        );
+        expect(english.issues).toContainEqual(
+          expect.objectContaining({ code: 'TOO_SHORT', params: { minLength: 8 } })
+        );
+      });
+
+      it('should report EMPTY for an empty password', async () => {
+        const result = await analyzePasswordStrength('');
+        expect(result.issues).toEqual([{ code: 'EMPTY', message: 'Password is empty', params: {} }]);
+      });
+    });
   });
 
   describe('quickStrengthCheck', () => {
@@ -105,6 +250,14 @@ describe('Password Strength Analyzer', () => {
       expect(unique.score).toBeGreaterThan(common.score);
     });
 
+    it('should see through leetspeak, reversal and keyboard walks', () => {
+      const unique = quickStrengthCheck('Orchard#Lantern9');
+
+      for (const disguised of ['P@55w0rd#Lantern9', 'Drowssap#Lantern9', '!QAZ2wsx#Lantern9']) {
+        expect(quickStrengthCheck(disguised).score).toBe(unique.score - 20);
+      }
+    });
+
     it('should classify strength correctly', () => {
       const weak = quickStrengthCheck('pass');
       const medium = quickStrengthCheck('password123');
@@ -166,10 +319,97 @@ describe('Password Strength Analyzer', () => {
       expect(result.missing.length).toBeGreaterThan(1);
     });
 
+    it('should carry a code for every missing requirement', () => {
+      const result = meetsMinimumRequirements('abc');
+      expect(result.issues.map(issue => issue.code)).toEqual(['TOO_SHORT', 'MISSING_UPPERCASE', 'MISSING_NUMBER']);
+      expect(result.issues[0]?.params).toEqual({ minLength: 8 });
+      expect(result.issues.map(issue => issue.message)).toEqual(result.missing);
+    });
+
     it('should not require symbols', () => {
       // Symbols are recommended but not required
       const result = meetsMinimumRequirements('MyPassword123');
       expect(result.meets).toBe(true);
     });
   });
+
+  describe('requirements profiles', () => {
+    it('should report the status of every requirement', () => {
+      const { requirements } = meetsMinimumRequirements('abcdefgh1');
+      expect(requirements.map(({ id, met }) => ({ id, met }))).toEqual([
+        { id: 'minLength', met: true },
+        { id: 'lowercase', met: true },
+        { id: 'uppercase', met: false },
+        { id: 'number', met: true },
+      ]);
+      expect(requirements[2]).toEqual({
+        id: 'uppercase',
+        met: false,
+        message: 'One uppercase letter',
+        code: 'MISSING_UPPERCASE',
+        params: {},
+      });
+    });
+
+    it('should check only the requirements of a custom profile', () => {
+      const profile = { minLength: 4, maxLength: 6, letter: true, symbol: true };
+
+      expect(meetsMinimumRequirements('ab!d', { profile }).meets).toBe(true);
+      expect(meetsMinimumRequirements('1234567', { profile }).issues).toEqual([
+        { code: 'TOO_LONG', message: 'At most 6 characters', params: { maxLength: 6 } },
+        { code: 'MISSING_LETTER', message: 'One letter', params: {} },
+        { code: 'MISSING_SYMBOL', message: 'One symbol', params: {} },
+      ]);
+    });
+
+    it('should catch banned words in any case, leetspeak or reversed', () => {
+      const profile = { bannedPatterns: ['Acme', /20\d\d$/] };
+
+      for (const password of ['myACMEpass', 'my@cm3pass', 'emcaXYZ']) {
+        expect(meetsMinimumRequirements(password, { profile }).issues).toEqual([
+          { code: 'BANNED_PATTERN', message: 'No common words or patterns', params: { patterns: ['Acme'] } },
+        ]);
+      }
+      expect(meetsMinimumRequirements('spring2024', { profile }).issues[0]?.params).toEqual({ patterns: ['20\\d\\d$'] });
+      expect(meetsMinimumRequirements('spring', { profile }).requirements).toEqual([
+        expect.objectContaining({ id: 'bannedPatterns', met: true, params: { patterns: [] } }),
+      ]);
+    });
+
+    it('should run custom requirements', () => {
+      const profile = {
+        minLength: 4,
+        custom: [{ name: 'noSpaces', validate: (password: string) => !password.includes(' '), message: 'No spaces' }],
+      };
+      const { meets, requirements, issues } = meetsMinimumRequirements('a b c d', { profile, locale: 'de' });
+
+      expect(meets).toBe(false);
+      expect(requirements.map(requirement => requirement.message)).toEqual(['Mindestens 4 Zeichen', 'No spaces']);
+      expect(issues).toEqual([{ code: 'CUSTOM_RULE', message: 'No spaces', params: { rule: 'noSpaces' } }]);
+    });
+
+    it('should check the presets', () => {
+      const ids = (preset: RequirementsPresetName) =>
+        meetsMinimumRequirements('', { profile: preset }).requirements.map(requirement => requirement.id);
+
+      expect(ids('nist')).toEqual(['minLength', 'maxLength']);
+      expect(ids('pci')).toEqual(['minLength', 'letter', 'number']);
+      expect(ids('strict')).toEqual(['minLength', 'lowercase', 'uppercase', 'number', 'symbol', 'bannedPatterns']);
+      expect(meetsMinimumRequirements('Tr0ub4dor&3x', { profile: 'strict' }).meets).toBe(true);
+      expect(meetsMinimumRequirements('Dr@gonSlayer9', { profile: 'strict' }).missing).toEqual(['No common words or patterns']);
+    });
+
+    it('should return presets as copies', () => {
+      const strict = getRequirementsPreset('strict');
+      strict.bannedPatterns?.push('troub');
+
+      expect(meetsMinimumRequirements('Tr0ub4dor&3x', { profile: 'strict' }).meets).toBe(true);
+    });
+
+    it('should reject unknown presets and empty length ranges', () => {
+      expect(() => getRequirementsPreset('hipaa' as RequirementsPresetName)).toThrow('Unknown requirements preset: "hipaa"');
+      expect(() => meetsMinimumRequirements('x', { profile: { minLength: 10, maxLength: 8 } }))
+        .toThrow('minLength (10) must not exceed maxLength (8)');
+    });
+  });
 });
@@ -0,0 +1,165 @@
+/**
+ * Tests for built-in passphrase wordlists
+ */
+
+import { describe, it, expect } from 'vitest';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import {
+  loadWordlist,
+  isWordlistLoaded,
+  getLoadedWordlist,
+  getLanguageWordlist,
+  type PassphraseLanguage,
+  type WordlistName,
+} from '../src/generators/wordlists';
+import { normalizePassword } from '../src/utils/normalize';
+
+describe('Wordlists', () => {
+  describe('loadWordlist', () => {
+    it('should have the basic list available without loading', () => {
+      expect(isWordlistLoaded('basic')).toBe(true);
+      expect(getLoadedWordlist('basic')).toHaveLength(440);
+    });
+
+    it('should load the EFF large list on demand', async () => {
+      const words = await loadWordlist('eff-large');
+
+      expect(words).toHaveLength(7776);
+      expect(words[0]).toBe('abacus');
+      expect(words[7775]).toBe('zoom');
+      expect(isWordlistLoaded('eff-large')).toBe(true);
+      expect(getLoadedWordlist('eff-large')).toBe(words);
+    });
+
+    it('should import each list only once', async () => {
+      const [first, second] = await Promise.all([loadWordlist('eff-short-1'), loadWordlist('eff-short-1')]);
+      expect(first).toBe(second);
+      expect(await loadWordlist('eff-short-1')).toBe(first);
+    });
+
+    it('should reject unknown names', async () => {
+      await expect(loadWordlist('klingon' as WordlistName)).rejects.toThrow('Unknown wordlist: klingon');
+      expect(() => getLoadedWordlist('klingon' as WordlistName)).toThrow('Unknown wordlist');
+    });
+  });
+
+  describe('EFF lists', () => {
+    it.each([
+      ['eff-large', 7776],
+      ['eff-short-1', 1296],
+      ['eff-short-2', 1296],
+    ] as const)('%s should have %i sorted, unique, lowercase words', async (name, size) => {
+      const words = await loadWordlist(name);
+
+      expect(words).toHaveLength(size);
+      expect(new Set(words).size).toBe(size);
+      expect([...words].sort()).toEqual(words);
+      for (const word of words) {
+        expect(word).toMatch(/^[a-z][a-z-]*$/);
+      }
+    });
+
+    it('should keep short list #1 words to five letters', async () => {
+      const words = await loadWordlist('eff-short-1');
+      expect(words.every(word => word.length <= 5)).toBe(true);
+    });
+
+    it('should give every short list #2 word a unique three-letter prefix', async () => {
+      const words = await loadWordlist('eff-short-2');
+      expect(new Set(words.map(word => word.slice(0, 3))).size).toBe(words.length);
+    });
+  });
+
+  describe('part-of-speech lists', () => {
+    it.each([
+      ['en-adjectives', 512],
+      ['en-nouns', 1024],
+      ['en-verbs', 256],
+      ['en-adverbs', 128],
+    ] as const)('%s should have %i sorted, unique, lowercase words', async (name, size) => {
+      const words = await loadWordlist(name);
+
+      expect(words).toHaveLength(size);
+      expect(new Set(words).size).toBe(size);
+      expect([...words].sort()).toEqual(words);
+      for (const word of words) {
+        expect(word).toMatch(/^[a-z]+$/);
+      }
+    });
+
+    it('should hold verbs in the third person singular', async () => {
+      const verbs = await loadWordlist('en-verbs');
+      expect(verbs.every(verb => verb.endsWith('s'))).toBe(true);
+    });
+  });
+
+  describe('BIP39 English list', () => {
+    it('should match the published english.txt byte for byte', async () => {
+      const words = await loadWordlist('bip39-english');
+
+      expect(words).toHaveLength(2048);
+      expect(bytesToHex(sha256(utf8ToBytes(`${words.join('\n')}\n`)))).toBe(
+        '2f5eed53a4727b4bf8880d8f3f199efc90e58503646d9ff8eff3a2ed3b24dbda'
+      );
+    });
+
+    it('should identify every word by its first four letters', async () => {
+      const words = await loadWordlist('bip39-english');
+      expect(new Set(words.map(word => word.slice(0, 4))).size).toBe(2048);
+    });
+  });
+
+  describe('other BIP39 lists', () => {
+    const published: [WordlistName, string][] = [
+      ['bip39-japanese', '2eed0aef492291e061633d7ad8117f1a2b03eb80a29d0e4e3117ac2528d05ffd'],
+      ['bip39-spanish', '46846a5a0139d1e3cb77293e521c2865f7bcdb82c44e8d0a06a2cd0ecba48c0b'],
+      ['bip39-french', 'ebc3959ab7801a1df6bac4fa7d970652f1df76b683cd2f4003c941c63d517e59'],
+      ['bip39-italian', 'd392c49fdb700a24cd1fceb237c1f65dcc128f6b34a8aacb58b59384b5c648c2'],
+      ['bip39-czech', '7e80e161c3e93d9554c2efb78d4e3cebf8fc727e9c52e03b83b94406bdcc95fc'],
+      ['bip39-portuguese', '2685e9c194c82ae67e10ba59d9ea5345a23dc093e92276fc5361f6667d79cd3f'],
+      ['bip39-korean', '9e95f86c167de88f450f0aaf89e87f6624a57f973c67b516e338e8e8b8897f60'],
+      ['bip39-chinese-simplified', '5c5942792bd8340cb8b27cd592f1015edf56a8c5b26276ee18a482428e7c5726'],
+      ['bip39-chinese-traditional', '417b26b3d8500a4ae3d59717d7011952db6fc2fb84b807f3f94ac734e89c1b5f'],
+    ];
+
+    it.each(published)('%s should match the published file byte for byte', async (name, hash) => {
+      const words = await loadWordlist(name);
+
+      expect(words).toHaveLength(2048);
+      expect(new Set(words.map(word => normalizePassword(word, 'NFKD'))).size).toBe(2048);
+      expect(bytesToHex(sha256(utf8ToBytes(`${words.join('\n')}\n`)))).toBe(hash);
+    });
+  });
+
+  describe('localized lists', () => {
+    const languages: PassphraseLanguage[] = ['de', 'es', 'fr', 'it', 'pt', 'nl', 'ja-romaji'];
+
+    it.each(languages)('%s should have 1296 unique, sorted, normalized words', async language => {
+      const words = await loadWordlist(getLanguageWordlist(language));
+
+      expect(words).toHaveLength(1296);
+      expect(new Set(words).size).toBe(1296);
+      expect([...words].sort()).toEqual(words);
+      for (const word of words) {
+        expect(normalizePassword(word)).toBe(word);
+        expect(word).toBe(word.toLowerCase());
+        expect(word).toMatch(/^\p{L}{3,8}$/u);
+      }
+    });
+
+    it('should keep romaji words in plain ASCII', async () => {
+      const words = await loadWordlist('diceware-ja-romaji');
+      expect(words.every(word => /^[a-z]+$/.test(word))).toBe(true);
+    });
+
+    it('should map English to the EFF large list', () => {
+      expect(getLanguageWordlist('en')).toBe('eff-large');
+      expect(getLanguageWordlist('de')).toBe('diceware-de');
+    });
+
+    it('should reject unsupported languages', () => {
+      expect(() => getLanguageWordlist('tlh' as PassphraseLanguage)).toThrow('Unsupported passphrase language: tlh');
+    });
+  });
+});